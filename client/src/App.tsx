@@ -6,17 +6,27 @@ import { TooltipProvider } from "./components/ui/tooltip";
 import { ThemeProvider } from "./components/theme-provider";
 import { AuthProvider } from "./contexts/AuthContext";
 import { AppHeader } from "./components/AppHeader";
+import { BusinessDetailsModal } from "./components/BusinessDetailsModal";
 import HomePage from "./pages/HomePage";
+import AdminImportsPage from "./pages/AdminImportsPage";
+import AdminDuplicatesPage from "./pages/AdminDuplicatesPage";
 import NotFound from "./pages/not-found";
 import { useState } from "react";
 import { useAuth } from "./contexts/AuthContext";
+import { useBusiness } from "./hooks/useBusinesses";
 
 // Removed unused Router function
 
 function AppContent() {
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [globalSearchQuery, setGlobalSearchQuery] = useState<string>('');
-  const { isAuthenticated, logout } = useAuth();
+  // Business picked from the header suggestions, shown without leaving the current page.
+  // Links in digest emails open one with ?business=<id>.
+  const [openBusinessId, setOpenBusinessId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('business')
+  );
+  const { data: openBusiness, isLoading: isBusinessLoading } = useBusiness(openBusinessId ?? '');
+  const { isAuthenticated, user, logout } = useAuth();
 
   const handleSearch = (query: string) => {
     console.log(`Global search: ${query}`);
@@ -37,18 +47,35 @@ function AppContent() {
     <div className="min-h-screen bg-background text-foreground">
       <AppHeader
         onSearch={handleSearch}
+        onOpenBusiness={setOpenBusinessId}
         onShowProfile={handleShowProfile}
         onShowSettings={handleShowSettings}
         onToggleMobileMenu={() => setShowMobileMenu(!showMobileMenu)}
         onLogout={logout}
         isAuthenticated={isAuthenticated}
+        isAdmin={!!user?.isAdmin}
       />
       <main className="flex-1">
         <Switch>
-          <Route path="/" component={() => <HomePage globalSearchQuery={globalSearchQuery} />} />
+          <Route path="/">
+            <HomePage globalSearchQuery={globalSearchQuery} />
+          </Route>
+          <Route path="/admin/imports" component={AdminImportsPage} />
+          <Route path="/admin/duplicates" component={AdminDuplicatesPage} />
           <Route component={NotFound} />
         </Switch>
       </main>
+      <BusinessDetailsModal
+        business={openBusiness?.business}
+        score={openBusiness?.score ?? undefined}
+        changes={openBusiness?.changes}
+        isLoading={isBusinessLoading}
+        isOpen={openBusinessId !== null}
+        onClose={() => {
+          setOpenBusinessId(null);
+          if (window.location.search) window.history.replaceState(null, '', window.location.pathname);
+        }}
+      />
     </div>
   );
 }
@@ -1,30 +1,67 @@
 import { Button } from "../components/ui/button";
-import { Input } from "../components/ui/input";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "../components/ui/dropdown-menu";
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from "../components/ui/command";
 import { ThemeToggle } from "./ThemeToggle";
-import { Search, Building2, User, Settings, Menu, LogOut } from "lucide-react";
+import { NotificationBell } from "./NotificationBell";
+import { Search, Building2, User, Settings, Menu, LogOut, History, Factory, MapPin, Shield, Upload, Copy } from "lucide-react";
 import { useState } from "react";
+import { Link } from "wouter";
+import { useAutocomplete } from "../hooks/useAutocomplete";
+import { type AutocompleteSuggestion, type AutocompleteSuggestionType } from "@shared/schema";
 
 interface AppHeaderProps {
   onSearch: (query: string) => void;
+  onOpenBusiness?: (id: string) => void;
   onShowProfile: () => void;
   onShowSettings: () => void;
   onToggleMobileMenu?: () => void;
   onLogout?: () => void;
   isAuthenticated?: boolean;
+  // Shows the admin tools menu
+  isAdmin?: boolean;
 }
 
-export function AppHeader({ onSearch, onShowProfile, onShowSettings, onToggleMobileMenu, onLogout, isAuthenticated }: AppHeaderProps) {
+const suggestionGroups: { type: AutocompleteSuggestionType; heading: string; icon: typeof Search }[] = [
+  { type: "recent", heading: "Recent searches", icon: History },
+  { type: "business", heading: "Businesses", icon: Building2 },
+  { type: "industry", heading: "Industries", icon: Factory },
+  { type: "city", heading: "Locations", icon: MapPin }
+];
+
+export function AppHeader({ onSearch, onOpenBusiness, onShowProfile, onShowSettings, onToggleMobileMenu, onLogout, isAuthenticated, isAdmin }: AppHeaderProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const { data: autocomplete } = useAutocomplete(searchQuery);
+  const suggestions = searchQuery.trim() ? autocomplete?.suggestions ?? [] : [];
+
+  const handleSearch = (query: string = searchQuery) => {
+    if (query.trim()) {
+      setSearchQuery(query);
+      setShowSuggestions(false);
+      onSearch(query.trim());
+    }
+  };
 
-  const handleSearch = () => {
-    if (searchQuery.trim()) {
-      onSearch(searchQuery);
+  // Businesses open straight away; every other suggestion runs a search for its text
+  const handleSelectSuggestion = (suggestion: AutocompleteSuggestion) => {
+    if (suggestion.type === "business" && onOpenBusiness) {
+      setShowSuggestions(false);
+      onOpenBusiness(suggestion.value);
+    } else {
+      handleSearch(suggestion.type === "business" ? suggestion.label : suggestion.value);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
+  // Arrow keys and Enter move through and pick suggestions (cmdk); Escape closes the dropdown,
+  // after which Enter searches for the typed text
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setShowSuggestions(false);
+    } else if (e.key === "Enter" && !showSuggestions) {
+      e.preventDefault();
       handleSearch();
+    } else if (e.key !== "Enter") {
+      setShowSuggestions(true);
     }
   };
 
@@ -58,27 +95,78 @@ export function AppHeader({ onSearch, onShowProfile, onShowSettings, onToggleMob
 
           {/* Search Bar */}
           <div className="flex-1 max-w-md mx-4 hidden md:block">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
+            {/* Filtering and ranking happen on the server, so cmdk only handles keyboard selection */}
+            <Command
+              shouldFilter={false}
+              loop
+              onKeyDown={handleKeyDown}
+              className="relative overflow-visible bg-transparent [&_[cmdk-input-wrapper]]:rounded-md [&_[cmdk-input-wrapper]]:border [&_[cmdk-input-wrapper]]:border-input [&_[cmdk-input-wrapper]]:bg-background"
+            >
+              <CommandInput
                 placeholder="Search businesses..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="pl-10 pr-4"
+                onValueChange={(value: string) => {
+                  setSearchQuery(value);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                className="h-9 pr-20"
                 data-testid="input-header-search"
               />
               {searchQuery && (
                 <Button
                   size="sm"
-                  className="absolute right-1 top-1/2 -translate-y-1/2 h-7"
-                  onClick={handleSearch}
+                  className="absolute right-1 top-1 h-7"
+                  onClick={() => handleSearch()}
                   data-testid="button-header-search"
                 >
                   Search
                 </Button>
               )}
-            </div>
+              {showSuggestions && searchQuery.trim() && (
+                <CommandList
+                  className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover shadow-md"
+                  data-testid="list-header-suggestions"
+                >
+                  {/* First item, so Enter runs a plain search unless another suggestion is highlighted */}
+                  <CommandGroup>
+                    <CommandItem
+                      value={`search:${searchQuery}`}
+                      onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+                      onSelect={() => handleSearch()}
+                      data-testid="suggestion-search"
+                    >
+                      <Search className="mr-2 h-4 w-4 text-muted-foreground" />
+                      Search for "{searchQuery.trim()}"
+                    </CommandItem>
+                  </CommandGroup>
+                  {suggestionGroups.map(({ type, heading, icon: Icon }) => {
+                    const items = suggestions.filter(suggestion => suggestion.type === type);
+                    if (items.length === 0) return null;
+                    return (
+                      <CommandGroup key={type} heading={heading}>
+                        {items.map(suggestion => (
+                          <CommandItem
+                            key={`${type}:${suggestion.value}`}
+                            value={`${type}:${suggestion.value}`}
+                            onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+                            onSelect={() => handleSelectSuggestion(suggestion)}
+                            data-testid={`suggestion-${type}-${suggestion.value}`}
+                          >
+                            <Icon className="mr-2 h-4 w-4 text-muted-foreground" />
+                            <span className="truncate">{suggestion.label}</span>
+                            {suggestion.detail && (
+                              <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{suggestion.detail}</span>
+                            )}
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    );
+                  })}
+                </CommandList>
+              )}
+            </Command>
           </div>
 
           {/* Actions */}
@@ -93,6 +181,35 @@ export function AppHeader({ onSearch, onShowProfile, onShowSettings, onToggleMob
               <Search className="h-5 w-5" />
             </Button>
 
+            {/* Saved-search alerts */}
+            {isAuthenticated && <NotificationBell onOpenBusiness={onOpenBusiness} />}
+
+            {/* Admin tools */}
+            {isAuthenticated && isAdmin && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" data-testid="button-admin-menu">
+                    <Shield className="h-5 w-5" />
+                    <span className="hidden sm:inline ml-2">Admin</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <Link href="/admin/imports" data-testid="link-admin-imports">
+                      <Upload className="mr-2 h-4 w-4" />
+                      Import listings
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/admin/duplicates" data-testid="link-admin-duplicates">
+                      <Copy className="mr-2 h-4 w-4" />
+                      Duplicate listings
+                    </Link>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
             {/* Profile */}
             <Button
               variant="ghost"
@@ -1,7 +1,9 @@
 import { Card, CardContent, CardHeader } from "../components/ui/card";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
-import { MapPin, Users, Calendar, Star, ExternalLink } from "lucide-react";
+import { MapPin, Users, Calendar, Star, ExternalLink, TrendingDown } from "lucide-react";
+import { HighlightedText } from "./HighlightedText";
+import { type BusinessHighlights, type ListingSourceLink } from "@shared/schema";
 
 interface BusinessCardProps {
   id: string;
@@ -17,7 +19,15 @@ interface BusinessCardProps {
   yearEstablished: number;
   sourceUrl: string;
   sourceSite: string;
+  // Every marketplace the business is listed on, when it's listed on more than one
+  sources?: ListingSourceLink[];
+  // The asking price before a recent cut
+  priceReducedFrom?: number;
   aiScore?: number;
+  // Miles from the searched location, for radius searches
+  distanceMiles?: number;
+  // Where the text query matched; the description is replaced by the excerpt around the match
+  highlights?: BusinessHighlights;
   onViewDetails: (id: string) => void;
   onContact: (id: string) => void;
 }
@@ -36,7 +46,11 @@ export function BusinessCard({
   yearEstablished,
   sourceUrl,
   sourceSite,
+  sources,
+  priceReducedFrom,
   aiScore,
+  distanceMiles,
+  highlights,
   onViewDetails,
   onContact
 }: BusinessCardProps) {
@@ -61,8 +75,23 @@ export function BusinessCard({
     <Card className="hover-elevate" data-testid={`card-business-${id}`}>
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
         <div className="flex items-center gap-2">
-          <h3 className="text-lg font-semibold" data-testid={`text-business-name-${id}`}>{name}</h3>
-          <Badge variant="secondary" data-testid={`badge-industry-${id}`}>{industry}</Badge>
+          <h3 className="text-lg font-semibold" data-testid={`text-business-name-${id}`}>
+            <HighlightedText text={name} ranges={highlights?.fields.name} />
+          </h3>
+          <Badge variant="secondary" data-testid={`badge-industry-${id}`}>
+            <HighlightedText text={industry} ranges={highlights?.fields.industry} />
+          </Badge>
+          {priceReducedFrom !== undefined && (
+            <Badge
+              variant="outline"
+              className="border-green-600 text-green-700 dark:text-green-400"
+              title={`Was ${formatCurrency(priceReducedFrom)}`}
+              data-testid={`badge-price-reduced-${id}`}
+            >
+              <TrendingDown className="h-3 w-3 mr-1" />
+              Price reduced
+            </Badge>
+          )}
         </div>
         {aiScore !== undefined && (
           <div className="flex items-center gap-1">
@@ -87,17 +116,45 @@ export function BusinessCard({
       <CardContent>
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground" data-testid={`text-description-${id}`}>
-            {description}
+            {highlights?.snippet ? (
+              <HighlightedText text={highlights.snippet.text} ranges={highlights.snippet.ranges} />
+            ) : (
+              description
+            )}
           </p>
           
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <MapPin className="h-4 w-4" />
-            <span data-testid={`text-location-${id}`}>{location}</span>
+            <span data-testid={`text-location-${id}`}>
+              <HighlightedText text={location} ranges={highlights?.fields.location} />
+            </span>
+            {distanceMiles !== undefined && (
+              <span data-testid={`text-distance-${id}`}>
+                · {distanceMiles < 1 ? "under 1" : Math.round(distanceMiles)} mi away
+              </span>
+            )}
             <Calendar className="h-4 w-4 ml-2" />
             <span data-testid={`text-established-${id}`}>Est. {yearEstablished}</span>
           </div>
 
-          {sourceUrl && sourceSite && (
+          {sources && sources.length > 1 ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <ExternalLink className="h-4 w-4" />
+              <span className="text-muted-foreground">Listed on:</span>
+              {sources.map(source => (
+                <a
+                  key={source.businessId}
+                  href={source.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                  data-testid={`link-source-${id}-${source.businessId}`}
+                >
+                  {source.sourceSite}
+                </a>
+              ))}
+            </div>
+          ) : sourceUrl && sourceSite && (
             <div className="flex items-center gap-2 text-sm">
               <ExternalLink className="h-4 w-4" />
               <span className="text-muted-foreground">Source:</span>
@@ -14,57 +14,78 @@ import {
   Brain,
   Target,
   Shield,
-  Clock
+  Clock,
+  Scale,
+  History
 } from "lucide-react";
-import { Business, BusinessScore } from "@shared/schema";
+import { Business, BusinessHighlights, BusinessScore, ListingChange, ScoreFactor } from "@shared/schema";
+import { HighlightedText } from "./HighlightedText";
+import { PriceHistoryChart, priceHistoryPoints } from "./PriceHistoryChart";
 
 interface BusinessDetailsModalProps {
   business?: Business;
   score?: BusinessScore;
+  // Where the text query matched, when opened from search results
+  highlights?: BusinessHighlights;
+  // The listing's history, oldest first
+  changes?: ListingChange[];
   isOpen: boolean;
   onClose: () => void;
-  onContact: (id: string) => void;
+  // Without it there is no Contact Seller button
+  onContact?: (id: string) => void;
   isLoading?: boolean;
+  isScoreLoading?: boolean;
+}
+
+const factorIcons: Record<ScoreFactor["key"], { icon: typeof Target; color: string }> = {
+  industry: { icon: Building2, color: "text-purple-600" },
+  location: { icon: MapPin, color: "text-red-600" },
+  budget: { icon: Target, color: "text-blue-600" },
+  size: { icon: Users, color: "text-teal-600" },
+  cashFlowMargin: { icon: TrendingUp, color: "text-emerald-600" },
+  valuation: { icon: Scale, color: "text-indigo-600" },
+  risk: { icon: Shield, color: "text-green-600" },
+  involvement: { icon: Clock, color: "text-orange-600" }
+};
+
+const formatPoints = (points: number) => (Number.isInteger(points) ? points.toString() : points.toFixed(1));
+
+const changeLabels: Record<"askingPrice" | "annualRevenue" | "cashFlow", string> = {
+  askingPrice: "Asking price",
+  annualRevenue: "Revenue",
+  cashFlow: "Cash flow"
+};
+
+// One line of the listing's timeline
+function describeChange(change: ListingChange, formatCurrency: (amount: number) => string): string {
+  switch (change.field) {
+    case "isActive":
+      return change.newValue ? "Listed again" : "Taken off the market";
+    case "description":
+      return "Description updated";
+    default: {
+      const from = Number(change.previousValue);
+      const to = Number(change.newValue);
+      const percent = from ? Math.round(((to - from) / from) * 100) : 0;
+      return `${changeLabels[change.field]} ${formatCurrency(from)} → ${formatCurrency(to)}` +
+        (percent ? ` (${percent > 0 ? "+" : ""}${percent}%)` : "");
+    }
+  }
 }
 
 export function BusinessDetailsModal({ 
   business, 
   score, 
+  highlights,
+  changes = [],
   isOpen, 
   onClose, 
   onContact,
-  isLoading = false 
+  isLoading = false,
+  isScoreLoading = false
 }: BusinessDetailsModalProps) {
-  
-  // Generate deterministic fallback factors based on business.aiScore
-  const generateFallbackFactors = (aiScore: number, businessId: string) => {
-    // Use business ID hash for consistent but varied factors across businesses
-    const hash = businessId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const seed = hash % 10;
-    
-    return {
-      industryFit: Math.min(95, aiScore + (seed % 8) - 4),
-      priceMatch: Math.min(95, aiScore + ((seed + 3) % 8) - 4),
-      locationScore: Math.min(90, 60 + ((seed + 7) % 25)),
-      riskAlignment: Math.min(95, aiScore + ((seed + 1) % 8) - 4),
-      involvementFit: Math.min(95, aiScore + ((seed + 5) % 8) - 4)
-    };
-  };
-
-  // Get factors from score or generate deterministic fallback based on AI score
-  const getFactors = () => {
-    if (score?.factors) {
-      return score.factors;
-    }
-    // Use business.aiScore (from web cache) OR score.score (from API)
-    const aiScore = business?.aiScore ?? score?.score;
-    if (aiScore !== undefined && business?.id) {
-      return generateFallbackFactors(aiScore, business.id);
-    }
-    return null;
-  };
-  
-  const factors = getFactors();
+  const displayScore = score?.score ?? business?.aiScore;
+  const pricePoints = business ? priceHistoryPoints(business.createdAt, changes) : [];
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -87,8 +108,14 @@ export function BusinessDetailsModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-3">
             <Building2 className="h-6 w-6" />
-            {isLoading ? "Loading business details..." : business?.name || "Business Details"}
-            {business?.industry && <Badge variant="secondary">{business.industry}</Badge>}
+            {isLoading ? "Loading business details..." : business?.name ? (
+              <HighlightedText text={business.name} ranges={highlights?.fields.name} />
+            ) : "Business Details"}
+            {business?.industry && (
+              <Badge variant="secondary">
+                <HighlightedText text={business.industry} ranges={highlights?.fields.industry} />
+              </Badge>
+            )}
           </DialogTitle>
           <DialogDescription>
             {isLoading ? "Please wait while we fetch the business information" : "Complete business details and AI compatibility analysis"}
@@ -110,60 +137,54 @@ export function BusinessDetailsModal({
               <CardTitle className="flex items-center gap-2">
                 <Brain className="h-5 w-5 text-primary" />
                 AI Compatibility Score
-                <div className="flex items-center gap-1 ml-auto">
-                  <Star className="h-4 w-4 fill-primary text-primary" />
-                  <span className={`font-bold text-lg ${getScoreColor(business?.aiScore ?? score?.score ?? 0)}`} data-testid={`text-modal-score-${business.id}`}>
-                    {business?.aiScore ?? score?.score ?? 0}/100
-                  </span>
-                </div>
+                {displayScore !== undefined && (
+                  <div className="flex items-center gap-1 ml-auto">
+                    <Star className="h-4 w-4 fill-primary text-primary" />
+                    <span className={`font-bold text-lg ${getScoreColor(displayScore)}`} data-testid={`text-modal-score-${business.id}`}>
+                      {displayScore}/100
+                    </span>
+                  </div>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-sm text-muted-foreground mb-4">
-                {score?.reasoning || `This business scores ${business?.aiScore ?? score?.score ?? 0}/100 for compatibility with your investment criteria.`}
-              </p>
-              
-              {factors && (
-                <div className="space-y-3">
-                  <h4 className="font-semibold text-sm">Compatibility Factors:</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <Target className="h-4 w-4 text-blue-600" />
-                        <span className="text-sm">Price Match</span>
-                      </div>
-                      <span className="font-semibold text-sm">{factors.priceMatch || factors.industryFit || 75}/100</span>
-                    </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <Building2 className="h-4 w-4 text-purple-600" />
-                        <span className="text-sm">Industry Fit</span>
-                      </div>
-                      <span className="font-semibold text-sm">{factors.industryFit || 80}/100</span>
-                    </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <Shield className="h-4 w-4 text-green-600" />
-                        <span className="text-sm">Risk Alignment</span>
-                      </div>
-                      <span className="font-semibold text-sm">{factors.riskAlignment || 78}/100</span>
-                    </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <Clock className="h-4 w-4 text-orange-600" />
-                        <span className="text-sm">Involvement Fit</span>
-                      </div>
-                      <span className="font-semibold text-sm">{factors.involvementFit || 85}/100</span>
-                    </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <MapPin className="h-4 w-4 text-red-600" />
-                        <span className="text-sm">Location Score</span>
-                      </div>
-                      <span className="font-semibold text-sm">{factors.locationScore || 70}/100</span>
+              {score ? (
+                <>
+                  <p className="text-sm text-muted-foreground mb-4">{score.reasoning}</p>
+
+                  <div className="space-y-3">
+                    <h4 className="font-semibold text-sm">Compatibility Factors:</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {score.factors.map((factor) => {
+                        const { icon: Icon, color } = factorIcons[factor.key];
+                        return (
+                          <div key={factor.key} className="p-3 bg-muted/50 rounded-lg" data-testid={`factor-${factor.key}`}>
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                <Icon className={`h-4 w-4 ${color}`} />
+                                <span className="text-sm">{factor.name}</span>
+                              </div>
+                              <span className="font-semibold text-sm">
+                                {formatPoints(factor.pointsAwarded)}/{formatPoints(factor.maxPoints)} pts
+                              </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">{factor.evidence}</p>
+                            <p className="text-xs text-muted-foreground">Weight {factor.weight}</p>
+                          </div>
+                        );
+                      })}
                     </div>
+                    <p className="text-xs text-muted-foreground" data-testid="text-score-breakdown">
+                      {formatPoints(score.baseScore)} base + {formatPoints(score.factors.reduce((sum, factor) => sum + factor.pointsAwarded, 0))} factor points = {score.score}/100
+                    </p>
                   </div>
-                </div>
+                </>
+              ) : isScoreLoading ? (
+                <p className="text-sm text-muted-foreground">Loading compatibility breakdown...</p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Sign in and set your investment preferences to see how this business scores against them.
+                </p>
               )}
             </CardContent>
           </Card>
@@ -175,7 +196,7 @@ export function BusinessDetailsModal({
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-muted-foreground" data-testid={`text-modal-description-${business.id}`}>
-                {business.description}
+                <HighlightedText text={business.description} ranges={highlights?.fields.description} />
               </p>
               
               <div className="flex flex-wrap gap-4 text-sm">
@@ -183,7 +204,7 @@ export function BusinessDetailsModal({
                   <MapPin className="h-4 w-4" />
                   <span className="text-sm">Location:</span>
                   <span className="font-medium" data-testid={`text-modal-location-${business.id}`}>
-                    {business.location}
+                    <HighlightedText text={business.location} ranges={highlights?.fields.location} />
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -202,7 +223,24 @@ export function BusinessDetailsModal({
                 </div>
               </div>
 
-              {business.sourceUrl && business.sourceSite && (
+              {business.sources && business.sources.length > 1 ? (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <ExternalLink className="h-4 w-4" />
+                  <span>Listed on:</span>
+                  {business.sources.map(source => (
+                    <a
+                      key={source.businessId}
+                      href={source.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline font-medium"
+                      data-testid={`link-modal-source-${business.id}-${source.businessId}`}
+                    >
+                      {source.sourceSite}
+                    </a>
+                  ))}
+                </div>
+              ) : business.sourceUrl && business.sourceSite && (
                 <div className="flex items-center gap-2 text-sm">
                   <ExternalLink className="h-4 w-4" />
                   <span>Source:</span>
@@ -234,6 +272,11 @@ export function BusinessDetailsModal({
                   <div className="flex justify-between items-center">
                     <span className="text-muted-foreground">Asking Price</span>
                     <span className="text-xl font-bold text-primary" data-testid={`text-modal-price-${business.id}`}>
+                      {business.priceReducedFrom !== undefined && (
+                        <span className="mr-2 text-sm font-normal text-muted-foreground line-through">
+                          {formatCurrency(business.priceReducedFrom)}
+                        </span>
+                      )}
                       {formatCurrency(business.askingPrice)}
                     </span>
                   </div>
@@ -264,16 +307,47 @@ export function BusinessDetailsModal({
             </CardContent>
           </Card>
 
+          {/* Price History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Price history
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {pricePoints.length > 0 ? (
+                <PriceHistoryChart points={pricePoints} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  The asking price hasn't changed since the listing was first seen on {new Date(business.createdAt).toLocaleDateString()}.
+                </p>
+              )}
+              {changes.length > 0 && (
+                <ul className="space-y-1 text-sm" data-testid={`list-changes-${business.id}`}>
+                  {[...changes].reverse().map(change => (
+                    <li key={change.id} className="flex gap-3">
+                      <span className="w-24 shrink-0 text-muted-foreground">{new Date(change.changedAt).toLocaleDateString()}</span>
+                      <span>{describeChange(change, formatCurrency)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
-            <Button 
-              size="lg" 
-              className="flex-1"
-              onClick={() => onContact(business.id)}
-              data-testid={`button-modal-contact-${business.id}`}
-            >
-              Contact Seller
-            </Button>
+            {onContact && (
+              <Button 
+                size="lg" 
+                className="flex-1"
+                onClick={() => onContact(business.id)}
+                data-testid={`button-modal-contact-${business.id}`}
+              >
+                Contact Seller
+              </Button>
+            )}
             {business.sourceUrl && (
               <Button 
                 size="lg" 
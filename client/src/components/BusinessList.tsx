@@ -1,36 +1,66 @@
 import { BusinessCard } from "./BusinessCard";
 import { BusinessDetailsModal } from "./BusinessDetailsModal";
+import { BusinessMap } from "./BusinessMap";
 import { Button } from "../components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
-import { ArrowUpDown, RefreshCw } from "lucide-react";
-import { useState } from "react";
-import { type Business } from "@shared/schema";
+import { ArrowUpDown, List, Loader2, Map as MapIcon, RefreshCw } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { type Business, type BusinessHighlights, type BusinessSortField, type QueryExpansion } from "@shared/schema";
+import { useBusiness, type SearchSort } from "../hooks/useBusinesses";
 
 interface BusinessListProps {
   businesses: Business[];
+  // Matches across all pages; defaults to the number loaded so far
+  totalCount?: number;
+  // Synonyms and typo corrections the server applied to the text query
+  queryExpansion?: QueryExpansion;
+  // Matched words and description excerpts by business ID
+  highlights?: Record<string, BusinessHighlights>;
   loading?: boolean;
   onViewDetails: (id: string) => void;
   onContact: (id: string) => void;
   onLoadMore?: () => void;
   hasMore?: boolean;
+  isLoadingMore?: boolean;
+  // Sorting happens on the server so it holds across pages
+  sort: SearchSort;
+  onSortChange: (sort: SearchSort) => void;
   onRefresh?: () => void;
 }
 
-type SortOption = "askingPrice" | "annualRevenue" | "cashFlow" | "yearEstablished";
+const sortLabels: Partial<Record<BusinessSortField, string>> = {
+  blended: "Best Match",
+  relevance: "Relevance",
+  score: "AI Score",
+  askingPrice: "Asking Price",
+  annualRevenue: "Annual Revenue",
+  cashFlow: "Cash Flow",
+  yearEstablished: "Year Established",
+  paybackYears: "Payback Period",
+  distance: "Distance"
+};
 
 export function BusinessList({ 
   businesses, 
+  totalCount,
+  queryExpansion,
+  highlights,
   loading = false, 
   onViewDetails,
   onContact, 
   onLoadMore,
   hasMore = false,
+  isLoadingMore = false,
+  sort,
+  onSortChange,
   onRefresh 
 }: BusinessListProps) {
-  const [sortBy, setSortBy] = useState<SortOption>("askingPrice");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [view, setView] = useState<"list" | "map">("list");
+  // The list only carries aiScore; the breakdown comes from the details endpoint
+  const { data: selectedDetails, isLoading: isScoreLoading } = useBusiness(selectedBusiness?.id ?? "");
 
   const handleViewDetails = (id: string) => {
     const business = businesses.find(b => b.id === id);
@@ -48,25 +78,23 @@ export function BusinessList({
 
 
 
-  const sortedBusinesses = [...businesses].sort((a, b) => {
-    const aValue = a[sortBy];
-    const bValue = b[sortBy];
-    
-    if (sortOrder === "desc") {
-      return bValue - aValue;
-    }
-    return aValue - bValue;
-  });
-
-  const handleSort = (option: SortOption) => {
-    if (sortBy === option) {
-      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
-    } else {
-      setSortBy(option);
-      setSortOrder("desc");
-    }
+  // Changing the field starts from its natural direction; the order button flips it
+  const handleSort = (sortBy: BusinessSortField) => {
+    onSortChange({ sortBy, sortOrder: sortBy === "askingPrice" || sortBy === "paybackYears" ? "asc" : "desc" });
   };
 
+  // Infinite scroll - fetch the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || !onLoadMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) onLoadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, isLoadingMore, businesses.length]);
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -99,12 +127,53 @@ export function BusinessList({
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
           <h2 className="text-2xl font-bold" data-testid="text-business-count">
-            {businesses.length} Businesses Found
+            {totalCount ?? businesses.length} Businesses Found
           </h2>
-          <p className="text-muted-foreground">Ranked by AI compatibility score</p>
+          <p className="text-muted-foreground">
+            {sort.sortBy === "score" ? "Ranked by AI compatibility score"
+              : sort.sortBy === "blended" ? "Ranked by search relevance and AI compatibility score"
+              : `Sorted by ${sortLabels[sort.sortBy]?.toLowerCase()}`}
+            {totalCount !== undefined && totalCount > businesses.length && ` - showing ${businesses.length}`}
+          </p>
+          {queryExpansion?.corrections.map(({ term, correctedTo }) => (
+            <p key={`correction-${term}`} className="text-sm text-muted-foreground" data-testid={`text-correction-${term}`}>
+              Showing results for <span className="font-medium text-foreground">{correctedTo.join(", ")}</span> instead of "{term}"
+            </p>
+          ))}
+          {queryExpansion?.synonyms.map(({ term, expandedTo }) => (
+            <p key={`synonym-${term}`} className="text-sm text-muted-foreground" data-testid={`text-synonym-${term}`}>
+              "{term}" also matched <span className="font-medium text-foreground">{expandedTo.join(", ")}</span>
+            </p>
+          ))}
         </div>
 
         <div className="flex items-center gap-2">
+          {/* List / Map Toggle */}
+          <div className="flex rounded-md border">
+            <Button
+              variant={view === "list" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setView("list")}
+              aria-pressed={view === "list"}
+              data-testid="button-view-list"
+              className="gap-2 rounded-r-none"
+            >
+              <List className="h-4 w-4" />
+              List
+            </Button>
+            <Button
+              variant={view === "map" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setView("map")}
+              aria-pressed={view === "map"}
+              data-testid="button-view-map"
+              className="gap-2 rounded-l-none"
+            >
+              <MapIcon className="h-4 w-4" />
+              Map
+            </Button>
+          </div>
+
           {/* Refresh Button */}
           {onRefresh && (
             <Button
@@ -121,22 +190,21 @@ export function BusinessList({
           
 
           {/* Sort Options */}
-          <Select value={sortBy} onValueChange={(value: SortOption) => handleSort(value)} data-testid="select-sort">
+          <Select value={sort.sortBy} onValueChange={(value: BusinessSortField) => handleSort(value)} data-testid="select-sort">
             <SelectTrigger className="w-48">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="askingPrice">Asking Price</SelectItem>
-              <SelectItem value="annualRevenue">Annual Revenue</SelectItem>
-              <SelectItem value="cashFlow">Cash Flow</SelectItem>
-              <SelectItem value="yearEstablished">Year Established</SelectItem>
+              {Object.entries(sortLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setSortOrder(sortOrder === "asc" ? "desc" : "asc")}
+            onClick={() => onSortChange({ ...sort, sortOrder: sort.sortOrder === "asc" ? "desc" : "asc" })}
             data-testid="button-sort-order"
           >
             <ArrowUpDown className="h-4 w-4" />
@@ -144,27 +212,34 @@ export function BusinessList({
         </div>
       </div>
 
-      {/* Business List */}
-      <div className="space-y-4">
-        {sortedBusinesses.map((business) => (
-          <BusinessCard
-            key={business.id}
-            {...business}
-            onViewDetails={handleViewDetails}
-            onContact={onContact}
-          />
-        ))}
-      </div>
+      {/* Business List or Map */}
+      {view === "map" ? (
+        <BusinessMap businesses={businesses} onSelect={handleViewDetails} />
+      ) : (
+        <div className="space-y-4">
+          {businesses.map((business) => (
+            <BusinessCard
+              key={business.id}
+              {...business}
+              highlights={highlights?.[business.id]}
+              onViewDetails={handleViewDetails}
+              onContact={onContact}
+            />
+          ))}
+        </div>
+      )}
 
       {/* Load More */}
       {hasMore && onLoadMore && (
-        <div className="text-center pt-6">
+        <div ref={loadMoreRef} className="text-center pt-6">
           <Button 
             variant="outline" 
             onClick={onLoadMore}
+            disabled={isLoadingMore}
             data-testid="button-load-more"
           >
-            Load More Businesses
+            {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isLoadingMore ? "Loading..." : "Load More Businesses"}
           </Button>
         </div>
       )}
@@ -172,6 +247,10 @@ export function BusinessList({
       {/* Business Details Modal */}
       <BusinessDetailsModal
         business={selectedBusiness}
+        score={selectedDetails?.score ?? undefined}
+        changes={selectedDetails?.changes}
+        highlights={selectedBusiness ? highlights?.[selectedBusiness.id] : undefined}
+        isScoreLoading={isScoreLoading}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         onContact={onContact}
@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { MapPin, X } from "lucide-react";
+import { type Business } from "@shared/schema";
+import { Button } from "../components/ui/button";
+import { Card } from "../components/ui/card";
+import { MAP_HEIGHT, MAP_WIDTH, US_OUTLINE_PATH, clusterPoints, mapInsets, projectPoint, type MapCluster } from "../lib/usMap";
+
+interface BusinessMapProps {
+  businesses: Business[];
+  onSelect: (id: string) => void;
+}
+
+// Markers closer than this (in map units) are drawn as one cluster
+const CLUSTER_RADIUS = 14;
+
+// Same thresholds as the score on BusinessCard
+const scoreFill = (score: number | undefined) => {
+  if (score === undefined) return "#9ca3af";
+  if (score >= 80) return "#16a34a";
+  if (score >= 60) return "#ca8a04";
+  return "#dc2626";
+};
+
+const scoreLegend = [
+  { label: "80+", fill: scoreFill(80) },
+  { label: "60-79", fill: scoreFill(60) },
+  { label: "Under 60", fill: scoreFill(0) },
+  { label: "Not scored", fill: scoreFill(undefined) }
+];
+
+const averageScore = (businesses: Business[]) => {
+  const scores = businesses.map(business => business.aiScore).filter((score): score is number => score !== undefined);
+  return scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : undefined;
+};
+
+const clusterKey = (cluster: MapCluster<Business>) => cluster.items.map(business => business.id).join("|");
+
+// Search results plotted by their gazetteer coordinates; a marker stands for every listing within a few pixels of it
+export function BusinessMap({ businesses, onSelect }: BusinessMapProps) {
+  const [openClusterKey, setOpenClusterKey] = useState<string | null>(null);
+
+  const { clusters, unplaced, usedInsets } = useMemo(() => {
+    const placed = businesses.flatMap(business =>
+      business.lat === null || business.lng === null
+        ? []
+        : [{ ...projectPoint(business.lat, business.lng), item: business }]
+    );
+    return {
+      clusters: clusterPoints(placed, CLUSTER_RADIUS),
+      unplaced: businesses.length - placed.length,
+      usedInsets: mapInsets.filter(inset => placed.some(point => point.inset === inset))
+    };
+  }, [businesses]);
+
+  const openCluster = clusters.find(cluster => clusterKey(cluster) === openClusterKey);
+
+  const handleMarkerClick = (cluster: MapCluster<Business>) => {
+    if (cluster.items.length === 1) {
+      onSelect(cluster.items[0].id);
+    } else {
+      setOpenClusterKey(clusterKey(cluster) === openClusterKey ? null : clusterKey(cluster));
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-4" data-testid="map-results">
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label="Map of search results"
+        >
+          <path d={US_OUTLINE_PATH} className="fill-muted stroke-border" strokeWidth={1.5} strokeLinejoin="round" />
+          {usedInsets.map(inset => (
+            <g key={inset.label}>
+              <rect
+                x={inset.x}
+                y={inset.y}
+                width={inset.width}
+                height={inset.height}
+                rx={4}
+                className="fill-muted stroke-border"
+                strokeDasharray="4 3"
+              />
+              <text x={inset.x + 6} y={inset.y + 14} className="fill-muted-foreground" fontSize={11}>
+                {inset.label}
+              </text>
+            </g>
+          ))}
+          {clusters.map(cluster => {
+            const count = cluster.items.length;
+            const score = averageScore(cluster.items);
+            const title = count === 1
+              ? `${cluster.items[0].name} - ${cluster.items[0].location}${score !== undefined ? ` (score ${score})` : ""}`
+              : `${count} businesses${score !== undefined ? ` (average score ${score})` : ""}`;
+            return (
+              <g
+                key={clusterKey(cluster)}
+                className="cursor-pointer"
+                onClick={() => handleMarkerClick(cluster)}
+                data-testid={`marker-${cluster.items[0].id}`}
+              >
+                <title>{title}</title>
+                <circle
+                  cx={cluster.x}
+                  cy={cluster.y}
+                  r={count === 1 ? 7 : Math.min(8 + Math.sqrt(count) * 3, 20)}
+                  fill={scoreFill(score)}
+                  fillOpacity={0.85}
+                  stroke="white"
+                  strokeWidth={clusterKey(cluster) === openClusterKey ? 3 : 1.5}
+                />
+                {count > 1 && (
+                  <text
+                    x={cluster.x}
+                    y={cluster.y}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fill="white"
+                    fontSize={11}
+                    fontWeight={600}
+                    pointerEvents="none"
+                  >
+                    {count}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Listings under a cluster marker */}
+        {openCluster && (
+          <Card className="absolute right-2 top-2 w-72 max-h-[70%] overflow-y-auto p-2 shadow-lg" data-testid="panel-map-cluster">
+            <div className="flex items-center justify-between px-2 pb-1">
+              <span className="text-sm font-medium">{openCluster.items.length} businesses here</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setOpenClusterKey(null)} data-testid="button-close-cluster">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {openCluster.items.map(business => (
+              <button
+                key={business.id}
+                type="button"
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover-elevate"
+                onClick={() => onSelect(business.id)}
+                data-testid={`button-map-business-${business.id}`}
+              >
+                <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: scoreFill(business.aiScore) }} />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate font-medium">{business.name}</span>
+                  <span className="block truncate text-xs text-muted-foreground">{business.location}</span>
+                </span>
+                {business.aiScore !== undefined && <span className="text-xs font-semibold">{business.aiScore}</span>}
+              </button>
+            ))}
+          </Card>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <div className="flex flex-wrap items-center gap-3">
+          <span>AI score:</span>
+          {scoreLegend.map(({ label, fill }) => (
+            <span key={label} className="flex items-center gap-1">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: fill }} />
+              {label}
+            </span>
+          ))}
+        </div>
+        {unplaced > 0 && (
+          <span className="flex items-center gap-1" data-testid="text-map-unplaced">
+            <MapPin className="h-3 w-3" />
+            {unplaced} {unplaced === 1 ? "listing has" : "listings have"} no mappable location
+          </span>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { type HighlightRange } from "@shared/schema";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: HighlightRange[];
+}
+
+// Renders text with the given ranges (sorted, non-overlapping character offsets) marked
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }, index) => {
+    if (start > position) {
+      parts.push(<span key={`text-${index}`}>{text.slice(position, start)}</span>);
+    }
+    parts.push(
+      <mark key={`match-${index}`} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/30">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(<span key="text-end">{text.slice(position)}</span>);
+  }
+  return <>{parts}</>;
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Bell, CheckCheck } from "lucide-react";
+import { type UserNotification } from "@shared/schema";
+import { Button } from "../components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "../components/ui/popover";
+import { timeAgo } from "../lib/utils";
+import { useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications } from "../hooks/useNotifications";
+
+interface NotificationBellProps {
+  onOpenBusiness?: (id: string) => void;
+}
+
+// Header bell listing saved-search alerts; opening one marks it read and shows the listing
+export function NotificationBell({ onOpenBusiness }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.readAt) markRead.mutate({ id: notification.id, read: true });
+    setOpen(false);
+    onOpenBusiness?.(notification.businessId);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+          data-testid="button-notifications"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground"
+              data-testid="badge-unread-count"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+            No notifications yet. Turn on alerts for a saved search to hear about new matches.
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto py-1">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className="flex w-full gap-2 px-3 py-2 text-left hover-elevate"
+                  onClick={() => handleOpen(notification)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.readAt ? "bg-transparent" : "bg-primary"}`}
+                    aria-hidden
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className={`block truncate text-sm ${notification.readAt ? "" : "font-medium"}`}>
+                      {notification.businessName}
+                    </span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      Matches "{notification.savedSearchName}"
+                      {notification.score !== null && ` · score ${notification.score}`}
+                      {` · ${timeAgo(notification.createdAt)}`}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
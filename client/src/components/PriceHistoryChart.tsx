@@ -0,0 +1,65 @@
+import { type ListingChange } from "@shared/schema";
+
+export interface PricePoint {
+  date: Date;
+  price: number;
+}
+
+// The asking price over time: what the listing started at, then each change to it. Empty when it has never changed.
+export function priceHistoryPoints(listedAt: Date, changes: ListingChange[]): PricePoint[] {
+  const priceChanges = changes.filter(change => change.field === "askingPrice");
+  if (priceChanges.length === 0) return [];
+  const firstChangeAt = new Date(priceChanges[0].changedAt);
+  const start = new Date(Math.min(new Date(listedAt).getTime(), firstChangeAt.getTime()));
+  return [
+    { date: start, price: Number(priceChanges[0].previousValue) },
+    ...priceChanges.map(change => ({ date: new Date(change.changedAt), price: Number(change.newValue) }))
+  ];
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 12, bottom: 24, left: 72 };
+
+const formatPrice = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", notation: "compact", maximumFractionDigits: 2 }).format(amount);
+
+// Step chart of the asking price, held at each value until the next change and carried on to today
+export function PriceHistoryChart({ points }: { points: PricePoint[] }) {
+  const start = points[0].date.getTime();
+  const end = Math.max(Date.now(), points[points.length - 1].date.getTime());
+  const prices = points.map(point => point.price);
+  const spread = Math.max(...prices) - Math.min(...prices) || Math.max(...prices) * 0.1 || 1;
+  const low = Math.min(...prices) - spread * 0.15;
+  const high = Math.max(...prices) + spread * 0.15;
+
+  const x = (time: number) => PAD.left + ((time - start) / (end - start || 1)) * (WIDTH - PAD.left - PAD.right);
+  const y = (price: number) => PAD.top + ((high - price) / (high - low)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const path = points
+    .map((point, index) => index === 0
+      ? `M ${x(point.date.getTime())} ${y(point.price)}`
+      : `H ${x(point.date.getTime())} V ${y(point.price)}`)
+    .join(" ") + ` H ${x(end)}`;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Asking price history" data-testid="chart-price-history">
+      {Array.from(new Set([Math.max(...prices), Math.min(...prices)])).map(price => (
+        <g key={price} className="text-muted-foreground">
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(price)} y2={y(price)} stroke="currentColor" strokeOpacity={0.2} />
+          <text x={PAD.left - 8} y={y(price) + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatPrice(price)}</text>
+        </g>
+      ))}
+      <g className="text-muted-foreground" fontSize={11} fill="currentColor">
+        <text x={PAD.left} y={HEIGHT - 6}>{points[0].date.toLocaleDateString()}</text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end">Today</text>
+      </g>
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={2} className="text-primary" />
+      {points.map((point, index) => (
+        <circle key={index} cx={x(point.date.getTime())} cy={y(point.price)} r={4} className="fill-primary">
+          <title>{`${point.date.toLocaleDateString()}: ${formatPrice(point.price)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { Bell, BellOff, Bookmark, Check, Mail, Pencil, Play, Trash2, X } from "lucide-react";
+import { DEFAULT_ALERT_MIN_SCORE, type DigestFrequency, type SavedSearch } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { useToast } from "../hooks/use-toast";
+import { useDigestSettings, useUpdateDigestSettings } from "../hooks/useDigestSettings";
+import { useCreateSavedSearch, useDeleteSavedSearch, useSavedSearches, useUpdateSavedSearch } from "../hooks/useSavedSearches";
+import { type FilterState, describeSearch, fromSearchQuery } from "../lib/searchFilters";
+
+interface SavedSearchesProps {
+  // The filters currently in the sidebar, saved as they are
+  filters: FilterState;
+  // Loads a saved search into the sidebar and runs it
+  onRun: (filters: FilterState) => void;
+}
+
+export function SavedSearches({ filters, onRun }: SavedSearchesProps) {
+  const { toast } = useToast();
+  const { data } = useSavedSearches();
+  const createSavedSearch = useCreateSavedSearch();
+  const updateSavedSearch = useUpdateSavedSearch();
+  const deleteSavedSearch = useDeleteSavedSearch();
+  const { data: digest } = useDigestSettings();
+  const updateDigest = useUpdateDigestSettings();
+  const [name, setName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const savedSearches = data?.savedSearches ?? [];
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    createSavedSearch.mutate({ name: trimmed, filters }, {
+      onSuccess: () => {
+        setName("");
+        toast({ title: "Search saved", description: `"${trimmed}" is in your saved searches.` });
+      },
+      onError: showError("Couldn't save search")
+    });
+  };
+
+  const startRename = (search: SavedSearch) => {
+    setRenamingId(search.id);
+    setRenameText(search.name);
+  };
+
+  const handleRename = (search: SavedSearch) => {
+    const trimmed = renameText.trim();
+    if (!trimmed || trimmed === search.name) {
+      setRenamingId(null);
+      return;
+    }
+    updateSavedSearch.mutate({ id: search.id, name: trimmed }, {
+      onSuccess: () => setRenamingId(null),
+      onError: showError("Couldn't rename search")
+    });
+  };
+
+  // Alerts come back on at the default threshold
+  const toggleAlerts = (search: SavedSearch) => {
+    updateSavedSearch.mutate(
+      { id: search.id, alertMinScore: search.alertMinScore === null ? DEFAULT_ALERT_MIN_SCORE : null },
+      { onError: showError("Couldn't change alerts") }
+    );
+  };
+
+  const handleDigestChange = (frequency: DigestFrequency) => {
+    updateDigest.mutate(frequency, {
+      onSuccess: () => toast({
+        title: frequency === "off" ? "Email digest turned off" : `You'll get a ${frequency} email digest`,
+        description: frequency === "off" ? undefined : "It lists the top new listings matching your saved searches."
+      }),
+      onError: showError("Couldn't change email digest")
+    });
+  };
+
+  return (
+    <Card data-testid="card-saved-searches">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bookmark className="h-5 w-5" />
+          Saved Searches
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSave();
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Name these filters..."
+            maxLength={100}
+            data-testid="input-saved-search-name"
+          />
+          <Button type="submit" size="sm" disabled={!name.trim() || createSavedSearch.isPending} data-testid="button-save-search">
+            Save
+          </Button>
+        </form>
+
+        {savedSearches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Save the current filters and query to run them again in one click.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {savedSearches.map((search) => (
+              <li key={search.id} className="group flex items-center gap-1" data-testid={`saved-search-${search.id}`}>
+                {renamingId === search.id ? (
+                  <form
+                    className="flex flex-1 items-center gap-1"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      handleRename(search);
+                    }}
+                  >
+                    <Input
+                      value={renameText}
+                      onChange={(event) => setRenameText(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Escape") setRenamingId(null);
+                      }}
+                      maxLength={100}
+                      autoFocus
+                      className="h-8"
+                      data-testid={`input-rename-${search.id}`}
+                    />
+                    <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" disabled={updateSavedSearch.isPending}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRenamingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      className="flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1.5 text-left hover-elevate"
+                      onClick={() => onRun(fromSearchQuery(search.filters))}
+                      title="Run this search"
+                      data-testid={`button-run-saved-search-${search.id}`}
+                    >
+                      <Play className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <span className="min-w-0">
+                        <span className="block truncate text-sm font-medium">{search.name}</span>
+                        <span className="block truncate text-xs text-muted-foreground">{describeSearch(search.filters)}</span>
+                      </span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => toggleAlerts(search)}
+                      title={search.alertMinScore === null
+                        ? "Alerts off - turn on to hear about new matches"
+                        : `Alerting on new matches scoring ${search.alertMinScore}+`}
+                      aria-pressed={search.alertMinScore !== null}
+                      data-testid={`button-alerts-saved-search-${search.id}`}
+                    >
+                      {search.alertMinScore === null
+                        ? <BellOff className="h-3.5 w-3.5 text-muted-foreground" />
+                        : <Bell className="h-3.5 w-3.5" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => startRename(search)}
+                      aria-label={`Rename ${search.name}`}
+                      data-testid={`button-rename-saved-search-${search.id}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteSavedSearch.mutate(search.id, { onError: showError("Couldn't delete search") })}
+                      aria-label={`Delete ${search.name}`}
+                      data-testid={`button-delete-saved-search-${search.id}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-between gap-2 border-t pt-4">
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Mail className="h-4 w-4" />
+            Email digest
+          </span>
+          <Select
+            value={digest?.frequency ?? "off"}
+            onValueChange={(value) => handleDigestChange(value as DigestFrequency)}
+            disabled={!digest || updateDigest.isPending}
+          >
+            <SelectTrigger className="h-8 w-28" data-testid="select-digest-frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,23 +9,16 @@ import { X, Filter, RotateCcw, ChevronDown } from "lucide-react";
 import { useState, useMemo } from "react";
 import { Popover, PopoverContent, PopoverTrigger } from "../components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "../components/ui/command";
-
-interface FilterState {
-  priceRange: [number, number];
-  revenueRange: [number, number];
-  location: string;
-  industry: string[];
-  riskTolerance: string;
-  involvement: string;
-  employees: string;
-  paybackPeriod: string;
-  query: string;
-}
+import { type FilterState, PRICE_RANGE_MAX, REVENUE_RANGE_MAX, paybackPeriods, radiusOptions, supportsRadius } from "../lib/searchFilters";
+import { useLocations } from "../hooks/useLocations";
+import { type FacetBucket, type FacetRange, type SearchFacets, establishedRanges, priceBands, revenueBands } from "@shared/schema";
 
 interface SearchFiltersProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
   onClearFilters: () => void;
+  // Option counts for the current results; without them the static option lists are shown
+  facets?: SearchFacets;
 }
 
 const industries = [
@@ -63,13 +56,6 @@ const employeeSizes = [
   { value: "large", label: "Large - 50+ employees" }
 ];
 
-const paybackPeriods = [
-  { value: "any", label: "Any" },
-  { value: "1-2 years", label: "1-2 years - Quick return" },
-  { value: "3-5 years", label: "3-5 years - Medium term" },
-  { value: "5+ years", label: "5+ years - Long term" }
-];
-
 const majorUSCities = [
   "Any Location",
   "Albuquerque, NM",
@@ -124,10 +110,45 @@ const majorUSCities = [
   "Washington, DC"
 ];
 
-export function SearchFilters({ filters, onFiltersChange, onClearFilters }: SearchFiltersProps) {
+const withCount = (label: string, count?: number) => (count === undefined ? label : `${label} (${count})`);
+
+const facetCount = (buckets: FacetBucket[] | undefined, value: string) =>
+  buckets?.find(bucket => bucket.value === value)?.count;
+
+// Options with no matching listings are hidden, except the one currently selected
+const hasMatches = (buckets: FacetBucket[] | undefined, value: string, selected: string) =>
+  value === "any" || value === selected || buckets === undefined || (facetCount(buckets, value) ?? 0) > 0;
+
+export function SearchFilters({ filters, onFiltersChange, onClearFilters, facets }: SearchFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [locationOpen, setLocationOpen] = useState(false);
   const [locationSearch, setLocationSearch] = useState("");
+  const { data: gazetteer } = useLocations(locationSearch);
+
+  // Facets list only the states, cities and industries that have listings
+  const locationOptions = useMemo(() => {
+    const options = facets
+      ? [
+          ...facets.states.map(state => ({ value: state.value, label: withCount(state.value, state.count), group: "States" })),
+          ...facets.cities.map(city => ({ value: city.value, label: withCount(city.value, city.count), group: "Cities" }))
+        ]
+      : majorUSCities.slice(1).map(city => ({ value: city, label: city, group: "Cities" }));
+    const matching = locationSearch
+      ? options.filter(option => option.value.toLowerCase().includes(locationSearch.toLowerCase()))
+      : options;
+    // Any gazetteer city can be searched around, including ones with no listings of their own
+    const listed = new Set(matching.map(option => option.value));
+    const nearby = locationSearch
+      ? (gazetteer?.locations ?? [])
+          .filter(place => !listed.has(place.label))
+          .map(place => ({ value: place.label, label: place.label, group: "Search near" }))
+      : [];
+    return [...matching, ...nearby];
+  }, [facets, locationSearch, gazetteer]);
+
+  const industryOptions = facets
+    ? facets.industries.map(industry => ({ value: industry.value, label: withCount(industry.value, industry.count) }))
+    : industries.slice(1).map(industry => ({ value: industry, label: industry }));
 
   const handlePriceRangeChange = (value: number[]) => {
     onFiltersChange({ ...filters, priceRange: [value[0], value[1]] });
@@ -137,20 +158,17 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
     onFiltersChange({ ...filters, revenueRange: [value[0], value[1]] });
   };
 
-  const handleLocationChange = (value: string) => {
+  const handleLocationChange = (value: string, group?: string) => {
     const newLocation = value === "Any Location" ? "" : value;
-    onFiltersChange({ ...filters, location: newLocation });
+    // A city without listings of its own only finds anything as the centre of a radius
+    const radius = !supportsRadius(newLocation) ? "any"
+      : group === "Search near" && filters.radius === "any" ? "25"
+      : filters.radius;
+    onFiltersChange({ ...filters, location: newLocation, radius });
     setLocationOpen(false);
     setLocationSearch("");
   };
 
-  const filteredCities = useMemo(() => {
-    if (!locationSearch) return majorUSCities;
-    return majorUSCities.filter(city => 
-      city.toLowerCase().includes(locationSearch.toLowerCase())
-    );
-  }, [locationSearch]);
-
   const handleIndustryToggle = (industry: string) => {
     // Handle "Any" industry selection by clearing all industries
     if (industry === "Any") {
@@ -169,6 +187,32 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
     onFiltersChange({ ...filters, industry: newIndustries });
   };
 
+  // Clicking a band moves the slider to it; the top band has no upper limit
+  const selectBand = (key: "priceRange" | "revenueRange", band: FacetRange, rangeMax: number) => {
+    onFiltersChange({ ...filters, [key]: [band.min ?? 0, band.max ?? rangeMax] });
+  };
+
+  const renderBands = (key: "priceRange" | "revenueRange", bands: FacetRange[], buckets: FacetBucket[] | undefined, rangeMax: number) => {
+    if (!buckets) return null;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {bands
+          .filter(band => (facetCount(buckets, band.value) ?? 0) > 0)
+          .map(band => (
+            <Badge
+              key={band.value}
+              variant="outline"
+              className="cursor-pointer"
+              onClick={() => selectBand(key, band, rangeMax)}
+              data-testid={`badge-${key}-${band.value}`}
+            >
+              {withCount(band.label, facetCount(buckets, band.value))}
+            </Badge>
+          ))}
+      </div>
+    );
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -235,23 +279,48 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
                     data-testid="input-location-search"
                   />
                   <CommandList>
-                    <CommandEmpty>No cities found.</CommandEmpty>
+                    <CommandEmpty>No locations found.</CommandEmpty>
                     <CommandGroup>
-                      {filteredCities.map((city) => (
-                        <CommandItem
-                          key={city}
-                          value={city}
-                          onSelect={handleLocationChange}
-                          data-testid={`option-location-${city.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}`}
-                        >
-                          {city}
-                        </CommandItem>
-                      ))}
+                      <CommandItem value="Any Location" onSelect={() => handleLocationChange("Any Location")} data-testid="option-location-any-location">
+                        Any Location
+                      </CommandItem>
                     </CommandGroup>
+                    {["States", "Cities", "Search near"].map(group => {
+                      const options = locationOptions.filter(option => option.group === group);
+                      if (options.length === 0) return null;
+                      return (
+                        <CommandGroup key={group} heading={facets || group === "Search near" ? group : undefined}>
+                          {options.map((option) => (
+                            <CommandItem
+                              key={option.value}
+                              value={option.label}
+                              onSelect={() => handleLocationChange(option.value, option.group)}
+                              data-testid={`option-location-${option.value.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}`}
+                            >
+                              {option.label}
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      );
+                    })}
                   </CommandList>
                 </Command>
               </PopoverContent>
             </Popover>
+            <Select
+              value={filters.radius}
+              onValueChange={(radius) => onFiltersChange({ ...filters, radius })}
+              disabled={!supportsRadius(filters.location)}
+            >
+              <SelectTrigger data-testid="select-location-radius">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {radiusOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Price Range */}
@@ -260,12 +329,13 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
             <Slider
               value={filters.priceRange}
               onValueChange={handlePriceRangeChange}
-              max={5000000}
+              max={PRICE_RANGE_MAX}
               min={0}
               step={25000}
               className="w-full"
               data-testid="slider-price-range"
             />
+            {renderBands("priceRange", priceBands, facets?.priceBands, PRICE_RANGE_MAX)}
           </div>
 
           {/* Revenue Range */}
@@ -274,12 +344,13 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
             <Slider
               value={filters.revenueRange}
               onValueChange={handleRevenueRangeChange}
-              max={10000000}
+              max={REVENUE_RANGE_MAX}
               min={0}
               step={50000}
               className="w-full"
               data-testid="slider-revenue-range"
             />
+            {renderBands("revenueRange", revenueBands, facets?.revenueBands, REVENUE_RANGE_MAX)}
           </div>
 
           {/* Industries */}
@@ -301,11 +372,12 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
                 <SelectValue placeholder="Add industry..." />
               </SelectTrigger>
               <SelectContent>
-                {industries
-                  .filter(industry => !filters.industry.includes(industry))
+                <SelectItem value="Any">Any</SelectItem>
+                {industryOptions
+                  .filter(industry => !filters.industry.includes(industry.value))
                   .map((industry) => (
-                    <SelectItem key={industry} value={industry}>
-                      {industry}
+                    <SelectItem key={industry.value} value={industry.value}>
+                      {industry.label}
                     </SelectItem>
                   ))}
               </SelectContent>
@@ -366,11 +438,37 @@ export function SearchFilters({ filters, onFiltersChange, onClearFilters }: Sear
                 <SelectValue placeholder="Select business size..." />
               </SelectTrigger>
               <SelectContent>
-                {employeeSizes.map((size) => (
-                  <SelectItem key={size.value} value={size.value}>
-                    {size.label}
-                  </SelectItem>
-                ))}
+                {employeeSizes
+                  .filter(size => hasMatches(facets?.sizes, size.value, filters.employees))
+                  .map((size) => (
+                    <SelectItem key={size.value} value={size.value}>
+                      {withCount(size.label, facetCount(facets?.sizes, size.value))}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Year Established */}
+          <div className="space-y-2">
+            <Label>Year Established</Label>
+            <Select
+              value={filters.established}
+              onValueChange={(value) => onFiltersChange({ ...filters, established: value })}
+              data-testid="select-established"
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select establishment period..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any Year</SelectItem>
+                {establishedRanges
+                  .filter(range => hasMatches(facets?.established, range.value, filters.established))
+                  .map((range) => (
+                    <SelectItem key={range.value} value={range.value}>
+                      {withCount(range.label, facetCount(facets?.established, range.value))}
+                    </SelectItem>
+                  ))}
               </SelectContent>
             </Select>
           </div>
@@ -0,0 +1,107 @@
+import { History, RotateCcw, X } from "lucide-react";
+import { type SearchHistoryEntry } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { useToast } from "../hooks/use-toast";
+import { useClearSearchHistory, useDeleteSearchHistoryEntry, useSearchHistory } from "../hooks/useUserPreferences";
+import { type FilterState, describeSearch, fromSearchQuery } from "../lib/searchFilters";
+import { timeAgo } from "../lib/utils";
+
+interface SearchHistoryProps {
+  // Loads a past search into the sidebar and runs it
+  onRun: (filters: FilterState) => void;
+}
+
+const results = (count: number) => `${count} result${count === 1 ? "" : "s"}`;
+
+// The signed-in user's past searches, newest first; the server records each search as it runs
+export function SearchHistory({ onRun }: SearchHistoryProps) {
+  const { toast } = useToast();
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useSearchHistory();
+  const deleteEntry = useDeleteSearchHistoryEntry();
+  const clearHistory = useClearSearchHistory();
+
+  const entries = data?.pages.flatMap(page => page.history) ?? [];
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const handleRun = (entry: SearchHistoryEntry) =>
+    onRun(fromSearchQuery({ ...entry.filters, query: entry.query || undefined }));
+
+  return (
+    <Card data-testid="card-search-history">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Recent Searches
+        </CardTitle>
+        {entries.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => clearHistory.mutate(undefined, { onError: showError("Couldn't clear search history") })}
+            disabled={clearHistory.isPending}
+            data-testid="button-clear-search-history"
+          >
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Searches you run show up here so you can run them again.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-center gap-1" data-testid={`search-history-${entry.id}`}>
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1.5 text-left hover-elevate"
+                  onClick={() => handleRun(entry)}
+                  title="Run this search again"
+                  data-testid={`button-rerun-search-${entry.id}`}
+                >
+                  <RotateCcw className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  <span className="min-w-0">
+                    <span className="block truncate text-sm font-medium">
+                      {describeSearch({ ...entry.filters, query: entry.query || undefined })}
+                    </span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {results(entry.resultsCount)} · {timeAgo(entry.createdAt)}
+                    </span>
+                  </span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => deleteEntry.mutate(entry.id, { onError: showError("Couldn't remove search") })}
+                  aria-label="Remove from history"
+                  data-testid={`button-delete-search-history-${entry.id}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-2 w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-more-search-history"
+          >
+            {isFetchingNextPage ? "Loading..." : "Show more"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
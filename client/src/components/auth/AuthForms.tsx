@@ -13,12 +13,13 @@ interface AuthFormsProps {
 }
 
 export function AuthForms({ onSuccess }: AuthFormsProps) {
-  const { login, signup, isLoading } = useAuth();
+  const { login, signup } = useAuth();
   const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
   
   const [loginData, setLoginData] = useState({
-    email: "test@example.com",
-    password: "password123",
+    email: "",
+    password: "",
   });
   
   const [signupData, setSignupData] = useState({
@@ -29,6 +30,7 @@ export function AuthForms({ onSuccess }: AuthFormsProps) {
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    setIsLoading(true);
     try {
       await login(loginData.email, loginData.password);
       toast({
@@ -42,11 +44,14 @@ export function AuthForms({ onSuccess }: AuthFormsProps) {
         description: error instanceof Error ? error.message : "Something went wrong",
         variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
     }
   };
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
+    setIsLoading(true);
     try {
       await signup(signupData.email, signupData.username, signupData.password);
       toast({
@@ -60,6 +65,8 @@ export function AuthForms({ onSuccess }: AuthFormsProps) {
         description: error instanceof Error ? error.message : "Something went wrong",
         variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -154,7 +161,8 @@ export function AuthForms({ onSuccess }: AuthFormsProps) {
                   <Input
                     id="signup-password"
                     type="password"
-                    placeholder="Create a password"
+                    placeholder="Create a password (8+ characters)"
+                    minLength={8}
                     value={signupData.password}
                     onChange={(e) => setSignupData({ ...signupData, password: e.target.value })}
                     required
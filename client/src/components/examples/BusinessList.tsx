@@ -1,4 +1,6 @@
+import { useState } from "react";
 import { BusinessList } from "../BusinessList";
+import { type SearchSort } from "../../hooks/useBusinesses";
 
 export default function BusinessListExample() {
   // TODO: remove mock functionality
@@ -61,6 +63,8 @@ export default function BusinessListExample() {
     }
   ];
 
+  const [sort, setSort] = useState<SearchSort>({ sortBy: "blended", sortOrder: "desc" });
+
   return (
     <div className="p-6 max-w-7xl mx-auto">
       <BusinessList
@@ -68,6 +72,8 @@ export default function BusinessListExample() {
         onContact={(id) => console.log(`Contact seller for business ${id}`)}
         onLoadMore={() => console.log("Load more businesses")}
         hasMore={true}
+        sort={sort}
+        onSortChange={setSort}
       />
     </div>
   );
@@ -1,5 +1,6 @@
 import { createContext, useContext, useEffect, useState } from "react";
 import type { User } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
 
 interface AuthContextType {
   user: User | null;
@@ -30,11 +31,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const checkAuthStatus = async () => {
     try {
-      const response = await fetch("/api/auth/me");
+      const response = await fetch("/api/auth/me", { credentials: "include" });
       if (response.ok) {
         const data = await response.json();
-        // Auto-login demo: the user data comes directly, not wrapped in a .user property
+        // /api/auth/me returns the user directly, not wrapped in a .user property
         setUser(data);
+      } else {
+        setUser(null);
       }
     } catch (error) {
       console.error("Error checking auth status:", error);
@@ -43,19 +46,37 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const login = async (_email: string, _password: string) => {
-    // Demo mode: login is automatic - just check auth
-    await checkAuthStatus();
+  const submitCredentials = async (url: string, body: Record<string, string>) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "Authentication failed");
+    }
+    // Drop anything cached for a previous user before switching accounts
+    queryClient.clear();
+    setUser(data.user);
+  };
+
+  const login = async (email: string, password: string) => {
+    await submitCredentials("/api/auth/login", { email, password });
   };
 
-  const signup = async (_email: string, _username: string, _password: string) => {
-    // Demo mode: signup is not needed - just check auth
-    await checkAuthStatus();
+  const signup = async (email: string, username: string, password: string) => {
+    await submitCredentials("/api/auth/signup", { email, username, password });
   };
 
   const logout = async () => {
-    // Demo mode: logout is disabled - user stays logged in
-    console.log("Demo mode: logout disabled");
+    try {
+      await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
+    } finally {
+      queryClient.clear();
+      setUser(null);
+    }
   };
 
   const value = {
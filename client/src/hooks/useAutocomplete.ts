@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { type AutocompleteResponse } from '@shared/schema';
+
+const DEBOUNCE_MS = 200;
+
+// Suggestions for the header search bar, fetched once the user pauses typing
+export function useAutocomplete(query: string, limit: number = 8) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ['search', 'autocomplete', debouncedQuery, limit],
+    queryFn: async (): Promise<AutocompleteResponse> => {
+      const params = new URLSearchParams({ q: debouncedQuery, limit: String(limit) });
+      const response = await fetch(`/api/search/autocomplete?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch suggestions');
+      }
+      return response.json();
+    },
+    enabled: debouncedQuery.length > 0,
+    placeholderData: keepPreviousData, // keep the dropdown steady while the next suggestions load
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
@@ -1,6 +1,7 @@
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation } from '@tanstack/react-query';
 import { queryClient } from '../lib/queryClient';
-import { type Business, type BusinessScore } from '@shared/schema';
+import { type Business, type BusinessScore, type BusinessSearchResponse, type BusinessSortField, type ListingChange } from '@shared/schema';
+import { type FilterState, type SearchPageOptions, toSearchParams } from '../lib/searchFilters';
 
 // Types for API responses
 interface BusinessWithScore extends Business {
@@ -11,66 +12,28 @@ interface RankedBusiness extends BusinessScore {
   business: Business;
 }
 
-interface BusinessListResponse {
-  businesses: Business[];
-  count: number;
-}
-
 interface RankedBusinessResponse {
   businesses: RankedBusiness[];
   count: number;
 }
 
-interface SearchResponse {
-  businesses: Business[];
-  query: string;
-  count: number;
-}
+type BusinessFilters = Partial<FilterState> & SearchPageOptions;
 
-interface BusinessFilters {
-  priceRange?: [number, number];
-  revenueRange?: [number, number];
-  location?: string;
-  industries?: string[];
-  employees?: string;
-  limit?: number;
-  offset?: number;
+async function fetchBusinessSearch(params: URLSearchParams): Promise<BusinessSearchResponse> {
+  const response = await fetch(`/api/businesses?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch businesses');
+  }
+  return response.json();
 }
 
 // Hook for fetching businesses with filters
 export function useBusinesses(filters: BusinessFilters = {}) {
   return useQuery({
     queryKey: ['businesses', filters],
-    queryFn: async (): Promise<BusinessListResponse> => {
-      const params = new URLSearchParams();
-      
-      if (filters.priceRange) {
-        params.append('priceRange', JSON.stringify(filters.priceRange));
-      }
-      if (filters.revenueRange) {
-        params.append('revenueRange', JSON.stringify(filters.revenueRange));
-      }
-      if (filters.location) {
-        params.append('location', filters.location);
-      }
-      if (filters.industries && filters.industries.length > 0) {
-        params.append('industries', JSON.stringify(filters.industries));
-      }
-      if (filters.employees) {
-        params.append('employees', filters.employees);
-      }
-      if (filters.limit) {
-        params.append('limit', filters.limit.toString());
-      }
-      if (filters.offset) {
-        params.append('offset', filters.offset.toString());
-      }
-
-      const response = await fetch(`/api/businesses?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch businesses');
-      }
-      return response.json();
+    queryFn: () => {
+      const { sortBy, sortOrder, limit, offset, ...searchFilters } = filters;
+      return fetchBusinessSearch(toSearchParams(searchFilters, { sortBy, sortOrder, limit, offset }));
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
@@ -80,31 +43,49 @@ export function useBusinesses(filters: BusinessFilters = {}) {
 export function useBusinessSearch(query: string, enabled: boolean = true) {
   return useQuery({
     queryKey: ['businesses', 'search', query],
-    queryFn: async (): Promise<SearchResponse> => {
-      const params = new URLSearchParams({ q: query });
-      const response = await fetch(`/api/businesses/search?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to search businesses');
-      }
-      return response.json();
-    },
+    queryFn: () => fetchBusinessSearch(toSearchParams({ query })),
     enabled: enabled && query.length >= 2,
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
 }
 
+export interface SearchSort {
+  sortBy: BusinessSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+// Paged search results for the business list; pages are fetched with the cursor from the previous page.
+// Disabled until filters are given, i.e. until the user runs a search.
+export function useBusinessSearchPages(filters: Partial<FilterState> | null, sort: SearchSort, pageSize: number = 20) {
+  return useInfiniteQuery({
+    queryKey: ['businesses', 'pages', filters, sort, pageSize],
+    queryFn: async ({ pageParam }) => {
+      const params = toSearchParams(filters || {}, { ...sort, limit: pageSize });
+      if (pageParam) params.set('cursor', pageParam);
+      const page = await fetchBusinessSearch(params);
+      // The server records the first page of each search in the user's history
+      if (!pageParam) queryClient.invalidateQueries({ queryKey: ['user', 'searchHistory'] });
+      return page;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: filters !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 // Hook for fetching a single business
 export function useBusiness(id: string) {
   return useQuery({
     queryKey: ['businesses', id],
-    queryFn: async (): Promise<{ business: Business; score?: BusinessScore }> => {
+    queryFn: async (): Promise<{ business: Business; score?: BusinessScore; changes?: ListingChange[] }> => {
       console.log('🔍 useBusiness: fetching business', id);
       
       // Check if this business is already cached from web search results
       const cachedData = queryClient.getQueryData(['businesses', id]);
       if (cachedData) {
         console.log('🔍 useBusiness: Found cached data for business', id);
-        return cachedData as { business: Business; score?: BusinessScore };
+        return cachedData as { business: Business; score?: BusinessScore; changes?: ListingChange[] };
       }
       
       const response = await fetch(`/api/businesses/${id}`);
@@ -0,0 +1,43 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '../lib/queryClient';
+import { type DigestFrequency, type DigestSettings } from '@shared/schema';
+import { useAuth } from '../contexts/AuthContext';
+
+// How often the signed-in user gets the email digest of new saved-search matches
+export function useDigestSettings() {
+  const { isAuthenticated, user } = useAuth();
+
+  return useQuery({
+    queryKey: ['user', 'digest', user?.id],
+    queryFn: async (): Promise<DigestSettings> => {
+      const response = await fetch('/api/user/digest');
+      if (!response.ok) {
+        throw new Error('Failed to fetch digest settings');
+      }
+      const result = await response.json();
+      return result.digest;
+    },
+    enabled: isAuthenticated && !!user,
+  });
+}
+
+export function useUpdateDigestSettings() {
+  return useMutation({
+    mutationFn: async (frequency: DigestFrequency): Promise<DigestSettings> => {
+      const response = await fetch('/api/user/digest', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ frequency }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update digest settings');
+      }
+      const result = await response.json();
+      return result.digest;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'digest'] });
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '../lib/queryClient';
+import { type DuplicateGroupDetails, type DuplicateGroupStatus, type DuplicateScanResult } from '@shared/schema';
+import { useAuth } from '../contexts/AuthContext';
+
+// Error message from a failed duplicates request, falling back to the given text
+async function responseError(response: Response, fallback: string): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error || fallback);
+}
+
+// Search results and business details show duplicates collapsed, so they change with every review
+const invalidateDuplicates = () => {
+  queryClient.invalidateQueries({ queryKey: ['admin', 'duplicates'] });
+  queryClient.invalidateQueries({ queryKey: ['businesses'] });
+};
+
+// Duplicate groups, newest first, optionally only those with the given status (admins only)
+export function useDuplicateGroups(status?: DuplicateGroupStatus) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['admin', 'duplicates', status],
+    queryFn: async (): Promise<DuplicateGroupDetails[]> => {
+      const params = status ? `?${new URLSearchParams({ status })}` : '';
+      const response = await fetch(`/api/admin/duplicates${params}`);
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to fetch duplicate listings');
+      }
+      const result = await response.json();
+      return result.groups;
+    },
+    enabled: !!user?.isAdmin,
+  });
+}
+
+export function useScanDuplicates() {
+  return useMutation({
+    mutationFn: async (): Promise<DuplicateScanResult> => {
+      const response = await fetch('/api/admin/duplicates/scan', { method: 'POST' });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to scan for duplicate listings');
+      }
+      const result = await response.json();
+      return result.scan;
+    },
+    onSuccess: invalidateDuplicates,
+  });
+}
+
+// Confirms the group as one business, shown as canonicalId when given
+export function useConfirmDuplicateGroup() {
+  return useMutation({
+    mutationFn: async ({ id, canonicalId }: { id: string; canonicalId?: string }): Promise<DuplicateGroupDetails> => {
+      const response = await fetch(`/api/admin/duplicates/${encodeURIComponent(id)}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ canonicalId }),
+      });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to confirm duplicate group');
+      }
+      const result = await response.json();
+      return result.group;
+    },
+    onSuccess: invalidateDuplicates,
+  });
+}
+
+// Takes listings out of the group for good; resolves to null when that leaves nothing to group
+export function useSplitDuplicateGroup() {
+  return useMutation({
+    mutationFn: async ({ id, businessIds }: { id: string; businessIds: string[] }): Promise<DuplicateGroupDetails | null> => {
+      const response = await fetch(`/api/admin/duplicates/${encodeURIComponent(id)}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ businessIds }),
+      });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to split duplicate group');
+      }
+      const result = await response.json();
+      return result.group;
+    },
+    onSuccess: invalidateDuplicates,
+  });
+}
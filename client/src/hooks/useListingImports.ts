@@ -0,0 +1,105 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '../lib/queryClient';
+import {
+  type ImportBatch,
+  type ImportMapping,
+  type ImportPreview,
+  type ImportReport,
+  type ImportRollbackResult
+} from '@shared/schema';
+import { useAuth } from '../contexts/AuthContext';
+
+// Error message from a failed import request, falling back to the given text
+async function responseError(response: Response, fallback: string): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error || fallback);
+}
+
+export interface ImportRequest {
+  file: File;
+  mapping: ImportMapping;
+  // Source for rows when no column is mapped to sourceSite
+  sourceSite?: string;
+  dryRun: boolean;
+}
+
+function importParams({ file, mapping, sourceSite, dryRun }: ImportRequest): URLSearchParams {
+  const params = new URLSearchParams({ fileName: file.name, dryRun: String(dryRun) });
+  if (sourceSite?.trim()) params.set('sourceSite', sourceSite.trim());
+  Object.entries(mapping).forEach(([field, column]) => {
+    if (column) params.set(`mapping[${field}]`, column);
+  });
+  return params;
+}
+
+// The file goes up as it is; an explicit type keeps the server from treating it as a form or JSON body
+const uploadFile = (url: string, file: File) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: file });
+
+// Recent imports, newest first (admins only)
+export function useImportBatches() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['admin', 'imports'],
+    queryFn: async (): Promise<ImportBatch[]> => {
+      const response = await fetch('/api/admin/imports');
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to fetch imports');
+      }
+      const result = await response.json();
+      return result.batches;
+    },
+    enabled: !!user?.isAdmin,
+  });
+}
+
+// Reads the file's columns and first rows, with the columns that look like listing fields
+export function usePreviewImport() {
+  return useMutation({
+    mutationFn: async (file: File): Promise<ImportPreview> => {
+      const response = await uploadFile(`/api/admin/imports/preview?${new URLSearchParams({ fileName: file.name })}`, file);
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to read spreadsheet');
+      }
+      const result = await response.json();
+      return result.preview;
+    },
+  });
+}
+
+// Validates every row, and unless it's a dry run writes the valid ones as a new batch
+export function useRunImport() {
+  return useMutation({
+    mutationFn: async (request: ImportRequest): Promise<ImportReport> => {
+      const response = await uploadFile(`/api/admin/imports?${importParams(request)}`, request.file);
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to import listings');
+      }
+      const result = await response.json();
+      return result.report;
+    },
+    onSuccess: (report) => {
+      if (!report.batch) return;
+      queryClient.invalidateQueries({ queryKey: ['admin', 'imports'] });
+      queryClient.invalidateQueries({ queryKey: ['businesses'] });
+    },
+  });
+}
+
+export function useRollbackImport() {
+  return useMutation({
+    mutationFn: async (id: string): Promise<ImportRollbackResult> => {
+      const response = await fetch(`/api/admin/imports/${encodeURIComponent(id)}/rollback`, { method: 'POST' });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to roll back import');
+      }
+      const result = await response.json();
+      return result.rollback;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'imports'] });
+      queryClient.invalidateQueries({ queryKey: ['businesses'] });
+    },
+  });
+}
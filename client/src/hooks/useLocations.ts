@@ -0,0 +1,21 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { type LocationsResponse } from '@shared/schema';
+
+// Gazetteer cities matching what the user typed in the location picker
+export function useLocations(search: string, limit: number = 8) {
+  const query = search.trim();
+  return useQuery({
+    queryKey: ['locations', query, limit],
+    queryFn: async (): Promise<LocationsResponse> => {
+      const params = new URLSearchParams({ q: query, limit: String(limit) });
+      const response = await fetch(`/api/locations?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch locations');
+      }
+      return response.json();
+    },
+    enabled: query.length >= 2,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 60 * 1000, // the gazetteer only changes with a deploy
+  });
+}
@@ -0,0 +1,58 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '../lib/queryClient';
+import { type NotificationsResponse, type UserNotification } from '@shared/schema';
+import { useAuth } from '../contexts/AuthContext';
+
+// Saved-search alerts for the header bell; polled, since they are raised whenever listings change on the server
+export function useNotifications(limit: number = 20) {
+  const { isAuthenticated, user } = useAuth();
+
+  return useQuery({
+    queryKey: ['user', 'notifications', user?.id, limit],
+    queryFn: async (): Promise<NotificationsResponse> => {
+      const response = await fetch(`/api/user/notifications?limit=${limit}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications');
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated && !!user,
+    refetchInterval: 60 * 1000, // 1 minute
+  });
+}
+
+export function useMarkNotificationRead() {
+  return useMutation({
+    mutationFn: async ({ id, read }: { id: string; read: boolean }): Promise<UserNotification> => {
+      const response = await fetch(`/api/user/notifications/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update notification');
+      }
+      const result = await response.json();
+      return result.notification;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'notifications'] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  return useMutation({
+    mutationFn: async (): Promise<number> => {
+      const response = await fetch('/api/user/notifications/read-all', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to mark notifications read');
+      }
+      const result = await response.json();
+      return result.updated;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'notifications'] });
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '../lib/queryClient';
+import { type SavedSearch, type SavedSearchUpdate, type SavedSearchesResponse } from '@shared/schema';
+import { useAuth } from '../contexts/AuthContext';
+import { type FilterState, toSearchParams } from '../lib/searchFilters';
+
+// Error message from a failed saved search request, falling back to the given text
+async function responseError(response: Response, fallback: string): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error || fallback);
+}
+
+// The signed-in user's saved searches, newest first
+export function useSavedSearches() {
+  const { isAuthenticated, user } = useAuth();
+
+  return useQuery({
+    queryKey: ['user', 'savedSearches', user?.id],
+    queryFn: async (): Promise<SavedSearchesResponse> => {
+      const response = await fetch('/api/user/saved-searches');
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to fetch saved searches');
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated && !!user,
+  });
+}
+
+// Saves the filters as the search API sees them, so the server can run them as well
+export function useCreateSavedSearch() {
+  return useMutation({
+    mutationFn: async ({ name, filters }: { name: string; filters: FilterState }): Promise<SavedSearch> => {
+      const response = await fetch('/api/user/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, filters: Object.fromEntries(toSearchParams(filters)) }),
+      });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to save search');
+      }
+      const result = await response.json();
+      return result.savedSearch;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'savedSearches'] });
+    },
+  });
+}
+
+// Renames a saved search or changes its alert threshold (null turns alerts off)
+export function useUpdateSavedSearch() {
+  return useMutation({
+    mutationFn: async ({ id, ...update }: { id: string } & SavedSearchUpdate): Promise<SavedSearch> => {
+      const response = await fetch(`/api/user/saved-searches/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to update saved search');
+      }
+      const result = await response.json();
+      return result.savedSearch;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'savedSearches'] });
+    },
+  });
+}
+
+export function useDeleteSavedSearch() {
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      const response = await fetch(`/api/user/saved-searches/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw await responseError(response, 'Failed to delete saved search');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'savedSearches'] });
+    },
+  });
+}
@@ -1,25 +1,12 @@
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation } from '@tanstack/react-query';
 import { queryClient } from '../lib/queryClient';
-import { type UserPreferences, type UserPreferencesInsert } from '@shared/schema';
+import { type SearchHistoryResponse, type UserPreferences, type UserPreferencesInsert } from '@shared/schema';
 import { useAuth } from '../contexts/AuthContext';
 
 interface UserPreferencesResponse {
   preferences: UserPreferences | null;
 }
 
-interface SearchHistoryItem {
-  id: string;
-  query: string;
-  filters: any;
-  resultsCount: number;
-  createdAt: string;
-}
-
-interface SearchHistoryResponse {
-  history: SearchHistoryItem[];
-  count: number;
-}
-
 // Hook for fetching user preferences
 export function useUserPreferences() {
   const { isAuthenticated, user } = useAuth();
@@ -70,8 +57,8 @@ export function useCreateUserPreferences() {
       }
       // Also invalidate all preference queries to ensure consistency
       queryClient.invalidateQueries({ queryKey: ['user', 'preferences'] });
-      // Invalidate ranked businesses since preferences changed
-      queryClient.invalidateQueries({ queryKey: ['businesses', 'ranked'] });
+      // Scores are per user and preferences changed, so every business query is stale
+      queryClient.invalidateQueries({ queryKey: ['businesses'] });
     },
   });
 }
@@ -101,20 +88,20 @@ export function useUpdateUserPreferences() {
       }
       // Also invalidate all preference queries to ensure consistency
       queryClient.invalidateQueries({ queryKey: ['user', 'preferences'] });
-      // Invalidate ranked businesses since preferences changed
-      queryClient.invalidateQueries({ queryKey: ['businesses', 'ranked'] });
+      // Scores are per user and preferences changed, so every business query is stale
+      queryClient.invalidateQueries({ queryKey: ['businesses'] });
     },
   });
 }
 
-// Hook for fetching user search history
-export function useSearchHistory(limit: number = 20) {
+// Hook for fetching user search history, newest first, a page at a time
+export function useSearchHistory(pageSize: number = 20) {
   const { isAuthenticated, user } = useAuth();
   
-  return useQuery({
-    queryKey: ['user', 'searchHistory', user?.id, limit],
-    queryFn: async (): Promise<SearchHistoryResponse> => {
-      const response = await fetch(`/api/user/search-history?limit=${limit}`);
+  return useInfiniteQuery({
+    queryKey: ['user', 'searchHistory', user?.id, pageSize],
+    queryFn: async ({ pageParam }): Promise<SearchHistoryResponse> => {
+      const response = await fetch(`/api/user/search-history?limit=${pageSize}&offset=${pageParam}`);
       if (!response.ok) {
         if (response.status === 401) {
           throw new Error('Authentication required');
@@ -123,6 +110,11 @@ export function useSearchHistory(limit: number = 20) {
       }
       return response.json();
     },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((total, page) => total + page.history.length, 0);
+      return lastPage.history.length > 0 && loaded < lastPage.count ? loaded : undefined;
+    },
     enabled: isAuthenticated && !!user,
     retry: (failureCount, error) => {
       // Don't retry auth errors
@@ -130,4 +122,38 @@ export function useSearchHistory(limit: number = 20) {
       return failureCount < 3;
     },
   });
-}
\ No newline at end of file
+}
+
+// Mutation for removing one search from the history
+export function useDeleteSearchHistoryEntry() {
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      const response = await fetch(`/api/user/search-history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete search');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'searchHistory'] });
+    },
+  });
+}
+
+// Mutation for clearing the whole search history
+export function useClearSearchHistory() {
+  return useMutation({
+    mutationFn: async (): Promise<number> => {
+      const response = await fetch('/api/user/search-history', { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to clear search history');
+      }
+      const result = await response.json();
+      return result.deleted;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user', 'searchHistory'] });
+    },
+  });
+}
@@ -0,0 +1,136 @@
+// Search filter state shared by the filter sidebar and the search hooks, and its mapping to API query params
+import { type BusinessSearchQuery, type BusinessSortField, establishedRanges } from "@shared/schema";
+
+export interface FilterState {
+  priceRange: [number, number];
+  revenueRange: [number, number];
+  location: string;
+  radius: string; // miles around the location city, or "any" to match the location by name
+  industry: string[];
+  riskTolerance: string;
+  involvement: string;
+  employees: string;
+  paybackPeriod: string;
+  established: string; // an establishedRanges value, or "any"
+  query: string;
+}
+
+// Slider upper ends; a range pushed all the way right means "no upper limit"
+export const PRICE_RANGE_MAX = 5000000;
+export const REVENUE_RANGE_MAX = 10000000;
+
+export const radiusOptions = [
+  { value: "any", label: "Exact location" },
+  { value: "10", label: "Within 10 miles" },
+  { value: "25", label: "Within 25 miles" },
+  { value: "50", label: "Within 50 miles" },
+  { value: "100", label: "Within 100 miles" },
+  { value: "250", label: "Within 250 miles" }
+];
+
+// A radius needs a city to measure from; states and blank locations are matched by name
+export const supportsRadius = (location: string) => location.includes(",");
+
+export const paybackPeriods = [
+  { value: "any", label: "Any" },
+  { value: "1-2 years", label: "1-2 years - Quick return", maxYears: 2 },
+  { value: "3-5 years", label: "3-5 years - Medium term", minYears: 2, maxYears: 5 },
+  { value: "5+ years", label: "5+ years - Long term", minYears: 5 }
+];
+
+// Sorting and paging for GET /api/businesses; omitted values use the server defaults
+export interface SearchPageOptions {
+  sortBy?: BusinessSortField;
+  sortOrder?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+// Builds the query string understood by the server's businessSearchRequestSchema
+export function toSearchParams(filters: Partial<FilterState>, page: SearchPageOptions = {}): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "" && value !== "any") {
+      params.set(key, String(value));
+    }
+  };
+
+  set("query", filters.query?.trim());
+  const location = filters.location?.trim();
+  if (location && filters.radius && filters.radius !== "any" && supportsRadius(location)) {
+    set("near", location);
+    set("radiusMiles", filters.radius);
+  } else {
+    set("location", location);
+  }
+  if (filters.industry && filters.industry.length > 0) {
+    params.set("industries", filters.industry.join(","));
+  }
+
+  if (filters.priceRange) {
+    const [min, max] = filters.priceRange;
+    if (min > 0) set("minPrice", min);
+    if (max < PRICE_RANGE_MAX) set("maxPrice", max);
+  }
+  if (filters.revenueRange) {
+    const [min, max] = filters.revenueRange;
+    if (min > 0) set("minRevenue", min);
+    if (max < REVENUE_RANGE_MAX) set("maxRevenue", max);
+  }
+
+  set("riskTolerance", filters.riskTolerance);
+  set("involvement", filters.involvement);
+  set("businessSize", filters.employees);
+
+  const payback = paybackPeriods.find(period => period.value === filters.paybackPeriod);
+  set("minPaybackYears", payback?.minYears);
+  set("maxPaybackYears", payback?.maxYears);
+
+  const established = establishedRanges.find(range => range.value === filters.established);
+  set("yearEstablished", established?.min);
+  set("maxYearEstablished", established?.max !== undefined ? established.max - 1 : undefined);
+
+  set("sortBy", page.sortBy);
+  set("sortOrder", page.sortOrder);
+  set("limit", page.limit);
+  set("offset", page.offset);
+
+  return params;
+}
+
+// One-line summary of what a saved or past search looks for
+export function describeSearch(filters: BusinessSearchQuery): string {
+  const parts = [
+    filters.query && `"${filters.query}"`,
+    filters.industries?.join(", "),
+    filters.near
+      ? filters.radiusMiles !== undefined ? `within ${filters.radiusMiles} mi of ${filters.near}` : `near ${filters.near}`
+      : filters.location
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "All listings";
+}
+
+// The reverse of toSearchParams, for filters the server has parsed (a saved search); omitted filters come back as "any"
+export function fromSearchQuery(query: BusinessSearchQuery): FilterState {
+  const payback = paybackPeriods.find(period =>
+    period.value !== "any" && period.minYears === query.minPaybackYears && period.maxYears === query.maxPaybackYears
+  );
+  const established = establishedRanges.find(range =>
+    range.min === query.yearEstablished &&
+    (range.max === undefined ? query.maxYearEstablished === undefined : range.max - 1 === query.maxYearEstablished)
+  );
+
+  return {
+    priceRange: [query.minPrice ?? 0, query.maxPrice ?? PRICE_RANGE_MAX],
+    revenueRange: [query.minRevenue ?? 0, query.maxRevenue ?? REVENUE_RANGE_MAX],
+    location: query.near ?? query.location ?? "",
+    radius: query.near && query.radiusMiles !== undefined ? String(query.radiusMiles) : "any",
+    industry: query.industries ?? [],
+    riskTolerance: query.riskTolerance ?? "any",
+    involvement: query.involvement ?? "any",
+    employees: query.businessSize ?? "any",
+    paybackPeriod: payback?.value ?? "any",
+    established: established?.value ?? "any",
+    query: query.query ?? ""
+  };
+}
@@ -0,0 +1,118 @@
+// Offline US map geometry for the results map: an Albers equal-area projection of the lower 48 (the usual
+// USGS parallels) with Alaska and Hawaii in insets, a coarse national outline, and marker clustering
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Albers conic with standard parallels 29.5°N and 45.5°N, centred on 96°W / 37.5°N
+const PARALLEL_1 = toRadians(29.5);
+const PARALLEL_2 = toRadians(45.5);
+const ORIGIN_LAT = toRadians(37.5);
+const ORIGIN_LNG = -96;
+const N = (Math.sin(PARALLEL_1) + Math.sin(PARALLEL_2)) / 2;
+const C = Math.cos(PARALLEL_1) ** 2 + 2 * N * Math.sin(PARALLEL_1);
+const RHO_0 = Math.sqrt(C - 2 * N * Math.sin(ORIGIN_LAT)) / N;
+const SCALE = 1000;
+
+function albers(lat: number, lng: number): Point {
+  const rho = Math.sqrt(C - 2 * N * Math.sin(toRadians(lat))) / N;
+  const theta = N * toRadians(lng - ORIGIN_LNG);
+  return { x: SCALE * rho * Math.sin(theta), y: -SCALE * (RHO_0 - rho * Math.cos(theta)) };
+}
+
+// Contiguous US coastline and borders as [lng, lat], clockwise from Cape Flattery - coarse, but enough to place markers
+const lower48Outline: [number, number][] = [
+  [-124.7, 48.4], [-122.75, 49.0], [-95.15, 49.0], [-95.15, 49.38], [-94.6, 48.7], [-93.0, 48.6], [-91.5, 48.1],
+  [-89.6, 48.0], [-92.1, 46.7], [-90.4, 46.6], [-87.6, 46.5], [-84.6, 46.5], [-83.5, 46.0], [-82.4, 43.0],
+  [-83.1, 42.3], [-83.5, 41.7], [-81.7, 41.5], [-80.1, 42.1], [-78.9, 42.9], [-79.1, 43.3], [-77.6, 43.3],
+  [-76.2, 43.5], [-76.3, 44.2], [-75.0, 45.0], [-71.5, 45.0], [-71.1, 45.3], [-70.0, 46.7], [-69.2, 47.45],
+  [-68.2, 47.35], [-67.8, 47.1], [-67.8, 45.7], [-67.4, 45.2], [-67.0, 44.8], [-68.8, 44.4], [-70.2, 43.7],
+  [-70.6, 42.7], [-71.0, 42.3], [-70.0, 41.8], [-70.6, 41.5], [-71.4, 41.4], [-72.9, 41.25], [-74.0, 40.7],
+  [-74.0, 40.4], [-74.1, 39.6], [-74.95, 38.93], [-75.05, 38.45], [-75.98, 36.85], [-75.5, 35.25], [-76.5, 34.7],
+  [-77.9, 33.9], [-79.2, 33.2], [-80.0, 32.7], [-81.1, 32.0], [-81.4, 30.7], [-81.3, 29.5], [-80.6, 28.4],
+  [-80.0, 26.7], [-80.15, 25.75], [-80.4, 25.2], [-81.1, 25.1], [-81.8, 26.1], [-82.65, 27.5], [-82.8, 28.0],
+  [-82.7, 29.0], [-83.7, 29.9], [-84.3, 30.05], [-85.3, 29.7], [-86.5, 30.4], [-87.6, 30.25], [-88.1, 30.3],
+  [-89.4, 30.3], [-89.6, 30.2], [-89.2, 29.0], [-90.1, 29.1], [-91.3, 29.3], [-92.3, 29.55], [-93.8, 29.7],
+  [-94.7, 29.4], [-95.9, 28.6], [-96.9, 28.0], [-97.3, 27.4], [-97.2, 26.0], [-97.5, 25.9], [-99.1, 26.4],
+  [-99.5, 27.5], [-100.5, 28.7], [-101.4, 29.8], [-102.4, 29.8], [-103.1, 29.0], [-104.0, 29.3], [-104.7, 30.2],
+  [-106.5, 31.8], [-108.2, 31.8], [-108.2, 31.33], [-111.1, 31.33], [-114.8, 32.5], [-114.7, 32.72],
+  [-117.1, 32.53], [-117.3, 33.1], [-118.3, 33.7], [-118.8, 34.0], [-120.6, 34.55], [-120.9, 35.4],
+  [-121.9, 36.5], [-122.5, 37.6], [-123.0, 38.0], [-123.7, 38.9], [-123.8, 39.8], [-124.4, 40.4], [-124.2, 41.8],
+  [-124.5, 42.8], [-124.1, 44.0], [-123.95, 46.2], [-124.1, 47.0]
+];
+
+const projectedOutline = lower48Outline.map(([lng, lat]) => albers(lat, lng));
+const PADDING = 20;
+const minX = Math.min(...projectedOutline.map(point => point.x)) - PADDING;
+const minY = Math.min(...projectedOutline.map(point => point.y)) - PADDING;
+const maxX = Math.max(...projectedOutline.map(point => point.x)) + PADDING;
+const maxY = Math.max(...projectedOutline.map(point => point.y)) + PADDING;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const MAP_WIDTH = round(maxX - minX);
+export const MAP_HEIGHT = round(maxY - minY);
+
+const toMap = ({ x, y }: Point): Point => ({ x: round(x - minX), y: round(y - minY) });
+
+export const US_OUTLINE_PATH = `M${projectedOutline.map(toMap).map(({ x, y }) => `${x},${y}`).join("L")}Z`;
+
+// Alaska and Hawaii sit in boxes in the bottom-left corner, each mapped linearly from its own bounds
+export interface MapInset {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+}
+
+export const mapInsets: MapInset[] = [
+  { label: "Alaska", x: 10, y: MAP_HEIGHT - 130, width: 150, height: 120, bounds: { minLat: 51, maxLat: 71.5, minLng: -170, maxLng: -130 } },
+  { label: "Hawaii", x: 170, y: MAP_HEIGHT - 80, width: 110, height: 70, bounds: { minLat: 18.8, maxLat: 22.4, minLng: -160.4, maxLng: -154.7 } }
+];
+
+const inInset = (inset: MapInset, lat: number, lng: number) =>
+  lat >= inset.bounds.minLat && lat <= inset.bounds.maxLat && lng >= inset.bounds.minLng && lng <= inset.bounds.maxLng;
+
+// Map coordinates for a location, with the inset it falls in, if any
+export function projectPoint(lat: number, lng: number): Point & { inset?: MapInset } {
+  const inset = mapInsets.find(candidate => inInset(candidate, lat, lng));
+  if (!inset) return toMap(albers(lat, lng));
+
+  const { minLat, maxLat, minLng, maxLng } = inset.bounds;
+  return {
+    x: round(inset.x + ((lng - minLng) / (maxLng - minLng)) * inset.width),
+    y: round(inset.y + ((maxLat - lat) / (maxLat - minLat)) * inset.height),
+    inset
+  };
+}
+
+export interface MapCluster<T> {
+  x: number;
+  y: number;
+  items: T[];
+}
+
+// Greedy clustering: each point joins the first cluster whose centre is within radius, else starts one.
+// Radius is in map units, so markers that would overlap on screen merge.
+export function clusterPoints<T>(points: (Point & { item: T })[], radius: number): MapCluster<T>[] {
+  const clusters: (MapCluster<T> & { sumX: number; sumY: number })[] = [];
+  points.forEach(({ x, y, item }) => {
+    const cluster = clusters.find(candidate => Math.hypot(candidate.x - x, candidate.y - y) <= radius);
+    if (cluster) {
+      cluster.items.push(item);
+      cluster.sumX += x;
+      cluster.sumY += y;
+      cluster.x = round(cluster.sumX / cluster.items.length);
+      cluster.y = round(cluster.sumY / cluster.items.length);
+    } else {
+      clusters.push({ x, y, items: [item], sumX: x, sumY: y });
+    }
+  });
+  return clusters.map(({ x, y, items }) => ({ x, y, items }));
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Check, Copy, RefreshCw, Scissors } from "lucide-react";
+import { type DuplicateGroupDetails, type DuplicateGroupStatus } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../contexts/AuthContext";
+import { useConfirmDuplicateGroup, useDuplicateGroups, useScanDuplicates, useSplitDuplicateGroup } from "../hooks/useDuplicateListings";
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", notation: "compact", maximumFractionDigits: 1 }).format(amount);
+
+type StatusFilter = DuplicateGroupStatus | "all";
+
+function DuplicateGroupCard({ group }: { group: DuplicateGroupDetails }) {
+  const { toast } = useToast();
+  const confirmGroup = useConfirmDuplicateGroup();
+  const splitGroup = useSplitDuplicateGroup();
+  const [canonicalId, setCanonicalId] = useState(group.canonicalId);
+  const isBusy = confirmGroup.isPending || splitGroup.isPending;
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const handleConfirm = () => {
+    confirmGroup.mutate({ id: group.id, canonicalId }, {
+      onSuccess: () => toast({ title: "Duplicates confirmed" }),
+      onError: showError("Couldn't confirm the group"),
+    });
+  };
+
+  const handleSplit = (businessIds: string[]) => {
+    splitGroup.mutate({ id: group.id, businessIds }, {
+      onSuccess: (result) => toast({ title: result ? "Listing split out" : "Listings separated" }),
+      onError: showError("Couldn't split the group"),
+    });
+  };
+
+  const memberFor = (businessId: string) => group.members.find(member => member.businessId === businessId);
+
+  return (
+    <Card data-testid={`card-duplicate-group-${group.id}`}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Copy className="h-4 w-4" />
+          {group.listings[0]?.name ?? "Listings no longer available"}
+          <Badge variant={group.status === "confirmed" ? "secondary" : "outline"}>
+            {group.status === "confirmed" ? "Confirmed" : "Needs review"}
+          </Badge>
+        </CardTitle>
+        <span className="text-xs text-muted-foreground">
+          Detected {new Date(group.detectedAt).toLocaleDateString()}
+          {group.reviewedAt && ` · reviewed ${new Date(group.reviewedAt).toLocaleDateString()}`}
+        </span>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Show as</TableHead>
+                <TableHead>Listing</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Cash flow</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {group.listings.map(listing => {
+                const member = memberFor(listing.id);
+                return (
+                  <TableRow key={listing.id} data-testid={`row-duplicate-${listing.id}`}>
+                    <TableCell>
+                      <input
+                        type="radio"
+                        name={`canonical-${group.id}`}
+                        checked={canonicalId === listing.id}
+                        onChange={() => setCanonicalId(listing.id)}
+                        aria-label={`Show as ${listing.sourceSite} listing`}
+                        data-testid={`radio-canonical-${listing.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{listing.name}</div>
+                      <a
+                        href={listing.sourceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-primary hover:underline"
+                      >
+                        {listing.sourceSite}
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-sm">{listing.location}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(listing.askingPrice)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(listing.annualRevenue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(listing.cashFlow)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {member ? (
+                        <>
+                          <div className="font-medium text-foreground">{Math.round(member.score * 100)}% match</div>
+                          {member.reasons.join(" · ")}
+                        </>
+                      ) : (
+                        "Shown in search"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleSplit([listing.id])}
+                        disabled={isBusy}
+                        data-testid={`button-split-${listing.id}`}
+                      >
+                        <Scissors className="h-4 w-4 mr-1" />
+                        Split out
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={handleConfirm}
+            disabled={isBusy || (group.status === "confirmed" && canonicalId === group.canonicalId)}
+            data-testid={`button-confirm-${group.id}`}
+          >
+            <Check className="h-4 w-4 mr-2" />
+            {group.status === "confirmed" ? "Save" : "Confirm duplicates"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleSplit(group.listings.map(listing => listing.id))}
+            disabled={isBusy}
+            data-testid={`button-separate-${group.id}`}
+          >
+            Not the same business
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminDuplicatesPage() {
+  const { toast } = useToast();
+  const { user, isLoading } = useAuth();
+  const [status, setStatus] = useState<StatusFilter>("pending");
+  const { data: groups, isLoading: isGroupsLoading } = useDuplicateGroups(status === "all" ? undefined : status);
+  const scanDuplicates = useScanDuplicates();
+
+  if (isLoading) return null;
+  if (!user?.isAdmin) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-12 text-center text-muted-foreground" data-testid="text-admin-required">
+        Duplicate review is only available to admins.
+      </div>
+    );
+  }
+
+  const handleScan = () => {
+    scanDuplicates.mutate(undefined, {
+      onSuccess: (result) => toast({
+        title: "Scan finished",
+        description: `${result.scanned} listings checked: ${result.groupsCreated} new groups, ${result.listingsGrouped} listings grouped`,
+      }),
+      onError: (error) => toast({ title: "Scan failed", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Duplicate listings</h2>
+          <p className="text-sm text-muted-foreground">
+            Listings that look like the same business. Search shows one listing per group, with links to every source.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+            <SelectTrigger className="w-40" data-testid="select-duplicate-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Needs review</SelectItem>
+              <SelectItem value="confirmed">Confirmed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleScan} disabled={scanDuplicates.isPending} data-testid="button-scan-duplicates">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Scan now
+          </Button>
+          <Link href="/">
+            <Button variant="ghost" size="sm" data-testid="link-back-to-search">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to search
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {isGroupsLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : !groups || groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-duplicates">
+          {status === "pending" ? "Nothing to review." : "No duplicate groups."}
+        </p>
+      ) : (
+        groups.map(group => <DuplicateGroupCard key={`${group.id}:${group.canonicalId}`} group={group} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { AlertCircle, ArrowLeft, CheckCircle2, FileSpreadsheet, RotateCcw, Upload } from "lucide-react";
+import { importFields, type ImportField, type ImportMapping, type ImportPreview, type ImportReport } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Badge } from "../components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../contexts/AuthContext";
+import { useImportBatches, usePreviewImport, useRollbackImport, useRunImport } from "../hooks/useListingImports";
+
+const fieldLabels: Record<ImportField, string> = {
+  name: "Business name",
+  description: "Description",
+  location: "Location",
+  industry: "Industry",
+  askingPrice: "Asking price",
+  annualRevenue: "Annual revenue",
+  cashFlow: "Cash flow",
+  ebitda: "EBITDA (defaults to cash flow)",
+  employees: "Employees",
+  yearEstablished: "Year established",
+  sourceUrl: "Listing URL",
+  sourceSite: "Source"
+};
+
+// Radix Select items can't have an empty value
+const UNMAPPED = "__unmapped";
+
+export default function AdminImportsPage() {
+  const { toast } = useToast();
+  const { user, isLoading } = useAuth();
+  const { data: batches } = useImportBatches();
+  const previewImport = usePreviewImport();
+  const runImport = useRunImport();
+  const rollbackImport = useRollbackImport();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [sourceSite, setSourceSite] = useState("");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [confirmingRollbackId, setConfirmingRollbackId] = useState<string | null>(null);
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  if (isLoading) return null;
+  if (!user?.isAdmin) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-12 text-center text-muted-foreground" data-testid="text-admin-required">
+        Listing imports are only available to admins.
+      </div>
+    );
+  }
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    setReport(null);
+    if (!selected) return;
+    previewImport.mutate(selected, {
+      onSuccess: (result) => {
+        setPreview(result);
+        setMapping(result.suggestedMapping);
+      },
+      onError: showError("Couldn't read the file"),
+    });
+  };
+
+  const handleRun = (dryRun: boolean) => {
+    if (!file) return;
+    runImport.mutate({ file, mapping, sourceSite, dryRun }, {
+      onSuccess: (result) => {
+        setReport(result);
+        if (result.batch) {
+          toast({ title: "Listings imported", description: `${result.created} new, ${result.updated} updated` });
+        }
+      },
+      onError: showError(dryRun ? "Validation failed" : "Import failed"),
+    });
+  };
+
+  const handleRollback = (id: string) => {
+    setConfirmingRollbackId(null);
+    rollbackImport.mutate(id, {
+      onSuccess: (result) => {
+        const skipped = result.skippedBusinessIds.length;
+        toast({
+          title: "Import rolled back",
+          description: `${result.deleted} removed, ${result.restored} restored` +
+            (skipped > 0 ? `; ${skipped} changed since the import and left as they are` : ""),
+        });
+      },
+      onError: showError("Couldn't roll back the import"),
+    });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Import listings</h2>
+          <p className="text-sm text-muted-foreground">
+            Add or update listings from a CSV or XLSX file. Rows are matched to existing listings by their listing URL.
+          </p>
+        </div>
+        <Link href="/">
+          <Button variant="ghost" size="sm" data-testid="link-back-to-search">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to search
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Upload className="h-5 w-5" />
+            Spreadsheet
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            data-testid="input-import-file"
+          />
+          {previewImport.isPending && <p className="text-sm text-muted-foreground">Reading file...</p>}
+          {preview && (
+            <p className="text-sm text-muted-foreground" data-testid="text-import-summary">
+              <FileSpreadsheet className="inline h-4 w-4 mr-1" />
+              {preview.fileName}: {preview.rowCount} rows, {preview.columns.length} columns ({preview.format.toUpperCase()})
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Map columns</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {importFields.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label>{fieldLabels[field]}</Label>
+                  <Select
+                    value={mapping[field] ?? UNMAPPED}
+                    onValueChange={(value) => setMapping(current => ({ ...current, [field]: value === UNMAPPED ? undefined : value }))}
+                  >
+                    <SelectTrigger data-testid={`select-mapping-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not in this file</SelectItem>
+                      {preview.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label>Source name (for rows without one)</Label>
+                <Input
+                  value={sourceSite}
+                  onChange={(e) => setSourceSite(e.target.value)}
+                  placeholder="e.g. Broker spreadsheet"
+                  data-testid="input-import-source"
+                />
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {preview.columns.map(column => <TableHead key={column}>{column}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.sampleRows.map((row, index) => (
+                    <TableRow key={index}>
+                      {row.map((cell, column) => (
+                        <TableCell key={column} className="max-w-48 truncate">{cell}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => handleRun(true)} disabled={runImport.isPending} data-testid="button-import-validate">
+                Validate
+              </Button>
+              <Button onClick={() => handleRun(false)} disabled={runImport.isPending} data-testid="button-import-run">
+                Import
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card data-testid="card-import-report">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              {report.invalid > 0 ? <AlertCircle className="h-5 w-5 text-destructive" /> : <CheckCircle2 className="h-5 w-5 text-green-600" />}
+              {report.batch ? "Import finished" : "Validation results"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm">
+              {report.rowCount} rows: {report.created} new, {report.updated} updated, {report.unchanged} unchanged,{" "}
+              {report.invalid} with errors{report.batch ? "" : " - nothing has been written yet"}
+            </p>
+            {report.errors.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.errors.map((error, index) => (
+                    <TableRow key={index} data-testid={`row-import-error-${index}`}>
+                      <TableCell>{error.row}</TableCell>
+                      <TableCell>{error.column ?? (error.field ? fieldLabels[error.field] : "")}</TableCell>
+                      <TableCell>{error.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {report.errors.length < report.invalid && (
+              <p className="text-xs text-muted-foreground">Only the first {report.errors.length} problems are shown.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent imports</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!batches || batches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No imports yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Imported</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map(batch => (
+                  <TableRow key={batch.id} data-testid={`row-import-${batch.id}`}>
+                    <TableCell className="font-medium">{batch.fileName}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(batch.createdAt).toLocaleString()} by {batch.importedByName}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {batch.created} new, {batch.updated} updated{batch.invalid > 0 ? `, ${batch.invalid} skipped` : ""}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={batch.status === 'imported' ? 'secondary' : 'outline'}>
+                        {batch.status === 'imported' ? 'Imported' : 'Rolled back'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.status === 'imported' && (confirmingRollbackId === batch.id ? (
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="destructive" onClick={() => handleRollback(batch.id)} data-testid={`button-confirm-rollback-${batch.id}`}>
+                            Roll back
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setConfirmingRollbackId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setConfirmingRollbackId(batch.id)}
+                          disabled={rollbackImport.isPending}
+                          data-testid={`button-rollback-${batch.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Rollback
+                        </Button>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
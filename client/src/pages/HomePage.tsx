@@ -3,15 +3,18 @@ import { HeroSection } from "../components/HeroSection";
 import { SearchFilters } from "../components/SearchFilters";
 import { BusinessList } from "../components/BusinessList";
 import { StatsOverview } from "../components/StatsOverview";
+import { SavedSearches } from "../components/SavedSearches";
+import { SearchHistory } from "../components/SearchHistory";
 import { OnboardingFlow } from "../components/onboarding/OnboardingFlow";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { TrendingUp, Building2, DollarSign, Star, ArrowRight, Globe } from "lucide-react";
 // Removed unused imports as we now only use web search results
 import { useUserPreferences, useCreateUserPreferences } from "../hooks/useUserPreferences";
-import { useWebBusinessSearch } from "../hooks/useWebBusinessSearch";
+import { useBusinessSearchPages, type SearchSort } from "../hooks/useBusinesses";
 import { useAuth } from "../contexts/AuthContext";
-import { type UserPreferencesInsert } from "@shared/schema";
+import { type BusinessHighlights, type UserPreferencesInsert } from "@shared/schema";
+import { type FilterState } from "../lib/searchFilters";
 
 
 
@@ -24,22 +27,36 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [showBusinesses, setShowBusinesses] = useState(false);
   // Initialize filters from user preferences or use defaults
-  const [filters, setFilters] = useState({
+  const [filters, setFilters] = useState<FilterState>({
     priceRange: [50000, 5000000] as [number, number],
     revenueRange: [100000, 10000000] as [number, number],
     location: "",
+    radius: "any",
     industry: [] as string[],
     riskTolerance: "any",
     involvement: "any",
     employees: "any",
     paybackPeriod: "any",
+    established: "any",
     query: ""
   });
 
   // API hooks - all must be called unconditionally at the top level
   const { data: userPreferencesData } = useUserPreferences();
   const createPreferencesMutation = useCreateUserPreferences();
-  const webSearchMutation = useWebBusinessSearch();
+  // The filters of the last search the user ran; null until the first one
+  const [searchFilters, setSearchFilters] = useState<FilterState | null>(null);
+  const [sort, setSort] = useState<SearchSort>({ sortBy: "blended", sortOrder: "desc" });
+  const search = useBusinessSearchPages(searchFilters, sort);
+
+  // Re-running an identical search refetches instead of leaving the cached pages in place
+  const runSearch = (next: FilterState) => {
+    if (JSON.stringify(next) === JSON.stringify(searchFilters)) {
+      search.refetch();
+    } else {
+      setSearchFilters(next);
+    }
+  };
 
   // Initialize filters with user preferences when available
   useEffect(() => {
@@ -49,11 +66,13 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
         priceRange: [prefs.budgetRange?.min || 50000, prefs.budgetRange?.max || 5000000],
         revenueRange: [100000, 10000000],
         location: "",
+        radius: "any",
         industry: prefs.preferredIndustries || [],
         riskTolerance: prefs.riskTolerance || "any",
         involvement: prefs.involvementLevel || "any",
         employees: prefs.businessSize || "any",
         paybackPeriod: "any",
+        established: "any",
         query: ""
       });
     }
@@ -71,7 +90,7 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
       // Auto-trigger search when global query is received
       setShowBusinesses(true);
       console.log('Triggering web search for global query:', globalSearchQuery.trim());
-      webSearchMutation.mutate({
+      runSearch({
         ...filters,
         query: globalSearchQuery.trim()
       });
@@ -80,78 +99,31 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
 
   // Auto-trigger search when showBusinesses becomes true
   useEffect(() => {
-    if (showBusinesses && !webSearchMutation.data && !webSearchMutation.isPending && isAuthenticated) {
+    if (showBusinesses && !searchFilters && isAuthenticated) {
       console.log('Auto-triggering search because showBusinesses is true and no data exists');
       handleWebSearch();
     }
   }, [showBusinesses, isAuthenticated]);
 
-  // Only show web search results
-  const hasWebSearchResults = webSearchMutation.data?.businesses && webSearchMutation.data.businesses.length > 0;
-  
-  console.log('📊 DEBUG: hasWebSearchResults:', hasWebSearchResults);
-  console.log('📊 DEBUG: webSearchMutation.data:', webSearchMutation.data);
-  if (webSearchMutation.data?.businesses?.length > 0) {
-    console.log('📊 DEBUG: First business in webSearchMutation.data:', webSearchMutation.data.businesses[0]);
-    console.log('📊 DEBUG: First business aiScore in webSearchMutation.data:', webSearchMutation.data.businesses[0].aiScore);
-    console.log('📊 DEBUG: First business type check:', typeof webSearchMutation.data.businesses[0].aiScore);
-  }
-  console.log('📊 DEBUG: webSearchMutation.isPending:', webSearchMutation.isPending);
-  console.log('📊 DEBUG: webSearchMutation.isSuccess:', webSearchMutation.isSuccess);
-  console.log('📊 DEBUG: webSearchMutation.error:', webSearchMutation.error);
-  
-
-  const displayBusinesses = hasWebSearchResults
-    ? webSearchMutation.data!.businesses.map((wb, index) => {
-        console.log(`🏢 DEBUG: Processing business ${index}: ${wb.name}`);
-        console.log(`🏢 DEBUG: Business ${index} raw wb.aiScore:`, wb.aiScore);
-        console.log(`🏢 DEBUG: Business ${index} raw wb.ranking:`, wb.ranking);
-        console.log(`🏢 DEBUG: Business ${index} raw wb.industry:`, wb.industry);
-        console.log(`🏢 DEBUG: Business ${index} wb object:`, wb);
-        
-        // FIXED: Preserve aiScore from API response (backend returns 98 for technology businesses)
-        const finalAiScore = wb.aiScore; // Direct assignment, API confirmed working
-        
-        const mappedBusiness = {
-          id: wb.id, // Use original business ID instead of creating web-prefixed one
-          name: wb.name,
-          description: wb.description,
-          location: wb.location,
-          industry: wb.industry,
-          askingPrice: wb.askingPrice,
-          annualRevenue: wb.annualRevenue,
-          cashFlow: wb.cashFlow,
-          ebitda: wb.ebitda,
-          employees: wb.employees,
-          yearEstablished: wb.yearEstablished,
-          aiScore: finalAiScore, // Use the preserved aiScore value
-          sourceUrl: wb.sourceUrl || '',
-          sourceSite: wb.sourceSite || '',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          sellerInfo: null,
-          businessDetails: null,
-          isActive: true
-        };
-        
-        console.log(`🏢 DEBUG: Business ${index} mapped aiScore:`, mappedBusiness.aiScore);
-        console.log(`🏢 DEBUG: Business ${index} mapped object:`, mappedBusiness);
-        return mappedBusiness;
-      })
-    : [];
-    
-  console.log('🏢 DEBUG: Final displayBusinesses array:');
-  console.log('🏢 DEBUG: displayBusinesses length:', displayBusinesses.length);
-  displayBusinesses.forEach((business, index) => {
-    console.log(`🏢 DEBUG: Final business ${index}: ${business.name} - aiScore: ${business.aiScore}`);
+  // Pages can shift while paging (e.g. a rescore), so drop listings already shown on an earlier page
+  const pages = search.data?.pages ?? [];
+  const seenIds = new Set<string>();
+  const displayBusinesses = pages.flatMap(page => page.businesses).filter(business => {
+    if (seenIds.has(business.id)) return false;
+    seenIds.add(business.id);
+    return true;
   });
-  
-  const isLoading = webSearchMutation.isPending;
+  const totalFound = pages.length > 0 ? pages[pages.length - 1].total : 0;
+  // Each page carries highlights for its own listings
+  const highlights = pages.reduce<Record<string, BusinessHighlights>>((all, page) => ({ ...all, ...page.highlights }), {});
+  const hasWebSearchResults = displayBusinesses.length > 0;
+
+  const isLoading = search.isLoading;
 
-  // Refresh handler - triggers a new web search
+  // Refresh handler - refetches the current search from the first page
   const handleRefresh = () => {
     if (hasWebSearchResults) {
-      handleWebSearch();
+      search.refetch();
     }
   };
 
@@ -159,7 +131,7 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
   const realStats = [
     {
       title: "Live Listings Found",
-      value: displayBusinesses.length.toString(),
+      value: totalFound.toString(),
       change: "From web search",
       trend: "up" as const,
       icon: Building2
@@ -177,11 +149,6 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
       title: "AI-Ranked Matches",
       value: (() => {
         const highScoreBusinesses = displayBusinesses.filter(b => b.aiScore >= 80);
-        console.log('📈 DEBUG: Calculating AI-Ranked Matches');
-        console.log('📈 DEBUG: Total displayBusinesses:', displayBusinesses.length);
-        console.log('📈 DEBUG: All aiScores:', displayBusinesses.map(b => `${b.name}: ${b.aiScore}`));
-        console.log('📈 DEBUG: Businesses with aiScore >= 80:', highScoreBusinesses.length);
-        console.log('📈 DEBUG: High score businesses:', highScoreBusinesses.map(b => `${b.name}: ${b.aiScore}`));
         return highScoreBusinesses.length.toString();
       })(),
       change: "High compatibility",
@@ -206,15 +173,11 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
       query: query
     }));
     // Trigger the actual web search with updated filters
-    try {
-      console.log('Triggering web search for manual query:', query);
-      await webSearchMutation.mutateAsync({
-        ...filters,
-        query: query
-      });
-    } catch (error) {
-      console.error("Web search failed:", error);
-    }
+    console.log('Triggering web search for manual query:', query);
+    runSearch({
+      ...filters,
+      query: query
+    });
   };
 
   const handleGetStarted = () => {
@@ -244,22 +207,26 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
       priceRange: [50000, 5000000],
       revenueRange: [100000, 10000000],
       location: "",
+      radius: "any",
       industry: [],
       riskTolerance: "any",
       involvement: "any",
       employees: "any",
       paybackPeriod: "any",
+      established: "any",
       query: ""
     });
   };
 
-  const handleWebSearch = async () => {
-    try {
-      console.log('Triggering Live Search with filters:', filters);
-      await webSearchMutation.mutateAsync(filters);
-    } catch (error) {
-      console.error("Web search failed:", error);
-    }
+  // Saved and past searches replace the sidebar filters and run straight away
+  const handleRunStoredSearch = (stored: FilterState) => {
+    setFilters(stored);
+    runSearch(stored);
+  };
+
+  const handleWebSearch = () => {
+    console.log('Triggering Live Search with filters:', filters);
+    runSearch(filters);
   };
 
   return (
@@ -363,7 +330,15 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
                 filters={filters}
                 onFiltersChange={setFilters}
                 onClearFilters={handleClearFilters}
+                facets={pages[0]?.facets}
               />
+
+              {isAuthenticated && (
+                <>
+                  <SavedSearches filters={filters} onRun={handleRunStoredSearch} />
+                  <SearchHistory onRun={handleRunStoredSearch} />
+                </>
+              )}
               
 
               <Card>
@@ -397,30 +372,30 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
               <div className="flex justify-center">
                 <Button
                   onClick={handleWebSearch}
-                  disabled={webSearchMutation.isPending}
+                  disabled={search.isFetching && !search.isFetchingNextPage}
                   size="lg"
                   data-testid="button-web-search-main"
                 >
                   <Globe className="h-4 w-4 mr-2" />
-                  {webSearchMutation.isPending ? "Searching..." : "Live Search"}
+                  {search.isFetching && !search.isFetchingNextPage ? "Searching..." : "Live Search"}
                 </Button>
               </div>
               
-              {webSearchMutation.data && (
+              {search.data && (
                 <div className="text-center">
                   <div className="inline-flex items-center px-4 py-2 bg-green-50 dark:bg-green-900/20 rounded-md">
                     <p className="text-sm text-green-800 dark:text-green-200">
-                      Found {webSearchMutation.data.totalFound} new businesses from web sources!
+                      Found {totalFound} new businesses from web sources!
                     </p>
                   </div>
                 </div>
               )}
               
-              {webSearchMutation.error && (
+              {search.error && (
                 <div className="text-center">
                   <div className="inline-flex items-center px-4 py-2 bg-red-50 dark:bg-red-900/20 rounded-md">
                     <p className="text-sm text-red-800 dark:text-red-200">
-                      {webSearchMutation.error.message}
+                      {search.error.message}
                     </p>
                   </div>
                 </div>
@@ -428,10 +403,18 @@ export default function HomePage({ globalSearchQuery }: HomePageProps) {
               
               <BusinessList
                 businesses={displayBusinesses}
+                totalCount={totalFound}
+                queryExpansion={pages[0]?.queryExpansion}
+                highlights={highlights}
                 loading={isLoading}
+                // The list opens the details modal itself; nothing else on this page follows the selection
+                onViewDetails={() => {}}
                 onContact={(id) => console.log(`Contact seller: ${id}`)}
-                hasMore={displayBusinesses.length >= 20}
-                onLoadMore={() => console.log("Load more")}
+                hasMore={!!search.hasNextPage}
+                isLoadingMore={search.isFetchingNextPage}
+                onLoadMore={() => search.fetchNextPage()}
+                sort={sort}
+                onSortChange={setSort}
                 onRefresh={handleRefresh}
               />
             </div>
@@ -0,0 +1,63 @@
+CREATE TABLE "business_scores" (
+	"business_id" varchar(64) PRIMARY KEY NOT NULL,
+	"score" integer NOT NULL,
+	"reasoning" text NOT NULL,
+	"factors" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "businesses" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"location" text NOT NULL,
+	"industry" text NOT NULL,
+	"asking_price" integer NOT NULL,
+	"annual_revenue" integer NOT NULL,
+	"cash_flow" integer NOT NULL,
+	"ebitda" integer NOT NULL,
+	"employees" integer NOT NULL,
+	"year_established" integer NOT NULL,
+	"source_url" text NOT NULL,
+	"source_site" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "search_history" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"query" text NOT NULL,
+	"filters" jsonb NOT NULL,
+	"results_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_preferences" (
+	"user_id" varchar(64) PRIMARY KEY NOT NULL,
+	"budget_min" integer NOT NULL,
+	"budget_max" integer NOT NULL,
+	"preferred_industries" jsonb NOT NULL,
+	"preferred_locations" jsonb NOT NULL,
+	"business_size" text NOT NULL,
+	"risk_tolerance" text NOT NULL,
+	"involvement_level" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"username" varchar(64) NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "business_scores" ADD CONSTRAINT "business_scores_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "public"."businesses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "search_history" ADD CONSTRAINT "search_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD CONSTRAINT "user_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "businesses_industry_idx" ON "businesses" USING btree ("industry");--> statement-breakpoint
+CREATE INDEX "businesses_asking_price_idx" ON "businesses" USING btree ("asking_price");--> statement-breakpoint
+CREATE INDEX "search_history_user_idx" ON "search_history" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "sessions" (
+	"sid" varchar(255) PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "password_hash" text;--> statement-breakpoint
+CREATE INDEX "sessions_expire_idx" ON "sessions" USING btree ("expire");
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Scores were global to the demo user; they are a cache, so drop them rather than guess an owner
+DELETE FROM "business_scores";--> statement-breakpoint
+ALTER TABLE "business_scores" DROP CONSTRAINT "business_scores_pkey";--> statement-breakpoint
+ALTER TABLE "business_scores" ADD COLUMN "user_id" varchar(64) NOT NULL;--> statement-breakpoint
+ALTER TABLE "business_scores" ADD COLUMN "preferences_version" integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "business_scores" ADD CONSTRAINT "business_scores_user_id_business_id_pk" PRIMARY KEY("user_id","business_id");--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "business_scores" ADD CONSTRAINT "business_scores_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1 @@
+ALTER TABLE "user_preferences" ADD COLUMN "weights_profile" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Factors changed shape to a ScoreFactor[] breakdown; cached scores are recomputed on demand
+DELETE FROM "business_scores";--> statement-breakpoint
+ALTER TABLE "business_scores" ADD COLUMN "base_score" real DEFAULT 0 NOT NULL;
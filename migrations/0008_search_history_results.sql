@@ -0,0 +1,3 @@
+ALTER TABLE "search_history" ADD COLUMN "top_result_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- Entries recorded before filters were stored as the search API parses them used a single industry
+UPDATE "search_history" SET "filters" = ("filters" - 'industry') || jsonb_build_object('industries', jsonb_build_array("filters"->'industry')) WHERE "filters" ? 'industry';
\ No newline at end of file
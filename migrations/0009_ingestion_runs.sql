@@ -0,0 +1,16 @@
+CREATE TABLE "ingestion_runs" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"source" varchar(64) NOT NULL,
+	"status" varchar(16) NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp,
+	"pages_fetched" integer DEFAULT 0 NOT NULL,
+	"listings_found" integer DEFAULT 0 NOT NULL,
+	"created" integer DEFAULT 0 NOT NULL,
+	"updated" integer DEFAULT 0 NOT NULL,
+	"unchanged" integer DEFAULT 0 NOT NULL,
+	"invalid" integer DEFAULT 0 NOT NULL,
+	"errors" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ingestion_runs_started_idx" ON "ingestion_runs" USING btree ("started_at");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "import_batch_items" (
+	"batch_id" varchar(64) NOT NULL,
+	"business_id" varchar(64) NOT NULL,
+	"previous" jsonb,
+	CONSTRAINT "import_batch_items_batch_id_business_id_pk" PRIMARY KEY("batch_id","business_id")
+);
+--> statement-breakpoint
+CREATE TABLE "import_batches" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"file_name" text NOT NULL,
+	"imported_by" varchar(64) NOT NULL,
+	"imported_by_name" text NOT NULL,
+	"status" varchar(16) DEFAULT 'imported' NOT NULL,
+	"row_count" integer NOT NULL,
+	"created" integer NOT NULL,
+	"updated" integer NOT NULL,
+	"unchanged" integer NOT NULL,
+	"invalid" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"rolled_back_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "import_batch_items" ADD CONSTRAINT "import_batch_items_batch_id_import_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."import_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_batches_created_idx" ON "import_batches" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "distinct_listing_pairs" (
+	"business_id" varchar(64) NOT NULL,
+	"other_business_id" varchar(64) NOT NULL,
+	"created_by" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "distinct_listing_pairs_business_id_other_business_id_pk" PRIMARY KEY("business_id","other_business_id")
+);
+--> statement-breakpoint
+CREATE TABLE "duplicate_groups" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"canonical_id" varchar(64) NOT NULL,
+	"members" jsonb NOT NULL,
+	"status" varchar(16) DEFAULT 'pending' NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"reviewed_at" timestamp,
+	"reviewed_by" varchar(64)
+);
@@ -0,0 +1,11 @@
+CREATE TABLE "listing_changes" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"business_id" varchar(64) NOT NULL,
+	"field" varchar(32) NOT NULL,
+	"previous_value" jsonb NOT NULL,
+	"new_value" jsonb NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "listing_changes" ADD CONSTRAINT "listing_changes_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "public"."businesses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "listing_changes_business_idx" ON "listing_changes" USING btree ("business_id","changed_at");
\ No newline at end of file
@@ -1,5 +1,6 @@
 // Comprehensive demo business data - no external dependencies required
-import { Business } from "../../shared/schema.js";
+import { Business, BusinessListing, ListingChange, SearchHistoryEntry } from "../../shared/schema.js";
+import { withNormalizedLocation } from "../services/geo.js";
 
 // Core demo business listings with realistic data
 export const coreDemoBusinesses = [
@@ -125,8 +126,21 @@ export const coreDemoBusinesses = [
   }
 ];
 
-// Generate additional realistic businesses across multiple industries and locations
-export function generateAdditionalBusinesses(): Business[] {
+// Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate additional realistic businesses across multiple industries and locations. Seeded, so the figures are the
+// same on every boot rather than looking like each listing was repriced.
+export function generateAdditionalBusinesses(): BusinessListing[] {
+  const random = seededRandom(20240601);
   const industries = [
     "Technology", "Food & Beverage", "Health & Fitness", "Retail", "Manufacturing", 
     "E-commerce", "Consulting", "Real Estate", "Education", "Transportation",
@@ -149,7 +163,7 @@ export function generateAdditionalBusinesses(): Business[] {
     "Consulting", "Technologies", "Ventures", "Industries", "Company", "Associates"
   ];
   
-  const generatedBusinesses: Business[] = [];
+  const generatedBusinesses: BusinessListing[] = [];
   
   for (let i = 0; i < 44; i++) { // Generate 44 more for total of 50
     const industry = industries[i % industries.length];
@@ -158,11 +172,11 @@ export function generateAdditionalBusinesses(): Business[] {
     const suffix = businessNameSuffixes[i % businessNameSuffixes.length];
     
     // Generate realistic but varied financial data
-    const revenue = 400000 + (i * 25000) + Math.floor(Math.random() * 300000);
-    const askingPrice = Math.floor(revenue * (0.5 + Math.random() * 0.8));
-    const cashFlow = Math.floor(revenue * (0.12 + Math.random() * 0.15));
-    const ebitda = Math.floor(cashFlow * (0.8 + Math.random() * 0.15));
-    const employees = Math.max(3, Math.floor(revenue / 65000) + Math.floor(Math.random() * 8));
+    const revenue = 400000 + (i * 25000) + Math.floor(random() * 300000);
+    const askingPrice = Math.floor(revenue * (0.5 + random() * 0.8));
+    const cashFlow = Math.floor(revenue * (0.12 + random() * 0.15));
+    const ebitda = Math.floor(cashFlow * (0.8 + random() * 0.15));
+    const employees = Math.max(3, Math.floor(revenue / 65000) + Math.floor(random() * 8));
     const yearEst = 2014 + (i % 9);
     
     // Create realistic business descriptions
@@ -211,7 +225,7 @@ export function generateAdditionalBusinesses(): Business[] {
 
 // Combine all demo businesses
 export function getAllDemoBusinesses(): Business[] {
-  return [...coreDemoBusinesses, ...generateAdditionalBusinesses()];
+  return [...coreDemoBusinesses, ...generateAdditionalBusinesses()].map(withNormalizedLocation);
 }
 
 // Demo user data for simplified authentication
@@ -229,27 +243,79 @@ export const demoUser = {
   }
 };
 
+// Sign-in password for the seeded demo account
+export const demoUserPassword = 'password123';
+
 // Search history for demo
-export const demoSearchHistory = [
+export const demoSearchHistory: SearchHistoryEntry[] = [
   {
     id: 'search-1',
     query: 'Technology businesses in New York',
-    filters: { industry: 'Technology', location: 'New York, NY' },
+    filters: { industries: ['Technology'], location: 'New York, NY' },
     resultsCount: 8,
+    topResultIds: [],
     createdAt: new Date(Date.now() - 86400000 * 2) // 2 days ago
   },
   {
     id: 'search-2', 
     query: 'E-commerce businesses under $1M',
-    filters: { industry: 'E-commerce', maxPrice: 1000000 },
+    filters: { industries: ['E-commerce'], maxPrice: 1000000 },
     resultsCount: 12,
+    topResultIds: [],
     createdAt: new Date(Date.now() - 86400000 * 5) // 5 days ago
   },
   {
     id: 'search-3',
     query: 'Health & Fitness businesses in California', 
-    filters: { industry: 'Health & Fitness', location: 'California' },
+    filters: { industries: ['Health & Fitness'], location: 'California' },
     resultsCount: 6,
+    topResultIds: [],
     createdAt: new Date(Date.now() - 86400000 * 7) // 1 week ago
   }
-];
\ No newline at end of file
+];
+
+const daysAgo = (days: number) => new Date(Date.now() - 86400000 * days);
+
+// Listing history for demo - each listing's latest change leads to its current figures above
+export const demoListingChanges: ListingChange[] = [
+  {
+    id: 'change-1',
+    businessId: 'demo-tech-1',
+    field: 'askingPrice',
+    previousValue: 1450000,
+    newValue: 1350000,
+    changedAt: daysAgo(75)
+  },
+  {
+    id: 'change-2',
+    businessId: 'demo-tech-1',
+    field: 'askingPrice',
+    previousValue: 1350000,
+    newValue: 1200000,
+    changedAt: daysAgo(12)
+  },
+  {
+    id: 'change-3',
+    businessId: 'demo-food-1',
+    field: 'annualRevenue',
+    previousValue: 1180000,
+    newValue: 1250000,
+    changedAt: daysAgo(30)
+  },
+  {
+    id: 'change-4',
+    businessId: 'demo-ecommerce-1',
+    field: 'askingPrice',
+    previousValue: 895000,
+    newValue: 950000,
+    changedAt: daysAgo(20)
+  },
+  {
+    id: 'change-5',
+    businessId: 'demo-manufacturing-1',
+    field: 'askingPrice',
+    previousValue: 1950000,
+    newValue: 1800000,
+    changedAt: daysAgo(4)
+  }
+];
@@ -0,0 +1,61 @@
+// Search aliases - a query word on the left also matches listings containing any phrase on the right.
+// Keys are single words; keys and phrases are tokenized and stemmed like listing text, so plurals
+// ("gyms", "restaurants") need no entries of their own. A phrase matches only if all its words do.
+export const searchSynonyms: Record<string, string[]> = {
+  // Technology
+  saas: ['technology', 'software'],
+  software: ['technology'],
+  tech: ['technology'],
+  app: ['technology', 'software'],
+  startup: ['technology'],
+
+  // Health & Fitness / Healthcare
+  gym: ['health & fitness'],
+  yoga: ['health & fitness'],
+  pilates: ['health & fitness'],
+  spa: ['health & fitness'],
+  clinic: ['healthcare'],
+  medical: ['healthcare'],
+  dental: ['healthcare'],
+  pharmacy: ['healthcare'],
+
+  // Construction and the trades
+  hvac: ['construction', 'heating', 'cooling'],
+  plumbing: ['construction'],
+  roofing: ['construction'],
+  electrical: ['construction'],
+  contractor: ['construction'],
+  landscaping: ['construction', 'agriculture'],
+
+  // Food & Beverage
+  restaurant: ['food & beverage'],
+  cafe: ['food & beverage', 'coffee'],
+  coffee: ['food & beverage'],
+  bakery: ['food & beverage'],
+  bar: ['food & beverage'],
+  catering: ['food & beverage'],
+
+  // Retail and e-commerce
+  ecommerce: ['e-commerce'],
+  online: ['e-commerce'],
+  shop: ['retail'],
+  store: ['retail'],
+  boutique: ['retail'],
+
+  // Everything else in the industry list
+  trucking: ['transportation'],
+  logistics: ['transportation'],
+  delivery: ['transportation'],
+  farm: ['agriculture'],
+  school: ['education'],
+  tutoring: ['education'],
+  daycare: ['education'],
+  agency: ['professional services', 'consulting'],
+  accounting: ['professional services'],
+  legal: ['professional services'],
+  property: ['real estate'],
+  realty: ['real estate'],
+  factory: ['manufacturing'],
+  fabrication: ['manufacturing'],
+  venue: ['entertainment'],
+};
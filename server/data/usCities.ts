@@ -0,0 +1,332 @@
+// Offline US city gazetteer - enough to place every listing and the cities buyers search around, without a
+// geocoding service. Coordinates are city centres (WGS84, 4 decimal places, about 10 m).
+import { GeoPlace } from "../../shared/schema.js";
+
+export const usStates: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas',
+  CA: 'California', CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware',
+  DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii',
+  ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa',
+  KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine',
+  MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska',
+  NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico',
+  NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio',
+  OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas',
+  UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington',
+  WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming'
+};
+
+// [city, state, latitude, longitude]
+const cities: [string, string, number, number][] = [
+  // Alabama
+  ['Birmingham', 'AL', 33.5186, -86.8104],
+  ['Montgomery', 'AL', 32.3668, -86.3000],
+  ['Huntsville', 'AL', 34.7304, -86.5861],
+  ['Mobile', 'AL', 30.6954, -88.0399],
+  // Alaska
+  ['Anchorage', 'AK', 61.2181, -149.9003],
+  ['Fairbanks', 'AK', 64.8378, -147.7164],
+  ['Juneau', 'AK', 58.3019, -134.4197],
+  // Arizona
+  ['Phoenix', 'AZ', 33.4484, -112.0740],
+  ['Tucson', 'AZ', 32.2226, -110.9747],
+  ['Mesa', 'AZ', 33.4152, -111.8315],
+  ['Chandler', 'AZ', 33.3062, -111.8413],
+  ['Scottsdale', 'AZ', 33.4942, -111.9261],
+  ['Tempe', 'AZ', 33.4255, -111.9400],
+  ['Flagstaff', 'AZ', 35.1983, -111.6513],
+  // Arkansas
+  ['Little Rock', 'AR', 34.7465, -92.2896],
+  ['Fayetteville', 'AR', 36.0626, -94.1574],
+  // California
+  ['Los Angeles', 'CA', 34.0522, -118.2437],
+  ['San Diego', 'CA', 32.7157, -117.1611],
+  ['San Jose', 'CA', 37.3382, -121.8863],
+  ['San Francisco', 'CA', 37.7749, -122.4194],
+  ['Fresno', 'CA', 36.7378, -119.7871],
+  ['Sacramento', 'CA', 38.5816, -121.4944],
+  ['Long Beach', 'CA', 33.7701, -118.1937],
+  ['Oakland', 'CA', 37.8044, -122.2712],
+  ['Bakersfield', 'CA', 35.3733, -119.0187],
+  ['Anaheim', 'CA', 33.8366, -117.9143],
+  ['Santa Ana', 'CA', 33.7455, -117.8677],
+  ['Riverside', 'CA', 33.9806, -117.3755],
+  ['Irvine', 'CA', 33.6846, -117.8265],
+  ['San Bernardino', 'CA', 34.1083, -117.2898],
+  ['Pasadena', 'CA', 34.1478, -118.1445],
+  ['Santa Monica', 'CA', 34.0195, -118.4912],
+  ['Palo Alto', 'CA', 37.4419, -122.1430],
+  ['Berkeley', 'CA', 37.8715, -122.2730],
+  ['Santa Barbara', 'CA', 34.4208, -119.6982],
+  // Colorado
+  ['Denver', 'CO', 39.7392, -104.9903],
+  ['Colorado Springs', 'CO', 38.8339, -104.8214],
+  ['Aurora', 'CO', 39.7294, -104.8319],
+  ['Fort Collins', 'CO', 40.5853, -105.0844],
+  ['Boulder', 'CO', 40.0150, -105.2705],
+  // Connecticut
+  ['Hartford', 'CT', 41.7658, -72.6734],
+  ['New Haven', 'CT', 41.3083, -72.9279],
+  ['Bridgeport', 'CT', 41.1865, -73.1952],
+  ['Stamford', 'CT', 41.0534, -73.5387],
+  // Delaware
+  ['Wilmington', 'DE', 39.7391, -75.5398],
+  ['Dover', 'DE', 39.1582, -75.5244],
+  // District of Columbia
+  ['Washington', 'DC', 38.9072, -77.0369],
+  // Florida
+  ['Jacksonville', 'FL', 30.3322, -81.6557],
+  ['Miami', 'FL', 25.7617, -80.1918],
+  ['Tampa', 'FL', 27.9506, -82.4572],
+  ['Orlando', 'FL', 28.5383, -81.3792],
+  ['St. Petersburg', 'FL', 27.7676, -82.6403],
+  ['Hialeah', 'FL', 25.8576, -80.2781],
+  ['Tallahassee', 'FL', 30.4383, -84.2807],
+  ['Fort Lauderdale', 'FL', 26.1224, -80.1373],
+  ['Gainesville', 'FL', 29.6516, -82.3248],
+  ['Sarasota', 'FL', 27.3364, -82.5307],
+  ['Naples', 'FL', 26.1420, -81.7948],
+  ['West Palm Beach', 'FL', 26.7153, -80.0534],
+  ['Boca Raton', 'FL', 26.3683, -80.1289],
+  // Georgia
+  ['Atlanta', 'GA', 33.7490, -84.3880],
+  ['Savannah', 'GA', 32.0809, -81.0912],
+  ['Augusta', 'GA', 33.4735, -82.0105],
+  ['Columbus', 'GA', 32.4610, -84.9877],
+  ['Athens', 'GA', 33.9519, -83.3576],
+  ['Macon', 'GA', 32.8407, -83.6324],
+  // Hawaii
+  ['Honolulu', 'HI', 21.3069, -157.8583],
+  // Idaho
+  ['Boise', 'ID', 43.6150, -116.2023],
+  // Illinois
+  ['Chicago', 'IL', 41.8781, -87.6298],
+  ['Aurora', 'IL', 41.7606, -88.3201],
+  ['Naperville', 'IL', 41.7508, -88.1535],
+  ['Rockford', 'IL', 42.2711, -89.0940],
+  ['Springfield', 'IL', 39.7817, -89.6501],
+  ['Peoria', 'IL', 40.6936, -89.5890],
+  ['Evanston', 'IL', 42.0451, -87.6877],
+  // Indiana
+  ['Indianapolis', 'IN', 39.7684, -86.1581],
+  ['Fort Wayne', 'IN', 41.0793, -85.1394],
+  ['Evansville', 'IN', 37.9716, -87.5711],
+  ['South Bend', 'IN', 41.6764, -86.2520],
+  ['Bloomington', 'IN', 39.1653, -86.5264],
+  // Iowa
+  ['Des Moines', 'IA', 41.5868, -93.6250],
+  ['Cedar Rapids', 'IA', 41.9779, -91.6656],
+  ['Iowa City', 'IA', 41.6611, -91.5302],
+  // Kansas
+  ['Wichita', 'KS', 37.6872, -97.3301],
+  ['Overland Park', 'KS', 38.9822, -94.6708],
+  ['Kansas City', 'KS', 39.1142, -94.6275],
+  ['Topeka', 'KS', 39.0473, -95.6752],
+  // Kentucky
+  ['Louisville', 'KY', 38.2527, -85.7585],
+  ['Lexington', 'KY', 38.0406, -84.5037],
+  ['Frankfort', 'KY', 38.2009, -84.8733],
+  // Louisiana
+  ['New Orleans', 'LA', 29.9511, -90.0715],
+  ['Baton Rouge', 'LA', 30.4515, -91.1871],
+  ['Shreveport', 'LA', 32.5252, -93.7502],
+  ['Lafayette', 'LA', 30.2241, -92.0198],
+  // Maine
+  ['Portland', 'ME', 43.6591, -70.2568],
+  ['Bangor', 'ME', 44.8016, -68.7712],
+  ['Augusta', 'ME', 44.3106, -69.7795],
+  // Maryland
+  ['Baltimore', 'MD', 39.2904, -76.6122],
+  ['Annapolis', 'MD', 38.9784, -76.4922],
+  ['Frederick', 'MD', 39.4143, -77.4105],
+  ['Bethesda', 'MD', 38.9847, -77.0947],
+  // Massachusetts
+  ['Boston', 'MA', 42.3601, -71.0589],
+  ['Worcester', 'MA', 42.2626, -71.8023],
+  ['Springfield', 'MA', 42.1015, -72.5898],
+  ['Cambridge', 'MA', 42.3736, -71.1097],
+  ['Lowell', 'MA', 42.6334, -71.3162],
+  // Michigan
+  ['Detroit', 'MI', 42.3314, -83.0458],
+  ['Grand Rapids', 'MI', 42.9634, -85.6681],
+  ['Ann Arbor', 'MI', 42.2808, -83.7430],
+  ['Lansing', 'MI', 42.7325, -84.5555],
+  ['Kalamazoo', 'MI', 42.2917, -85.5872],
+  // Minnesota
+  ['Minneapolis', 'MN', 44.9778, -93.2650],
+  ['Saint Paul', 'MN', 44.9537, -93.0900],
+  ['Rochester', 'MN', 44.0121, -92.4802],
+  ['Duluth', 'MN', 46.7867, -92.1005],
+  // Mississippi
+  ['Jackson', 'MS', 32.2988, -90.1848],
+  ['Gulfport', 'MS', 30.3674, -89.0928],
+  // Missouri
+  ['Kansas City', 'MO', 39.0997, -94.5786],
+  ['St. Louis', 'MO', 38.6270, -90.1994],
+  ['Springfield', 'MO', 37.2090, -93.2923],
+  ['Columbia', 'MO', 38.9517, -92.3341],
+  ['Jefferson City', 'MO', 38.5767, -92.1735],
+  // Montana
+  ['Billings', 'MT', 45.7833, -108.5007],
+  ['Missoula', 'MT', 46.8721, -113.9940],
+  ['Bozeman', 'MT', 45.6770, -111.0429],
+  ['Helena', 'MT', 46.5891, -112.0391],
+  // Nebraska
+  ['Omaha', 'NE', 41.2565, -95.9345],
+  ['Lincoln', 'NE', 40.8136, -96.7026],
+  // Nevada
+  ['Las Vegas', 'NV', 36.1699, -115.1398],
+  ['Henderson', 'NV', 36.0395, -114.9817],
+  ['Reno', 'NV', 39.5296, -119.8138],
+  ['Carson City', 'NV', 39.1638, -119.7674],
+  // New Hampshire
+  ['Manchester', 'NH', 42.9956, -71.4548],
+  ['Nashua', 'NH', 42.7654, -71.4676],
+  ['Concord', 'NH', 43.2081, -71.5376],
+  // New Jersey
+  ['Newark', 'NJ', 40.7357, -74.1724],
+  ['Jersey City', 'NJ', 40.7178, -74.0431],
+  ['Paterson', 'NJ', 40.9168, -74.1718],
+  ['Hoboken', 'NJ', 40.7440, -74.0324],
+  ['Trenton', 'NJ', 40.2206, -74.7597],
+  ['Princeton', 'NJ', 40.3573, -74.6672],
+  // New Mexico
+  ['Albuquerque', 'NM', 35.0844, -106.6504],
+  ['Las Cruces', 'NM', 32.3199, -106.7637],
+  ['Santa Fe', 'NM', 35.6870, -105.9378],
+  // New York
+  ['New York', 'NY', 40.7128, -74.0060],
+  ['Brooklyn', 'NY', 40.6782, -73.9442],
+  ['Buffalo', 'NY', 42.8864, -78.8784],
+  ['Rochester', 'NY', 43.1566, -77.6088],
+  ['Yonkers', 'NY', 40.9312, -73.8988],
+  ['Syracuse', 'NY', 43.0481, -76.1474],
+  ['Albany', 'NY', 42.6526, -73.7562],
+  ['White Plains', 'NY', 41.0340, -73.7629],
+  ['Ithaca', 'NY', 42.4440, -76.5019],
+  // North Carolina
+  ['Charlotte', 'NC', 35.2271, -80.8431],
+  ['Raleigh', 'NC', 35.7796, -78.6382],
+  ['Greensboro', 'NC', 36.0726, -79.7920],
+  ['Durham', 'NC', 35.9940, -78.8986],
+  ['Winston-Salem', 'NC', 36.0999, -80.2442],
+  ['Chapel Hill', 'NC', 35.9132, -79.0558],
+  ['Wilmington', 'NC', 34.2257, -77.9447],
+  ['Asheville', 'NC', 35.5951, -82.5515],
+  // North Dakota
+  ['Fargo', 'ND', 46.8772, -96.7898],
+  ['Bismarck', 'ND', 46.8083, -100.7837],
+  // Ohio
+  ['Columbus', 'OH', 39.9612, -82.9988],
+  ['Cleveland', 'OH', 41.4993, -81.6944],
+  ['Cincinnati', 'OH', 39.1031, -84.5120],
+  ['Toledo', 'OH', 41.6528, -83.5379],
+  ['Akron', 'OH', 41.0814, -81.5190],
+  ['Dayton', 'OH', 39.7589, -84.1916],
+  // Oklahoma
+  ['Oklahoma City', 'OK', 35.4676, -97.5164],
+  ['Tulsa', 'OK', 36.1540, -95.9928],
+  ['Norman', 'OK', 35.2226, -97.4395],
+  // Oregon
+  ['Portland', 'OR', 45.5152, -122.6784],
+  ['Salem', 'OR', 44.9429, -123.0351],
+  ['Eugene', 'OR', 44.0521, -123.0868],
+  ['Bend', 'OR', 44.0582, -121.3153],
+  // Pennsylvania
+  ['Philadelphia', 'PA', 39.9526, -75.1652],
+  ['Pittsburgh', 'PA', 40.4406, -79.9959],
+  ['Allentown', 'PA', 40.6023, -75.4714],
+  ['Erie', 'PA', 42.1292, -80.0851],
+  ['Harrisburg', 'PA', 40.2732, -76.8867],
+  ['Lancaster', 'PA', 40.0379, -76.3055],
+  ['Scranton', 'PA', 41.4090, -75.6624],
+  // Rhode Island
+  ['Providence', 'RI', 41.8240, -71.4128],
+  ['Newport', 'RI', 41.4901, -71.3128],
+  // South Carolina
+  ['Charleston', 'SC', 32.7765, -79.9311],
+  ['Columbia', 'SC', 34.0007, -81.0348],
+  ['Greenville', 'SC', 34.8526, -82.3940],
+  ['Myrtle Beach', 'SC', 33.6891, -78.8867],
+  // South Dakota
+  ['Sioux Falls', 'SD', 43.5446, -96.7311],
+  ['Rapid City', 'SD', 44.0805, -103.2310],
+  ['Pierre', 'SD', 44.3683, -100.3510],
+  // Tennessee
+  ['Nashville', 'TN', 36.1627, -86.7816],
+  ['Memphis', 'TN', 35.1495, -90.0490],
+  ['Knoxville', 'TN', 35.9606, -83.9207],
+  ['Chattanooga', 'TN', 35.0456, -85.3097],
+  // Texas
+  ['Houston', 'TX', 29.7604, -95.3698],
+  ['San Antonio', 'TX', 29.4241, -98.4936],
+  ['Dallas', 'TX', 32.7767, -96.7970],
+  ['Austin', 'TX', 30.2672, -97.7431],
+  ['Fort Worth', 'TX', 32.7555, -97.3308],
+  ['El Paso', 'TX', 31.7619, -106.4850],
+  ['Arlington', 'TX', 32.7357, -97.1081],
+  ['Corpus Christi', 'TX', 27.8006, -97.3964],
+  ['Plano', 'TX', 33.0198, -96.6989],
+  ['Laredo', 'TX', 27.5306, -99.4803],
+  ['Lubbock', 'TX', 33.5779, -101.8552],
+  ['Irving', 'TX', 32.8140, -96.9489],
+  ['Frisco', 'TX', 33.1507, -96.8236],
+  ['Amarillo', 'TX', 35.2220, -101.8313],
+  ['McAllen', 'TX', 26.2034, -98.2300],
+  ['Waco', 'TX', 31.5493, -97.1467],
+  ['Round Rock', 'TX', 30.5083, -97.6789],
+  ['College Station', 'TX', 30.6280, -96.3344],
+  ['The Woodlands', 'TX', 30.1658, -95.4613],
+  // Utah
+  ['Salt Lake City', 'UT', 40.7608, -111.8910],
+  ['Provo', 'UT', 40.2338, -111.6585],
+  ['Ogden', 'UT', 41.2230, -111.9738],
+  ['St. George', 'UT', 37.0965, -113.5684],
+  ['Park City', 'UT', 40.6461, -111.4980],
+  // Vermont
+  ['Burlington', 'VT', 44.4759, -73.2121],
+  ['Montpelier', 'VT', 44.2601, -72.5754],
+  // Virginia
+  ['Virginia Beach', 'VA', 36.8529, -75.9780],
+  ['Chesapeake', 'VA', 36.7682, -76.2875],
+  ['Norfolk', 'VA', 36.8508, -76.2859],
+  ['Richmond', 'VA', 37.5407, -77.4360],
+  ['Arlington', 'VA', 38.8816, -77.0910],
+  ['Alexandria', 'VA', 38.8048, -77.0469],
+  ['Charlottesville', 'VA', 38.0293, -78.4767],
+  ['Roanoke', 'VA', 37.2710, -79.9414],
+  // Washington
+  ['Seattle', 'WA', 47.6062, -122.3321],
+  ['Spokane', 'WA', 47.6588, -117.4260],
+  ['Tacoma', 'WA', 47.2529, -122.4443],
+  ['Vancouver', 'WA', 45.6387, -122.6615],
+  ['Bellevue', 'WA', 47.6101, -122.2015],
+  ['Redmond', 'WA', 47.6740, -122.1215],
+  ['Olympia', 'WA', 47.0379, -122.9007],
+  // West Virginia
+  ['Charleston', 'WV', 38.3498, -81.6326],
+  ['Morgantown', 'WV', 39.6295, -79.9559],
+  // Wisconsin
+  ['Milwaukee', 'WI', 43.0389, -87.9065],
+  ['Madison', 'WI', 43.0731, -89.4012],
+  ['Green Bay', 'WI', 44.5133, -88.0133],
+  // Wyoming
+  ['Cheyenne', 'WY', 41.1400, -104.8202],
+  ['Casper', 'WY', 42.8666, -106.3131],
+  ['Jackson', 'WY', 43.4799, -110.7624]
+];
+
+export const usCities: GeoPlace[] = cities.map(([city, state, lat, lng]) => ({ label: `${city}, ${state}`, city, state, lat, lng }));
+
+// Other names people type for a gazetteer city
+export const cityAliases: Record<string, string> = {
+  'nyc': 'New York, NY',
+  'new york city': 'New York, NY',
+  'manhattan': 'New York, NY',
+  'sf': 'San Francisco, CA',
+  'philly': 'Philadelphia, PA',
+  'vegas': 'Las Vegas, NV',
+  'washington dc': 'Washington, DC'
+};
@@ -0,0 +1,47 @@
+// Ingests listings from the configured marketplaces now, without waiting for the server's schedule
+//
+//   STORAGE_DRIVER=sqlite INGEST_BIZMARKET_URL=http://localhost:5065/bizmarket/listings npm run ingest
+//   npm run ingest -- bizmarket          only that source
+//   npm run ingest -- --runs             the last runs recorded instead
+//
+// Uses the same STORAGE_DRIVER and INGEST_* settings as the server; with the memory driver nothing is kept afterwards.
+import { IngestionRunError } from '../../shared/schema.js';
+import { storage } from '../storage/index.js';
+import { createListingSources, getIngestionConfig } from '../ingestion/index.js';
+import { runAllSources, summarizeRun } from '../ingestion/pipeline.js';
+
+// Page errors already name their URL
+const describeError = (error: IngestionRunError) => (error.externalId ? `${error.externalId}: ${error.message}` : error.message);
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--runs')) {
+    (await storage.getIngestionRuns(20)).forEach(run => {
+      console.log(`${run.startedAt.toISOString()} ${run.id} ${summarizeRun(run)}`);
+      run.errors.forEach(error => console.log(`    ${describeError(error)}`));
+    });
+    return 0;
+  }
+
+  const config = getIngestionConfig();
+  const adapters = createListingSources(config).filter(adapter => args.length === 0 || args.includes(adapter.id));
+  if (adapters.length === 0) {
+    console.error('No listing sources to ingest - set INGEST_<SOURCE>_URL (see the README)');
+    return 1;
+  }
+
+  const runs = await runAllSources(storage, adapters, config.options);
+  runs.forEach(run => {
+    console.log(summarizeRun(run));
+    run.errors.forEach(error => console.log(`  ${describeError(error)}`));
+  });
+  return runs.some(run => run.status === 'failed') ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+// Local OpenAI-compatible stub for developing and testing LLM scoring offline
+//
+//   npm run llm:stub
+//   SCORING_ENGINE=llm LLM_BASE_URL=http://localhost:5055/v1 npm run dev
+//
+// Scores come from the rule-based engine, so results are deterministic. LLM_STUB_DELAY_MS adds latency
+// (to exercise timeouts) and LLM_STUB_FAILURE_RATE (0-1) randomly answers with a 500 or malformed JSON
+// (to exercise retries and the fallback).
+import express from 'express';
+import { RuleBasedScoringEngine } from '../services/scoringEngine.js';
+import { extractScoringPayload } from '../services/llmScoring.js';
+
+const port = Number(process.env.LLM_STUB_PORT) || 5055;
+const delayMs = Number(process.env.LLM_STUB_DELAY_MS) || 0;
+const failureRate = Number(process.env.LLM_STUB_FAILURE_RATE) || 0;
+
+const engine = new RuleBasedScoringEngine();
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+function completion(model: string, content: string) {
+  return {
+    id: `chatcmpl-stub-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  };
+}
+
+app.get('/v1/models', (_req, res) => {
+  res.json({ object: 'list', data: [{ id: 'stub-scorer', object: 'model', owned_by: 'local' }] });
+});
+
+app.post('/v1/chat/completions', async (req, res) => {
+  if (delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  const model = req.body?.model || 'stub-scorer';
+  if (Math.random() < failureRate) {
+    return Math.random() < 0.5
+      ? res.status(500).json({ error: { message: 'Stub provider failure' } })
+      : res.json(completion(model, '{"score": "not a number"'));
+  }
+
+  const messages: { role: string; content: string }[] = req.body?.messages || [];
+  const userMessage = messages.filter(message => message.role === 'user').pop();
+  const payload = userMessage ? extractScoringPayload(userMessage.content) : null;
+  if (!payload) {
+    return res.status(400).json({ error: { message: 'Expected a scoring prompt built by buildScoringPrompt' } });
+  }
+
+  const business = { ...payload.business, sellerInfo: null, businessDetails: null, isActive: true, createdAt: new Date(), updatedAt: new Date() };
+  const score = engine.scoreBusiness(business, payload.preferences);
+  res.json(completion(model, JSON.stringify({
+    reasoning: `[stub] ${score.reasoning}`,
+    factors: score.factors.map(({ key, pointsAwarded, evidence }) => ({ key, pointsAwarded, evidence }))
+  })));
+});
+
+app.listen(port, () => {
+  console.log(`LLM stub provider listening on http://localhost:${port}/v1`);
+});
@@ -0,0 +1,40 @@
+// Local stand-in for the marketplaces the ingestion pipeline reads, serving the saved pages in server/ingestion/fixtures
+//
+//   npm run marketplace:stub
+//   INGEST_BIZMARKET_URL=http://localhost:5065/bizmarket/listings INGEST_DEALFLOW_URL=http://localhost:5065/dealflow/deals npm run ingest
+//
+// MARKETPLACE_STUB_FIXTURES points at another directory of <source>-page-<n>.html files (e.g. an edited copy, to
+// exercise updates). MARKETPLACE_STUB_FAIL_PAGE=<n> answers that page of every source with a 503 (to exercise partial runs).
+import path from 'path';
+import fs from 'fs';
+import express from 'express';
+
+const port = Number(process.env.MARKETPLACE_STUB_PORT) || 5065;
+const fixturesDir = path.resolve(process.env.MARKETPLACE_STUB_FIXTURES || 'server/ingestion/fixtures');
+const failPage = Number(process.env.MARKETPLACE_STUB_FAIL_PAGE) || 0;
+
+const app = express();
+
+function servePage(source: string, pageParam: string) {
+  return (req: express.Request, res: express.Response) => {
+    const page = Number(req.query[pageParam] ?? 1);
+    console.log(`${req.method} ${req.originalUrl}`);
+    if (page === failPage) {
+      return res.status(503).type('text/plain').send('Service temporarily unavailable');
+    }
+    const file = path.join(fixturesDir, `${source}-page-${page}.html`);
+    if (!Number.isInteger(page) || !fs.existsSync(file)) {
+      return res.status(404).type('text/plain').send('Page not found');
+    }
+    res.type('html').send(fs.readFileSync(file, 'utf8'));
+  };
+}
+
+app.get('/bizmarket/listings', servePage('bizmarket', 'page'));
+app.get('/dealflow/deals', servePage('dealflow', 'p'));
+
+app.listen(port, () => {
+  console.log(`Marketplace stub serving ${fixturesDir} on http://localhost:${port}`);
+  console.log(`  BizMarket: http://localhost:${port}/bizmarket/listings`);
+  console.log(`  DealFlow:  http://localhost:${port}/dealflow/deals`);
+});
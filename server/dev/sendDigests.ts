@@ -0,0 +1,18 @@
+// Sends every email digest that is due right now, without waiting for the server's hourly check
+//
+//   STORAGE_DRIVER=sqlite npm run digest:send
+//
+// Uses the same STORAGE_DRIVER and MAIL_TRANSPORT settings as the server; with the memory driver nobody is subscribed.
+import { storage } from '../storage/index.js';
+import { mailConfig, mailTransport } from '../services/mailConfig.js';
+import { runDueDigests } from '../services/digest.js';
+
+runDueDigests(storage, mailTransport, mailConfig)
+  .then(({ sent, empty, failed }) => {
+    console.log(`Digests via ${mailTransport.name}: ${sent} sent, ${empty} with nothing new, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+  })
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
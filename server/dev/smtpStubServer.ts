@@ -0,0 +1,168 @@
+// Local SMTP stand-in (MailHog-style) for developing and testing email digests offline
+//
+//   npm run mail:stub
+//   MAIL_TRANSPORT=smtp SMTP_HOST=localhost SMTP_PORT=1025 npm run dev
+//
+// Accepts any sender, recipient and credentials, keeps every message in memory and prints a line for each.
+// It doesn't offer STARTTLS, so leave SMTP_USER unset - the client won't authenticate without TLS.
+// Browse them at http://localhost:8025/messages (JSON) and /messages/<n> (raw message).
+// MAIL_STUB_REJECT_RCPT=true answers RCPT TO with a 550 (to exercise send failures).
+import net from 'net';
+import express from 'express';
+
+const smtpPort = Number(process.env.MAIL_STUB_SMTP_PORT) || 1025;
+const httpPort = Number(process.env.MAIL_STUB_HTTP_PORT) || 8025;
+const rejectRecipients = process.env.MAIL_STUB_REJECT_RCPT === 'true';
+
+interface ReceivedMessage {
+  id: number;
+  from: string;
+  to: string[];
+  subject: string;
+  receivedAt: string;
+  raw: string;
+}
+
+const messages: ReceivedMessage[] = [];
+
+const headerValue = (raw: string, name: string) =>
+  raw.split('\r\n\r\n')[0].match(new RegExp(`^${name}: (.*)$`, 'mi'))?.[1] ?? '';
+
+const decodeSubject = (subject: string) =>
+  subject.replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_, encoded) => Buffer.from(encoded, 'base64').toString('utf8'));
+
+const smtp = net.createServer(socket => {
+  let from = '';
+  let to: string[] = [];
+  let inData = false;
+  let dataLines: string[] = [];
+  let buffer = '';
+  let pendingAuthLogin = 0; // LOGIN prompts left to answer (username, then password)
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  reply(`220 localhost BizSearch SMTP stub ready`);
+
+  const handle = (line: string) => {
+    if (inData) {
+      if (line !== '.') {
+        dataLines.push(line.startsWith('..') ? line.slice(1) : line);
+        return;
+      }
+      inData = false;
+      const raw = dataLines.join('\r\n');
+      const message = {
+        id: messages.length + 1,
+        from,
+        to,
+        subject: decodeSubject(headerValue(raw, 'Subject')),
+        receivedAt: new Date().toISOString(),
+        raw
+      };
+      messages.push(message);
+      console.log(`#${message.id} ${message.from} -> ${message.to.join(', ')}: ${message.subject}`);
+      from = '';
+      to = [];
+      reply(`250 OK queued as ${message.id}`);
+      return;
+    }
+
+    if (pendingAuthLogin > 0) {
+      pendingAuthLogin--;
+      reply(pendingAuthLogin > 0 ? '334 UGFzc3dvcmQ6' : '235 Authentication successful');
+      return;
+    }
+
+    const [verb] = line.split(' ');
+    switch (verb.toUpperCase()) {
+      case 'EHLO':
+        reply('250-localhost');
+        reply('250-AUTH PLAIN LOGIN');
+        reply('250 8BITMIME');
+        break;
+      case 'HELO':
+        reply('250 localhost');
+        break;
+      case 'AUTH':
+        if (/^AUTH LOGIN$/i.test(line)) {
+          pendingAuthLogin = 2;
+          reply('334 VXNlcm5hbWU6');
+        } else {
+          reply('235 Authentication successful');
+        }
+        break;
+      case 'MAIL':
+        from = line.match(/<([^>]*)>/)?.[1] ?? '';
+        reply('250 OK');
+        break;
+      case 'RCPT':
+        if (rejectRecipients) {
+          reply('550 Mailbox unavailable');
+          break;
+        }
+        to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+        reply('250 OK');
+        break;
+      case 'DATA':
+        if (to.length === 0) {
+          reply('503 RCPT first');
+          break;
+        }
+        inData = true;
+        dataLines = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        break;
+      case 'RSET':
+        from = '';
+        to = [];
+        reply('250 OK');
+        break;
+      case 'NOOP':
+        reply('250 OK');
+        break;
+      case 'QUIT':
+        reply('221 Bye');
+        socket.end();
+        break;
+      default:
+        reply('502 Command not implemented');
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      handle(line);
+    }
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+const app = express();
+
+app.get('/messages', (_req, res) => {
+  res.json(messages.map(({ raw, ...summary }) => summary));
+});
+
+app.get('/messages/:id', (req, res) => {
+  const message = messages.find(candidate => candidate.id === Number(req.params.id));
+  if (!message) {
+    return res.status(404).json({ error: 'Message not found' });
+  }
+  res.type('message/rfc822').send(message.raw);
+});
+
+app.delete('/messages', (_req, res) => {
+  messages.length = 0;
+  res.status(204).end();
+});
+
+smtp.listen(smtpPort, () => {
+  console.log(`SMTP stub listening on localhost:${smtpPort}`);
+});
+
+app.listen(httpPort, () => {
+  console.log(`Received mail at http://localhost:${httpPort}/messages`);
+});
@@ -1,7 +1,13 @@
 import express from 'express';
 import path from 'path';
-import { setupVite, serveStatic, log } from './vite.js';
+import { serveStatic, log } from './vite.js';
 import { setupRoutes } from './routes.js';
+import { getStorageConfig, storage } from './storage/index.js';
+import { scoringEngine } from './services/scoringConfig.js';
+import { mailConfig, mailTransport } from './services/mailConfig.js';
+import { startDigestScheduler } from './services/digest.js';
+import { createListingSources, getIngestionConfig } from './ingestion/index.js';
+import { startIngestionScheduler } from './ingestion/pipeline.js';
 
 const app = express();
 const port = Number(process.env.PORT) || 5000;
@@ -55,11 +61,27 @@ async function startServer() {
     res.sendFile(path.join(process.cwd(), 'dist/client/index.html'));
   });
 
+  startDigestScheduler(storage, mailTransport, mailConfig);
+
+  const ingestionConfig = getIngestionConfig();
+  const listingSources = createListingSources(ingestionConfig);
+  if (ingestionConfig.intervalMinutes > 0 && listingSources.length > 0) {
+    startIngestionScheduler(storage, listingSources, ingestionConfig.options, ingestionConfig.intervalMinutes * 60 * 1000);
+  }
+  const describeIngestion = () => {
+    if (listingSources.length === 0) return 'no sources configured';
+    const schedule = ingestionConfig.intervalMinutes > 0 ? `every ${ingestionConfig.intervalMinutes} min` : 'on demand (npm run ingest)';
+    return `${listingSources.map(source => source.id).join(', ')}, ${schedule}`;
+  };
+
   app.listen(port, '0.0.0.0', () => {
     log(`Demo server running on http://0.0.0.0:${port}`);
     log('Demo mode: No external APIs required');
+    log(`Storage: ${getStorageConfig().driver}`);
     log('Business listings: 50+ static demo businesses');
-    log('AI scoring: Mock algorithm (deterministic)');
+    log(`AI scoring: ${scoringEngine.name}`);
+    log(`Email digests: ${mailTransport.name}${mailConfig.transport === 'outbox' ? ` (${mailConfig.outboxDir})` : ''}`);
+    log(`Listing ingestion: ${describeIngestion()}`);
   });
 }
 
@@ -0,0 +1,47 @@
+// Contract for a listing source - each marketplace gets an adapter that fetches its listing pages, parses
+// the listings out of them and normalizes each one to a BusinessInsert; the pipeline does the rest
+import { BusinessInsert } from "../../shared/schema.js";
+
+export interface FetchedPage {
+  // Where the page was fetched from, after redirects; relative links resolve against it
+  url: string;
+  body: string;
+}
+
+// A listing as the source shows it - field values are the page's text, before any parsing
+export interface RawListing {
+  // The source's own ID for the listing, stable across runs
+  externalId: string;
+  sourceUrl: string;
+  fields: Record<string, string>;
+}
+
+export interface ParsedPage {
+  listings: RawListing[];
+  // The next page of results, or null on the last one
+  nextUrl: string | null;
+}
+
+export interface ListingSourceAdapter {
+  // Short stable slug; prefixes the IDs of the source's listings, so it must never change once listings are stored
+  readonly id: string;
+  // Shown as the listings' sourceSite
+  readonly name: string;
+  readonly startUrl: string;
+  fetchPage(url: string): Promise<FetchedPage>;
+  parse(page: FetchedPage): ParsedPage;
+  // Throws IngestionError for a listing it can't make sense of; the result is validated against businessInsertSchema
+  normalize(listing: RawListing): BusinessInsert;
+}
+
+export interface ListingSourceOptions {
+  startUrl: string;
+  timeoutMs: number;
+}
+
+export class IngestionError extends Error {
+  constructor(message: string, public url?: string) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
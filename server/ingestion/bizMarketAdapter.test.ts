@@ -0,0 +1,61 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { businessInsertSchema } from "../../shared/schema.js";
+import { BizMarketAdapter } from "./bizMarketAdapter.js";
+import { IngestionError } from "./ListingSourceAdapter.js";
+
+const adapter = new BizMarketAdapter({ startUrl: "https://bizmarket.test/bizmarket/listings", timeoutMs: 1000 });
+const fixturePage = (name: string, url: string) => ({ url, body: readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8") });
+
+const firstPage = adapter.parse(fixturePage("bizmarket-page-1.html", "https://bizmarket.test/bizmarket/listings"));
+const lastPage = adapter.parse(fixturePage("bizmarket-page-2.html", "https://bizmarket.test/bizmarket/listings?page=2"));
+const listing = (externalId: string) => [...firstPage.listings, ...lastPage.listings].find(raw => raw.externalId === externalId)!;
+
+describe("BizMarketAdapter", () => {
+  it("reads every listing card and follows the next link", () => {
+    expect(firstPage.listings.map(raw => raw.externalId)).toEqual(["BM-10231", "BM-10244", "BM-10250", "BM-10257"]);
+    expect(firstPage.nextUrl).toBe("https://bizmarket.test/bizmarket/listings?page=2");
+    expect(lastPage.listings).toHaveLength(3);
+    expect(lastPage.nextUrl).toBeNull();
+  });
+
+  it("maps a card's figures to a listing", () => {
+    const business = adapter.normalize(listing("BM-10231"));
+    expect(business).toEqual({
+      name: "Harbor Light Coffee Roasters",
+      description: expect.stringContaining("two cafés"),
+      location: "Portland, OR",
+      industry: "Food & Beverage",
+      askingPrice: 850000,
+      annualRevenue: 1400000,
+      cashFlow: 265000,
+      ebitda: 240000,
+      employees: 14,
+      yearEstablished: 2011,
+      sourceUrl: "https://bizmarket.test/bizmarket/listing/BM-10231",
+      sourceSite: "BizMarket"
+    });
+    expect(businessInsertSchema.safeParse(business).success).toBe(true);
+  });
+
+  it("uses cash flow as EBITDA when the card has none", () => {
+    expect(adapter.normalize(listing("BM-10244"))).toMatchObject({ askingPrice: 2100000, cashFlow: 610000, ebitda: 610000, yearEstablished: 1998, industry: "Construction" });
+  });
+
+  it("maps every listing on the second page", () => {
+    expect(lastPage.listings.map(raw => adapter.normalize(raw)).map(business => [business.industry, business.askingPrice])).toEqual([
+      ["E-commerce", 1250000],
+      ["Manufacturing", 4750000],
+      ["Health & Fitness", 575000]
+    ]);
+  });
+
+  it("rejects a listing with undisclosed financials", () => {
+    expect(() => adapter.normalize(listing("BM-10257"))).toThrow(new IngestionError('Cash flow is missing or not a dollar amount ("Not Disclosed")'));
+  });
+
+  it("fails a page without search results", () => {
+    expect(() => adapter.parse({ url: "https://bizmarket.test/maintenance", body: "<html><body>Back soon</body></html>" }))
+      .toThrow(/No search results on https:\/\/bizmarket.test\/maintenance/);
+  });
+});
@@ -0,0 +1,74 @@
+// BizMarket - card layout: one <article class="listing-card"> per listing with its figures in a <dl>,
+// and a rel="next" link to the following page of results
+import { BusinessInsert } from "../../shared/schema.js";
+import { FetchedPage, IngestionError, ListingSourceAdapter, ListingSourceOptions, ParsedPage, RawListing } from "./ListingSourceAdapter.js";
+import { fetchHtmlPage } from "./http.js";
+import { parseHtml, selectAll, selectOne, textOf } from "./html.js";
+import { normalizeIndustry, parseMoney, requireCount, requireMoney, requireYear } from "./normalize.js";
+
+export class BizMarketAdapter implements ListingSourceAdapter {
+  readonly id = 'bizmarket';
+  readonly name = 'BizMarket';
+  readonly startUrl: string;
+
+  constructor(private options: ListingSourceOptions) {
+    this.startUrl = options.startUrl;
+  }
+
+  fetchPage(url: string): Promise<FetchedPage> {
+    return fetchHtmlPage(url, this.options.timeoutMs);
+  }
+
+  parse(page: FetchedPage): ParsedPage {
+    const document = parseHtml(page.body);
+    const results = selectOne(document, '#search-results');
+    if (!results) {
+      throw new IngestionError(`No search results on ${page.url} - has the page layout changed?`, page.url);
+    }
+
+    // Cards without a listing ID are sponsored placements, not listings
+    const listings = selectAll(results, 'article.listing-card[data-listing-id]').map((card): RawListing => {
+      const link = selectOne(card, '.listing-title a');
+      const fields: Record<string, string> = {
+        name: textOf(link),
+        category: textOf(selectOne(card, '.listing-category')),
+        location: textOf(selectOne(card, '.listing-location')),
+        summary: textOf(selectOne(card, '.listing-summary'))
+      };
+      // Figures by their label, e.g. "asking price" -> "$850,000"
+      selectAll(card, 'dl.financials dt').forEach(term => {
+        const definition = term.parent ? selectOne(term.parent, 'dd') : null;
+        fields[textOf(term).toLowerCase()] = textOf(definition);
+      });
+
+      return {
+        externalId: card.attrs['data-listing-id'],
+        sourceUrl: new URL(link?.attrs.href || page.url, page.url).toString(),
+        fields
+      };
+    });
+
+    const next = selectOne(document, 'a[rel=next]');
+    return { listings, nextUrl: next?.attrs.href ? new URL(next.attrs.href, page.url).toString() : null };
+  }
+
+  normalize(listing: RawListing): BusinessInsert {
+    const { fields } = listing;
+    const cashFlow = requireMoney(fields['cash flow'], 'Cash flow');
+    return {
+      name: fields.name,
+      description: fields.summary,
+      location: fields.location,
+      industry: normalizeIndustry(fields.category),
+      askingPrice: requireMoney(fields['asking price'], 'Asking price'),
+      annualRevenue: requireMoney(fields['gross revenue'], 'Gross revenue'),
+      cashFlow,
+      // Many listings only give cash flow (seller's discretionary earnings); it's the closest figure to EBITDA there is
+      ebitda: parseMoney(fields.ebitda ?? '') ?? cashFlow,
+      employees: requireCount(fields.employees, 'Employees'),
+      yearEstablished: requireYear(fields.established, 'Established'),
+      sourceUrl: listing.sourceUrl,
+      sourceSite: this.name
+    };
+  }
+}
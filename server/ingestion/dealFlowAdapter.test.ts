@@ -0,0 +1,57 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { businessInsertSchema } from "../../shared/schema.js";
+import { DealFlowAdapter } from "./dealFlowAdapter.js";
+import { IngestionError } from "./ListingSourceAdapter.js";
+
+const adapter = new DealFlowAdapter({ startUrl: "https://dealflow.test/dealflow/deals", timeoutMs: 1000 });
+const fixturePage = (name: string, url: string) => ({ url, body: readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8") });
+
+const firstPage = adapter.parse(fixturePage("dealflow-page-1.html", "https://dealflow.test/dealflow/deals"));
+const lastPage = adapter.parse(fixturePage("dealflow-page-2.html", "https://dealflow.test/dealflow/deals?p=2"));
+
+describe("DealFlowAdapter", () => {
+  it("reads every deal row and follows the next link", () => {
+    expect(firstPage.listings.map(raw => raw.externalId)).toEqual(["5512", "5527", "5530"]);
+    expect(firstPage.nextUrl).toBe("https://dealflow.test/dealflow/deals?p=2");
+    expect(lastPage.listings.map(raw => raw.externalId)).toEqual(["5541", "5548", "5553"]);
+    expect(lastPage.nextUrl).toBeNull();
+  });
+
+  it("maps a row's cells by their column heading", () => {
+    const business = adapter.normalize(firstPage.listings[0]);
+    expect(business).toEqual({
+      name: "Lone Star Freight Brokerage",
+      description: "Asset-light freight brokerage with 60 active shippers and a proprietary load board.",
+      location: "Houston, TX",
+      industry: "Transportation",
+      askingPrice: 1900000,
+      annualRevenue: 7400000,
+      cashFlow: 520000,
+      ebitda: 498000,
+      employees: 12,
+      yearEstablished: 2012,
+      sourceUrl: "https://dealflow.test/dealflow/deals/5512",
+      sourceSite: "DealFlow Exchange"
+    });
+    expect(businessInsertSchema.safeParse(business).success).toBe(true);
+  });
+
+  it("uses SDE as EBITDA for a dash in the EBITDA column", () => {
+    expect(adapter.normalize(firstPage.listings[1])).toMatchObject({ industry: "Healthcare", cashFlow: 405000, ebitda: 405000 });
+  });
+
+  it("maps every deal on the second page", () => {
+    expect(lastPage.listings.map(raw => adapter.normalize(raw).industry)).toEqual(["Food & Beverage", "Education", "Construction"]);
+  });
+
+  it("rejects a row missing a required figure", () => {
+    const [row] = firstPage.listings;
+    expect(() => adapter.normalize({ ...row, fields: { ...row.fields, staff: "" } })).toThrow(new IngestionError('Staff is missing or not a number ("")'));
+    expect(() => adapter.normalize({ ...row, fields: { ...row.fields, price: "Call for price" } })).toThrow(/^Price is missing/);
+  });
+
+  it("fails a page without the deals table", () => {
+    expect(() => adapter.parse({ url: "https://dealflow.test/login", body: "<form id=login></form>" })).toThrow(/No deals table/);
+  });
+});
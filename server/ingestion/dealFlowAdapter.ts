@@ -0,0 +1,68 @@
+// DealFlow Exchange - table layout: one row per deal under a header row naming the columns, and a
+// <link rel="next"> in the head (or a "Next" pager link) to the following page
+import { BusinessInsert } from "../../shared/schema.js";
+import { FetchedPage, IngestionError, ListingSourceAdapter, ListingSourceOptions, ParsedPage, RawListing } from "./ListingSourceAdapter.js";
+import { fetchHtmlPage } from "./http.js";
+import { parseHtml, selectAll, selectOne, textOf } from "./html.js";
+import { normalizeIndustry, parseMoney, requireCount, requireMoney, requireYear } from "./normalize.js";
+
+export class DealFlowAdapter implements ListingSourceAdapter {
+  readonly id = 'dealflow';
+  readonly name = 'DealFlow Exchange';
+  readonly startUrl: string;
+
+  constructor(private options: ListingSourceOptions) {
+    this.startUrl = options.startUrl;
+  }
+
+  fetchPage(url: string): Promise<FetchedPage> {
+    return fetchHtmlPage(url, this.options.timeoutMs);
+  }
+
+  parse(page: FetchedPage): ParsedPage {
+    const document = parseHtml(page.body);
+    const table = selectOne(document, 'table.deals');
+    if (!table) {
+      throw new IngestionError(`No deals table on ${page.url} - has the page layout changed?`, page.url);
+    }
+
+    // Cells are read by their column heading, so reordered or added columns don't shift the figures
+    const headings = selectAll(table, 'thead th').map(heading => textOf(heading).toLowerCase());
+    const listings = selectAll(table, 'tbody tr[data-deal-id]').map((row): RawListing => {
+      const cells = selectAll(row, 'td');
+      const fields: Record<string, string> = Object.fromEntries(headings.map((heading, index) => [heading, textOf(cells[index] ?? null)]));
+      const link = selectOne(row, 'a.deal-link');
+      fields.business = textOf(link);
+      fields.teaser = textOf(selectOne(row, '.deal-teaser'));
+
+      return {
+        externalId: row.attrs['data-deal-id'],
+        sourceUrl: new URL(link?.attrs.href || page.url, page.url).toString(),
+        fields
+      };
+    });
+
+    const next = selectOne(document, 'link[rel=next]') ?? selectOne(document, 'a.pager-next');
+    return { listings, nextUrl: next?.attrs.href ? new URL(next.attrs.href, page.url).toString() : null };
+  }
+
+  normalize(listing: RawListing): BusinessInsert {
+    const { fields } = listing;
+    const cashFlow = requireMoney(fields.sde, 'SDE');
+    return {
+      name: fields.business,
+      description: fields.teaser,
+      location: fields.location,
+      industry: normalizeIndustry(fields.sector ?? ''),
+      askingPrice: requireMoney(fields.price, 'Price'),
+      annualRevenue: requireMoney(fields.revenue, 'Revenue'),
+      // Seller's discretionary earnings is what this marketplace calls cash flow
+      cashFlow,
+      ebitda: parseMoney(fields.ebitda ?? '') ?? cashFlow,
+      employees: requireCount(fields.staff, 'Staff'),
+      yearEstablished: requireYear(fields.founded, 'Founded'),
+      sourceUrl: listing.sourceUrl,
+      sourceSite: this.name
+    };
+  }
+}
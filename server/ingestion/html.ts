@@ -0,0 +1,141 @@
+// Minimal HTML reader for marketplace pages - a forgiving tree builder and a small CSS selector subset
+// (tag, #id, .class, [attr], [attr=value] and the descendant combinator), enough to pick fields out of listing markup
+
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', middot: '·', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', lsaquo: '‹', rsaquo: '›', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', eacute: 'é', egrave: 'è', aacute: 'á', ntilde: 'ñ', ouml: 'ö', uuml: 'ü'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+// Unclosed tags are closed by their parent's end tag and stray end tags are ignored, as browsers do for common markup
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [], parent: null };
+  let current = root;
+  const token = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(html))) {
+    const [text, closeTag, openTag, attrSource] = match;
+    if (openTag) {
+      const tag = openTag.toLowerCase();
+      const element: HtmlElement = { tag, attrs: parseAttributes(attrSource), children: [], parent: current };
+      current.children.push(element);
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, token.lastIndex);
+        const stop = end === -1 ? html.length : end;
+        element.children.push(html.slice(token.lastIndex, stop));
+        token.lastIndex = stop;
+      } else if (!VOID_TAGS.has(tag) && !attrSource.trim().endsWith('/')) {
+        current = element;
+      }
+    } else if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      let open: HtmlElement | null = current;
+      while (open && open.tag !== tag) open = open.parent;
+      if (open?.parent) current = open.parent;
+    } else if (!text.startsWith('<!')) {
+      current.children.push(decodeEntities(text));
+    }
+  }
+  return root;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attrs: { name: string; value?: string }[];
+}
+
+function parseSelector(selector: string): CompoundSelector[] {
+  return selector.trim().split(/\s+/).map(part => {
+    const compound: CompoundSelector = { classes: [], attrs: [] };
+    const pattern = /^[a-zA-Z][\w-]*|#[\w-]+|\.[\w-]+|\[([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\]]*)))?\]/g;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = pattern.exec(part)) && match.index === consumed) {
+      const [token, attrName, ...values] = match;
+      if (token[0] === '#') compound.id = token.slice(1);
+      else if (token[0] === '.') compound.classes.push(token.slice(1));
+      else if (token[0] === '[') compound.attrs.push({ name: attrName.toLowerCase(), value: values.find(value => value !== undefined) });
+      else compound.tag = token.toLowerCase();
+      consumed += token.length;
+    }
+    if (consumed !== part.length) throw new Error(`Unsupported selector "${selector}"`);
+    return compound;
+  });
+}
+
+export const classList = (element: HtmlElement) => (element.attrs.class ?? '').split(/\s+/).filter(Boolean);
+
+function matches(element: HtmlElement, selector: CompoundSelector): boolean {
+  if (selector.tag && element.tag !== selector.tag) return false;
+  if (selector.id && element.attrs.id !== selector.id) return false;
+  const classes = classList(element);
+  if (!selector.classes.every(name => classes.includes(name))) return false;
+  return selector.attrs.every(({ name, value }) => name in element.attrs && (value === undefined || element.attrs[name] === value));
+}
+
+function descendants(element: HtmlElement): HtmlElement[] {
+  return element.children.flatMap(child => (typeof child === 'string' ? [] : [child, ...descendants(child)]));
+}
+
+// Elements under `scope` matching the selector, in document order
+export function selectAll(scope: HtmlElement, selector: string): HtmlElement[] {
+  const chain = parseSelector(selector);
+  const last = chain[chain.length - 1];
+  return descendants(scope).filter(element => {
+    if (!matches(element, last)) return false;
+    // Match the rest of the chain right to left against ancestors, up to and including the scope
+    let index = chain.length - 2;
+    for (let ancestor = element.parent; ancestor && index >= 0; ancestor = ancestor.parent) {
+      if (matches(ancestor, chain[index])) index--;
+      if (ancestor === scope) break;
+    }
+    return index < 0;
+  });
+}
+
+export function selectOne(scope: HtmlElement, selector: string): HtmlElement | null {
+  return selectAll(scope, selector)[0] ?? null;
+}
+
+// Text content with whitespace collapsed, as it reads on the page
+export function textOf(element: HtmlElement | null): string {
+  if (!element) return '';
+  const collect = (node: HtmlNode): string =>
+    typeof node === 'string' ? node : node.tag === 'br' ? ' ' : RAW_TEXT_TAGS.has(node.tag) ? '' : node.children.map(collect).join('');
+  return collect(element).replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,30 @@
+// Page fetching for HTML listing sources
+import { FetchedPage, IngestionError } from "./ListingSourceAdapter.js";
+
+const USER_AGENT = 'BizSearchBot/1.0 (+listing ingestion)';
+
+export async function fetchHtmlPage(url: string, timeoutMs: number): Promise<FetchedPage> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error) {
+    // fetch puts the network error (ECONNREFUSED and the like) in `cause`
+    const failure = error as (Error & { cause?: Error }) | undefined;
+    if (failure?.name === 'TimeoutError' || failure?.name === 'AbortError') {
+      throw new IngestionError(`Fetching ${url} timed out after ${timeoutMs}ms`, url);
+    }
+    throw new IngestionError(`Fetching ${url} failed: ${failure?.cause?.message || failure?.message || error}`, url);
+  }
+
+  if (!response.ok) {
+    throw new IngestionError(`Fetching ${url} returned ${response.status}`, url);
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType && !/html/i.test(contentType)) {
+    throw new IngestionError(`Fetching ${url} returned ${contentType}, not HTML`, url);
+  }
+  return { url: response.url || url, body: await response.text() };
+}
@@ -0,0 +1,76 @@
+// Listing source registry - every adapter the pipeline knows, and which of them to ingest from, configured by env:
+// a source is on when INGEST_<ID>_URL (e.g. INGEST_BIZMARKET_URL) points at its first page of results
+import { ListingSourceAdapter, ListingSourceOptions } from "./ListingSourceAdapter.js";
+import { BizMarketAdapter } from "./bizMarketAdapter.js";
+import { DealFlowAdapter } from "./dealFlowAdapter.js";
+import { IngestionOptions } from "./pipeline.js";
+import { parseNonNegativeInt, parsePositiveInt } from "../services/envConfig.js";
+
+export type ListingSourceFactory = (options: ListingSourceOptions) => ListingSourceAdapter;
+
+const listingSources = new Map<string, ListingSourceFactory>([
+  ['bizmarket', options => new BizMarketAdapter(options)],
+  ['dealflow', options => new DealFlowAdapter(options)]
+]);
+
+// Adds an adapter for another marketplace; its ID must match the adapter's own. Register before reading the config,
+// which only looks for the sources registered at the time
+export function registerListingSource(id: string, factory: ListingSourceFactory) {
+  if (listingSources.has(id)) {
+    throw new Error(`Listing source "${id}" is already registered`);
+  }
+  listingSources.set(id, factory);
+}
+
+export const listingSourceIds = () => Array.from(listingSources.keys());
+
+export interface IngestionConfig {
+  // Start URL by source ID, for the sources that are on
+  sources: Record<string, string>;
+  // 0 leaves scheduled ingestion off; sources can still be ingested with `npm run ingest`
+  intervalMinutes: number;
+  timeoutMs: number;
+  options: IngestionOptions;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const sourceUrlVariable = (id: string) => `INGEST_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_URL`;
+
+export function getIngestionConfig(env: NodeJS.ProcessEnv = process.env): IngestionConfig {
+  const sources: Record<string, string> = {};
+  listingSourceIds().forEach(id => {
+    const variable = sourceUrlVariable(id);
+    const url = env[variable];
+    if (!url) return;
+    if (!isHttpUrl(url)) {
+      throw new Error(`${variable} must be an http(s) URL (got "${url}")`);
+    }
+    sources[id] = url;
+  });
+
+  return {
+    sources,
+    intervalMinutes: parseNonNegativeInt(env.INGEST_INTERVAL_MINUTES, 0, 'INGEST_INTERVAL_MINUTES'),
+    timeoutMs: parsePositiveInt(env.INGEST_TIMEOUT_MS, 15000, 'INGEST_TIMEOUT_MS'),
+    options: { maxPages: parsePositiveInt(env.INGEST_MAX_PAGES, 50, 'INGEST_MAX_PAGES') }
+  };
+}
+
+export function createListingSources(config: IngestionConfig = getIngestionConfig()): ListingSourceAdapter[] {
+  return Object.entries(config.sources).map(([id, startUrl]) => {
+    const adapter = listingSources.get(id)!({ startUrl, timeoutMs: config.timeoutMs });
+    if (adapter.id !== id) {
+      throw new Error(`Listing source "${id}" created an adapter with ID "${adapter.id}"`);
+    }
+    return adapter;
+  });
+}
+
+export type { ListingSourceAdapter } from "./ListingSourceAdapter.js";
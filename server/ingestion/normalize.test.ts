@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { IngestionError } from "./ListingSourceAdapter.js";
+import { normalizeIndustry, parseCount, parseMoney, parseYear, requireCount, requireMoney, requireYear } from "./normalize.js";
+
+describe("parseMoney", () => {
+  it("reads the ways marketplaces write dollar figures", () => {
+    expect(parseMoney("$850,000")).toBe(850000);
+    expect(parseMoney("$1.4M")).toBe(1400000);
+    expect(parseMoney("$265K")).toBe(265000);
+    expect(parseMoney("$1.25 million")).toBe(1250000);
+    expect(parseMoney("US$ 2.5mm")).toBe(2500000);
+  });
+
+  it("reads losses with a minus sign or in parentheses", () => {
+    expect(parseMoney("-$40,000")).toBe(-40000);
+    expect(parseMoney("$-40K")).toBe(-40000);
+    expect(parseMoney("($40,000)")).toBe(-40000);
+  });
+
+  it("has no amount for undisclosed figures", () => {
+    expect(parseMoney("Not Disclosed")).toBeNull();
+    expect(parseMoney("—")).toBeNull();
+    expect(parseMoney("")).toBeNull();
+  });
+});
+
+describe("parseCount and parseYear", () => {
+  it("take the first whole number and the first four-digit year", () => {
+    expect(parseCount("14 (9 FT)")).toBe(14);
+    expect(parseCount("1,200 members")).toBe(1200);
+    expect(parseCount("n/a")).toBeNull();
+    expect(parseYear("Est. 1998")).toBe(1998);
+    expect(parseYear("Founded in 2011, relocated 2019")).toBe(2011);
+    expect(parseYear("12 years")).toBeNull();
+  });
+});
+
+describe("required fields", () => {
+  it("name the field and the text they couldn't read", () => {
+    expect(requireMoney("$1M", "Price")).toBe(1000000);
+    expect(() => requireMoney("Not Disclosed", "Cash flow")).toThrow(new IngestionError('Cash flow is missing or not a dollar amount ("Not Disclosed")'));
+    expect(() => requireCount(undefined, "Staff")).toThrow('Staff is missing or not a number ("")');
+    expect(() => requireYear("recently", "Founded")).toThrow(IngestionError);
+  });
+});
+
+describe("normalizeIndustry", () => {
+  it("maps marketplace categories to the app's industries", () => {
+    expect(normalizeIndustry("Restaurants")).toBe("Food & Beverage");
+    expect(normalizeIndustry("  IT   Services ")).toBe("Technology");
+    expect(normalizeIndustry("Transportation & Logistics")).toBe("Transportation");
+  });
+
+  it("maps a subcategory by its parent", () => {
+    expect(normalizeIndustry("Food / Catering")).toBe("Food & Beverage");
+    expect(normalizeIndustry("Healthcare > Dental Labs")).toBe("Healthcare");
+  });
+
+  it("keeps unknown categories, title-cased", () => {
+    expect(normalizeIndustry("dry cleaning")).toBe("Dry Cleaning");
+  });
+});
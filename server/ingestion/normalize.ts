@@ -0,0 +1,101 @@
+// Parsing helpers shared by listing adapters - marketplaces write the same figures many ways ("$1.2M", "1,200,000",
+// "$450K") and name industries in their own words, so everything is brought to the shape the demo listings use
+import { IngestionError } from "./ListingSourceAdapter.js";
+
+const MONEY_MULTIPLIERS: Record<string, number> = { k: 1_000, thousand: 1_000, m: 1_000_000, mm: 1_000_000, million: 1_000_000 };
+
+// Whole dollars, or null when the listing doesn't disclose the figure ("Not disclosed", "N/A", "Call")
+export function parseMoney(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/(-)?\s*(?:US)?\$?\s*(-)?(\d+(?:\.\d+)?)\s*(k|mm|m|thousand|million)?\b/i);
+  if (!match) return null;
+  const [, leadingMinus, innerMinus, digits, unit] = match;
+  const amount = Number(digits) * (unit ? MONEY_MULTIPLIERS[unit.toLowerCase()] : 1);
+  // Losses are sometimes shown in parentheses
+  const negative = Boolean(leadingMinus || innerMinus) || /\(\s*(?:US)?\$?\s*\d/.test(text);
+  return Math.round(negative ? -amount : amount);
+}
+
+// The first whole number in the text ("12 full-time" -> 12), or null
+export function parseCount(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+// A four-digit year ("Est. 2009", "Founded in 1998"), or null
+export function parseYear(text: string): number | null {
+  const match = text.match(/\b(1[89]\d{2}|20\d{2})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+export function requireMoney(text: string | undefined, field: string): number {
+  const amount = text === undefined ? null : parseMoney(text);
+  if (amount === null) throw new IngestionError(`${field} is missing or not a dollar amount ("${text ?? ''}")`);
+  return amount;
+}
+
+export function requireCount(text: string | undefined, field: string): number {
+  const count = text === undefined ? null : parseCount(text);
+  if (count === null) throw new IngestionError(`${field} is missing or not a number ("${text ?? ''}")`);
+  return count;
+}
+
+export function requireYear(text: string | undefined, field: string): number {
+  const year = text === undefined ? null : parseYear(text);
+  if (year === null) throw new IngestionError(`${field} is missing or not a year ("${text ?? ''}")`);
+  return year;
+}
+
+// Marketplace categories mapped to the industries the rest of the app filters and scores on
+const INDUSTRY_ALIASES: Record<string, string> = {
+  'software': 'Technology',
+  'saas': 'Technology',
+  'it services': 'Technology',
+  'internet': 'Technology',
+  'restaurants': 'Food & Beverage',
+  'restaurant': 'Food & Beverage',
+  'food': 'Food & Beverage',
+  'cafe': 'Food & Beverage',
+  'bakery': 'Food & Beverage',
+  'gym': 'Health & Fitness',
+  'fitness': 'Health & Fitness',
+  'wellness': 'Health & Fitness',
+  'retail': 'Retail',
+  'stores': 'Retail',
+  'manufacturing': 'Manufacturing',
+  'ecommerce': 'E-commerce',
+  'e-commerce': 'E-commerce',
+  'online store': 'E-commerce',
+  'online business': 'E-commerce',
+  'consulting': 'Consulting',
+  'real estate': 'Real Estate',
+  'property management': 'Real Estate',
+  'education': 'Education',
+  'education & training': 'Education',
+  'training': 'Education',
+  'transportation': 'Transportation',
+  'logistics': 'Transportation',
+  'transportation & logistics': 'Transportation',
+  'trucking': 'Transportation',
+  'healthcare': 'Healthcare',
+  'medical': 'Healthcare',
+  'medical practice': 'Healthcare',
+  'dental': 'Healthcare',
+  'professional services': 'Professional Services',
+  'business services': 'Professional Services',
+  'accounting': 'Professional Services',
+  'entertainment': 'Entertainment',
+  'events': 'Entertainment',
+  'agriculture': 'Agriculture',
+  'farming': 'Agriculture',
+  'construction': 'Construction',
+  'contractors': 'Construction',
+  'home services': 'Construction'
+};
+
+// Unknown categories are kept, title-cased, so they still show up as their own facet
+export function normalizeIndustry(text: string): string {
+  const key = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const mapped = INDUSTRY_ALIASES[key] ?? INDUSTRY_ALIASES[key.split(/\s*[/>|]\s*/)[0]];
+  if (mapped) return mapped;
+  return key.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
@@ -0,0 +1,150 @@
+// Ingestion pipeline: walks a source's listing pages through its adapter (fetch -> parse -> normalize), validates
+// each listing against businessInsertSchema and upserts the new and changed ones, recording the run as it goes.
+// A page that fails to fetch or parse ends the walk there; a listing that fails to normalize or validate is skipped.
+import { randomUUID } from "crypto";
+import { Business, BusinessInsert, BusinessListing, IngestionRun, INGESTION_RUN_MAX_ERRORS, IngestionRunError, businessInsertSchema } from "../../shared/schema.js";
+import { IStorage } from "../storage/IStorage.js";
+import { validationMessage } from "../services/validation.js";
+import { ListingSourceAdapter } from "./ListingSourceAdapter.js";
+
+export interface IngestionOptions {
+  // Stops after this many pages, so a pagination loop on the source can't run forever
+  maxPages: number;
+}
+
+const insertFields = Object.keys(businessInsertSchema.shape) as (keyof BusinessInsert)[];
+
+// IDs are namespaced by source, so two marketplaces' listing numbers can't collide
+export const listingId = (adapter: ListingSourceAdapter, externalId: string) => `${adapter.id}-${externalId}`;
+
+const isUnchanged = (existing: Business, listing: BusinessInsert) =>
+  existing.isActive && insertFields.every(field => existing[field] === listing[field]);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export async function runIngestion(storage: IStorage, adapter: ListingSourceAdapter, options: IngestionOptions): Promise<IngestionRun> {
+  const run: IngestionRun = {
+    id: `ingest-${randomUUID()}`,
+    source: adapter.id,
+    status: 'running',
+    startedAt: new Date(),
+    finishedAt: null,
+    pagesFetched: 0,
+    listingsFound: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    invalid: 0,
+    errors: []
+  };
+  const recordError = (error: IngestionRunError) => {
+    if (run.errors.length < INGESTION_RUN_MAX_ERRORS) run.errors.push(error);
+  };
+  await storage.saveIngestionRun(run);
+
+  let pageFailed = false;
+  try {
+    // By ID; a listing shown on two pages (results shifting while we page) is taken once, as last seen
+    const listings = new Map<string, BusinessInsert>();
+    const visited = new Set<string>();
+    let url: string | null = adapter.startUrl;
+
+    while (url && !visited.has(url) && run.pagesFetched < options.maxPages) {
+      visited.add(url);
+      let parsed;
+      try {
+        const page = await adapter.fetchPage(url);
+        parsed = adapter.parse(page);
+      } catch (error) {
+        pageFailed = true;
+        recordError({ url, message: errorMessage(error) });
+        break;
+      }
+      run.pagesFetched++;
+      run.listingsFound += parsed.listings.length;
+
+      for (const raw of parsed.listings) {
+        try {
+          const result = businessInsertSchema.safeParse(adapter.normalize(raw));
+          if (!result.success) {
+            throw new Error(validationMessage(result.error));
+          }
+          listings.set(listingId(adapter, raw.externalId), result.data);
+        } catch (error) {
+          run.invalid++;
+          recordError({ url: raw.sourceUrl, externalId: raw.externalId, message: errorMessage(error) });
+        }
+      }
+      url = parsed.nextUrl;
+    }
+
+    const now = new Date();
+    const changed: BusinessListing[] = [];
+    for (const [id, listing] of Array.from(listings.entries())) {
+      const existing = await storage.getBusinessById(id);
+      if (existing && isUnchanged(existing, listing)) {
+        run.unchanged++;
+        continue;
+      }
+      changed.push({
+        id,
+        ...listing,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        sellerInfo: null,
+        businessDetails: null,
+        isActive: true
+      });
+      if (existing) run.updated++;
+      else run.created++;
+    }
+    if (changed.length > 0) {
+      await storage.upsertBusinesses(changed);
+    }
+
+    run.status = pageFailed && run.pagesFetched === 0 ? 'failed' : pageFailed || run.invalid > 0 ? 'partial' : 'succeeded';
+  } catch (error) {
+    // Storage failed; nothing from this run can be assumed written
+    run.status = 'failed';
+    run.created = 0;
+    run.updated = 0;
+    recordError({ message: errorMessage(error) });
+  }
+
+  run.finishedAt = new Date();
+  await storage.saveIngestionRun(run);
+  return run;
+}
+
+// Runs each source in turn; one failing doesn't stop the others
+export async function runAllSources(storage: IStorage, adapters: ListingSourceAdapter[], options: IngestionOptions): Promise<IngestionRun[]> {
+  const runs: IngestionRun[] = [];
+  for (const adapter of adapters) {
+    runs.push(await runIngestion(storage, adapter, options));
+  }
+  return runs;
+}
+
+export const summarizeRun = (run: IngestionRun) =>
+  `${run.source} ${run.status}: ${run.pagesFetched} pages, ${run.listingsFound} listings ` +
+  `(${run.created} new, ${run.updated} updated, ${run.unchanged} unchanged, ${run.invalid} invalid)`;
+
+// Ingests every source each interval; returns a function that stops it
+export function startIngestionScheduler(storage: IStorage, adapters: ListingSourceAdapter[], options: IngestionOptions, intervalMs: number): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) return; // a slow source shouldn't stack runs
+    running = true;
+    try {
+      (await runAllSources(storage, adapters, options)).forEach(run => console.log(`Ingestion: ${summarizeRun(run)}`));
+    } catch (error) {
+      console.error('Ingestion run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,88 @@
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DemoMemoryStorage } from '../storage/memoryStorage.js';
+import { hashPassword, verifyPassword } from '../services/passwords.js';
+import { startTestServer, TestServer } from '../test/http.js';
+import { createAuthHandlers, createLoadUserMiddleware, createSessionMiddleware, getAdminEmails, requireAuth } from './auth.js';
+
+describe('passwords', () => {
+  it('verifies against the bcrypt hash, never the plain text', async () => {
+    const hash = await hashPassword('correct horse');
+    expect(hash).toMatch(/^\$2[aby]\$12\$/);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+    expect(await verifyPassword('correct horse', null)).toBe(false);
+  });
+});
+
+describe('getAdminEmails', () => {
+  it('reads a comma-separated list, ignoring case and blanks', () => {
+    expect(getAdminEmails({ ADMIN_EMAILS: ' Ops@Example.com,, team@example.com ' })).toEqual(new Set(['ops@example.com', 'team@example.com']));
+    expect(getAdminEmails({}).size).toBe(0);
+  });
+});
+
+describe('session authentication', () => {
+  const storage = new DemoMemoryStorage();
+  let server: TestServer;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(createSessionMiddleware(storage));
+    app.use(createLoadUserMiddleware(storage));
+    const auth = createAuthHandlers(storage);
+    app.post('/api/auth/signup', auth.handleSignup);
+    app.post('/api/auth/login', auth.handleLogin);
+    app.post('/api/auth/logout', auth.handleLogout);
+    app.get('/api/auth/me', requireAuth, auth.handleMe);
+    server = await startTestServer(app);
+  });
+  afterAll(() => server.close());
+
+  it('signs up, stays signed in across requests and signs out', async () => {
+    const client = server.client();
+    const signup = await client.request('POST', '/api/auth/signup', { email: 'New.Buyer@Example.com', username: 'new_buyer', password: 'long enough' });
+    expect(signup.status).toBe(201);
+    expect(signup.body.user).toMatchObject({ email: 'new.buyer@example.com', username: 'new_buyer' });
+    expect(signup.body.user).not.toHaveProperty('passwordHash');
+    expect(signup.headers.get('set-cookie')).toMatch(/bizsearch\.sid=.*HttpOnly/i);
+
+    expect((await client.request('GET', '/api/auth/me')).body).toMatchObject({ id: signup.body.user.id });
+
+    expect((await client.request('POST', '/api/auth/logout')).body).toEqual({ success: true });
+    expect((await client.request('GET', '/api/auth/me')).status).toBe(401);
+  });
+
+  it('rejects duplicate emails and usernames', async () => {
+    const client = server.client();
+    const takenEmail = await client.request('POST', '/api/auth/signup', { email: 'DEMO@bizsearch.com', username: 'someone_else', password: 'long enough' });
+    expect(takenEmail).toMatchObject({ status: 409, body: { error: 'An account with this email already exists' } });
+
+    const takenUsername = await client.request('POST', '/api/auth/signup', { email: 'fresh@example.com', username: 'Demo_Investor', password: 'long enough' });
+    expect(takenUsername.status).toBe(409);
+  });
+
+  it('validates the signup body', async () => {
+    const res = await server.client().request('POST', '/api/auth/signup', { email: 'not-an-email', username: 'ok_name', password: 'short' });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/^email: .*; password: /);
+  });
+
+  it('logs in with the right password and regenerates the session id', async () => {
+    const client = server.client();
+    expect((await client.request('POST', '/api/auth/login', { email: 'demo@bizsearch.com', password: 'wrong password' })).status).toBe(401);
+
+    await client.request('POST', '/api/auth/signup', { email: 'fixation@example.com', username: 'fixation', password: 'long enough' });
+    const before = client.cookie('bizsearch.sid');
+    const login = await client.request('POST', '/api/auth/login', { email: 'Fixation@Example.com', password: 'long enough' });
+    expect(login.status).toBe(200);
+    expect(login.body.user.username).toBe('fixation');
+    expect(client.cookie('bizsearch.sid')).not.toBe(before);
+  });
+
+  it('requires a session for protected routes', async () => {
+    const res = await server.client().request('GET', '/api/auth/me');
+    expect(res).toMatchObject({ status: 401, body: { error: 'Authentication required' } });
+  });
+});
@@ -0,0 +1,163 @@
+// Session-based authentication - signup/login/logout with bcrypt-hashed passwords
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import session from 'express-session';
+import { User, signupSchema, loginSchema } from '../../shared/schema.js';
+import { IStorage } from '../storage/IStorage.js';
+import { hashPassword, verifyPassword } from '../services/passwords.js';
+import { sendValidationError } from '../services/validation.js';
+import { StorageSessionStore } from './sessionStore.js';
+
+declare module 'express-session' {
+  interface SessionData {
+    userId: string;
+  }
+}
+
+// Request with the signed-in user resolved from the session
+export interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// ADMIN_EMAILS is a comma-separated list of the team's accounts, matched ignoring case
+export function getAdminEmails(env: NodeJS.ProcessEnv = process.env): Set<string> {
+  return new Set((env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean));
+}
+
+const adminEmails = getAdminEmails();
+
+function withAdminFlag(user: User): User {
+  return { ...user, isAdmin: adminEmails.has(user.email.toLowerCase()) };
+}
+
+export function createSessionMiddleware(storage: IStorage): RequestHandler {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+
+  return session({
+    store: new StorageSessionStore(storage),
+    secret: secret || 'bizsearch-dev-session-secret',
+    name: 'bizsearch.sid',
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  });
+}
+
+// Resolve req.user from the session; sessions pointing at deleted users are dropped
+export function createLoadUserMiddleware(storage: IStorage) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.session?.userId;
+      if (userId) {
+        const user = await storage.getUserById(userId);
+        if (user) {
+          req.user = withAdminFlag(user);
+        } else {
+          delete req.session.userId;
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  next();
+}
+
+export function requireAdmin(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+}
+
+// Regenerate the session id on sign-in to prevent session fixation
+function establishSession(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate(err => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.save(saveErr => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function createAuthHandlers(storage: IStorage) {
+  return {
+    async handleSignup(req: AuthenticatedRequest, res: Response) {
+      const parsed = signupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      try {
+        const { email, username, password } = parsed.data;
+        if (await storage.getUserByEmail(email)) {
+          return res.status(409).json({ error: 'An account with this email already exists' });
+        }
+        if (await storage.getUserByUsername(username)) {
+          return res.status(409).json({ error: 'This username is already taken' });
+        }
+
+        const user = await storage.createUser({ email, username, passwordHash: await hashPassword(password) });
+        await establishSession(req, user.id);
+        res.status(201).json({ user: withAdminFlag(user) });
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to create account' });
+      }
+    },
+
+    async handleLogin(req: AuthenticatedRequest, res: Response) {
+      const parsed = loginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      try {
+        const record = await storage.getUserByEmail(parsed.data.email);
+        if (!record || !(await verifyPassword(parsed.data.password, record.passwordHash))) {
+          return res.status(401).json({ error: 'Invalid email or password' });
+        }
+
+        await establishSession(req, record.id);
+        const user = await storage.getUserById(record.id);
+        res.json({ user: user && withAdminFlag(user) });
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to sign in' });
+      }
+    },
+
+    handleLogout(req: AuthenticatedRequest, res: Response) {
+      req.session.destroy(err => {
+        if (err) {
+          return res.status(500).json({ error: 'Failed to sign out' });
+        }
+        res.clearCookie('bizsearch.sid');
+        res.json({ success: true });
+      });
+    },
+
+    handleMe(req: AuthenticatedRequest, res: Response) {
+      res.json(req.user);
+    }
+  };
+}
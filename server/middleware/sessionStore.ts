@@ -0,0 +1,37 @@
+// express-session store backed by IStorage, so sessions live wherever the rest of the data does
+import session from 'express-session';
+import { IStorage } from '../storage/IStorage.js';
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+export class StorageSessionStore extends session.Store {
+  constructor(private storage: IStorage) {
+    super();
+  }
+
+  private expiresAt(sess: session.SessionData): Date {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+  }
+
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void): void {
+    this.storage.getSession(sid)
+      .then(sess => callback(null, sess as session.SessionData | null))
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: unknown) => void): void {
+    this.storage.setSession(sid, JSON.parse(JSON.stringify(sess)), this.expiresAt(sess))
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    this.storage.deleteSession(sid)
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    this.set(sid, sess, () => callback?.());
+  }
+}
@@ -0,0 +1,135 @@
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { demoUser, demoUserPassword } from './data/demoBusinesses.js';
+import { setupRoutes } from './routes.js';
+import { signUnsubscribeToken } from './services/digest.js';
+import { mailConfig } from './services/mailConfig.js';
+import { startTestServer, TestClient, TestServer } from './test/http.js';
+
+describe('API routes', () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    setupRoutes(app);
+    server = await startTestServer(app);
+    client = server.client();
+    await client.request('POST', '/api/auth/login', { email: 'demo@bizsearch.com', password: demoUserPassword });
+  });
+  afterAll(() => server.close());
+
+  it('describes what was invalid, then each issue by path', async () => {
+    const res = await client.request('GET', '/api/businesses?minPrice=500000&maxPrice=100000&limit=0');
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/^Invalid search parameters - limit: .*; minPrice: minPrice must not exceed maxPrice$/);
+  });
+
+  it('names issues about the whole body "input"', async () => {
+    const res = await client.request('PATCH', '/api/user/saved-searches/some-id', {});
+    expect(res).toMatchObject({ status: 400, body: { error: 'Invalid saved search - input: Nothing to update - pass name or alertMinScore' } });
+  });
+
+  it('reports preference issues without leaking zod internals', async () => {
+    const res = await client.request('PUT', '/api/user/preferences', { budgetRange: { min: 'cheap' } });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/^Invalid preferences - budgetRange\.min: /);
+  });
+
+  it('rejects a cursor from a different search', async () => {
+    const first = await client.request('GET', '/api/businesses?industries=Technology&limit=2');
+    const res = await client.request('GET', `/api/businesses?industries=Retail&limit=2&cursor=${first.body.nextCursor}`);
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/different search/);
+  });
+
+  it('records the top results of the whole search in history, in the order shown', async () => {
+    const page = await client.request('GET', '/api/businesses?sortBy=askingPrice&limit=2');
+    const { body } = await client.request('GET', '/api/user/search-history?limit=1');
+    const firstFive = await client.request('GET', '/api/businesses?sortBy=askingPrice&limit=5');
+
+    expect(page.body.businesses).toHaveLength(2);
+    expect(body.history[0].topResultIds).toEqual(firstFive.body.businesses.map((business: { id: string }) => business.id));
+  });
+
+  it('asks before unsubscribing from digests, then turns them off', async () => {
+    await client.request('PUT', '/api/user/digest', { frequency: 'weekly' });
+    const token = signUnsubscribeToken(demoUser.id, mailConfig.signingSecret);
+    const signedOut = server.client();
+
+    const confirm = await signedOut.request('GET', `/api/digest/unsubscribe?token=${token}`);
+    expect(confirm.status).toBe(200);
+    expect(confirm.body).toContain(`action="/api/digest/unsubscribe?token=${token}"`);
+    expect((await client.request('GET', '/api/user/digest')).body.digest.frequency).toBe('weekly');
+
+    const done = await signedOut.request('POST', `/api/digest/unsubscribe?token=${token}`);
+    expect(done.status).toBe(200);
+    expect(done.body).toContain("You're unsubscribed");
+    expect((await client.request('GET', '/api/user/digest')).body.digest.frequency).toBe('off');
+  });
+
+  it('turns away forged unsubscribe links', async () => {
+    const forged = signUnsubscribeToken(demoUser.id, 'some-other-secret');
+    for (const method of ['GET', 'POST']) {
+      const res = await server.client().request(method, `/api/digest/unsubscribe?token=${forged}`);
+      expect(res.status).toBe(400);
+      expect(res.body).toContain("This unsubscribe link isn't valid");
+    }
+  });
+
+  it('unsubscribes a user deleted since the email went out without complaint', async () => {
+    const res = await server.client().request('POST', `/api/digest/unsubscribe?token=${signUnsubscribeToken('deleted-user', mailConfig.signingSecret)}`);
+    expect(res.status).toBe(200);
+  });
+
+  describe('saved searches', () => {
+    const save = (body: unknown) => client.request('POST', '/api/user/saved-searches', body);
+
+    it('refuses a second search with the same name, ignoring case', async () => {
+      expect((await save({ name: 'Austin bakeries', filters: { query: 'bakery', near: 'Austin, TX' } })).status).toBe(201);
+      const res = await save({ name: 'AUSTIN BAKERIES', filters: {} });
+      expect(res).toMatchObject({ status: 409, body: { error: 'You already have a saved search named "AUSTIN BAKERIES"' } });
+    });
+
+    it('renames and sets the alert threshold, refusing a name taken by another search', async () => {
+      const { body } = await save({ name: 'Cheap retail', filters: { industries: 'Retail', maxPrice: 200000 } });
+      await save({ name: 'Pricey retail', filters: { industries: 'Retail', minPrice: 1000000 } });
+      const path = `/api/user/saved-searches/${body.savedSearch.id}`;
+
+      const renamed = await client.request('PATCH', path, { name: 'Affordable retail', alertMinScore: 70 });
+      expect(renamed).toMatchObject({ status: 200, body: { savedSearch: { name: 'Affordable retail', alertMinScore: 70 } } });
+      expect((await client.request('PATCH', path, { name: 'affordable RETAIL' })).status).toBe(200);
+      expect((await client.request('PATCH', path, { name: 'Pricey retail' })).status).toBe(409);
+    });
+
+    it('validates updates', async () => {
+      const { body } = await save({ name: 'To validate', filters: {} });
+      const path = `/api/user/saved-searches/${body.savedSearch.id}`;
+
+      for (const update of [{ name: '   ' }, { name: 'x'.repeat(101) }, { alertMinScore: 101 }, { alertMinScore: 50.5 }, { alertMinScore: '50' }]) {
+        const res = await client.request('PATCH', path, update);
+        expect(res.status).toBe(400);
+        expect(res.body.error).toMatch(/^Invalid saved search - (name|alertMinScore): /);
+      }
+      expect((await client.request('PATCH', path, { alertMinScore: null })).body.savedSearch.alertMinScore).toBeNull();
+    });
+
+    it("doesn't let another user see, change or delete a search", async () => {
+      const { body } = await save({ name: 'Mine only', filters: {} });
+      const path = `/api/user/saved-searches/${body.savedSearch.id}`;
+      const other = server.client();
+      const suffix = crypto.randomUUID().slice(0, 8);
+      await other.request('POST', '/api/auth/signup', { email: `other-${suffix}@example.com`, username: `other_${suffix}`, password: 'long enough' });
+
+      expect((await other.request('GET', '/api/user/saved-searches')).body.savedSearches).toEqual([]);
+      expect(await other.request('PATCH', path, { name: 'Taken over' })).toMatchObject({ status: 404, body: { error: 'Saved search not found' } });
+      expect((await other.request('DELETE', path)).status).toBe(404);
+
+      const mine = (await client.request('GET', '/api/user/saved-searches')).body.savedSearches;
+      expect(mine).toContainEqual(expect.objectContaining({ id: body.savedSearch.id, name: 'Mine only' }));
+      expect((await client.request('DELETE', path)).status).toBe(204);
+      expect((await client.request('DELETE', path)).status).toBe(404);
+    });
+  });
+});
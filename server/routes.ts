@@ -1,29 +1,91 @@
 // Simplified routes for standalone demo application
-import { type Express, type Request, type Response } from 'express';
-import { demoStorage } from './storage/memoryStorage.js';
-import { userPreferencesSchema } from '../shared/schema.js';
+import express, { type Express, type Request, type Response } from 'express';
+import { storage } from './storage/index.js';
+import {
+  userPreferencesSchema,
+  scoringWeightsProfileSchema,
+  scoringPreviewSchema,
+  defaultScoringProfile,
+  businessSearchRequestSchema,
+  autocompleteQuerySchema,
+  savedSearchInputSchema,
+  savedSearchUpdateSchema,
+  notificationsQuerySchema,
+  notificationUpdateSchema,
+  digestSettingsSchema,
+  searchHistoryQuerySchema,
+  importPreviewQuerySchema,
+  importQuerySchema,
+  duplicateGroupsQuerySchema,
+  duplicateConfirmSchema,
+  duplicateSplitSchema,
+  SEARCH_MAX_PAGE_SIZE,
+  type BusinessSearchRequest,
+  type BusinessSearchResponse,
+  type AutocompleteResponse,
+  type LocationsResponse,
+  type SavedSearchesResponse,
+  type NotificationsResponse,
+  type SearchHistoryResponse
+} from '../shared/schema.js';
+import { previewScoringProfile } from './services/scoringEngine.js';
+import { highlightResults, paginateResults, SearchCursorError, sortBusinesses } from './services/businessSearch.js';
+import { scoringEngine } from './services/scoringConfig.js';
+import { buildSuggestions } from './services/autocomplete.js';
+import { resolvePlace, searchPlaces } from './services/geo.js';
+import { mailConfig } from './services/mailConfig.js';
+import { renderUnsubscribePage, verifyUnsubscribeToken } from './services/digest.js';
+import { recordSearch } from './services/searchHistory.js';
+import { SpreadsheetError } from './services/spreadsheet.js';
+import { ImportMappingError, importListings, previewImport, rollbackImport } from './services/listingImport.js';
+import { confirmDuplicateGroup, detectDuplicates, groupListings, splitDuplicateGroup, withGroupListings, withListingSources } from './services/dedupe.js';
+import { withPriceReductions } from './services/listingHistory.js';
+import { sendValidationError } from './services/validation.js';
+import {
+  createSessionMiddleware,
+  createLoadUserMiddleware,
+  createAuthHandlers,
+  requireAuth,
+  requireAdmin,
+  type AuthenticatedRequest
+} from './middleware/auth.js';
+
+// Validates a search request from the query string; responds 400 and returns null when it is invalid
+function parseSearchRequest(req: Request, res: Response, defaults: Record<string, unknown> = {}): BusinessSearchRequest | null {
+  const result = businessSearchRequestSchema.safeParse({ ...defaults, ...req.query });
+  if (!result.success) {
+    sendValidationError(res, result.error, 'Invalid search parameters');
+    return null;
+  }
+  if (result.data.near && !resolvePlace(result.data.near)) {
+    res.status(400).json({ error: `Unknown location "${result.data.near}" - use a US city such as "Austin, TX", or "lat,lng"` });
+    return null;
+  }
+  return result.data;
+}
 
 export function setupRoutes(app: Express): void {
-  
-  // Auto-login middleware - simplified demo authentication
-  app.use((req: any, res, next) => {
-    // Demo mode: auto-authenticate as demo user
-    req.user = {
-      id: 'demo-user-1',
-      username: 'demo_investor',
-      email: 'demo@example.com'
-    };
-    next();
-  });
 
-  // User routes
-  app.get('/api/auth/me', (req: any, res: Response) => {
-    res.json(req.user);
-  });
+  // Secure session cookies need the real protocol from the hosting proxy
+  if (process.env.NODE_ENV === 'production') {
+    app.set('trust proxy', 1);
+  }
+
+  // Session authentication - resolves req.user for every request
+  app.use(createSessionMiddleware(storage));
+  app.use(createLoadUserMiddleware(storage));
+
+  // Auth routes
+  const auth = createAuthHandlers(storage);
+  app.post('/api/auth/signup', auth.handleSignup);
+  app.post('/api/auth/login', auth.handleLogin);
+  app.post('/api/auth/logout', auth.handleLogout);
+  app.get('/api/auth/me', requireAuth, auth.handleMe);
 
-  app.get('/api/user/preferences', async (req: any, res: Response) => {
+  // User routes
+  app.get('/api/user/preferences', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const user = await demoStorage.getUserById(req.user.id);
+      const user = await storage.getUserById(req.user!.id);
       res.json({ preferences: user?.preferences || null });
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch user preferences' });
@@ -31,57 +93,150 @@ export function setupRoutes(app: Express): void {
   });
 
   // POST endpoint for creating user preferences
-  app.post('/api/user/preferences', async (req: any, res: Response) => {
+  app.post('/api/user/preferences', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = userPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid preferences');
+    }
     try {
-      const validatedPreferences = userPreferencesSchema.parse(req.body);
-      await demoStorage.updateUserPreferences(req.user.id, validatedPreferences);
+      await storage.updateUserPreferences(req.user!.id, parsed.data);
       // Return the saved preferences from storage
-      const user = await demoStorage.getUserById(req.user.id);
-      res.json({ preferences: user?.preferences || validatedPreferences });
-    } catch (error: any) {
-      res.status(400).json({ error: error.message || 'Invalid preferences data' });
+      const user = await storage.getUserById(req.user!.id);
+      res.json({ preferences: user?.preferences || parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save user preferences' });
     }
   });
 
-  app.put('/api/user/preferences', async (req: any, res: Response) => {
+  app.put('/api/user/preferences', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = userPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid preferences');
+    }
     try {
-      const validatedPreferences = userPreferencesSchema.parse(req.body);
-      await demoStorage.updateUserPreferences(req.user.id, validatedPreferences);
+      await storage.updateUserPreferences(req.user!.id, parsed.data);
       // Return the saved preferences from storage
-      const user = await demoStorage.getUserById(req.user.id);
-      res.json({ preferences: user?.preferences || validatedPreferences });
-    } catch (error: any) {
-      res.status(400).json({ error: error.message || 'Invalid preferences data' });
+      const user = await storage.getUserById(req.user!.id);
+      res.json({ preferences: user?.preferences || parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save user preferences' });
+    }
+  });
+
+  // Scoring weights routes
+  app.get('/api/user/scoring-profile', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUserById(req.user!.id);
+      const profile = user?.preferences?.weightsProfile;
+      res.json({ profile: profile || defaultScoringProfile, isDefault: !profile });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch scoring profile' });
+    }
+  });
+
+  app.put('/api/user/scoring-profile', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = scoringWeightsProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid scoring profile');
+    }
+    try {
+      const profile = parsed.data;
+      const user = await storage.getUserById(req.user!.id);
+      if (!user?.preferences) {
+        return res.status(400).json({ error: 'Set your preferences before customizing scoring weights' });
+      }
+      await storage.updateUserPreferences(req.user!.id, { ...user.preferences, weightsProfile: profile });
+      res.json({ profile, isDefault: false });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save scoring profile' });
+    }
+  });
+
+  // Shows how a candidate weights profile would reorder the user's current results, without saving it
+  app.post('/api/user/scoring-profile/preview', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = scoringPreviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid preview request');
+    }
+    const input = parsed.data;
+
+    try {
+      const user = await storage.getUserById(req.user!.id);
+      if (!user?.preferences) {
+        return res.status(400).json({ error: 'Set your preferences before previewing scoring weights' });
+      }
+      const { businesses, totalFound } = await storage.searchBusinesses(input.filters, req.user!.id);
+      const results = await previewScoringProfile(businesses, user.preferences, input.weightsProfile, scoringEngine);
+      res.json({ profile: input.weightsProfile, results, totalFound });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to preview scoring profile' });
     }
   });
 
   // Business routes
-  app.get('/api/businesses', async (req: Request, res: Response) => {
+  async function runSearch(req: AuthenticatedRequest, res: Response, defaults?: Record<string, unknown>) {
+    const request = parseSearchRequest(req, res, defaults);
+    if (!request) return null;
+    const { businesses, relevance, queryExpansion, matchedTerms, facets } = await storage.searchBusinesses(request, req.user?.id);
     try {
-      const { businesses, totalFound } = await demoStorage.searchBusinesses(req.query);
-      res.json({ businesses, total: totalFound });
+      const page = paginateResults(businesses, request, relevance);
+      const response: BusinessSearchResponse = {
+        ...page,
+        businesses: await withPriceReductions(storage, page.businesses),
+        queryExpansion,
+        highlights: highlightResults(page.businesses, matchedTerms),
+        facets
+      };
+      if (req.user) {
+        // History is a convenience; failing to record it shouldn't fail the search
+        const results = sortBusinesses(businesses, page.sortBy, page.sortOrder, relevance);
+        await recordSearch(storage, req.user.id, request, results)
+          .catch(error => console.error('Recording search history failed:', error));
+      }
+      return response;
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch businesses' });
+      if (!(error instanceof SearchCursorError)) throw error;
+      res.status(400).json({ error: error.message });
+      return null;
+    }
+  }
+
+  // Canonical search endpoint - filters, sortBy/sortOrder and limit with offset or cursor; responds with a BusinessSearchResponse
+  app.get('/api/businesses', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await runSearch(req, res);
+      if (result) res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to search businesses' });
     }
   });
 
-  app.get('/api/businesses/search', async (req: Request, res: Response) => {
+  // Compatibility aliases for older clients - same search, but a full result set unless they ask for a page
+  const legacySearchDefaults = { limit: SEARCH_MAX_PAGE_SIZE };
+  const markDeprecated = (res: Response) => {
+    res.set('Deprecation', 'true');
+    res.set('Link', '</api/businesses>; rel="successor-version"');
+  };
+
+  app.get('/api/businesses/search', async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { businesses, totalFound } = await demoStorage.searchBusinesses(req.query);
-      res.json({ businesses, total: totalFound });
+      markDeprecated(res);
+      const result = await runSearch(req, res, legacySearchDefaults);
+      if (result) res.json(result);
     } catch (error) {
       res.status(500).json({ error: 'Failed to search businesses' });
     }
   });
 
-  // Add the web-search endpoint that the frontend expects
-  app.get('/api/businesses/web-search', async (req: Request, res: Response) => {
+  app.get('/api/businesses/web-search', async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { businesses, totalFound } = await demoStorage.searchBusinesses(req.query);
-      res.json({ 
-        businesses, 
-        totalFound, 
-        searchSummary: `Found ${totalFound} businesses matching your criteria`,
+      markDeprecated(res);
+      const result = await runSearch(req, res, legacySearchDefaults);
+      if (!result) return;
+      res.json({
+        ...result,
+        totalFound: result.total,
+        searchSummary: `Found ${result.total} businesses matching your criteria`,
         source: 'demo'
       });
     } catch (error) {
@@ -89,7 +244,7 @@ export function setupRoutes(app: Express): void {
     }
   });
 
-  app.get('/api/businesses/:id', async (req: Request, res: Response) => {
+  app.get('/api/businesses/:id', async (req: AuthenticatedRequest, res: Response) => {
     try {
       let businessId = req.params.id;
       
@@ -102,7 +257,7 @@ export function setupRoutes(app: Express): void {
           const lastPart = parts[parts.length - 1];
           if (!isNaN(Number(lastPart))) {
             // Try to find business by index (business-37 means index 37 in generated businesses)
-            const allBusinesses = await demoStorage.getAllBusinesses();
+            const allBusinesses = await storage.getAllBusinesses();
             const businessIndex = parseInt(lastPart) - 7; // Adjust for demo business numbering
             if (businessIndex >= 0 && businessIndex < allBusinesses.length) {
               businessId = allBusinesses[businessIndex].id;
@@ -111,23 +266,24 @@ export function setupRoutes(app: Express): void {
         }
       }
       
-      const business = await demoStorage.getBusinessById(businessId);
-      const score = await demoStorage.getBusinessScore(businessId);
+      const business = await storage.getBusinessById(businessId, req.user?.id);
+      const score = req.user ? await storage.getBusinessScore(req.user.id, businessId) : null;
       
       if (!business) {
         return res.status(404).json({ error: 'Business not found' });
       }
       
-      res.json({ business, score });
+      const [withReduction] = await withPriceReductions(storage, [await withListingSources(storage, business)]);
+      res.json({ business: withReduction, score, changes: await storage.getListingChanges(business.id) });
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch business details' });
     }
   });
 
   // Business ranking routes
-  app.post('/api/businesses/:id/rank', async (req: Request, res: Response) => {
+  app.post('/api/businesses/:id/rank', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const result = await demoStorage.rankBusiness(req.params.id);
+      const result = await storage.rankBusiness(req.user!.id, req.params.id);
       if (!result) {
         return res.status(404).json({ error: 'Business not found' });
       }
@@ -137,16 +293,377 @@ export function setupRoutes(app: Express): void {
     }
   });
 
-  // Search history routes
-  app.get('/api/search-history', async (req: any, res: Response) => {
+  // Header search suggestions - listing names, industries and cities, plus the user's recent queries when signed in
+  app.get('/api/search/autocomplete', async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = autocompleteQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid autocomplete parameters');
+    }
+    try {
+      const { q, limit } = parsed.data;
+      const [businesses, history] = await Promise.all([
+        storage.getAllBusinesses(),
+        req.user ? storage.getSearchHistory(req.user.id, { limit: 20, offset: 0 }) : Promise.resolve([])
+      ]);
+      const response: AutocompleteResponse = { query: q, suggestions: buildSuggestions(q, businesses, history, limit) };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch suggestions' });
+    }
+  });
+
+  // Gazetteer cities for the location picker; the `near` search param accepts any of them
+  app.get('/api/locations', (req: Request, res: Response) => {
+    const parsed = autocompleteQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid location parameters');
+    }
+    const response: LocationsResponse = { locations: searchPlaces(parsed.data.q, parsed.data.limit) };
+    res.json(response);
+  });
+
+  // Search history routes - every search a signed-in user runs, newest first
+  app.get('/api/user/search-history', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = searchHistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid search history parameters');
+    }
+    try {
+      const [history, count] = await Promise.all([
+        storage.getSearchHistory(req.user!.id, parsed.data),
+        storage.countSearchHistory(req.user!.id)
+      ]);
+      const response: SearchHistoryResponse = { history, count };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch search history' });
+    }
+  });
+
+  app.delete('/api/user/search-history/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const deleted = await storage.deleteSearchHistoryEntry(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Search history entry not found' });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete search history entry' });
+    }
+  });
+
+  app.delete('/api/user/search-history', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const deleted = await storage.clearSearchHistory(req.user!.id);
+      res.json({ deleted });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to clear search history' });
+    }
+  });
+
+  // Older clients - the latest entries as a bare array
+  app.get('/api/search-history', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const history = await demoStorage.getSearchHistory(req.user.id);
+      res.set('Deprecation', 'true');
+      res.set('Link', '</api/user/search-history>; rel="successor-version"');
+      const history = await storage.getSearchHistory(req.user!.id, { limit: 20, offset: 0 });
       res.json(history);
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch search history' });
     }
   });
 
+  // Saved search routes - named filter sets the client re-runs against /api/businesses
+  app.get('/api/user/saved-searches', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const response: SavedSearchesResponse = { savedSearches: await storage.getSavedSearches(req.user!.id) };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch saved searches' });
+    }
+  });
+
+  app.post('/api/user/saved-searches', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = savedSearchInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid saved search');
+    }
+    const { near } = parsed.data.filters;
+    if (near && !resolvePlace(near)) {
+      return res.status(400).json({ error: `Unknown location "${near}" - use a US city such as "Austin, TX", or "lat,lng"` });
+    }
+    try {
+      const existing = await storage.getSavedSearches(req.user!.id);
+      if (existing.some(search => search.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+        return res.status(409).json({ error: `You already have a saved search named "${parsed.data.name}"` });
+      }
+      const savedSearch = await storage.createSavedSearch(req.user!.id, parsed.data);
+      res.status(201).json({ savedSearch });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save search' });
+    }
+  });
+
+  app.patch('/api/user/saved-searches/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = savedSearchUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid saved search');
+    }
+    try {
+      const existing = await storage.getSavedSearches(req.user!.id);
+      const { name } = parsed.data;
+      if (!existing.some(search => search.id === req.params.id)) {
+        return res.status(404).json({ error: 'Saved search not found' });
+      }
+      if (name !== undefined && existing.some(search => search.id !== req.params.id && search.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ error: `You already have a saved search named "${name}"` });
+      }
+      const savedSearch = await storage.updateSavedSearch(req.user!.id, req.params.id, parsed.data);
+      if (!savedSearch) {
+        return res.status(404).json({ error: 'Saved search not found' });
+      }
+      res.json({ savedSearch });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update saved search' });
+    }
+  });
+
+  app.delete('/api/user/saved-searches/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const deleted = await storage.deleteSavedSearch(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Saved search not found' });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete saved search' });
+    }
+  });
+
+  // Notification routes - saved-search alerts raised when new or updated listings match
+  app.get('/api/user/notifications', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = notificationsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid notification parameters');
+    }
+    try {
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id, parsed.data),
+        storage.countUnreadNotifications(req.user!.id)
+      ]);
+      const response: NotificationsResponse = { notifications, unreadCount };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch notifications' });
+    }
+  });
+
+  app.patch('/api/user/notifications/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = notificationUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid notification update');
+    }
+    try {
+      const notification = await storage.setNotificationRead(req.user!.id, req.params.id, parsed.data.read);
+      if (!notification) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
+      res.json({ notification });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update notification' });
+    }
+  });
+
+  app.post('/api/user/notifications/read-all', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.user!.id);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to mark notifications read' });
+    }
+  });
+
+  // Email digest settings
+  app.get('/api/user/digest', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const digest = await storage.getDigestSettings(req.user!.id);
+      res.json({ digest });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch digest settings' });
+    }
+  });
+
+  app.put('/api/user/digest', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = digestSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid digest settings');
+    }
+    try {
+      const digest = await storage.updateDigestSettings(req.user!.id, parsed.data.frequency);
+      res.json({ digest });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update digest settings' });
+    }
+  });
+
+  // Unsubscribe link from digest emails - signed, so it works without signing in.
+  // GET asks for confirmation; POST unsubscribes, from the confirmation page or the mail client's one-click button.
+  app.get('/api/digest/unsubscribe', (req: Request, res: Response) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const valid = verifyUnsubscribeToken(token, mailConfig.signingSecret) !== null;
+    res.status(valid ? 200 : 400).type('html').send(renderUnsubscribePage(valid ? 'confirm' : 'invalid', token, mailConfig.appBaseUrl));
+  });
+
+  app.post('/api/digest/unsubscribe', async (req: Request, res: Response) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const userId = verifyUnsubscribeToken(token, mailConfig.signingSecret);
+    if (!userId) {
+      return res.status(400).type('html').send(renderUnsubscribePage('invalid', token, mailConfig.appBaseUrl));
+    }
+    try {
+      // A user deleted since the email went out has nothing left to unsubscribe from
+      if (await storage.getUserById(userId)) {
+        await storage.updateDigestSettings(userId, 'off');
+      }
+      res.type('html').send(renderUnsubscribePage('done', token, mailConfig.appBaseUrl));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to unsubscribe' });
+    }
+  });
+
+  // Listing imports (admin) - the spreadsheet is the raw request body, its name and the options are in the query
+  const spreadsheetBody = express.raw({ type: '*/*', limit: '10mb' });
+  const uploadedFile = (req: Request) => (Buffer.isBuffer(req.body) && req.body.length > 0 ? req.body : null);
+
+  app.post('/api/admin/imports/preview', requireAdmin, spreadsheetBody, (req: Request, res: Response) => {
+    const parsed = importPreviewQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid import parameters');
+    }
+    const data = uploadedFile(req);
+    if (!data) {
+      return res.status(400).json({ error: 'Upload a CSV or XLSX file as the request body' });
+    }
+    try {
+      res.json({ preview: previewImport(data, parsed.data.fileName) });
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to read spreadsheet' });
+    }
+  });
+
+  app.post('/api/admin/imports', requireAdmin, spreadsheetBody, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = importQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid import parameters');
+    }
+    const data = uploadedFile(req);
+    if (!data) {
+      return res.status(400).json({ error: 'Upload a CSV or XLSX file as the request body' });
+    }
+    try {
+      const report = await importListings(storage, data, parsed.data, req.user!);
+      res.status(report.batch ? 201 : 200).json({ report });
+    } catch (error) {
+      if (error instanceof SpreadsheetError || error instanceof ImportMappingError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to import listings' });
+    }
+  });
+
+  app.get('/api/admin/imports', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json({ batches: await storage.getImportBatches(50) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch imports' });
+    }
+  });
+
+  app.post('/api/admin/imports/:id/rollback', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const batch = await storage.getImportBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      if (batch.status === 'rolled_back') {
+        return res.status(409).json({ error: 'This import has already been rolled back' });
+      }
+      res.json({ rollback: await rollbackImport(storage, batch) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to roll back import' });
+    }
+  });
+
+  // Duplicate listings (admin) - review the groups detection made, confirm them or split listings out
+  app.get('/api/admin/duplicates', requireAdmin, async (req: Request, res: Response) => {
+    const parsed = duplicateGroupsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid duplicates parameters');
+    }
+    try {
+      const groups = (await storage.getDuplicateGroups())
+        .filter(group => !parsed.data.status || group.status === parsed.data.status)
+        .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+      res.json({ groups: await Promise.all(groups.map(group => withGroupListings(storage, group))) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch duplicate listings' });
+    }
+  });
+
+  app.post('/api/admin/duplicates/scan', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json({ scan: await detectDuplicates(storage) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to scan for duplicate listings' });
+    }
+  });
+
+  app.post('/api/admin/duplicates/:id/confirm', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = duplicateConfirmSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid confirmation');
+    }
+    try {
+      const group = await storage.getDuplicateGroup(req.params.id);
+      if (!group) {
+        return res.status(404).json({ error: 'Duplicate group not found' });
+      }
+      const { canonicalId } = parsed.data;
+      if (canonicalId && !(await groupListings(storage, group)).some(listing => listing.id === canonicalId)) {
+        return res.status(400).json({ error: `Listing ${canonicalId} is not in this group` });
+      }
+      const confirmed = await confirmDuplicateGroup(storage, group, req.user!.id, canonicalId);
+      res.json({ group: await withGroupListings(storage, confirmed) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to confirm duplicate group' });
+    }
+  });
+
+  app.post('/api/admin/duplicates/:id/split', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = duplicateSplitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error, 'Invalid split');
+    }
+    try {
+      const group = await storage.getDuplicateGroup(req.params.id);
+      if (!group) {
+        return res.status(404).json({ error: 'Duplicate group not found' });
+      }
+      const memberIds = new Set((await groupListings(storage, group)).map(listing => listing.id));
+      const unknown = parsed.data.businessIds.filter(id => !memberIds.has(id));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Not in this group: ${unknown.join(', ')}` });
+      }
+      const split = await splitDuplicateGroup(storage, group, parsed.data.businessIds, req.user!.id);
+      res.json({ group: split && await withGroupListings(storage, split) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to split duplicate group' });
+    }
+  });
+
   // Health check
   app.get('/api/health', (req, res) => {
     res.json({ 
@@ -162,7 +679,7 @@ export function setupRoutes(app: Express): void {
     res.json({
       message: 'BizSearch Simplified Demo',
       features: [
-        'Auto-login as demo user',
+        'Demo account sign-in (demo@bizsearch.com)',
         '50+ realistic business listings',
         'Mock AI compatibility scoring',
         'No external API dependencies',
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Business, SearchHistoryEntry } from "../../shared/schema.js";
+import { testListing } from "../test/listings.js";
+import { buildSuggestions } from "./autocomplete.js";
+import { withNormalizedLocation } from "./geo.js";
+
+const business = (id: string, name: string, industry: string, location: string): Business =>
+  withNormalizedLocation(testListing(id, { name, industry, location }));
+
+const businesses = [
+  business("b1", "Austin Bakery Co", "Food & Beverage", "Austin, TX"),
+  business("b2", "Coffee Bar Austin", "Food & Beverage", "Austin, TX"),
+  business("b3", "Bakersfield Auto Repair", "Automotive", "Bakersfield, CA"),
+  business("b4", "Baker Street Books", "Retail", "Boston, MA"),
+  business("b5", "Bayside Bakery", "Food & Beverage", "San Diego, CA"),
+  business("b6", "Bakery Depot", "Food & Beverage", "Denver, CO"),
+  business("b7", "Bake Shop Supplies", "Retail", "Denver, CO"),
+  business("b8", "Bakeware Outlet", "Retail", "Denver, CO")
+];
+
+const history = (...queries: string[]): SearchHistoryEntry[] => queries.map((query, index) => ({
+  id: `h${index}`,
+  query,
+  filters: {},
+  resultsCount: 1,
+  topResultIds: [],
+  createdAt: new Date("2024-06-01T00:00:00Z")
+}));
+
+const labels = (query: string, type: string, entries = history(), limit = 20) =>
+  buildSuggestions(query, businesses, entries, limit).filter(suggestion => suggestion.type === type).map(suggestion => suggestion.label);
+
+describe("buildSuggestions", () => {
+  it("matches the start of a name or of any word in it, ignoring case and spacing", () => {
+    expect(labels("  AUSTIN ", "business")).toEqual(["Austin Bakery Co", "Coffee Bar Austin"]);
+    expect(labels("ust", "business")).toEqual([]);
+  });
+
+  it("ranks names starting with the query before names with a later word starting with it, then in listing order", () => {
+    expect(labels("bakery", "business")).toEqual(["Bakery Depot", "Austin Bakery Co", "Bayside Bakery"]);
+    expect(labels("bak", "business")).toEqual([
+      "Bakersfield Auto Repair",
+      "Baker Street Books",
+      "Bakery Depot",
+      "Bake Shop Supplies",
+      "Bakeware Outlet"
+    ]);
+  });
+
+  it("offers industries and cities with their listing counts, most listings first", () => {
+    const suggestions = buildSuggestions("food", businesses, [], 20);
+    expect(suggestions).toEqual([{ type: "industry", label: "Food & Beverage", value: "Food & Beverage", detail: "4 listings" }]);
+    expect(buildSuggestions("den", businesses, [], 20)).toContainEqual({ type: "city", label: "Denver, CO", value: "Denver, CO", detail: "3 listings" });
+    expect(labels("b", "city")).toEqual(["Bakersfield, CA", "Boston, MA"]);
+  });
+
+  it("lists recent queries first, once each, leaving out the query as typed", () => {
+    const entries = history("bakery denver", "Bakery Denver ", "bakeries", "bak", "pizza");
+    const suggestions = buildSuggestions("bak", businesses, entries, 20);
+
+    expect(suggestions.slice(0, 3).map(suggestion => [suggestion.type, suggestion.label])).toEqual([
+      ["recent", "bakery denver"],
+      ["recent", "Bakery Denver"],
+      ["recent", "bakeries"]
+    ]);
+  });
+
+  it("caps each type and then the whole list", () => {
+    const entries = history("bake a", "bake b", "bake c", "bake d");
+    expect(labels("bak", "recent", entries)).toHaveLength(3);
+    expect(labels("ba", "business")).toHaveLength(5);
+
+    const limited = buildSuggestions("bak", businesses, entries, 4);
+    expect(limited.map(suggestion => suggestion.type)).toEqual(["recent", "recent", "recent", "business"]);
+  });
+
+  it("offers a listing's ID as its value, with its industry and location", () => {
+    expect(buildSuggestions("coffee", businesses, [], 20)).toEqual([
+      { type: "business", label: "Coffee Bar Austin", value: "b2", detail: "Food & Beverage · Austin, TX" }
+    ]);
+  });
+});
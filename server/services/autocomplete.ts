@@ -0,0 +1,62 @@
+// Search-as-you-type suggestions for the header search bar
+import { AutocompleteSuggestion, Business, SearchHistoryEntry } from "../../shared/schema.js";
+
+// Caps per suggestion type, so one type can't crowd out the rest of the dropdown
+const typeLimits = { recent: 3, business: 5, industry: 3, city: 3 };
+
+// 0 when the text starts with the prefix, 1 when a later word does, null when it doesn't match
+function matchRank(text: string, prefix: string): number | null {
+  const lower = text.toLowerCase();
+  if (lower.startsWith(prefix)) return 0;
+  return lower.split(/[^a-z0-9]+/).some(word => word.startsWith(prefix)) ? 1 : null;
+}
+
+// Best matches first; ties keep the candidates' own order
+function rankMatches<T>(candidates: T[], prefix: string, textOf: (candidate: T) => string, limit: number): T[] {
+  return candidates
+    .map((candidate, index) => ({ candidate, index, rank: matchRank(textOf(candidate), prefix) }))
+    .filter((entry): entry is { candidate: T; index: number; rank: number } => entry.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.candidate);
+}
+
+function countBy(businesses: Business[], valueOf: (business: Business) => string): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  businesses.forEach(business => counts.set(valueOf(business), (counts.get(valueOf(business)) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+}
+
+const listings = (count: number) => `${count} listing${count === 1 ? '' : 's'}`;
+
+// Recent queries first, then listings, industries and cities; names and words starting with the query rank first
+export function buildSuggestions(
+  query: string,
+  businesses: Business[],
+  history: SearchHistoryEntry[],
+  limit: number
+): AutocompleteSuggestion[] {
+  const prefix = query.trim().toLowerCase();
+  const suggestions: AutocompleteSuggestion[] = [];
+
+  const recentQueries = Array.from(new Set(history.map(entry => entry.query.trim()).filter(Boolean)))
+    .filter(recent => recent.toLowerCase() !== prefix);
+  rankMatches(recentQueries, prefix, recent => recent, typeLimits.recent)
+    .forEach(recent => suggestions.push({ type: 'recent', label: recent, value: recent }));
+
+  rankMatches(businesses, prefix, business => business.name, typeLimits.business)
+    .forEach(business => suggestions.push({
+      type: 'business',
+      label: business.name,
+      value: business.id,
+      detail: `${business.industry} · ${business.location}`
+    }));
+
+  rankMatches(countBy(businesses, business => business.industry), prefix, industry => industry.value, typeLimits.industry)
+    .forEach(industry => suggestions.push({ type: 'industry', label: industry.value, value: industry.value, detail: listings(industry.count) }));
+
+  rankMatches(countBy(businesses, business => business.location), prefix, city => city.value, typeLimits.city)
+    .forEach(city => suggestions.push({ type: 'city', label: city.value, value: city.value, detail: listings(city.count) }));
+
+  return suggestions.slice(0, limit);
+}
@@ -0,0 +1,43 @@
+// Derived listing metrics - shared by search filters and the scoring engine so both classify listings the same way
+import { Business, BusinessSize, PreferenceLevel } from "../../shared/schema.js";
+
+export function businessAgeYears(business: Business): number {
+  return new Date().getFullYear() - business.yearEstablished;
+}
+
+export function cashFlowMargin(business: Business): number {
+  return business.annualRevenue > 0 ? business.cashFlow / business.annualRevenue : 0;
+}
+
+// Years of cash flow needed to recover the asking price; Infinity when the business does not cash flow
+export function paybackYears(business: Business): number {
+  return business.cashFlow > 0 ? business.askingPrice / business.cashFlow : Infinity;
+}
+
+// Matches the size buckets offered in the search filters: under 10, 10-50, over 50 employees
+export function businessSize(business: Business): BusinessSize {
+  if (business.employees < 10) return 'small';
+  if (business.employees <= 50) return 'medium';
+  return 'large';
+}
+
+// Established, cash-generating businesses are low risk; young or thin-margin ones are high risk
+export function riskLevel(business: Business): PreferenceLevel {
+  const age = businessAgeYears(business);
+  const margin = cashFlowMargin(business);
+  if (age >= 10 && margin >= 0.15) return 'low';
+  if (age >= 5 && margin >= 0.1) return 'medium';
+  return 'high';
+}
+
+// Whether the team size suits an owner at the given involvement level
+export function suitsInvolvement(business: Business, involvement: PreferenceLevel): boolean {
+  switch (involvement) {
+    case 'low':
+      return business.employees >= 10; // enough staff to run without the owner day to day
+    case 'medium':
+      return business.employees >= 5 && business.employees <= 50;
+    case 'high':
+      return business.employees <= 20; // small enough to operate hands-on
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { Business, BusinessListing, businessSearchQuerySchema, businessSearchRequestSchema } from "../../shared/schema.js";
+import { getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { testListing } from "../test/listings.js";
+import { computeFacets, encodeSearchCursor, filterBusinesses, paginateResults, SearchCursorError, searchFingerprint, sortBusinesses } from "./businessSearch.js";
+import { businessDistance, resolvePlace, withNormalizedLocation } from "./geo.js";
+
+const businesses = getAllDemoBusinesses();
+const request = (params: Record<string, unknown>) => businessSearchRequestSchema.parse(params);
+
+const currentYear = new Date().getFullYear();
+const fixture = (id: string, overrides: Partial<BusinessListing>): Business =>
+  ({ ...testListing(id, overrides), city: "Portland", state: "OR", lat: null, lng: null });
+
+// Payback = asking price / cash flow; risk follows age and cash flow margin; size follows employees
+const listings = [
+  fixture("veteran", { askingPrice: 900000, annualRevenue: 1000000, cashFlow: 300000, employees: 60, yearEstablished: currentYear - 25 }),
+  fixture("steady", { askingPrice: 400000, annualRevenue: 800000, cashFlow: 100000, employees: 12, yearEstablished: currentYear - 6 }),
+  fixture("startup", { askingPrice: 250000, annualRevenue: 300000, cashFlow: 15000, employees: 4, yearEstablished: currentYear - 2 }),
+  fixture("no-cash-flow", { askingPrice: 150000, annualRevenue: 200000, cashFlow: 0, employees: 3, yearEstablished: currentYear - 12 })
+];
+
+const filtered = (params: Record<string, unknown>) =>
+  filterBusinesses(listings, businessSearchQuerySchema.parse(params)).map(listing => listing.id);
+
+describe("businessSearchQuerySchema", () => {
+  it("coerces query string values and accepts the legacy names", () => {
+    expect(businessSearchQuerySchema.parse({ q: " bakery ", industry: "Retail,Technology", minPrice: "100000", riskTolerance: "conservative", involvement: "hands-on" }))
+      .toMatchObject({ query: "bakery", industries: ["Retail", "Technology"], minPrice: 100000, riskTolerance: "low", involvement: "high" });
+  });
+
+  it("rejects reversed ranges and a radius without a place", () => {
+    expect(businessSearchQuerySchema.safeParse({ minPrice: "500000", maxPrice: "100000" }).success).toBe(false);
+    expect(businessSearchQuerySchema.safeParse({ radiusMiles: "25" }).success).toBe(false);
+  });
+});
+
+describe("filterBusinesses", () => {
+  it("treats risk tolerance as an upper bound", () => {
+    expect(filtered({ riskTolerance: "low" })).toEqual(["veteran"]);
+    expect(filtered({ riskTolerance: "medium" })).toEqual(["veteran", "steady"]);
+    expect(filtered({ riskTolerance: "high" })).toHaveLength(listings.length);
+  });
+
+  it("matches team size to the owner's involvement", () => {
+    expect(filtered({ involvement: "low" })).toEqual(["veteran", "steady"]);
+    expect(filtered({ involvement: "high" })).toEqual(["steady", "startup", "no-cash-flow"]);
+  });
+
+  it("filters by size bucket and employee range", () => {
+    expect(filtered({ businessSize: "large" })).toEqual(["veteran"]);
+    expect(filtered({ businessSize: "small" })).toEqual(["startup", "no-cash-flow"]);
+    expect(filtered({ minEmployees: "4", maxEmployees: "12" })).toEqual(["steady", "startup"]);
+  });
+
+  it("filters by payback years, leaving out listings without cash flow", () => {
+    expect(filtered({ maxPaybackYears: "4" })).toEqual(["veteran", "steady"]);
+    expect(filtered({ minPaybackYears: "10" })).toEqual(["startup", "no-cash-flow"]);
+    expect(filtered({ minPaybackYears: "10", maxPaybackYears: "20" })).toEqual(["startup"]);
+  });
+
+  it("combines price, revenue and founding year", () => {
+    expect(filtered({ minPrice: "200000", maxRevenue: "900000", yearEstablished: currentYear - 10 })).toEqual(["steady", "startup"]);
+    expect(filtered({ maxYearEstablished: currentYear - 10 })).toEqual(["veteran", "no-cash-flow"]);
+  });
+
+  it("matches industries and locations ignoring case", () => {
+    const demo = (params: Record<string, unknown>) => filterBusinesses(businesses, businessSearchQuerySchema.parse(params));
+    expect(demo({ industries: "technology" }).every(listing => listing.industry === "Technology")).toBe(true);
+    expect(demo({ industries: "technology" })).not.toHaveLength(0);
+    expect(demo({ location: "new york" }).map(listing => listing.id)).toContain("demo-tech-1");
+  });
+});
+
+describe("radius search", () => {
+  const placed = (id: string, location: string) => withNormalizedLocation(testListing(id, { location }));
+  const nearby = [placed("dallas", "Dallas, TX"), placed("round-rock", "Round Rock, TX"), placed("austin", "Austin, TX"), placed("unplaced", "Smallville, KS")];
+  const near = (params: Record<string, unknown>) => filterBusinesses(nearby, businessSearchQuerySchema.parse({ near: "Austin, TX", ...params }));
+  const roundRockMiles = businessDistance(nearby[1], resolvePlace("Austin, TX")!)!;
+
+  it("gives every result its distance, leaving it out for listings without coordinates", () => {
+    expect(near({}).map(listing => [listing.id, listing.distanceMiles])).toEqual([
+      ["dallas", expect.any(Number)],
+      ["round-rock", roundRockMiles],
+      ["austin", 0],
+      ["unplaced", undefined]
+    ]);
+  });
+
+  it("keeps listings exactly at the radius and drops those without coordinates", () => {
+    expect(near({ radiusMiles: roundRockMiles }).map(listing => listing.id)).toEqual(["round-rock", "austin"]);
+    expect(near({ radiusMiles: roundRockMiles - 0.1 }).map(listing => listing.id)).toEqual(["austin"]);
+  });
+
+  it("matches nothing around a place it can't resolve", () => {
+    expect(near({ near: "Atlantis" })).toEqual([]);
+    expect(near({ near: "Springfield", radiusMiles: 3000 })).toEqual([]);
+  });
+
+  it("sorts nearest first, with listings without coordinates last", () => {
+    expect(sortBusinesses(near({}), "distance", "asc").map(listing => listing.id)).toEqual(["austin", "round-rock", "dallas", "unplaced"]);
+    expect(sortBusinesses(near({}), "distance", "desc").map(listing => listing.id)).toEqual(["dallas", "round-rock", "austin", "unplaced"]);
+    expect(paginateResults(near({}), request({ near: "Austin, TX", sortBy: "distance" })).businesses.map(listing => listing.id))
+      .toEqual(["austin", "round-rock", "dallas", "unplaced"]);
+  });
+});
+
+describe("computeFacets", () => {
+  const count = (buckets: { value: string; count: number }[], value: string) => buckets.find(bucket => bucket.value === value)?.count;
+
+  it("counts the listings matching the search in each bucket", () => {
+    const facets = computeFacets(listings, {});
+    expect(facets.sizes.map(bucket => bucket.count)).toEqual([2, 1, 1]);
+    expect(count(facets.priceBands, "under-250k")).toBe(1);
+    expect(count(facets.priceBands, "250k-500k")).toBe(2);
+    expect(facets.states).toEqual([{ value: "OR", label: "OR", count: 4 }]);
+  });
+
+  it("applies every filter except the facet's own", () => {
+    const facets = computeFacets(listings, businessSearchQuerySchema.parse({ businessSize: "small", maxPrice: "300000" }));
+    // Sizes ignore businessSize but not maxPrice
+    expect(facets.sizes.map(bucket => bucket.count)).toEqual([2, 0, 0]);
+    // Price bands ignore maxPrice but not businessSize
+    expect(count(facets.priceBands, "under-250k")).toBe(1);
+    expect(count(facets.priceBands, "250k-500k")).toBe(1);
+    expect(count(facets.priceBands, "500k-1m")).toBe(0);
+  });
+
+  it("lists industries most common first and only when present", () => {
+    const { industries } = computeFacets(businesses, businessSearchQuerySchema.parse({ industries: "Technology", minPrice: "1" }));
+    expect(industries.map(bucket => bucket.count)).toEqual([...industries.map(bucket => bucket.count)].sort((a, b) => b - a));
+    expect(industries.every(bucket => bucket.count > 0)).toBe(true);
+    expect(industries.length).toBeGreaterThan(1);
+    expect(industries.some(bucket => bucket.value === "Finance")).toBe(false);
+  });
+});
+
+describe("paginateResults", () => {
+  it("pages through every result once by cursor", () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginateResults(businesses, request({ sortBy: "askingPrice", limit: 15, cursor }));
+      seen.push(...page.businesses.map(business => business.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(sortBusinesses(businesses, "askingPrice", "asc").map(business => business.id));
+  });
+
+  it("reports the next offset, and none on the last page", () => {
+    const first = paginateResults(businesses, request({ limit: 20 }));
+    expect(first).toMatchObject({ offset: 0, nextOffset: 20, total: businesses.length, sortBy: "blended", sortOrder: "desc" });
+
+    const last = paginateResults(businesses, request({ limit: 20, offset: businesses.length - 5 }));
+    expect(last.businesses).toHaveLength(5);
+    expect(last).toMatchObject({ nextOffset: null, nextCursor: null });
+  });
+
+  it("rejects a cursor issued for a different sort", () => {
+    const { nextCursor } = paginateResults(businesses, request({ sortBy: "askingPrice", limit: 10 }));
+    expect(() => paginateResults(businesses, request({ sortBy: "askingPrice", sortOrder: "desc", cursor: nextCursor })))
+      .toThrow("Search cursor was issued for a different sort order");
+  });
+
+  it("rejects a cursor issued for a different search", () => {
+    const { nextCursor } = paginateResults(businesses, request({ industries: "Technology", limit: 5 }));
+    expect(() => paginateResults(businesses, request({ industries: "Retail", limit: 5, cursor: nextCursor })))
+      .toThrow(/different search/);
+    expect(() => paginateResults(businesses, request({ industries: "Technology", query: "saas", limit: 5, cursor: nextCursor })))
+      .toThrow(SearchCursorError);
+  });
+
+  it("rejects tokens that aren't cursors", () => {
+    expect(() => paginateResults(businesses, request({ cursor: "not-a-cursor" }))).toThrow("Invalid search cursor");
+    const withoutSearch = Buffer.from(JSON.stringify({ offset: 5, sortBy: "blended", sortOrder: "desc" })).toString("base64url");
+    expect(() => paginateResults(businesses, request({ cursor: withoutSearch }))).toThrow("Invalid search cursor");
+    const negative = encodeSearchCursor({ offset: -1, sortBy: "blended", sortOrder: "desc", search: searchFingerprint(request({})) });
+    expect(() => paginateResults(businesses, request({ cursor: negative }))).toThrow("Invalid search cursor");
+  });
+});
+
+describe("searchFingerprint", () => {
+  it("ignores sorting, paging, case and industry order", () => {
+    expect(searchFingerprint(request({ query: "Coffee", industries: "Retail,Technology", sortBy: "newest", limit: 5, offset: 10 })))
+      .toBe(searchFingerprint(request({ query: "coffee", industries: "technology,retail" })));
+  });
+
+  it("changes with the query or any filter", () => {
+    const base = searchFingerprint(request({ query: "coffee", minPrice: 100000 }));
+    expect(searchFingerprint(request({ query: "tea", minPrice: 100000 }))).not.toBe(base);
+    expect(searchFingerprint(request({ query: "coffee", minPrice: 100001 }))).not.toBe(base);
+    expect(searchFingerprint(request({ query: "coffee", minPrice: 100000, businessSize: "small" }))).not.toBe(base);
+  });
+});
@@ -0,0 +1,356 @@
+// Business search service - filtering and ranking shared by every storage backend
+import { createHash } from "crypto";
+import {
+  Business,
+  BusinessHighlights,
+  BusinessScore,
+  BusinessSearchQuery,
+  BusinessSearchRequest,
+  BusinessSearchResponse,
+  BusinessSize,
+  BusinessSortField,
+  FacetBucket,
+  FacetRange,
+  QueryExpansion,
+  SearchFacets,
+  establishedRanges,
+  priceBands,
+  revenueBands
+} from "../../shared/schema.js";
+import { businessSize, paybackYears, riskLevel, suitsInvolvement } from "./businessMetrics.js";
+import { SearchMatches, highlightBusiness } from "./searchIndex.js";
+import { businessDistance, resolvePlace } from "./geo.js";
+
+const riskOrder = { low: 0, medium: 1, high: 2 };
+
+// Text matching is done by the search index: pass its matches for filters.query (see SearchIndex.search).
+// With a `near` place every result carries distanceMiles, and radiusMiles drops listings further away or
+// without coordinates; a `near` place that can't be resolved matches nothing.
+export function filterBusinesses(
+  businesses: Business[],
+  filters: BusinessSearchQuery = {},
+  textMatches?: SearchMatches
+): Business[] {
+  let filtered = [...businesses];
+
+  // Apply text search query
+  if (filters.query && textMatches) {
+    filtered = filtered.filter(b => textMatches.relevance.has(b.id));
+  }
+
+  // Apply filters
+  if (filters.industries) {
+    const industries = filters.industries.map(industry => industry.toLowerCase());
+    filtered = filtered.filter(b => industries.includes(b.industry.toLowerCase()));
+  }
+
+  if (filters.location) {
+    const location = filters.location.toLowerCase();
+    filtered = filtered.filter(b =>
+      b.location.toLowerCase().includes(location) || `${b.city}, ${b.state}`.toLowerCase().includes(location)
+    );
+  }
+
+  if (filters.near) {
+    const origin = resolvePlace(filters.near);
+    filtered = origin
+      ? filtered.map(b => ({ ...b, distanceMiles: businessDistance(b, origin) }))
+      : [];
+    if (filters.radiusMiles !== undefined) {
+      filtered = filtered.filter(b => b.distanceMiles !== undefined && b.distanceMiles <= filters.radiusMiles!);
+    }
+  }
+
+  if (filters.minPrice !== undefined) {
+    filtered = filtered.filter(b => b.askingPrice >= filters.minPrice!);
+  }
+
+  if (filters.maxPrice !== undefined) {
+    filtered = filtered.filter(b => b.askingPrice <= filters.maxPrice!);
+  }
+
+  if (filters.minRevenue !== undefined) {
+    filtered = filtered.filter(b => b.annualRevenue >= filters.minRevenue!);
+  }
+
+  if (filters.maxRevenue !== undefined) {
+    filtered = filtered.filter(b => b.annualRevenue <= filters.maxRevenue!);
+  }
+
+  if (filters.minEmployees !== undefined) {
+    filtered = filtered.filter(b => b.employees >= filters.minEmployees!);
+  }
+
+  if (filters.maxEmployees !== undefined) {
+    filtered = filtered.filter(b => b.employees <= filters.maxEmployees!);
+  }
+
+  if (filters.yearEstablished !== undefined) {
+    filtered = filtered.filter(b => b.yearEstablished >= filters.yearEstablished!);
+  }
+
+  if (filters.maxYearEstablished !== undefined) {
+    filtered = filtered.filter(b => b.yearEstablished <= filters.maxYearEstablished!);
+  }
+
+  if (filters.businessSize) {
+    filtered = filtered.filter(b => businessSize(b) === filters.businessSize);
+  }
+
+  if (filters.riskTolerance) {
+    const tolerance = riskOrder[filters.riskTolerance];
+    filtered = filtered.filter(b => riskOrder[riskLevel(b)] <= tolerance);
+  }
+
+  if (filters.involvement) {
+    filtered = filtered.filter(b => suitsInvolvement(b, filters.involvement!));
+  }
+
+  if (filters.minPaybackYears !== undefined) {
+    filtered = filtered.filter(b => paybackYears(b) >= filters.minPaybackYears!);
+  }
+
+  if (filters.maxPaybackYears !== undefined) {
+    filtered = filtered.filter(b => paybackYears(b) <= filters.maxPaybackYears!);
+  }
+
+  return filtered;
+}
+
+const sizeLabels: Record<BusinessSize, string> = {
+  small: 'Small (under 10 employees)',
+  medium: 'Medium (10-50 employees)',
+  large: 'Large (over 50 employees)'
+};
+
+// Most common first, then alphabetical
+function countValues(businesses: Business[], valueOf: (business: Business) => string | undefined): FacetBucket[] {
+  const counts = new Map<string, number>();
+  businesses.forEach(business => {
+    const value = valueOf(business);
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, label: value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Every range is listed, including empty ones, in the order defined
+function countRanges(businesses: Business[], ranges: FacetRange[], valueOf: (business: Business) => number): FacetBucket[] {
+  return ranges.map(range => ({
+    value: range.value,
+    label: range.label,
+    count: businesses.filter(business => {
+      const value = valueOf(business);
+      return (range.min === undefined || value >= range.min) && (range.max === undefined || value < range.max);
+    }).length
+  }));
+}
+
+export function computeFacets(businesses: Business[], filters: BusinessSearchQuery = {}, textMatches?: SearchMatches): SearchFacets {
+  const matchingExcept = (...keys: (keyof BusinessSearchQuery)[]) => {
+    const rest = { ...filters };
+    keys.forEach(key => delete rest[key]);
+    return filterBusinesses(businesses, rest, textMatches);
+  };
+
+  const byLocation = matchingExcept('location', 'near', 'radiusMiles');
+  const bySize = matchingExcept('businessSize', 'minEmployees', 'maxEmployees');
+  return {
+    industries: countValues(matchingExcept('industries'), business => business.industry),
+    states: countValues(byLocation, business => business.state),
+    cities: countValues(byLocation, business => business.location),
+    priceBands: countRanges(matchingExcept('minPrice', 'maxPrice'), priceBands, business => business.askingPrice),
+    revenueBands: countRanges(matchingExcept('minRevenue', 'maxRevenue'), revenueBands, business => business.annualRevenue),
+    sizes: (['small', 'medium', 'large'] as const).map(size => ({
+      value: size,
+      label: sizeLabels[size],
+      count: bySize.filter(business => businessSize(business) === size).length
+    })),
+    established: countRanges(matchingExcept('yearEstablished', 'maxYearEstablished'), establishedRanges, business => business.yearEstablished)
+  };
+}
+
+// Attach per-user scores and sort by compatibility; unscored results keep their order.
+// Text relevance is passed through for relevance and blended sorting.
+export function rankByScore(
+  businesses: Business[],
+  scores?: Map<string, BusinessScore>,
+  textMatches?: SearchMatches
+): { businesses: Business[]; totalFound: number; relevance?: Map<string, number>; queryExpansion?: QueryExpansion; matchedTerms?: Set<string> } {
+  let ranked = businesses;
+
+  if (scores) {
+    ranked = businesses.map(business => ({
+      ...business,
+      aiScore: scores.get(business.id)?.score
+    }));
+    ranked.sort((a, b) => (b.aiScore || 0) - (a.aiScore || 0));
+  }
+
+  return {
+    businesses: ranked,
+    totalFound: ranked.length,
+    relevance: textMatches?.relevance,
+    queryExpansion: textMatches?.expansion,
+    matchedTerms: textMatches?.terms
+  };
+}
+
+// Share of the blended ordering that comes from text relevance; the rest is the compatibility score
+export const RELEVANCE_BLEND_WEIGHT = 0.5;
+
+type SortValue = (business: Business, relevance: Map<string, number> | undefined, maxRelevance: number) => number | undefined;
+
+// Sort key per field; undefined or non-finite values (unscored, no cash flow) always sort last
+const sortValues: Record<BusinessSortField, SortValue> = {
+  // Without a text query this is plain score order, and for anonymous users plain relevance
+  blended: (business, relevance, maxRelevance) => {
+    const textScore = relevance ? (relevance.get(business.id) ?? 0) / (maxRelevance || 1) : undefined;
+    const fitScore = business.aiScore !== undefined && business.aiScore !== null ? business.aiScore / 100 : undefined;
+    if (textScore === undefined || fitScore === undefined) return textScore ?? fitScore;
+    return RELEVANCE_BLEND_WEIGHT * textScore + (1 - RELEVANCE_BLEND_WEIGHT) * fitScore;
+  },
+  relevance: (business, relevance) => relevance?.get(business.id),
+  score: business => business.aiScore ?? undefined,
+  askingPrice: business => business.askingPrice,
+  annualRevenue: business => business.annualRevenue,
+  cashFlow: business => business.cashFlow,
+  yearEstablished: business => business.yearEstablished,
+  paybackYears: business => paybackYears(business),
+  newest: business => new Date(business.createdAt).getTime(),
+  distance: business => business.distanceMiles
+};
+
+export const defaultSortOrder: Record<BusinessSortField, 'asc' | 'desc'> = {
+  blended: 'desc',
+  relevance: 'desc',
+  score: 'desc',
+  askingPrice: 'asc',
+  annualRevenue: 'desc',
+  cashFlow: 'desc',
+  yearEstablished: 'asc', // longest established first
+  paybackYears: 'asc',
+  newest: 'desc',
+  distance: 'asc'
+};
+
+// Stable, so ties keep the incoming (score-ranked) order
+export function sortBusinesses(
+  businesses: Business[],
+  sortBy: BusinessSortField,
+  sortOrder: 'asc' | 'desc',
+  relevance?: Map<string, number>
+): Business[] {
+  const maxRelevance = relevance ? Math.max(0, ...relevance.values()) : 0;
+  const values = new Map(businesses.map(business => [business.id, sortValues[sortBy](business, relevance, maxRelevance)]));
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return [...businesses].sort((a, b) => {
+    const left = values.get(a.id);
+    const right = values.get(b.id);
+    const leftMissing = left === undefined || !Number.isFinite(left);
+    const rightMissing = right === undefined || !Number.isFinite(right);
+    if (leftMissing || rightMissing) return Number(leftMissing) - Number(rightMissing);
+    return (left - right) * direction;
+  });
+}
+
+export class SearchCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchCursorError';
+  }
+}
+
+interface SearchCursor {
+  offset: number;
+  sortBy: BusinessSortField;
+  sortOrder: 'asc' | 'desc';
+  // searchFingerprint of the request the token was issued for
+  search: string;
+}
+
+// Identifies the result set a request pages through: its text query and filters, without sorting or paging.
+// Matching is case-insensitive and industries are a set, so those differences don't change the fingerprint.
+export function searchFingerprint(request: BusinessSearchRequest): string {
+  const { sortBy, sortOrder, limit, offset, cursor, ...filters } = request;
+  const normalize = (value: unknown): unknown =>
+    Array.isArray(value) ? value.map(normalize).sort() : typeof value === 'string' ? value.toLowerCase() : value;
+  const normalized = Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => [key, normalize(value)]);
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('base64url').slice(0, 16);
+}
+
+// Page tokens record the search and sort they were issued for, so a token can't silently page through a different
+// result set or ordering
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeSearchCursor(token: string): SearchCursor {
+  let cursor: Partial<Record<keyof SearchCursor, unknown>> | null;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new SearchCursorError('Invalid search cursor');
+  }
+  if (
+    typeof cursor?.offset !== 'number' || !Number.isInteger(cursor.offset) || cursor.offset < 0 ||
+    typeof cursor.sortBy !== 'string' || !(cursor.sortBy in sortValues) ||
+    (cursor.sortOrder !== 'asc' && cursor.sortOrder !== 'desc') || typeof cursor.search !== 'string'
+  ) {
+    throw new SearchCursorError('Invalid search cursor');
+  }
+  return cursor as SearchCursor;
+}
+
+// Sorts a ranked result set and cuts the requested page out of it
+export function paginateResults(
+  ranked: Business[],
+  request: BusinessSearchRequest,
+  relevance?: Map<string, number>
+): Omit<BusinessSearchResponse, 'queryExpansion' | 'highlights' | 'facets'> {
+  const sortOrder = request.sortOrder ?? defaultSortOrder[request.sortBy];
+  let offset = request.offset;
+  if (request.cursor) {
+    const cursor = decodeSearchCursor(request.cursor);
+    if (cursor.sortBy !== request.sortBy || cursor.sortOrder !== sortOrder) {
+      throw new SearchCursorError('Search cursor was issued for a different sort order');
+    }
+    if (cursor.search !== searchFingerprint(request)) {
+      throw new SearchCursorError('Search cursor was issued for a different search - start again from the first page');
+    }
+    offset = cursor.offset;
+  }
+
+  const sorted = sortBusinesses(ranked, request.sortBy, sortOrder, relevance);
+  const page = sorted.slice(offset, offset + request.limit);
+  const nextOffset = offset + page.length < sorted.length ? offset + page.length : null;
+
+  return {
+    businesses: page,
+    total: sorted.length,
+    limit: request.limit,
+    offset,
+    nextOffset,
+    nextCursor: nextOffset === null ? null : encodeSearchCursor({ offset: nextOffset, sortBy: request.sortBy, sortOrder, search: searchFingerprint(request) }),
+    sortBy: request.sortBy,
+    sortOrder
+  };
+}
+
+// Highlights for one page of results, by business ID; undefined when the search had no text query
+export function highlightResults(
+  businesses: Business[],
+  matchedTerms?: Set<string>
+): Record<string, BusinessHighlights> | undefined {
+  if (!matchedTerms) return undefined;
+  const highlights: Record<string, BusinessHighlights> = {};
+  businesses.forEach(business => {
+    const businessHighlights = highlightBusiness(business, matchedTerms);
+    if (businessHighlights) highlights[business.id] = businessHighlights;
+  });
+  return highlights;
+}
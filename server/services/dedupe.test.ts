@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Business, DuplicateGroup } from "../../shared/schema.js";
+import { storageDrivers, TestStorage } from "../test/storageDrivers.js";
+import { testListing } from "../test/listings.js";
+import { collapseDuplicates, compareListings, detectDuplicates, DUPLICATE_MIN_SCORE, fingerprint, removeFromDuplicateGroups, splitDuplicateGroup } from "./dedupe.js";
+
+const business = (id: string, overrides: Parameters<typeof testListing>[1] = {}): Business =>
+  ({ ...testListing(id, overrides), city: "Bend", state: "OR", lat: null, lng: null });
+
+// The same roaster on a second marketplace: reworded, figures rounded differently
+const original = business("original", { name: "Harbor Coffee Roasters", createdAt: new Date("2024-01-01T00:00:00Z") });
+const relisted = business("relisted", {
+  name: "Harbor Coffee Roasters, LLC",
+  description: "Specialty coffee roaster - wholesale accounts and two cafes",
+  askingPrice: 650000,
+  annualRevenue: 900000,
+  sourceSite: "Other Marketplace"
+});
+
+describe("compareListings", () => {
+  it("scores the same business from another source as a duplicate, with the reasons", () => {
+    const { score, reasons } = compareListings(fingerprint(original), fingerprint(relisted));
+    expect(score).toBeGreaterThanOrEqual(DUPLICATE_MIN_SCORE);
+    expect(reasons).toContain("Same name");
+    expect(reasons).toContain("3 of 3 figures within 10% (asking price, revenue, cash flow)");
+  });
+
+  it("doesn't compare listings in different places", () => {
+    const elsewhere = { ...relisted, city: "Salem" };
+    expect(compareListings(fingerprint(original), fingerprint(elsewhere))).toEqual({ score: 0, reasons: [] });
+  });
+
+  it("keeps different businesses in the same place apart", () => {
+    const gym = business("gym", { name: "Ironworks Fitness", description: "Strength gym with 400 members", askingPrice: 300000, annualRevenue: 450000, cashFlow: 90000 });
+    expect(compareListings(fingerprint(original), fingerprint(gym)).score).toBeLessThan(DUPLICATE_MIN_SCORE);
+  });
+});
+
+describe("collapseDuplicates", () => {
+  const group: DuplicateGroup = {
+    id: "dup-1", canonicalId: "original", members: [{ businessId: "relisted", score: 0.9, reasons: [] }],
+    status: "pending", detectedAt: new Date(), reviewedAt: null, reviewedBy: null
+  };
+
+  it("shows a group as its canonical listing, linking every source", () => {
+    const listed = collapseDuplicates([original, relisted], [group]);
+    expect(listed.map(listing => listing.id)).toEqual(["original"]);
+    expect(listed[0].sources?.map(source => source.sourceSite)).toEqual(["Example Marketplace", "Other Marketplace"]);
+  });
+
+  it("leaves a group alone once its canonical listing is gone", () => {
+    expect(collapseDuplicates([relisted], [group]).map(listing => listing.id)).toEqual(["relisted"]);
+  });
+});
+
+describe.each(storageDrivers)("$name detectDuplicates", ({ open }) => {
+  let store: TestStorage;
+  beforeAll(() => {
+    store = open();
+  });
+  afterAll(() => store.close());
+
+  // Listings of their own per test, so Postgres runs don't group with ones left by earlier runs
+  const seedPair = async () => {
+    const suffix = crypto.randomUUID().slice(0, 8);
+    const location = `Town ${suffix}, OR`;
+    const pair = [
+      { ...original, id: `dedupe-a-${suffix}`, location },
+      { ...relisted, id: `dedupe-b-${suffix}`, location, createdAt: new Date("2024-03-01T00:00:00Z") }
+    ];
+    await store.storage.upsertBusinesses(pair);
+    return pair.map(listing => listing.id);
+  };
+  const groupOf = async (id: string) =>
+    (await store.storage.getDuplicateGroups()).find(group => [group.canonicalId, ...group.members.map(member => member.businessId)].includes(id));
+
+  it("groups a pair around the listing listed first", async () => {
+    const [first, second] = await seedPair();
+    await detectDuplicates(store.storage);
+
+    const group = await groupOf(first);
+    expect(group).toMatchObject({ canonicalId: first, status: "pending", members: [{ businessId: second }] });
+    expect(await groupOf(second)).toEqual(group);
+  });
+
+  it("doesn't regroup a pair an admin split apart", async () => {
+    const [first, second] = await seedPair();
+    await detectDuplicates(store.storage);
+    expect(await splitDuplicateGroup(store.storage, (await groupOf(first))!, [second], "admin-1")).toBeNull();
+
+    await detectDuplicates(store.storage);
+    expect(await groupOf(first)).toBeUndefined();
+  });
+
+  it("removes a group once one of its two listings is deleted", async () => {
+    const [first, second] = await seedPair();
+    await detectDuplicates(store.storage);
+    await store.storage.deleteBusinesses([first]);
+
+    const result = await detectDuplicates(store.storage);
+    expect(result.groupsRemoved).toBeGreaterThanOrEqual(1);
+    expect(await groupOf(second)).toBeUndefined();
+  });
+
+  it("compares only pairs with a changed listing when given them", async () => {
+    const [first, second] = await seedPair();
+    const [other] = await seedPair();
+
+    expect(await detectDuplicates(store.storage, [other, "no-such-listing"])).toMatchObject({ scanned: 1, groupsCreated: 1 });
+    expect(await groupOf(first)).toBeUndefined();
+
+    expect(await detectDuplicates(store.storage, [second])).toMatchObject({ scanned: 1, groupsCreated: 1, listingsGrouped: 2 });
+    expect(await groupOf(first)).toMatchObject({ canonicalId: first, members: [{ businessId: second }] });
+  });
+
+  it("adds a changed listing to its duplicate's group", async () => {
+    const [first, second] = await seedPair();
+    await detectDuplicates(store.storage, [second]);
+    const third = { ...relisted, id: `${second}-3`, location: (await store.storage.getBusinessById(first))!.location, sourceSite: "Third Marketplace" };
+    await store.storage.upsertBusinesses([third]);
+
+    expect(await detectDuplicates(store.storage, [third.id])).toMatchObject({ groupsCreated: 0, listingsGrouped: 1 });
+    expect((await groupOf(first))?.members.map(member => member.businessId)).toEqual([second, third.id]);
+  });
+
+  it("checks only the changed listings' groups for listings gone", async () => {
+    const [first, second] = await seedPair();
+    await detectDuplicates(store.storage, [first]);
+    await store.storage.deleteBusinesses([second]);
+
+    await detectDuplicates(store.storage, [crypto.randomUUID()]);
+    expect(await groupOf(first)).toBeDefined();
+
+    expect(await detectDuplicates(store.storage, [second])).toMatchObject({ scanned: 0, groupsRemoved: 1 });
+    expect(await groupOf(first)).toBeUndefined();
+  });
+
+  it("takes deleted listings out of only their own groups", async () => {
+    const [first, second] = await seedPair();
+    const [kept, keptDuplicate] = await seedPair();
+    await detectDuplicates(store.storage, [first, kept]);
+    await store.storage.deleteBusinesses([first, keptDuplicate]);
+
+    expect(await removeFromDuplicateGroups(store.storage, [first])).toBe(1);
+    expect(await groupOf(second)).toBeUndefined();
+    // Its listing went without the group being told, so it's left for a scan
+    expect(await groupOf(kept)).toMatchObject({ canonicalId: kept, members: [{ businessId: keptDuplicate }] });
+  });
+});
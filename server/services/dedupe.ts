@@ -0,0 +1,325 @@
+// Duplicate listing detection - the same business listed on several marketplaces (or twice on one) arrives under
+// different sourceUrls. Listings in the same city are compared on a fingerprint of normalized name, financials and
+// description words; pairs that score high enough are grouped around a canonical listing that search shows in their place.
+import { randomUUID } from "crypto";
+import { Business, DuplicateGroup, DuplicateGroupDetails, DuplicateGroupMember, DuplicateScanResult, ListingSourceLink } from "../../shared/schema.js";
+import { IStorage } from "../storage/IStorage.js";
+import { stem } from "./searchIndex.js";
+
+// Two listings are probable duplicates at this combined score or above
+export const DUPLICATE_MIN_SCORE = 0.7;
+// Financial figures this far apart (relative to the larger) still count as the same
+export const FINANCIAL_TOLERANCE = 0.1;
+
+// Weights of the combined score; descriptions are usually rewritten per marketplace, so they count least
+const weights = { name: 0.45, financials: 0.35, description: 0.2 };
+
+// Words that don't tell businesses apart, including legal suffixes ("Acme Plumbing LLC" is "Acme Plumbing")
+const ignoredWords = new Set([
+  'a', 'an', 'and', 'the', 'of', 'in', 'on', 'for', 'with', 'to', 'at', 'by', 'or', 'is', 'are', 'our', 'your',
+  'llc', 'inc', 'co', 'corp', 'corporation', 'company', 'ltd', 'lp', 'pllc', 'group', 'business', 'sale'
+]);
+
+const financialFields = [
+  { field: 'askingPrice', label: 'asking price' },
+  { field: 'annualRevenue', label: 'revenue' },
+  { field: 'cashFlow', label: 'cash flow' }
+] as const;
+
+interface Fingerprint {
+  business: Business;
+  // Listings are only compared within the same place
+  locationKey: string;
+  nameWords: Set<string>;
+  descriptionWords: Set<string>;
+}
+
+const words = (text: string, minLength: number) =>
+  new Set(
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '') // strip accents
+      .replace(/&/g, ' and ')
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= minLength && !ignoredWords.has(word))
+      .map(stem)
+  );
+
+// A listing's place: its normalized city, or its location as written when it has none
+const locationKey = (business: Business) =>
+  business.city && business.state
+    ? `${business.city.toLowerCase()}|${business.state}`
+    : business.location.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function fingerprint(business: Business): Fingerprint {
+  return {
+    business,
+    locationKey: locationKey(business),
+    nameWords: words(business.name, 1),
+    descriptionWords: words(business.description, 3)
+  };
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+const withinTolerance = (a: number, b: number) => Math.abs(a - b) <= FINANCIAL_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// How alike two listings are (0-1) and why; listings in different places score 0
+export function compareListings(a: Fingerprint, b: Fingerprint): { score: number; reasons: string[] } {
+  if (a.locationKey !== b.locationKey) return { score: 0, reasons: [] };
+
+  const reasons: string[] = [];
+  const name = jaccard(a.nameWords, b.nameWords);
+  reasons.push(name === 1 ? 'Same name' : `Names ${percent(name)} alike`);
+
+  // Figures only one side lists (or lists as 0) are left out rather than counted as different
+  const compared = financialFields.filter(({ field }) => a.business[field] > 0 && b.business[field] > 0);
+  const matching = compared.filter(({ field }) => withinTolerance(a.business[field], b.business[field]));
+  const financials = compared.length > 0 ? matching.length / compared.length : 0;
+  if (matching.length > 0) {
+    reasons.push(`${matching.length} of ${compared.length} figures within ${percent(FINANCIAL_TOLERANCE)} (${matching.map(({ label }) => label).join(', ')})`);
+  }
+
+  const description = jaccard(a.descriptionWords, b.descriptionWords);
+  if (description > 0) reasons.push(`Descriptions ${percent(description)} alike`);
+
+  const score = weights.name * name + weights.financials * financials + weights.description * description;
+  return { score: Math.round(score * 1000) / 1000, reasons };
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// The listing a new group is shown as: the one listed first
+const pickCanonical = (listings: Business[]) =>
+  [...listings].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))[0];
+
+function scoreMembers(canonical: Fingerprint, others: Fingerprint[]): DuplicateGroupMember[] {
+  return others.map(other => ({ businessId: other.business.id, ...compareListings(canonical, other) }));
+}
+
+const groupMemberIds = (group: DuplicateGroup) => [group.canonicalId, ...group.members.map(member => member.businessId)];
+
+// The group with only the given listings of it left: null once it's down to one, otherwise re-scored around its canonical
+// listing - or the oldest left, when that was one of those taken out
+function withRemainingListings(group: DuplicateGroup, remaining: Business[]): DuplicateGroup | null {
+  if (remaining.length < 2) return null;
+  const canonical = remaining.find(listing => listing.id === group.canonicalId) ?? pickCanonical(remaining);
+  return {
+    ...group,
+    canonicalId: canonical.id,
+    members: scoreMembers(fingerprint(canonical), remaining.filter(listing => listing !== canonical).map(fingerprint))
+  };
+}
+
+// Groups active listings that aren't grouped yet with their probable duplicates - with each other, or into the group of
+// a duplicate that already is (which then needs reviewing again). Pairs an admin split apart are never regrouped, and
+// listings deleted or deactivated since are dropped from their groups.
+// Given the IDs of the listings a write changed, only pairs with one of them are compared, against the listings in their
+// places, and only their groups are checked for listings gone; without, every listing is (the admin rescan).
+export async function detectDuplicates(storage: IStorage, changedIds?: string[]): Promise<DuplicateScanResult> {
+  const changedSet = changedIds && new Set(changedIds);
+  const inScope = (id: string) => !changedSet || changedSet.has(id);
+  const active = new Map((await storage.getAllBusinesses()).filter(business => business.isActive).map(business => [business.id, business]));
+  const scanned = Array.from(active.values()).filter(business => inScope(business.id));
+  const places = new Set(scanned.map(locationKey));
+  const fingerprints = new Map<string, Fingerprint>();
+  const printOf = (id: string) => {
+    if (!fingerprints.has(id)) fingerprints.set(id, fingerprint(active.get(id)!));
+    return fingerprints.get(id)!;
+  };
+  const distinct = new Set((await storage.getDistinctListingPairs()).map(([a, b]) => pairKey(a, b)));
+  const result: DuplicateScanResult = { scanned: scanned.length, groupsCreated: 0, listingsGrouped: 0, groupsRemoved: 0 };
+
+  // Current groups, without the listings that are gone
+  const groups = new Map<string, DuplicateGroup>();
+  const groupOf = new Map<string, string>();
+  const changed = new Set<string>();
+  for (const group of await storage.getDuplicateGroups()) {
+    let current: DuplicateGroup | null = group;
+    const memberIds = groupMemberIds(group);
+    if (memberIds.some(inScope) && memberIds.some(id => !active.has(id))) {
+      current = withRemainingListings(group, memberIds.filter(id => active.has(id)).map(id => active.get(id)!));
+      if (!current) {
+        await storage.deleteDuplicateGroup(group.id);
+        result.groupsRemoved++;
+        continue;
+      }
+      changed.add(group.id);
+    }
+    groups.set(group.id, current);
+    groupMemberIds(current).forEach(id => groupOf.set(id, group.id));
+  }
+
+  // Candidate pairs, with at least one listing scanned, compared within each place only
+  const byPlace = new Map<string, Fingerprint[]>();
+  active.forEach(business => {
+    const place = locationKey(business);
+    if (places.has(place)) byPlace.set(place, [...(byPlace.get(place) ?? []), printOf(business.id)]);
+  });
+  const pairs: { a: Fingerprint; b: Fingerprint; score: number }[] = [];
+  byPlace.forEach(prints => {
+    for (let i = 0; i < prints.length; i++) {
+      for (let j = i + 1; j < prints.length; j++) {
+        const [a, b] = [prints[i], prints[j]];
+        if (!inScope(a.business.id) && !inScope(b.business.id)) continue;
+        if (groupOf.has(a.business.id) && groupOf.has(b.business.id)) continue;
+        if (distinct.has(pairKey(a.business.id, b.business.id))) continue;
+        const { score } = compareListings(a, b);
+        if (score >= DUPLICATE_MIN_SCORE) pairs.push({ a, b, score });
+      }
+    }
+  });
+
+  // Strongest pairs first, so a listing joins the group it's most like
+  const now = new Date();
+  pairs.sort((x, y) => y.score - x.score);
+  for (const { a, b } of pairs) {
+    const [groupA, groupB] = [groupOf.get(a.business.id), groupOf.get(b.business.id)];
+    if (groupA && groupB) continue; // both grouped by an earlier pair; merging groups is left to admins
+    const groupId = groupA ?? groupB;
+
+    if (groupId) {
+      const group = groups.get(groupId)!;
+      const joining = groupA ? b : a;
+      if (!active.has(group.canonicalId)) continue; // its canonical listing is gone; the next scan including the group fixes it up
+      if (groupMemberIds(group).some(id => distinct.has(pairKey(id, joining.business.id)))) continue;
+      groups.set(groupId, {
+        ...group,
+        members: [...group.members, ...scoreMembers(printOf(group.canonicalId), [joining])],
+        status: 'pending'
+      });
+      groupOf.set(joining.business.id, groupId);
+      changed.add(groupId);
+      result.listingsGrouped++;
+    } else {
+      const canonical = printOf(pickCanonical([a.business, b.business]).id);
+      const group: DuplicateGroup = {
+        id: `dup-${randomUUID()}`,
+        canonicalId: canonical.business.id,
+        members: scoreMembers(canonical, [canonical === a ? b : a]),
+        status: 'pending',
+        detectedAt: now,
+        reviewedAt: null,
+        reviewedBy: null
+      };
+      groups.set(group.id, group);
+      groupOf.set(a.business.id, group.id);
+      groupOf.set(b.business.id, group.id);
+      changed.add(group.id);
+      result.groupsCreated++;
+      result.listingsGrouped += 2;
+    }
+  }
+
+  for (const id of Array.from(changed)) {
+    await storage.saveDuplicateGroup(groups.get(id)!);
+  }
+  return result;
+}
+
+// Takes deleted listings out of their groups, leaving every other group alone. Returns how many groups were removed.
+export async function removeFromDuplicateGroups(storage: IStorage, businessIds: string[]): Promise<number> {
+  const deleted = new Set(businessIds);
+  let removed = 0;
+  for (const group of await storage.getDuplicateGroups()) {
+    if (!groupMemberIds(group).some(id => deleted.has(id))) continue;
+    const remaining = withRemainingListings(group, (await groupListings(storage, group)).filter(listing => !deleted.has(listing.id)));
+    if (remaining) {
+      await storage.saveDuplicateGroup(remaining);
+    } else {
+      await storage.deleteDuplicateGroup(group.id);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+// Confirms the group as one business, optionally shown as another of its listings
+export async function confirmDuplicateGroup(storage: IStorage, group: DuplicateGroup, reviewerId: string, canonicalId = group.canonicalId): Promise<DuplicateGroup> {
+  const listings = await groupListings(storage, group);
+  const canonical = listings.find(listing => listing.id === canonicalId) ?? pickCanonical(listings);
+  const confirmed: DuplicateGroup = {
+    ...group,
+    canonicalId: canonical.id,
+    members: scoreMembers(fingerprint(canonical), listings.filter(listing => listing !== canonical).map(fingerprint)),
+    status: 'confirmed',
+    reviewedAt: new Date(),
+    reviewedBy: reviewerId
+  };
+  await storage.saveDuplicateGroup(confirmed);
+  return confirmed;
+}
+
+// Takes the listings out of the group and records each as distinct from every other listing in it. A group left with one
+// listing is removed (null); one whose canonical listing was split out is shown as its oldest remaining listing.
+export async function splitDuplicateGroup(storage: IStorage, group: DuplicateGroup, businessIds: string[], reviewerId: string): Promise<DuplicateGroup | null> {
+  const listings = await groupListings(storage, group);
+  const splitIds = new Set(businessIds);
+  const remaining = listings.filter(listing => !splitIds.has(listing.id));
+  const pairs = new Map<string, [string, string]>();
+  businessIds.forEach(id => listings.forEach(listing => {
+    if (listing.id !== id) pairs.set(pairKey(id, listing.id), id < listing.id ? [id, listing.id] : [listing.id, id]);
+  }));
+  await storage.addDistinctListingPairs(Array.from(pairs.values()), reviewerId);
+
+  const rest = withRemainingListings(group, remaining);
+  if (!rest) {
+    await storage.deleteDuplicateGroup(group.id);
+    return null;
+  }
+  const split: DuplicateGroup = { ...rest, reviewedAt: new Date(), reviewedBy: reviewerId };
+  await storage.saveDuplicateGroup(split);
+  return split;
+}
+
+// The group's listings that still exist, canonical first
+export async function groupListings(storage: IStorage, group: DuplicateGroup): Promise<Business[]> {
+  const listings: Business[] = [];
+  for (const id of groupMemberIds(group)) {
+    const listing = await storage.getBusinessById(id);
+    if (listing) listings.push(listing);
+  }
+  return listings;
+}
+
+export async function withGroupListings(storage: IStorage, group: DuplicateGroup): Promise<DuplicateGroupDetails> {
+  return { ...group, listings: await groupListings(storage, group) };
+}
+
+const sourceLink = ({ id, sourceSite, sourceUrl }: Business): ListingSourceLink => ({ businessId: id, sourceSite, sourceUrl });
+
+// The listings search shows: grouped duplicates are left out, and their group's canonical listing links to every source
+export function collapseDuplicates(businesses: Business[], groups: DuplicateGroup[]): Business[] {
+  if (groups.length === 0) return businesses;
+  const byId = new Map(businesses.map(business => [business.id, business]));
+  const hidden = new Set<string>();
+  const sources = new Map<string, ListingSourceLink[]>();
+  groups.forEach(group => {
+    const canonical = byId.get(group.canonicalId);
+    const members = group.members.map(member => byId.get(member.businessId)).filter((member): member is Business => !!member);
+    if (!canonical || members.length === 0) return;
+    members.forEach(member => hidden.add(member.id));
+    sources.set(canonical.id, [canonical, ...members].map(sourceLink));
+  });
+  return businesses
+    .filter(business => !hidden.has(business.id))
+    .map(business => (sources.has(business.id) ? { ...business, sources: sources.get(business.id) } : business));
+}
+
+// A listing with the sources of the duplicate group it is the canonical listing of, for the business details view
+export async function withListingSources(storage: IStorage, business: Business): Promise<Business> {
+  const group = (await storage.getDuplicateGroups()).find(candidate => candidate.canonicalId === business.id);
+  if (!group) return business;
+  const members = await groupListings(storage, group);
+  return members.length > 1 ? { ...business, sources: members.map(sourceLink) } : business;
+}
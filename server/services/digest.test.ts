@@ -0,0 +1,193 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Business, savedSearchInputSchema } from "../../shared/schema.js";
+import { demoUser } from "../data/demoBusinesses.js";
+import { DemoMemoryStorage } from "../storage/memoryStorage.js";
+import { testListing } from "../test/listings.js";
+import {
+  collectDigestItems,
+  DIGEST_SIZE,
+  isDigestDue,
+  renderDigest,
+  runDueDigests,
+  signUnsubscribeToken,
+  verifyUnsubscribeToken
+} from "./digest.js";
+import { withNormalizedLocation } from "./geo.js";
+import { getMailConfig } from "./mailConfig.js";
+import { MailTransport, MailTransportError, OutboxTransport } from "./mailTransport.js";
+
+describe("unsubscribe tokens", () => {
+  const secret = "test-signing-secret";
+
+  it("verify as the user they were signed for", () => {
+    expect(verifyUnsubscribeToken(signUnsubscribeToken("user-42", secret), secret)).toBe("user-42");
+  });
+
+  it("don't verify with another secret or for another user", () => {
+    const token = signUnsubscribeToken("user-42", secret);
+    expect(verifyUnsubscribeToken(token, "other-secret")).toBeNull();
+
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from("user-43").toString("base64url")}.${signature}`;
+    expect(verifyUnsubscribeToken(forged, secret)).toBeNull();
+  });
+
+  it("reject malformed tokens", () => {
+    const token = signUnsubscribeToken("user-42", secret);
+    expect(verifyUnsubscribeToken("", secret)).toBeNull();
+    expect(verifyUnsubscribeToken(token.split(".")[0], secret)).toBeNull();
+    expect(verifyUnsubscribeToken(`${token}.extra`, secret)).toBeNull();
+    expect(verifyUnsubscribeToken(token.slice(0, -4), secret)).toBeNull();
+  });
+});
+
+describe("isDigestDue", () => {
+  const now = new Date("2024-06-10T08:00:00Z");
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 3600000);
+
+  it("sends the first digest straight away, and none when off", () => {
+    expect(isDigestDue({ frequency: "daily", lastSentAt: null }, now)).toBe(true);
+    expect(isDigestDue({ frequency: "off", lastSentAt: null }, now)).toBe(false);
+  });
+
+  it("waits a period since the last one, give or take the scheduler's slack", () => {
+    expect(isDigestDue({ frequency: "daily", lastSentAt: hoursAgo(12) }, now)).toBe(false);
+    expect(isDigestDue({ frequency: "daily", lastSentAt: hoursAgo(23.9) }, now)).toBe(true);
+    expect(isDigestDue({ frequency: "weekly", lastSentAt: hoursAgo(48) }, now)).toBe(false);
+    expect(isDigestDue({ frequency: "weekly", lastSentAt: hoursAgo(24 * 7) }, now)).toBe(true);
+  });
+});
+
+describe("renderDigest", () => {
+  const business = (id: string, overrides: Partial<Business> = {}): Business => ({ ...withNormalizedLocation(testListing(id)), ...overrides });
+  const links = { appBaseUrl: "https://bizsearch.test", unsubscribeUrl: "https://bizsearch.test/api/digest/unsubscribe?token=abc" };
+
+  it("lists each listing with its score, price, matching searches and link", () => {
+    const digest = renderDigest({ username: "dana", frequency: "weekly" }, [
+      { business: business("listing-1", { aiScore: 88 }), matchedSearches: ["Coffee", "Portland"] },
+      { business: business("listing-2", { askingPrice: 1_250_000 }), matchedSearches: ["Coffee"] }
+    ], links);
+
+    expect(digest.subject).toBe("2 new listings matching your saved searches");
+    expect(digest.text).toContain("Hi dana,");
+    expect(digest.text).toContain("saved searches this week:");
+    expect(digest.text).toContain("1. Harbor Coffee Roasters (Score 88)");
+    expect(digest.text).toContain("Food & Beverage · Portland, OR · asking $640K · cash flow $210K");
+    expect(digest.text).toContain("Matches: Coffee, Portland");
+    expect(digest.text).toContain("2. Harbor Coffee Roasters (Not scored)");
+    expect(digest.text).toContain("asking $1.3M");
+    expect(digest.text).toContain("https://bizsearch.test/?business=listing-1");
+    expect(digest.text).toContain(`Unsubscribe: ${links.unsubscribeUrl}`);
+    expect(digest.html).toContain(`href="${links.unsubscribeUrl}"`);
+  });
+
+  it("escapes listing and user text in the HTML body", () => {
+    const digest = renderDigest({ username: "<b>dana</b>", frequency: "daily" }, [
+      { business: business("listing-1", { name: 'Tom & Jerry\'s "Deli" <script>' }), matchedSearches: ["<i>Delis</i>"] }
+    ], links);
+
+    expect(digest.subject).toBe("1 new listing matching your saved searches");
+    expect(digest.html).toContain("Tom &amp; Jerry&#39;s &quot;Deli&quot; &lt;script&gt;");
+    expect(digest.html).toContain("Hi &lt;b&gt;dana&lt;/b&gt;");
+    expect(digest.html).toContain("Matches &lt;i&gt;Delis&lt;/i&gt;");
+    expect(digest.html).not.toContain("<script>");
+  });
+});
+
+describe("collectDigestItems", () => {
+  it("merges listings matching several searches, best score first, up to the digest size", async () => {
+    const storage = new DemoMemoryStorage();
+    const since = new Date(Date.now() - 60_000);
+    await storage.createSavedSearch(demoUser.id, savedSearchInputSchema.parse({ name: "Everything" }));
+    await storage.createSavedSearch(demoUser.id, savedSearchInputSchema.parse({ name: "Tech", filters: { industries: "Technology" } }));
+
+    const items = await collectDigestItems(storage, demoUser.id, since);
+
+    expect(items).toHaveLength(DIGEST_SIZE);
+    const scores = items.map(item => item.business.aiScore ?? -1);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    items.forEach(item => expect(item.matchedSearches).toEqual(
+      item.business.industry === "Technology" ? ["Tech", "Everything"] : ["Everything"]
+    ));
+  });
+
+  it("leaves out listings not updated since the last digest", async () => {
+    const storage = new DemoMemoryStorage();
+    await storage.createSavedSearch(demoUser.id, savedSearchInputSchema.parse({ name: "Everything" }));
+    const since = new Date(Date.now() + 1000);
+    await storage.upsertBusinesses([testListing("digest-new", { updatedAt: new Date(since.getTime() + 1000) })]);
+
+    const items = await collectDigestItems(storage, demoUser.id, since);
+
+    expect(items.map(item => item.business.id)).toEqual(["digest-new"]);
+  });
+});
+
+describe("runDueDigests", () => {
+  const outbox = path.join(os.tmpdir(), `bizsearch-digests-${process.pid}`);
+  const config = getMailConfig({ APP_BASE_URL: "https://bizsearch.test", DIGEST_SIGNING_SECRET: "test-signing-secret" });
+  const hoursAfter = (date: Date, hours: number) => new Date(date.getTime() + hours * 3600000);
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.promises.rm(outbox, { recursive: true, force: true });
+  });
+
+  // The demo user on a daily digest last sent at `lastSentAt`, with one new listing matching a saved search
+  async function subscribedStorage(lastSentAt: Date) {
+    const storage = new DemoMemoryStorage();
+    await storage.updateDigestSettings(demoUser.id, "daily");
+    await storage.recordDigestSent(demoUser.id, lastSentAt);
+    await storage.createSavedSearch(demoUser.id, savedSearchInputSchema.parse({ name: "Coffee", filters: { query: "coffee" } }));
+    await storage.upsertBusinesses([testListing("digest-coffee", { updatedAt: hoursAfter(lastSentAt, 1) })]);
+    return storage;
+  }
+
+  it("mails a due digest and moves its window on", async () => {
+    const lastSentAt = new Date(Date.now() + 1000);
+    const storage = await subscribedStorage(lastSentAt);
+    const now = hoursAfter(lastSentAt, 24);
+
+    expect(await runDueDigests(storage, new OutboxTransport(outbox), config, now)).toEqual({ sent: 1, empty: 0, failed: 0 });
+
+    const [file] = await fs.promises.readdir(outbox);
+    const raw = await fs.promises.readFile(path.join(outbox, file), "utf8");
+    expect(raw).toContain("To: demo@bizsearch.com\r\n");
+    expect(raw).toContain("Subject: 1 new listing matching your saved searches\r\n");
+    expect(raw).toContain(`List-Unsubscribe: <https://bizsearch.test/api/digest/unsubscribe?token=${signUnsubscribeToken(demoUser.id, "test-signing-secret")}>`);
+    expect((await storage.getDigestSettings(demoUser.id)).lastSentAt).toEqual(now);
+    expect(await runDueDigests(storage, new OutboxTransport(outbox), config, hoursAfter(now, 1))).toEqual({ sent: 0, empty: 0, failed: 0 });
+  });
+
+  it("keeps the digest due when delivery fails", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const lastSentAt = new Date(Date.now() + 1000);
+    const storage = await subscribedStorage(lastSentAt);
+    const failing: MailTransport = {
+      name: "failing",
+      send: async () => {
+        throw new MailTransportError("SMTP server replied 451 to DATA: try again later", 451);
+      }
+    };
+
+    expect(await runDueDigests(storage, failing, config, hoursAfter(lastSentAt, 24))).toEqual({ sent: 0, empty: 0, failed: 1 });
+    expect(error).toHaveBeenCalledWith(`Digest for user ${demoUser.id} failed:`, expect.any(MailTransportError));
+    expect((await storage.getDigestSettings(demoUser.id)).lastSentAt).toEqual(lastSentAt);
+
+    expect(await runDueDigests(storage, new OutboxTransport(outbox), config, hoursAfter(lastSentAt, 25))).toEqual({ sent: 1, empty: 0, failed: 0 });
+  });
+
+  it("sends nothing when nothing new matched, but still moves the window on", async () => {
+    const lastSentAt = new Date(Date.now() + 1000);
+    const storage = await subscribedStorage(lastSentAt);
+    await storage.deleteBusinesses(["digest-coffee"]);
+    const now = hoursAfter(lastSentAt, 24);
+
+    expect(await runDueDigests(storage, new OutboxTransport(outbox), config, now)).toEqual({ sent: 0, empty: 1, failed: 0 });
+    expect(fs.existsSync(outbox)).toBe(false);
+    expect((await storage.getDigestSettings(demoUser.id)).lastSentAt).toEqual(now);
+  });
+});
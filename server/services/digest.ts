@@ -0,0 +1,246 @@
+// Email digests: on each user's daily or weekly schedule, the top listings added or updated since their last digest
+// that match any of their saved searches are mailed as HTML and plain text, with a signed one-click unsubscribe link
+import { createHmac, timingSafeEqual } from "crypto";
+import { Business, DigestFrequency } from "../../shared/schema.js";
+import { IStorage, DigestSubscriber } from "../storage/IStorage.js";
+import { MailConfig } from "./mailConfig.js";
+import { MailMessage, MailTransport } from "./mailTransport.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DIGEST_PERIOD_MS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS
+};
+
+// An hourly check shouldn't push a digest sent at 09:00:05 yesterday to 10:00 today
+const SCHEDULE_SLACK_MS = HOUR_MS;
+
+export const DIGEST_SIZE = 10;
+
+export interface DigestItem {
+  business: Business;
+  // Names of the saved searches the listing matched
+  matchedSearches: string[];
+}
+
+export interface DigestRunResult {
+  sent: number;
+  // Due, but nothing new matched
+  empty: number;
+  failed: number;
+}
+
+// Unsubscribe tokens - the user ID and an HMAC of it, so links work without signing in and can't be forged for others
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+const unsubscribeSignature = (userId: string, secret: string) =>
+  createHmac('sha256', secret).update(`digest-unsubscribe:${userId}`).digest();
+
+export function signUnsubscribeToken(userId: string, secret: string): string {
+  return `${base64url(userId)}.${base64url(unsubscribeSignature(userId, secret))}`;
+}
+
+// The user ID the token was signed for, or null if it's malformed or the signature doesn't match
+export function verifyUnsubscribeToken(token: string, secret: string): string | null {
+  const [encodedUserId, encodedSignature, extra] = token.split('.');
+  if (!encodedUserId || !encodedSignature || extra !== undefined) return null;
+
+  const userId = Buffer.from(encodedUserId, 'base64url').toString('utf8');
+  const expected = unsubscribeSignature(userId, secret);
+  const actual = Buffer.from(encodedSignature, 'base64url');
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? userId : null;
+}
+
+export function isDigestDue(subscriber: Pick<DigestSubscriber, 'frequency' | 'lastSentAt'>, now: Date): boolean {
+  if (subscriber.frequency === 'off') return false;
+  if (!subscriber.lastSentAt) return true;
+  return now.getTime() - subscriber.lastSentAt.getTime() >= DIGEST_PERIOD_MS[subscriber.frequency] - SCHEDULE_SLACK_MS;
+}
+
+// Best-scoring first; listings the user has no score for go last, newest first
+export async function collectDigestItems(storage: IStorage, userId: string, since: Date): Promise<DigestItem[]> {
+  const items = new Map<string, DigestItem>();
+  for (const search of await storage.getSavedSearches(userId)) {
+    const { businesses } = await storage.searchBusinesses(search.filters, userId);
+    businesses
+      .filter(business => business.updatedAt.getTime() > since.getTime())
+      .forEach(business => {
+        const item = items.get(business.id) ?? { business, matchedSearches: [] };
+        item.matchedSearches.push(search.name);
+        items.set(business.id, item);
+      });
+  }
+
+  return Array.from(items.values())
+    .sort((a, b) =>
+      (b.business.aiScore ?? -1) - (a.business.aiScore ?? -1) ||
+      b.business.updatedAt.getTime() - a.business.updatedAt.getTime())
+    .slice(0, DIGEST_SIZE);
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatPrice = (amount: number) =>
+  amount >= 1_000_000 ? `$${(amount / 1_000_000).toFixed(1)}M` : `$${Math.round(amount / 1000)}K`;
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export function renderDigest(
+  subscriber: Pick<DigestSubscriber, 'username' | 'frequency'>,
+  items: DigestItem[],
+  links: { appBaseUrl: string; unsubscribeUrl: string }
+): RenderedDigest {
+  const period = subscriber.frequency === 'weekly' ? 'this week' : 'today';
+  const subject = `${items.length} new listing${items.length === 1 ? '' : 's'} matching your saved searches`;
+  const listingUrl = (business: Business) => `${links.appBaseUrl}/?business=${encodeURIComponent(business.id)}`;
+  const summary = (business: Business) => [
+    business.industry,
+    business.location,
+    `asking ${formatPrice(business.askingPrice)}`,
+    `cash flow ${formatPrice(business.cashFlow)}`
+  ].join(' · ');
+  const scoreLabel = (business: Business) => business.aiScore !== undefined ? `Score ${business.aiScore}` : 'Not scored';
+
+  const text = [
+    `Hi ${subscriber.username},`,
+    '',
+    `Here are the top new and updated listings matching your saved searches ${period}:`,
+    '',
+    ...items.flatMap((item, index) => [
+      `${index + 1}. ${item.business.name} (${scoreLabel(item.business)})`,
+      `   ${summary(item.business)}`,
+      `   Matches: ${item.matchedSearches.join(', ')}`,
+      `   ${listingUrl(item.business)}`,
+      ''
+    ]),
+    `Change how often you get this email on ${links.appBaseUrl}/`,
+    `Unsubscribe: ${links.unsubscribeUrl}`,
+    ''
+  ].join('\n');
+
+  const rows = items.map(item => `
+        <tr>
+          <td style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+            <a href="${escapeHtml(listingUrl(item.business))}" style="color:#1d4ed8;font-size:16px;font-weight:600;text-decoration:none;">${escapeHtml(item.business.name)}</a>
+            <div style="color:#374151;font-size:14px;margin-top:4px;">${escapeHtml(summary(item.business))}</div>
+            <div style="color:#6b7280;font-size:12px;margin-top:4px;">Matches ${escapeHtml(item.matchedSearches.join(', '))}</div>
+          </td>
+          <td style="padding:12px 0 12px 16px;border-bottom:1px solid #e5e7eb;text-align:right;vertical-align:top;white-space:nowrap;color:#111827;font-size:14px;font-weight:600;">${escapeHtml(scoreLabel(item.business))}</td>
+        </tr>`).join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h1 style="margin:0 0 8px;font-size:20px;color:#111827;">${escapeHtml(subject)}</h1>
+      <p style="margin:0 0 16px;color:#374151;font-size:14px;">Hi ${escapeHtml(subscriber.username)}, here are the top new and updated listings matching your saved searches ${period}.</p>
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}
+      </table>
+      <p style="margin:24px 0 0;color:#6b7280;font-size:12px;">
+        You get this ${escapeHtml(subscriber.frequency)} digest because you turned it on in <a href="${escapeHtml(links.appBaseUrl)}/" style="color:#6b7280;">BizSearch</a>.
+        <a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#6b7280;">Unsubscribe</a>
+      </p>
+    </div>
+  </body>
+</html>
+`;
+
+  return { subject, text, html };
+}
+
+export function buildDigestMessage(subscriber: DigestSubscriber, items: DigestItem[], config: MailConfig): MailMessage {
+  const unsubscribeUrl = `${config.appBaseUrl}/api/digest/unsubscribe?token=${signUnsubscribeToken(subscriber.userId, config.signingSecret)}`;
+  const rendered = renderDigest(subscriber, items, { appBaseUrl: config.appBaseUrl, unsubscribeUrl });
+  return {
+    from: config.from,
+    to: subscriber.email,
+    ...rendered,
+    // One-click unsubscribe from the mail client (RFC 8058)
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    }
+  };
+}
+
+// Sends every digest that is due. A user with nothing new gets no email, but their window still moves on;
+// a failed send is logged and retried on the next run.
+export async function runDueDigests(storage: IStorage, transport: MailTransport, config: MailConfig, now: Date = new Date()): Promise<DigestRunResult> {
+  const result: DigestRunResult = { sent: 0, empty: 0, failed: 0 };
+
+  for (const subscriber of await storage.getDigestSubscribers()) {
+    if (subscriber.frequency === 'off' || !isDigestDue(subscriber, now)) continue;
+
+    const since = subscriber.lastSentAt ?? new Date(now.getTime() - DIGEST_PERIOD_MS[subscriber.frequency]);
+    try {
+      const items = await collectDigestItems(storage, subscriber.userId, since);
+      if (items.length === 0) {
+        result.empty++;
+      } else {
+        await transport.send(buildDigestMessage(subscriber, items, config));
+        result.sent++;
+      }
+      await storage.recordDigestSent(subscriber.userId, now);
+    } catch (error) {
+      result.failed++;
+      console.error(`Digest for user ${subscriber.userId} failed:`, error);
+    }
+  }
+  return result;
+}
+
+// Checks for due digests every interval; returns a function that stops it
+export function startDigestScheduler(storage: IStorage, transport: MailTransport, config: MailConfig, intervalMs: number = HOUR_MS): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) return; // a slow SMTP server shouldn't stack runs
+    running = true;
+    try {
+      const { sent, failed } = await runDueDigests(storage, transport, config);
+      if (sent > 0 || failed > 0) console.log(`Digests: ${sent} sent, ${failed} failed`);
+    } catch (error) {
+      console.error('Digest run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+// Page behind the unsubscribe link. Following the link only asks for confirmation, so mail scanners that
+// prefetch links don't unsubscribe anyone; the button (or a one-click POST from the mail client) does it.
+export function renderUnsubscribePage(state: 'confirm' | 'done' | 'invalid', token: string, appBaseUrl: string): string {
+  const content = {
+    confirm: `<h1 style="font-size:20px;">Unsubscribe from listing digests?</h1>
+      <p>You'll stop getting emails about new listings matching your saved searches. Your saved searches and in-app alerts stay as they are.</p>
+      <form method="post" action="/api/digest/unsubscribe?token=${escapeHtml(encodeURIComponent(token))}">
+        <button type="submit" style="padding:8px 16px;font-size:14px;cursor:pointer;">Unsubscribe</button>
+      </form>`,
+    done: `<h1 style="font-size:20px;">You're unsubscribed</h1>
+      <p>You won't get listing digests any more. You can turn them back on from your saved searches in <a href="${escapeHtml(appBaseUrl)}/">BizSearch</a>.</p>`,
+    invalid: `<h1 style="font-size:20px;">This unsubscribe link isn't valid</h1>
+      <p>It may have been copied incompletely. You can turn digests off from your saved searches in <a href="${escapeHtml(appBaseUrl)}/">BizSearch</a>.</p>`
+  }[state];
+
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>BizSearch digests</title></head>
+  <body style="font-family:Arial,Helvetica,sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#111827;">
+    ${content}
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { parseNonNegativeInt, parsePositiveInt } from "./envConfig.js";
+
+describe("env integer parsing", () => {
+  it("takes the fallback for an unset or empty variable", () => {
+    expect(parsePositiveInt(undefined, 15000, "TIMEOUT_MS")).toBe(15000);
+    expect(parseNonNegativeInt("", 2, "MAX_RETRIES")).toBe(2);
+  });
+
+  it("accepts zero only where it means none", () => {
+    expect(parseNonNegativeInt("0", 2, "MAX_RETRIES")).toBe(0);
+    expect(() => parsePositiveInt("0", 4, "CONCURRENCY")).toThrow('CONCURRENCY must be a positive integer (got "0")');
+  });
+
+  it("rejects fractions, negatives and words", () => {
+    expect(() => parsePositiveInt("1.5", 4, "CONCURRENCY")).toThrow(/positive integer/);
+    expect(() => parseNonNegativeInt("-1", 2, "MAX_RETRIES")).toThrow('MAX_RETRIES must be a non-negative integer (got "-1")');
+    expect(() => parseNonNegativeInt("ten", 0, "INTERVAL_MINUTES")).toThrow(/non-negative integer/);
+  });
+});
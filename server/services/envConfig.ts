@@ -0,0 +1,20 @@
+// Environment variable parsing shared by the config modules - an unset or empty variable takes the fallback,
+// anything else must parse or boot fails naming the variable
+function parseInteger(value: string | undefined, fallback: number, name: string, min: number, expected: string): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be ${expected} (got "${value}")`);
+  }
+  return parsed;
+}
+
+// Counts and durations that can't be zero - timeouts, concurrency, page limits
+export function parsePositiveInt(value: string | undefined, fallback: number, name: string): number {
+  return parseInteger(value, fallback, name, 1, 'a positive integer');
+}
+
+// Settings where 0 means "none" or "off" - retries, schedule intervals
+export function parseNonNegativeInt(value: string | undefined, fallback: number, name: string): number {
+  return parseInteger(value, fallback, name, 0, 'a non-negative integer');
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { testListing } from "../test/listings.js";
+import { businessDistance, distanceMiles, normalizeLocation, resolvePlace, searchPlaces, withNormalizedLocation } from "./geo.js";
+
+describe("normalizeLocation", () => {
+  it("places a city with its state written either way", () => {
+    expect(normalizeLocation("Austin, TX")).toEqual({ city: "Austin", state: "TX", lat: 30.2672, lng: -97.7431 });
+    expect(normalizeLocation("austin texas 78701")).toMatchObject({ city: "Austin", state: "TX" });
+    expect(normalizeLocation("Saint Louis, Missouri")).toMatchObject({ city: "St. Louis", state: "MO" });
+  });
+
+  it("keeps a state on its own, and an unknown city as written, without coordinates", () => {
+    expect(normalizeLocation("California")).toEqual({ city: "", state: "CA", lat: null, lng: null });
+    expect(normalizeLocation("Smallville, KS")).toEqual({ city: "Smallville", state: "KS", lat: null, lng: null });
+    expect(normalizeLocation("Remote")).toEqual({ city: "Remote", state: "", lat: null, lng: null });
+  });
+});
+
+describe("resolvePlace", () => {
+  it("resolves gazetteer cities, aliases and coordinates", () => {
+    expect(resolvePlace("Portland, OR")).toEqual({ lat: 45.5152, lng: -122.6784 });
+    expect(resolvePlace("NYC")).toEqual(resolvePlace("New York, NY"));
+    expect(resolvePlace(" 30.5, -97.7 ")).toEqual({ lat: 30.5, lng: -97.7 });
+  });
+
+  it("can't place unknown or ambiguous places, or coordinates off the globe", () => {
+    expect(resolvePlace("Smallville, KS")).toBeUndefined();
+    expect(resolvePlace("Atlantis")).toBeUndefined();
+    // There's more than one Springfield in the gazetteer
+    expect(resolvePlace("Springfield")).toBeUndefined();
+    expect(resolvePlace("Springfield, MO")).toBeDefined();
+    expect(resolvePlace("91, 10")).toBeUndefined();
+    expect(resolvePlace("45, 181")).toBeUndefined();
+  });
+});
+
+describe("distances", () => {
+  const austin = resolvePlace("Austin, TX")!;
+
+  it("measures great-circle distances in miles", () => {
+    expect(distanceMiles(austin, austin)).toBe(0);
+    expect(distanceMiles(austin, resolvePlace("Dallas, TX")!)).toBeCloseTo(182, 0);
+  });
+
+  it("rounds a listing's distance to a tenth of a mile, and has none without coordinates", () => {
+    const roundRock = withNormalizedLocation(testListing("round-rock", { location: "Round Rock, TX" }));
+    const unplaced = withNormalizedLocation(testListing("unplaced", { location: "Smallville, KS" }));
+
+    const distance = businessDistance(roundRock, austin)!;
+    expect(distance).toBeCloseTo(17.1, 0);
+    expect(distance * 10).toBe(Math.round(distance * 10));
+    expect(businessDistance(unplaced, austin)).toBeUndefined();
+  });
+});
+
+describe("searchPlaces", () => {
+  it("matches the start of a city name or its label, up to the limit", () => {
+    expect(searchPlaces("port", 10).map(place => place.label)).toEqual(expect.arrayContaining(["Portland, ME", "Portland, OR"]));
+    expect(searchPlaces("portland, o", 10).map(place => place.label)).toEqual(["Portland, OR"]);
+    expect(searchPlaces("s", 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,113 @@
+// Location normalization and distances against the bundled gazetteer (server/data/usCities.ts)
+import { Business, GeoPlace } from "../../shared/schema.js";
+import { cityAliases, usCities, usStates } from "../data/usCities.js";
+
+export interface NormalizedLocation {
+  city: string;
+  state: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+// Lower case, no periods or extra spaces, "Saint" spelled "St" - so "St. Louis" and "saint louis" agree
+const placeKey = (text: string) =>
+  text.toLowerCase().replace(/\./g, '').replace(/\bsaint\b/g, 'st').replace(/\s+/g, ' ').trim();
+
+const stateCodes = new Map<string, string>();
+Object.entries(usStates).forEach(([code, name]) => {
+  stateCodes.set(placeKey(code), code);
+  stateCodes.set(placeKey(name), code);
+});
+
+// "city|ST" -> place, and city -> every place of that name
+const placesByCityState = new Map(usCities.map(place => [`${placeKey(place.city)}|${place.state}`, place]));
+const placesByCity = new Map<string, GeoPlace[]>();
+usCities.forEach(place => {
+  const key = placeKey(place.city);
+  placesByCity.set(key, [...(placesByCity.get(key) || []), place]);
+});
+
+function stateCode(text: string): string | undefined {
+  // Drop a trailing ZIP code: "TX 78701"
+  return stateCodes.get(placeKey(text.replace(/\s+\d{5}(-\d{4})?$/, '')));
+}
+
+function lookupPlace(city: string, state?: string): GeoPlace | undefined {
+  const key = placeKey(city);
+  const alias = cityAliases[key];
+  if (alias) return lookupPlace(...splitLocation(alias));
+  if (state) return placesByCityState.get(`${key}|${state}`);
+  // A bare city name only resolves when the gazetteer has one city by that name
+  const places = placesByCity.get(key);
+  return places?.length === 1 ? places[0] : undefined;
+}
+
+function splitLocation(text: string): [string, string | undefined] {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length >= 2) {
+    return [parts.slice(0, -1).join(', '), stateCode(parts[parts.length - 1])];
+  }
+
+  // "Austin TX", "Salt Lake City Utah": try the last one or two words as the state
+  const words = text.trim().split(/\s+/);
+  for (const stateWords of [2, 1]) {
+    if (words.length <= stateWords) continue;
+    const state = stateCode(words.slice(-stateWords).join(' '));
+    if (state) return [words.slice(0, -stateWords).join(' '), state];
+  }
+  return [text.trim(), undefined];
+}
+
+// Free-text location -> city, state code and coordinates; unknown places keep the city as written, with no coordinates
+export function normalizeLocation(location: string): NormalizedLocation {
+  const state = stateCode(location);
+  if (state) return { city: '', state, lat: null, lng: null };
+
+  const [city, parsedState] = splitLocation(location);
+  const place = lookupPlace(city, parsedState);
+  return place
+    ? { city: place.city, state: place.state, lat: place.lat, lng: place.lng }
+    : { city, state: parsedState || '', lat: null, lng: null };
+}
+
+// Listings carry their location as listed; everything else is derived from it
+export function withNormalizedLocation<T extends { location: string }>(listing: T): T & NormalizedLocation {
+  return { ...listing, ...normalizeLocation(listing.location) };
+}
+
+// The centre point of a radius search: a gazetteer city or "lat,lng"; undefined when it can't be placed
+export function resolvePlace(text: string): { lat: number; lng: number } | undefined {
+  const coordinates = text.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (coordinates) {
+    const [lat, lng] = [Number(coordinates[1]), Number(coordinates[2])];
+    return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : undefined;
+  }
+  // Looked up as a city first, so "New York" means the city rather than the state
+  const place = lookupPlace(...splitLocation(text));
+  return place ? { lat: place.lat, lng: place.lng } : undefined;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance
+export function distanceMiles(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+// Listing distance from a point to the nearest tenth of a mile, or undefined when the listing's location has no coordinates
+export function businessDistance(business: Business, from: { lat: number; lng: number }): number | undefined {
+  if (business.lat === null || business.lng === null) return undefined;
+  return Math.round(distanceMiles(from, { lat: business.lat, lng: business.lng }) * 10) / 10;
+}
+
+// Gazetteer cities whose name (or "City, ST" label) starts with the text, for the location picker
+export function searchPlaces(text: string, limit: number): GeoPlace[] {
+  const key = placeKey(text);
+  return usCities
+    .filter(place => placeKey(place.city).startsWith(key) || placeKey(place.label).startsWith(key))
+    .slice(0, limit);
+}
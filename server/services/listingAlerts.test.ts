@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { notificationsQuerySchema, savedSearchInputSchema, UserPreferences } from "../../shared/schema.js";
+import { demoUser } from "../data/demoBusinesses.js";
+import { storageDrivers, TestStorage } from "../test/storageDrivers.js";
+import { testListing } from "../test/listings.js";
+import { notifySavedSearchMatches } from "./listingAlerts.js";
+
+describe.each(storageDrivers)("$name saved search alerts", ({ open }) => {
+  let store: TestStorage;
+  beforeAll(() => {
+    store = open();
+  });
+  afterAll(() => store.close());
+
+  // Each test gets a user and listings of its own, and looks only at that user's notifications - other users'
+  // searches, from earlier tests or Postgres runs, may match the same listings
+  const setup = async () => {
+    const suffix = crypto.randomUUID().slice(0, 8);
+    const user = await store.storage.createUser({ username: `alerts_${suffix}`, email: `alerts-${suffix}@example.com`, passwordHash: "hash" });
+    await store.storage.updateUserPreferences(user.id, demoUser.preferences as UserPreferences);
+    const coffee = testListing(`alerts-coffee-${suffix}`);
+    const gym = testListing(`alerts-gym-${suffix}`, { name: "Ironworks Fitness", description: "Strength gym with personal training", industry: "Health & Fitness" });
+    await store.storage.upsertBusinesses([coffee, gym]);
+    const notified = async () =>
+      (await store.storage.getNotifications(user.id, notificationsQuerySchema.parse({}))).map(notification => [notification.savedSearchName, notification.businessId]);
+    return { userId: user.id, coffee, gym, notified };
+  };
+  const saveSearch = (userId: string, input: unknown) => store.storage.createSavedSearch(userId, savedSearchInputSchema.parse(input));
+
+  it("notifies only the changed listings each search's filters match", async () => {
+    const { userId, coffee, gym, notified } = await setup();
+    await saveSearch(userId, { name: "Coffee", filters: { query: "coffee roaster" }, alertMinScore: 0 });
+    await saveSearch(userId, { name: "Fitness", filters: { industries: "Health & Fitness" }, alertMinScore: 0 });
+    await saveSearch(userId, { name: "Cheap", filters: { maxPrice: 100000 }, alertMinScore: 0 });
+
+    await notifySavedSearchMatches(store.storage, [coffee, gym]);
+
+    expect((await notified()).sort()).toEqual([["Coffee", coffee.id], ["Fitness", gym.id]]);
+  });
+
+  it("holds back listings scoring under the search's threshold", async () => {
+    const { userId, coffee, notified } = await setup();
+    const { score } = (await store.storage.getBusinessScore(userId, coffee.id))!;
+    await saveSearch(userId, { name: "At threshold", filters: { query: "coffee" }, alertMinScore: score });
+    await saveSearch(userId, { name: "Above threshold", filters: { query: "coffee" }, alertMinScore: score + 1 });
+    await saveSearch(userId, { name: "Alerts off", filters: { query: "coffee" }, alertMinScore: null });
+
+    await notifySavedSearchMatches(store.storage, [coffee]);
+
+    expect(await notified()).toEqual([["At threshold", coffee.id]]);
+    const [notification] = await store.storage.getNotifications(userId, notificationsQuerySchema.parse({}));
+    expect(notification.score).toBe(score);
+  });
+
+  it("doesn't notify a listing twice for the same search", async () => {
+    const { userId, coffee, notified } = await setup();
+    await saveSearch(userId, { name: "Coffee", filters: { query: "coffee" }, alertMinScore: 0 });
+
+    await notifySavedSearchMatches(store.storage, [coffee]);
+    await store.storage.upsertBusinesses([{ ...coffee, askingPrice: 600000 }]);
+    await notifySavedSearchMatches(store.storage, [{ ...coffee, askingPrice: 600000 }]);
+
+    expect(await notified()).toEqual([["Coffee", coffee.id]]);
+  });
+
+  it("leaves out listings grouped as another listing's duplicate", async () => {
+    const { userId, coffee, gym, notified } = await setup();
+    await saveSearch(userId, { name: "Everything", alertMinScore: 0 });
+    await store.storage.saveDuplicateGroup({
+      id: `alerts-group-${coffee.id}`,
+      canonicalId: gym.id,
+      members: [{ businessId: coffee.id, score: 0.95, reasons: [] }],
+      status: "confirmed",
+      detectedAt: new Date(),
+      reviewedAt: null,
+      reviewedBy: null
+    });
+
+    await notifySavedSearchMatches(store.storage, [coffee, gym]);
+
+    expect(await notified()).toEqual([["Everything", gym.id]]);
+  });
+});
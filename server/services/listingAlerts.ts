@@ -0,0 +1,49 @@
+// Saved-search alerts: when listings are added or updated, the changed listings are matched against every saved search
+// with alerts on, and those scoring at or above the search's threshold for its owner raise a notification
+import { BusinessListing, BusinessScore } from "../../shared/schema.js";
+import { IStorage, NotificationInsert } from "../storage/IStorage.js";
+import { filterBusinesses } from "./businessSearch.js";
+import { withNormalizedLocation } from "./geo.js";
+import { SearchIndex } from "./searchIndex.js";
+
+// Returns how many notifications were raised; a listing already notified for a saved search isn't notified again.
+// Only the changed listings are filtered, in memory, rather than re-running each search over the whole corpus -
+// so a query term that none of them contains may match them through a close spelling the full search wouldn't try.
+export async function notifySavedSearchMatches(storage: IStorage, listings: BusinessListing[]): Promise<number> {
+  if (listings.length === 0) return 0;
+  const searches = await storage.getAlertingSavedSearches();
+  if (searches.length === 0) return 0;
+
+  // Grouped duplicates are left out of search results, so they don't alert either
+  const grouped = new Set((await storage.getDuplicateGroups()).flatMap(group => group.members.map(member => member.businessId)));
+  const changed = listings.filter(listing => !grouped.has(listing.id)).map(withNormalizedLocation);
+  const index = new SearchIndex(changed);
+
+  // Scored against the owner's preferences; without preferences there is no score, so only a 0 threshold matches
+  const scores = new Map<string, BusinessScore | null>();
+  const scoreFor = async (userId: string, businessId: string) => {
+    const key = `${userId}:${businessId}`;
+    if (!scores.has(key)) scores.set(key, await storage.getBusinessScore(userId, businessId));
+    return scores.get(key) ?? null;
+  };
+
+  const pending: NotificationInsert[] = [];
+  for (const search of searches) {
+    const minScore = search.alertMinScore;
+    if (minScore === null) continue;
+
+    for (const business of filterBusinesses(changed, search.filters, index.search(search.filters.query))) {
+      const score = (await scoreFor(search.userId, business.id))?.score ?? null;
+      if ((score ?? 0) < minScore) continue;
+      pending.push({
+        userId: search.userId,
+        savedSearchId: search.id,
+        savedSearchName: search.name,
+        businessId: business.id,
+        businessName: business.name,
+        score
+      });
+    }
+  }
+  return storage.addNotifications(pending);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { Business, ListingChange } from "../../shared/schema.js";
+import { IStorage } from "../storage/IStorage.js";
+import { testListing } from "../test/listings.js";
+import { diffListing, diffListings, withPriceReductions } from "./listingHistory.js";
+
+const changedAt = new Date("2024-06-01T00:00:00Z");
+const listing = testListing("roaster");
+const stored = (overrides: Parameters<typeof testListing>[1] = {}): Business =>
+  ({ ...testListing("roaster", overrides), city: "Portland", state: "OR", lat: null, lng: null });
+
+describe("diffListing", () => {
+  it("records each tracked field that changed, old value and new", () => {
+    expect(diffListing(listing, { ...listing, askingPrice: 600000, isActive: false, employees: 12 }, changedAt)).toEqual([
+      { businessId: "roaster", field: "askingPrice", previousValue: 640000, newValue: 600000, changedAt },
+      { businessId: "roaster", field: "isActive", previousValue: true, newValue: false, changedAt }
+    ]);
+  });
+
+  it("ignores whitespace around descriptions", () => {
+    expect(diffListing(listing, { ...listing, description: `  ${listing.description}\n` }, changedAt)).toEqual([]);
+  });
+});
+
+describe("diffListings", () => {
+  it("has nothing for listings that weren't stored before", () => {
+    const changes = diffListings(new Map([["roaster", stored({ cashFlow: 200000 })]]), [listing, testListing("new-listing")], changedAt);
+    expect(changes.map(change => [change.businessId, change.field])).toEqual([["roaster", "cashFlow"]]);
+  });
+});
+
+describe("withPriceReductions", () => {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 86400000);
+  const priceChange = (businessId: string, previousValue: number, newValue: number, changed: Date): ListingChange =>
+    ({ id: `change-${businessId}`, businessId, field: "askingPrice", previousValue, newValue, changedAt: changed });
+  const storageWith = (changes: ListingChange[]) =>
+    ({ getLatestListingChanges: async (ids: string[]) => changes.filter(change => ids.includes(change.businessId)) }) as unknown as IStorage;
+
+  it("marks listings whose latest price change was a recent cut", async () => {
+    const listings = ["cut", "raised", "old-cut", "unchanged"].map(id => ({ ...stored(), id }));
+    const marked = await withPriceReductions(storageWith([
+      priceChange("cut", 700000, 640000, daysAgo(3)),
+      priceChange("raised", 600000, 640000, daysAgo(3)),
+      priceChange("old-cut", 700000, 640000, daysAgo(120))
+    ]), listings);
+
+    expect(marked.map(business => business.priceReducedFrom)).toEqual([700000, undefined, undefined, undefined]);
+  });
+});
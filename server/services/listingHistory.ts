@@ -0,0 +1,44 @@
+// Listing history: as listings are upserted, each one is compared with the version stored before it and changes to the
+// tracked fields (price, financials, status, description) are kept as a timeline
+import { Business, BusinessListing, ListingChangeValue, PRICE_REDUCED_DAYS, trackedListingFields } from "../../shared/schema.js";
+import { IStorage, ListingChangeInsert } from "../storage/IStorage.js";
+
+const sameValue = (a: ListingChangeValue, b: ListingChangeValue) =>
+  typeof a === 'string' && typeof b === 'string' ? a.trim() === b.trim() : a === b;
+
+// The tracked fields that differ between the stored listing and its new version
+export function diffListing(previous: BusinessListing, next: BusinessListing, changedAt: Date): ListingChangeInsert[] {
+  return trackedListingFields
+    .filter(field => !sameValue(previous[field], next[field]))
+    .map(field => ({ businessId: next.id, field, previousValue: previous[field], newValue: next[field], changedAt }));
+}
+
+// The stored versions of the listings about to be upserted; new listings have none
+export async function storedVersions(storage: IStorage, listings: BusinessListing[]): Promise<Map<string, Business>> {
+  const stored = new Map<string, Business>();
+  for (const listing of listings) {
+    const existing = await storage.getBusinessById(listing.id);
+    if (existing) stored.set(listing.id, existing);
+  }
+  return stored;
+}
+
+export function diffListings(stored: Map<string, Business>, listings: BusinessListing[], changedAt: Date): ListingChangeInsert[] {
+  return listings.flatMap(listing => {
+    const previous = stored.get(listing.id);
+    return previous ? diffListing(previous, listing, changedAt) : [];
+  });
+}
+
+// Marks the listings whose latest asking price change, within PRICE_REDUCED_DAYS, cut the price
+export async function withPriceReductions(storage: IStorage, businesses: Business[]): Promise<Business[]> {
+  if (businesses.length === 0) return businesses;
+  const since = Date.now() - PRICE_REDUCED_DAYS * 86400000;
+  const latest = await storage.getLatestListingChanges(businesses.map(business => business.id), 'askingPrice');
+  const reducedFrom = new Map(latest
+    .filter(change => change.changedAt.getTime() >= since && Number(change.newValue) < Number(change.previousValue))
+    .map(change => [change.businessId, Number(change.previousValue)]));
+  return businesses.map(business =>
+    reducedFrom.has(business.id) ? { ...business, priceReducedFrom: reducedFrom.get(business.id) } : business
+  );
+}
@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { importQuerySchema, User } from "../../shared/schema.js";
+import { storageDrivers, TestStorage } from "../test/storageDrivers.js";
+import { testListing } from "../test/listings.js";
+import { importListings, previewImport, rollbackImport, suggestMapping } from "./listingImport.js";
+
+const admin: User = { id: "admin-1", username: "admin", email: "admin@example.com", isAdmin: true };
+const columns = ["Business Name", "Summary", "Category", "City", "Price", "Revenue", "SDE", "Employees", "Founded", "Listing URL"];
+const csv = (rows: string[][]) => Buffer.from([columns, ...rows].map(row => row.join(",")).join("\n"));
+
+describe("suggestMapping", () => {
+  it("matches common headings to fields, each column once", () => {
+    expect(suggestMapping(columns)).toEqual({
+      name: "Business Name",
+      description: "Summary",
+      location: "City",
+      industry: "Category",
+      askingPrice: "Price",
+      annualRevenue: "Revenue",
+      cashFlow: "SDE",
+      employees: "Employees",
+      yearEstablished: "Founded",
+      sourceUrl: "Listing URL"
+    });
+  });
+
+  it("previews the suggested mapping with sample rows", () => {
+    const preview = previewImport(csv([["Harbor Coffee", "Roaster with wholesale accounts", "Cafe", "\"Portland, OR\"", "$640K", "910000", "210000", "9", "2012", "https://x.test/1"]]), "listings.csv");
+    expect(preview).toMatchObject({ fileName: "listings.csv", format: "csv", columns, rowCount: 1, suggestedMapping: suggestMapping(columns) });
+    expect(preview.sampleRows[0][3]).toBe("Portland, OR");
+  });
+});
+
+describe.each(storageDrivers)("$name listing import", ({ open }) => {
+  let store: TestStorage;
+  beforeAll(() => {
+    store = open();
+  });
+  afterAll(() => store.close());
+
+  const query = (params: Record<string, unknown> = {}) =>
+    importQuerySchema.parse({ fileName: "listings.csv", sourceSite: "Broker Export", mapping: suggestMapping(columns), ...params });
+  // URLs of their own per test, so Postgres runs don't match listings imported by earlier ones
+  const row = (url: string, name: string, price: string) =>
+    [name, "Neighborhood cafe with a loyal following", "Cafe", "\"Portland, OR\"", price, "910000", "210000", "9", "2012", url];
+
+  it("creates new listings, updates matched ones and reports bad rows", async () => {
+    const suffix = crypto.randomUUID();
+    const existing = testListing(`existing-${suffix}`, { sourceUrl: `https://broker.test/${suffix}/existing` });
+    await store.storage.upsertBusinesses([existing]);
+
+    const report = await importListings(store.storage, csv([
+      row(`https://broker.test/${suffix}/new`, "Sunrise Bakery", "$450K"),
+      row(existing.sourceUrl, existing.name, "\"$600,000\""),
+      row(`https://broker.test/${suffix}/bad`, "No Price Cafe", "call"),
+      row(`https://broker.test/${suffix}/new`, "Sunrise Bakery again", "$450K")
+    ]), query(), admin);
+
+    expect(report).toMatchObject({ rowCount: 4, created: 1, updated: 1, invalid: 2 });
+    expect(report.errors.map(error => [error.row, error.field])).toEqual([[4, "askingPrice"], [5, "sourceUrl"]]);
+    expect((await store.storage.getBusinessById(existing.id))?.askingPrice).toBe(600000);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const url = `https://broker.test/${crypto.randomUUID()}/dry`;
+    const report = await importListings(store.storage, csv([row(url, "Dry Run Cafe", "$300K")]), query({ dryRun: "true" }), admin);
+    expect(report).toMatchObject({ created: 1, batch: null });
+    expect((await store.storage.getAllBusinesses()).some(business => business.sourceUrl === url)).toBe(false);
+  });
+
+  it("rolls back by deleting created listings and restoring updated ones", async () => {
+    const suffix = crypto.randomUUID();
+    const existing = testListing(`existing-${suffix}`, { sourceUrl: `https://broker.test/${suffix}/existing` });
+    await store.storage.upsertBusinesses([existing]);
+    const { batch } = await importListings(store.storage, csv([
+      row(`https://broker.test/${suffix}/new`, "Sunrise Bakery", "$450K"),
+      row(existing.sourceUrl, existing.name, "\"$600,000\"")
+    ]), query(), admin);
+
+    const result = await rollbackImport(store.storage, batch!);
+
+    expect(result).toMatchObject({ deleted: 1, restored: 1, skippedBusinessIds: [], batch: { status: "rolled_back" } });
+    expect((await store.storage.getBusinessById(existing.id))?.askingPrice).toBe(existing.askingPrice);
+    expect((await store.storage.getAllBusinesses()).some(business => business.sourceUrl === `https://broker.test/${suffix}/new`)).toBe(false);
+  });
+
+  it("leaves listings changed since the import as they are", async () => {
+    const url = `https://broker.test/${crypto.randomUUID()}/edited`;
+    const { batch } = await importListings(store.storage, csv([row(url, "Edited Cafe", "$300K")]), query(), admin);
+    const imported = (await store.storage.getAllBusinesses()).find(business => business.sourceUrl === url)!;
+    await store.storage.upsertBusinesses([{ ...imported, askingPrice: 280000, updatedAt: new Date(imported.updatedAt.getTime() + 1000) }]);
+
+    const result = await rollbackImport(store.storage, batch!);
+
+    expect(result).toMatchObject({ deleted: 0, skippedBusinessIds: [imported.id] });
+    expect((await store.storage.getBusinessById(imported.id))?.askingPrice).toBe(280000);
+  });
+});
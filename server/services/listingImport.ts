@@ -0,0 +1,259 @@
+// Spreadsheet listing imports: maps columns to listing fields, validates every row against businessInsertSchema and
+// writes the new and changed listings as one batch, recording what each replaced so the batch can be rolled back
+import { createHash, randomUUID } from "crypto";
+import {
+  Business,
+  BusinessInsert,
+  BusinessListing,
+  ImportBatch,
+  ImportField,
+  ImportMapping,
+  ImportPreview,
+  ImportQuery,
+  ImportReport,
+  ImportRollbackResult,
+  ImportRowError,
+  IMPORT_REPORT_MAX_ERRORS,
+  User,
+  businessInsertSchema,
+  importFields
+} from "../../shared/schema.js";
+import { IStorage, ImportBatchItem } from "../storage/IStorage.js";
+import { normalizeIndustry, parseCount, parseMoney, parseYear } from "../ingestion/normalize.js";
+import { SpreadsheetTable, readSpreadsheet } from "./spreadsheet.js";
+
+// A mapping that can't be applied to the file - the request is wrong rather than any one row
+export class ImportMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportMappingError';
+  }
+}
+
+const PREVIEW_SAMPLE_ROWS = 5;
+
+// Headings, lower-cased with punctuation dropped, that name each field in exports from the common marketplaces and CRMs
+const headingAliases: Record<ImportField, string[]> = {
+  name: ['name', 'business name', 'business', 'listing', 'listing name', 'title', 'listing title'],
+  description: ['description', 'business description', 'summary', 'overview', 'details'],
+  location: ['location', 'city', 'city state', 'address', 'region'],
+  industry: ['industry', 'category', 'sector', 'business type', 'type'],
+  askingPrice: ['asking price', 'price', 'asking', 'list price', 'listing price', 'sale price'],
+  annualRevenue: ['annual revenue', 'revenue', 'gross revenue', 'sales', 'gross sales', 'annual sales'],
+  cashFlow: ['cash flow', 'cashflow', 'sde', 'sellers discretionary earnings', 'owner cash flow'],
+  ebitda: ['ebitda'],
+  employees: ['employees', 'employee count', 'number of employees', 'staff', 'headcount'],
+  yearEstablished: ['year established', 'established', 'year founded', 'founded', 'year'],
+  sourceUrl: ['source url', 'url', 'listing url', 'link', 'listing link'],
+  sourceSite: ['source site', 'source', 'site', 'marketplace', 'broker']
+};
+
+const headingKey = (heading: string) => heading.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Each column is suggested for one field at most, the first field whose aliases name it
+export function suggestMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  importFields.forEach(field => {
+    const column = columns.find(candidate => !used.has(candidate) && headingAliases[field].includes(headingKey(candidate)));
+    if (column) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  });
+  return mapping;
+}
+
+export function previewImport(data: Buffer, fileName: string): ImportPreview {
+  const table = readSpreadsheet(data, fileName);
+  return {
+    fileName,
+    format: table.format,
+    columns: table.columns,
+    rowCount: table.rows.length,
+    sampleRows: table.rows.slice(0, PREVIEW_SAMPLE_ROWS),
+    suggestedMapping: suggestMapping(table.columns)
+  };
+}
+
+// Fields a row can't do without; ebitda falls back to cash flow and sourceSite to the import's own
+const requiredFields: ImportField[] = importFields.filter(field => field !== 'ebitda' && field !== 'sourceSite');
+
+function checkMapping(table: SpreadsheetTable, mapping: ImportMapping, sourceSite: string | undefined) {
+  const unknown = Object.values(mapping).filter(column => !table.columns.includes(column!));
+  if (unknown.length > 0) {
+    throw new ImportMappingError(`The file has no column ${unknown.map(column => `"${column}"`).join(', ')}`);
+  }
+  const missing = requiredFields.filter(field => !mapping[field]);
+  if (!mapping.sourceSite && !sourceSite) missing.push('sourceSite');
+  if (missing.length > 0) {
+    throw new ImportMappingError(`Map a column to ${missing.join(', ')}${missing.includes('sourceSite') ? ' (or give a source name)' : ''}`);
+  }
+}
+
+const numberParsers: Partial<Record<ImportField, { parse: (text: string) => number | null; expected: string }>> = {
+  askingPrice: { parse: parseMoney, expected: 'an amount' },
+  annualRevenue: { parse: parseMoney, expected: 'an amount' },
+  cashFlow: { parse: parseMoney, expected: 'an amount' },
+  ebitda: { parse: parseMoney, expected: 'an amount' },
+  employees: { parse: parseCount, expected: 'a number' },
+  yearEstablished: { parse: parseYear, expected: 'a year' }
+};
+
+// One row as a listing, or the reasons it can't be one
+function readRow(
+  cells: string[],
+  rowNumber: number,
+  table: SpreadsheetTable,
+  mapping: ImportMapping,
+  sourceSite: string | undefined
+): { listing: BusinessInsert } | { errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const values: Partial<Record<ImportField, string | number>> = {};
+
+  importFields.forEach(field => {
+    const column = mapping[field];
+    const text = column ? cells[table.columns.indexOf(column)] : '';
+    if (!text) return;
+    const parser = numberParsers[field];
+    if (!parser) {
+      values[field] = field === 'industry' ? normalizeIndustry(text) : text;
+      return;
+    }
+    const value = parser.parse(text);
+    if (value === null) errors.push({ row: rowNumber, field, column, message: `"${text}" isn't ${parser.expected}` });
+    else values[field] = value;
+  });
+  values.ebitda ??= values.cashFlow;
+  values.sourceSite ??= sourceSite;
+
+  const result = businessInsertSchema.safeParse(values);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      const field = issue.path[0] as ImportField;
+      // A cell that didn't parse already has its error
+      if (errors.some(error => error.field === field)) return;
+      errors.push({ row: rowNumber, field, column: mapping[field], message: values[field] === undefined ? 'Required' : issue.message });
+    });
+  }
+  return errors.length > 0 || !result.success ? { errors } : { listing: result.data };
+}
+
+// IDs follow the listing's URL, so re-importing a listing that was rolled back gets it its old ID
+const importedListingId = (sourceUrl: string) => `import-${createHash('sha256').update(sourceUrl).digest('hex').slice(0, 16)}`;
+
+const insertFields = Object.keys(businessInsertSchema.shape) as (keyof BusinessInsert)[];
+
+const isUnchanged = (existing: Business, listing: BusinessInsert) =>
+  existing.isActive && insertFields.every(field => existing[field] === listing[field]);
+
+const toListing = ({ aiScore, ...business }: Business): BusinessListing => business;
+
+export async function importListings(storage: IStorage, data: Buffer, query: ImportQuery, user: User): Promise<ImportReport> {
+  const table = readSpreadsheet(data, query.fileName);
+  checkMapping(table, query.mapping, query.sourceSite);
+
+  const errors: ImportRowError[] = [];
+  // By sourceUrl, which is how imported rows are matched to the listings already stored
+  const listings = new Map<string, BusinessInsert>();
+  const seenOnRow = new Map<string, number>();
+  table.rows.forEach((cells, index) => {
+    const rowNumber = table.rowNumbers[index];
+    const result = readRow(cells, rowNumber, table, query.mapping, query.sourceSite);
+    if ('errors' in result) {
+      errors.push(...result.errors);
+      return;
+    }
+    const { sourceUrl } = result.listing;
+    const firstRow = seenOnRow.get(sourceUrl);
+    if (firstRow !== undefined) {
+      errors.push({ row: rowNumber, field: 'sourceUrl', column: query.mapping.sourceUrl, message: `Same source URL as row ${firstRow}` });
+      return;
+    }
+    seenOnRow.set(sourceUrl, rowNumber);
+    listings.set(sourceUrl, result.listing);
+  });
+
+  const existingByUrl = new Map((await storage.getAllBusinesses()).map(business => [business.sourceUrl, business]));
+  const now = new Date();
+  const changed: BusinessListing[] = [];
+  const items: ImportBatchItem[] = [];
+  let created = 0;
+  let updated = 0;
+  let unchanged = 0;
+  listings.forEach((listing, sourceUrl) => {
+    const existing = existingByUrl.get(sourceUrl);
+    if (existing && isUnchanged(existing, listing)) {
+      unchanged++;
+      return;
+    }
+    const id = existing?.id ?? importedListingId(sourceUrl);
+    changed.push({
+      id,
+      ...listing,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      sellerInfo: existing?.sellerInfo ?? null,
+      businessDetails: existing?.businessDetails ?? null,
+      isActive: true
+    });
+    items.push({ businessId: id, previous: existing ? toListing(existing) : null });
+    if (existing) updated++;
+    else created++;
+  });
+
+  const report: ImportReport = {
+    batch: null,
+    rowCount: table.rows.length,
+    created,
+    updated,
+    unchanged,
+    invalid: new Set(errors.map(error => error.row)).size,
+    errors: errors.slice(0, IMPORT_REPORT_MAX_ERRORS)
+  };
+  if (query.dryRun || changed.length === 0) return report;
+
+  const batch: ImportBatch = {
+    id: `batch-${randomUUID()}`,
+    fileName: query.fileName,
+    importedBy: user.id,
+    importedByName: user.username,
+    status: 'imported',
+    rowCount: report.rowCount,
+    created,
+    updated,
+    unchanged,
+    invalid: report.invalid,
+    createdAt: now,
+    rolledBackAt: null
+  };
+  // The batch is recorded first, so a failure while writing listings still leaves something to roll back
+  await storage.createImportBatch(batch, items);
+  await storage.upsertBusinesses(changed);
+  return { ...report, batch };
+}
+
+// Listings changed since the import (by ingestion, a later import or an edit) are skipped rather than overwritten;
+// they're recognised by an updatedAt other than the batch's
+export async function rollbackImport(storage: IStorage, batch: ImportBatch): Promise<ImportRollbackResult> {
+  const items = await storage.getImportBatchItems(batch.id);
+  const toDelete: string[] = [];
+  const toRestore: BusinessListing[] = [];
+  const skippedBusinessIds: string[] = [];
+
+  for (const item of items) {
+    const current = await storage.getBusinessById(item.businessId);
+    if (current && current.updatedAt.getTime() !== batch.createdAt.getTime()) {
+      skippedBusinessIds.push(item.businessId);
+    } else if (item.previous) {
+      toRestore.push(item.previous);
+    } else if (current) {
+      toDelete.push(item.businessId);
+    }
+  }
+
+  const deleted = toDelete.length > 0 ? await storage.deleteBusinesses(toDelete) : 0;
+  if (toRestore.length > 0) await storage.upsertBusinesses(toRestore);
+  const rolledBack = await storage.markImportBatchRolledBack(batch.id, new Date());
+  return { batch: rolledBack ?? batch, deleted, restored: toRestore.length, skippedBusinessIds };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { UserPreferences } from "../../shared/schema.js";
+import { demoUser, getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { extractScoringPayload, LLMScoringProvider } from "./llmScoring.js";
+import { ChatCompletionClient, LLMRequestError } from "./openaiClient.js";
+import { RuleBasedScoringEngine } from "./scoringEngine.js";
+
+const preferences = demoUser.preferences as UserPreferences;
+const businesses = getAllDemoBusinesses().slice(0, 6);
+
+// Awards no points, failing for the listings named in `failFor`; tracks how many requests overlap
+function fakeModel(failFor: string[] = []) {
+  const stats = { inFlight: 0, maxInFlight: 0, requests: 0 };
+  const client: ChatCompletionClient = {
+    async createChatCompletion(request) {
+      const payload = extractScoringPayload(request.messages[1].content)!;
+      stats.requests++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      stats.inFlight--;
+
+      if (failFor.includes(payload.business.id)) throw new LLMRequestError("Bad request", 400, false);
+      return JSON.stringify({
+        reasoning: "No fit.",
+        factors: payload.scoring.factors.map(factor => ({ key: factor.key, pointsAwarded: 0, evidence: "None." }))
+      });
+    }
+  };
+  return { client, stats };
+}
+
+const provider = (client: ChatCompletionClient) =>
+  new LLMScoringProvider({ client, model: "test-model", fallback: new RuleBasedScoringEngine(), concurrency: 2, retryDelayMs: 0 });
+
+describe("LLMScoringProvider", () => {
+  it("keeps concurrent calls within one concurrency limit", async () => {
+    const { client, stats } = fakeModel();
+    const engine = provider(client);
+
+    const [first, second] = await Promise.all([
+      engine.scoreBusinesses(businesses.slice(0, 3), preferences),
+      engine.scoreBusinesses(businesses.slice(3), preferences)
+    ]);
+
+    expect(first.size + second.size).toBe(businesses.length);
+    expect(stats.requests).toBe(businesses.length);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  it("falls back to the rule-based score for listings the model fails on", async () => {
+    const { client } = fakeModel([businesses[1].id]);
+    const rules = await new RuleBasedScoringEngine().scoreBusinesses([businesses[1]], preferences);
+
+    const scores = await provider(client).scoreBusinesses(businesses.slice(0, 2), preferences);
+
+    expect(scores.get(businesses[0].id)?.reasoning).toBe("No fit.");
+    expect(scores.get(businesses[1].id)).toEqual(rules.get(businesses[1].id));
+  });
+
+  it("scores a result page within the request by default", () => {
+    expect(provider(fakeModel().client).requestBudget).toBe(20);
+  });
+});
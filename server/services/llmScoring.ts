@@ -0,0 +1,202 @@
+// LLM-backed scoring - prompts a chat model per business and falls back to the rule-based engine on failure
+import { z } from "zod";
+import {
+  Business,
+  BusinessScore,
+  ScoreFactor,
+  UserPreferences,
+  defaultScoringProfile,
+  scoringFactorKeys,
+  SEARCH_PAGE_SIZE
+} from "../../shared/schema.js";
+import { ScoringEngine, FactorAllowance, factorAllowances, totalScore } from "./scoringEngine.js";
+import { ChatCompletionClient, ChatMessage, LLMRequestError } from "./openaiClient.js";
+
+export const llmScoreResponseSchema = z.object({
+  reasoning: z.string().trim().min(1),
+  factors: z.array(z.object({
+    key: z.enum(scoringFactorKeys),
+    pointsAwarded: z.number().min(0),
+    evidence: z.string().trim().min(1)
+  }))
+});
+
+export interface ScoringPromptPayload {
+  business: Omit<Business, 'sellerInfo' | 'businessDetails' | 'aiScore' | 'createdAt' | 'updatedAt' | 'isActive'>;
+  preferences: UserPreferences;
+  // Points available per factor, derived from the weights profile; the model only decides how many to award
+  scoring: { baseScore: number; factors: FactorAllowance[] };
+}
+
+const PAYLOAD_HEADER = 'Business and buyer (JSON):';
+
+const systemPrompt = `You are an analyst scoring small business acquisition listings for a specific buyer.
+For every factor in scoring.factors, award between 0 and its maxPoints depending on how well the business fits the buyer's preferences on that factor.
+Reply with a single JSON object and nothing else:
+{"reasoning": string, "factors": [{"key": string, "pointsAwarded": number, "evidence": string}]}
+Evidence is one short sentence citing the listing data behind the points. Keep the reasoning to two or three sentences that name the factors that drove the score.`;
+
+export function buildScoringPrompt(business: Business, preferences: UserPreferences): ChatMessage[] {
+  const { sellerInfo, businessDetails, aiScore, createdAt, updatedAt, isActive, ...listing } = business;
+  const profile = preferences.weightsProfile || defaultScoringProfile;
+  const { baseScore, allowances } = factorAllowances(profile);
+  const payload: ScoringPromptPayload = {
+    business: listing,
+    preferences: { ...preferences, weightsProfile: profile },
+    scoring: { baseScore, factors: allowances }
+  };
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `${PAYLOAD_HEADER}\n${JSON.stringify(payload, null, 2)}` }
+  ];
+}
+
+// Inverse of buildScoringPrompt's user message - used by the local stub provider
+export function extractScoringPayload(content: string): ScoringPromptPayload | null {
+  const start = content.indexOf(PAYLOAD_HEADER);
+  if (start === -1) return null;
+  try {
+    return JSON.parse(content.slice(start + PAYLOAD_HEADER.length));
+  } catch {
+    return null;
+  }
+}
+
+// The model only awards points; weights, limits and the total come from the profile so the breakdown always adds up
+export function parseScoringResponse(content: string, preferences: UserPreferences): BusinessScore {
+  // Models sometimes wrap JSON in a markdown fence despite instructions
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(unfenced);
+  } catch {
+    throw new LLMRequestError('Model response was not valid JSON');
+  }
+
+  const result = llmScoreResponseSchema.safeParse(json);
+  if (!result.success) {
+    throw new LLMRequestError(`Model response did not match the score schema: ${result.error.issues[0]?.message}`);
+  }
+
+  const { baseScore, allowances } = factorAllowances(preferences.weightsProfile || defaultScoringProfile);
+  const factors: ScoreFactor[] = allowances.map(allowance => {
+    const awarded = result.data.factors.find(factor => factor.key === allowance.key);
+    if (!awarded) {
+      throw new LLMRequestError(`Model response is missing the ${allowance.key} factor`);
+    }
+    if (awarded.pointsAwarded > allowance.maxPoints) {
+      throw new LLMRequestError(`Model awarded ${awarded.pointsAwarded} of ${allowance.maxPoints} points for ${allowance.key}`);
+    }
+    return { ...allowance, pointsAwarded: Math.round(awarded.pointsAwarded * 10) / 10, evidence: awarded.evidence };
+  });
+
+  return {
+    score: totalScore(baseScore, factors),
+    reasoning: result.data.reasoning,
+    baseScore,
+    factors
+  };
+}
+
+export interface LLMScoringProviderOptions {
+  client: ChatCompletionClient;
+  model: string;
+  fallback: ScoringEngine;
+  timeoutMs?: number;
+  maxRetries?: number;
+  concurrency?: number;
+  retryDelayMs?: number;
+  requestBudget?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class LLMScoringProvider implements ScoringEngine {
+  readonly name: string;
+  readonly requestBudget: number;
+  readonly fallback: ScoringEngine;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private concurrency: number;
+  private retryDelayMs: number;
+  // Model requests in flight across every call, so backfills and concurrent searches share one limit
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private options: LLMScoringProviderOptions) {
+    this.name = `llm:${options.model}`;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.requestBudget = Math.max(1, options.requestBudget ?? SEARCH_PAGE_SIZE);
+    this.fallback = options.fallback;
+  }
+
+  async scoreBusinesses(businesses: Business[], preferences: UserPreferences): Promise<Map<string, BusinessScore>> {
+    const scores = new Map<string, BusinessScore>();
+    const failed: Business[] = [];
+
+    await Promise.all(businesses.map(business => this.withSlot(async () => {
+      try {
+        scores.set(business.id, await this.scoreWithRetries(business, preferences));
+      } catch (error) {
+        console.warn(`LLM scoring failed for ${business.id}, using ${this.options.fallback.name}:`, error instanceof Error ? error.message : error);
+        failed.push(business);
+      }
+    })));
+
+    if (failed.length > 0) {
+      const fallbackScores = await this.options.fallback.scoreBusinesses(failed, preferences);
+      fallbackScores.forEach((score, businessId) => scores.set(businessId, score));
+    }
+
+    return scores;
+  }
+
+  // A slot freed while others wait passes straight to the next waiter, so `active` never overshoots
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  private async scoreWithRetries(business: Business, preferences: UserPreferences): Promise<BusinessScore> {
+    const messages = buildScoringPrompt(business, preferences);
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.retryDelayMs * 2 ** (attempt - 1));
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+      try {
+        const content = await this.options.client.createChatCompletion(
+          { model: this.options.model, messages, temperature: 0, responseFormat: 'json_object' },
+          controller.signal
+        );
+        return parseScoringResponse(content, preferences);
+      } catch (error) {
+        lastError = error;
+        if (error instanceof LLMRequestError && !error.retryable) break;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    throw lastError;
+  }
+}
@@ -0,0 +1,73 @@
+// Mail and digest configuration - MAIL_TRANSPORT picks the transport at boot (outbox by default)
+import { MailTransport, OutboxTransport, SmtpTransport } from "./mailTransport.js";
+import { parsePositiveInt } from "./envConfig.js";
+
+export type MailTransportKind = 'outbox' | 'smtp';
+
+export interface MailConfig {
+  transport: MailTransportKind;
+  from: string;
+  outboxDir: string;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    timeoutMs: number;
+  };
+  // Links in emails (listings, unsubscribe) point here
+  appBaseUrl: string;
+  // Signs unsubscribe links
+  signingSecret: string;
+}
+
+function parsePort(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+    throw new Error(`${name} must be a port number (got "${value}")`);
+  }
+  return parsed;
+}
+
+export function getMailConfig(env: NodeJS.ProcessEnv = process.env): MailConfig {
+  const transport = (env.MAIL_TRANSPORT || 'outbox').toLowerCase();
+  if (transport !== 'outbox' && transport !== 'smtp') {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected "outbox" or "smtp")`);
+  }
+  if (transport === 'smtp' && !env.SMTP_HOST) {
+    throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+  }
+
+  const signingSecret = env.DIGEST_SIGNING_SECRET || env.SESSION_SECRET;
+  if (!signingSecret && env.NODE_ENV === 'production') {
+    throw new Error('DIGEST_SIGNING_SECRET (or SESSION_SECRET) must be set in production');
+  }
+
+  const secure = env.SMTP_SECURE === 'true';
+
+  return {
+    transport,
+    from: env.MAIL_FROM || 'BizSearch <digest@bizsearch.local>',
+    outboxDir: env.MAIL_OUTBOX_DIR || 'data/outbox',
+    smtp: {
+      host: env.SMTP_HOST || 'localhost',
+      port: parsePort(env.SMTP_PORT, secure ? 465 : 587, 'SMTP_PORT'),
+      secure,
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASS || undefined,
+      timeoutMs: parsePositiveInt(env.SMTP_TIMEOUT_MS, 15000, 'SMTP_TIMEOUT_MS')
+    },
+    appBaseUrl: (env.APP_BASE_URL || `http://localhost:${env.PORT || 5000}`).replace(/\/+$/, ''),
+    signingSecret: signingSecret || 'bizsearch-dev-digest-secret'
+  };
+}
+
+export function createMailTransport(config: MailConfig = getMailConfig()): MailTransport {
+  return config.transport === 'smtp' ? new SmtpTransport(config.smtp) : new OutboxTransport(config.outboxDir);
+}
+
+// Singletons used by the digest scheduler and the unsubscribe routes
+export const mailConfig: MailConfig = getMailConfig();
+export const mailTransport: MailTransport = createMailTransport(mailConfig);
@@ -0,0 +1,180 @@
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { buildMimeMessage, MailMessage, MailTransportError, OutboxTransport, SmtpTransport } from "./mailTransport.js";
+
+const message: MailMessage = {
+  from: "Zoë's Deals <digest@bizsearch.test>",
+  to: "investor@example.com",
+  subject: "3 new listings · café",
+  text: "Hi,\n.hidden line\nBye",
+  html: "<p>Hi</p>"
+};
+
+// Undoes the quoted-printable body encoding, soft line breaks included
+const decodeQuotedPrintable = (body: string) => Buffer.from(
+  body.replace(/=\r\n/g, "").replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+  "latin1"
+).toString("utf8");
+
+describe("buildMimeMessage", () => {
+  it("encodes non-ASCII headers, but only the display name of a mailbox", () => {
+    const raw = buildMimeMessage(message, new Date("2024-06-10T08:00:00Z"));
+    const subject = `=?UTF-8?B?${Buffer.from(message.subject).toString("base64")}?=`;
+    expect(raw).toContain(`Subject: ${subject}\r\n`);
+    expect(raw).toContain(`From: =?UTF-8?B?${Buffer.from("Zoë's Deals").toString("base64")}?= <digest@bizsearch.test>\r\n`);
+    expect(raw).toContain("To: investor@example.com\r\n");
+    expect(raw).toContain("Date: Mon, 10 Jun 2024 08:00:00 +0000\r\n");
+    expect(raw).toMatch(/Message-ID: <[\w-]+@bizsearch\.test>/);
+  });
+
+  it("sends both bodies quoted-printable within the line limit", () => {
+    const long = { ...message, text: `Prix: ${"é".repeat(60)}` };
+    const raw = buildMimeMessage(long);
+    const textPart = raw.split(/--bizsearch-[\w-]+/)[1].split("\r\n\r\n")[1];
+
+    expect(raw.split("\r\n").every(line => line.length <= 998)).toBe(true);
+    expect(textPart.split("\r\n").every(line => line.length <= 76)).toBe(true);
+    expect(decodeQuotedPrintable(textPart.trim())).toBe(long.text);
+    expect(raw).toContain("Content-Type: text/html; charset=utf-8");
+  });
+
+  it("lets extra headers through but keeps its own content type", () => {
+    const raw = buildMimeMessage({ ...message, headers: { "List-Unsubscribe": "<https://example.com/u>", "Content-Type": "text/plain" } });
+    expect(raw).toContain("List-Unsubscribe: <https://example.com/u>\r\n");
+    expect(raw).toMatch(/Content-Type: multipart\/alternative; boundary="bizsearch-/);
+    expect(raw).not.toContain("Content-Type: text/plain\r\n");
+  });
+});
+
+describe("OutboxTransport", () => {
+  const directory = path.join(os.tmpdir(), `bizsearch-outbox-${process.pid}`);
+  afterEach(() => fs.promises.rm(directory, { recursive: true, force: true }));
+
+  it("writes each message as an .eml file", async () => {
+    await new OutboxTransport(directory).send(message);
+    await new OutboxTransport(directory).send(message);
+
+    const files = await fs.promises.readdir(directory);
+    expect(files).toHaveLength(2);
+    expect(files.every(file => file.endsWith(".eml"))).toBe(true);
+    expect(await fs.promises.readFile(path.join(directory, files[0]), "utf8")).toContain("To: investor@example.com\r\n");
+  });
+});
+
+interface StubOptions {
+  capabilities?: string[];
+  rejectRecipients?: boolean;
+}
+
+// A plain-text SMTP server that records the commands it's sent and the data lines of each message, as received
+async function startSmtpStub(options: StubOptions = {}) {
+  const commands: string[] = [];
+  const data: string[][] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    let buffer = "";
+    let lines: string[] | undefined;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply("220 stub ready");
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let newline: number;
+      while ((newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        if (lines) {
+          if (line !== ".") {
+            lines.push(line);
+            continue;
+          }
+          data.push(lines);
+          lines = undefined;
+          reply("250 queued");
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          [...(options.capabilities ?? ["AUTH PLAIN LOGIN"]), "8BITMIME"].forEach((capability, index, all) =>
+            reply(`250${index === all.length - 1 ? " " : "-"}${capability}`));
+        } else if (verb === "RCPT" && options.rejectRecipients) {
+          reply("550 Mailbox unavailable");
+        } else if (verb === "DATA") {
+          lines = [];
+          reply("354 go ahead");
+        } else if (verb === "QUIT") {
+          reply("221 bye");
+          socket.end();
+        } else {
+          reply(verb === "AUTH" ? "235 ok" : "250 ok");
+        }
+      }
+    });
+    socket.on("close", () => sockets.delete(socket));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    data,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+}
+
+describe("SmtpTransport", () => {
+  let stub: Awaited<ReturnType<typeof startSmtpStub>> | undefined;
+  afterEach(() => stub?.close());
+
+  const transport = (port: number, credentials: { user?: string; password?: string } = {}) =>
+    new SmtpTransport({ host: "127.0.0.1", port, secure: false, timeoutMs: 2000, ...credentials });
+
+  it("sends the envelope and the dot-stuffed message", async () => {
+    stub = await startSmtpStub();
+    await transport(stub.port).send(message);
+
+    expect(stub.commands.map(command => command.split(" ")[0])).toEqual(["EHLO", "MAIL", "RCPT", "DATA", "QUIT"]);
+    expect(stub.commands[1]).toBe("MAIL FROM:<digest@bizsearch.test>");
+    expect(stub.commands[2]).toBe("RCPT TO:<investor@example.com>");
+    expect(stub.data).toHaveLength(1);
+    expect(stub.data[0]).toContain("..hidden line");
+    expect(stub.data[0].some(line => line.startsWith(".") && !line.startsWith(".."))).toBe(false);
+  });
+
+  it("refuses to authenticate over a connection without STARTTLS", async () => {
+    stub = await startSmtpStub();
+    const sending = transport(stub.port, { user: "mailer", password: "secret" }).send(message);
+
+    await expect(sending).rejects.toThrow(/doesn't offer STARTTLS; refusing to authenticate without TLS/);
+    expect(stub.commands.some(command => command.startsWith("AUTH"))).toBe(false);
+    expect(stub.data).toHaveLength(0);
+  });
+
+  it("reports a rejected recipient with the server's reply", async () => {
+    stub = await startSmtpStub({ rejectRecipients: true });
+    const sending = transport(stub.port).send(message);
+
+    await expect(sending).rejects.toBeInstanceOf(MailTransportError);
+    await expect(sending).rejects.toMatchObject({ code: 550, message: "SMTP server replied 550 to RCPT: Mailbox unavailable" });
+  });
+
+  it("fails when the server can't be reached", async () => {
+    stub = await startSmtpStub();
+    const port = stub.port;
+    await stub.close();
+    stub = undefined;
+
+    await expect(transport(port).send(message)).rejects.toThrow(/SMTP connection failed/);
+  });
+});
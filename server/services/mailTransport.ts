@@ -0,0 +1,277 @@
+// Outgoing mail - a transport interface with an SMTP client and a file "outbox" for local development
+import fs from "fs";
+import path from "path";
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailTransportError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
+
+// "Name <address>" or a bare address -> the address, for the SMTP envelope
+const envelopeAddress = (mailbox: string) => mailbox.match(/<([^>]+)>\s*$/)?.[1] ?? mailbox.trim();
+
+// RFC 2047 encoded-word for header values that aren't plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Only the display name of "Name <address>" may be encoded
+const encodeMailbox = (mailbox: string) => {
+  const match = mailbox.match(/^(.*?)\s*<([^>]+)>\s*$/);
+  return match && match[1] ? `${encodeHeader(match[1].replace(/^"|"$/g, ''))} <${match[2]}>` : mailbox;
+};
+
+// Quoted-printable body encoding (RFC 2045): readable in the outbox, and keeps lines under the SMTP limit
+function quotedPrintable(text: string): string {
+  return text.replace(/\r?\n/g, '\n').split('\n').map(line => {
+    let encoded = '';
+    let lineLength = 0;
+    const bytes = Buffer.from(line, 'utf8');
+    bytes.forEach((byte, index) => {
+      const isLast = index === bytes.length - 1;
+      const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+      const chunk = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+      if (lineLength + chunk.length > 75) {
+        encoded += '=\r\n';
+        lineLength = 0;
+      }
+      encoded += chunk;
+      lineLength += chunk.length;
+    });
+    return encoded;
+  }).join('\r\n');
+}
+
+// The full RFC 5322 message: headers plus a multipart/alternative plain-text and HTML body
+export function buildMimeMessage(message: MailMessage, now: Date = new Date()): string {
+  const boundary = `bizsearch-${randomUUID()}`;
+  const domain = envelopeAddress(message.from).split('@')[1] || 'localhost';
+  const headers: Record<string, string> = {
+    From: encodeMailbox(message.from),
+    To: encodeMailbox(message.to),
+    Subject: encodeHeader(message.subject),
+    Date: now.toUTCString().replace('GMT', '+0000'),
+    'Message-ID': `<${randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`
+  };
+  const part = (contentType: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    quotedPrintable(body)
+  ].join('\r\n');
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+// Writes each message as an .eml file - open them in a mail client, or point a test at the directory
+export class OutboxTransport implements MailTransport {
+  readonly name = 'outbox';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const now = new Date();
+    const filename = `${now.toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, filename), buildMimeMessage(message, now));
+  }
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS is used when the server offers it,
+  // and required when a user is set
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// One SMTP conversation over a socket, upgraded in place by STARTTLS
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private pendingLines: string[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private options: SmtpTransportOptions) {}
+
+  async open(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    await this.attach(socket, secure ? 'secureConnect' : 'connect');
+    await this.expect(await this.read(), [220]);
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await this.read(), expected, line.startsWith('AUTH') ? 'AUTH' : line);
+  }
+
+  // Sends the message body, dot-stuffed, ending with the lone "." line
+  async data(content: string): Promise<void> {
+    await this.command('DATA', [354]);
+    const body = content.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    this.socket.write(`${body.endsWith('\r\n') ? body : `${body}\r\n`}.\r\n`);
+    await this.expect(await this.read(), [250], 'DATA');
+  }
+
+  async startTls(): Promise<void> {
+    await this.command('STARTTLS', [220]);
+    this.socket.removeAllListeners('data');
+    const secured = tls.connect({ socket: this.socket, servername: this.options.host });
+    await this.attach(secured, 'secureConnect');
+  }
+
+  close() {
+    this.socket?.destroy();
+  }
+
+  private attach(socket: net.Socket, readyEvent: 'connect' | 'secureConnect'): Promise<void> {
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs, () =>
+      this.fail(new MailTransportError(`SMTP server ${this.options.host} timed out`)));
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    return new Promise((resolve, reject) => {
+      socket.once(readyEvent, () => resolve());
+      socket.on('error', error => {
+        const failure = new MailTransportError(`SMTP connection failed: ${error.message}`);
+        this.fail(failure);
+        reject(failure);
+      });
+    });
+  }
+
+  // Replies can span lines ("250-...") and arrive split across packets; a reply ends on "250 ..."
+  private receive(text: string) {
+    this.buffer += text;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pendingLines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    this.deliver();
+  }
+
+  private deliver() {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = undefined;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = undefined;
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+  }
+
+  private expect(reply: SmtpReply, expected: number[], sent?: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      const context = sent ? ` to ${sent.split(' ')[0]}` : '';
+      throw new MailTransportError(`SMTP server replied ${reply.code}${context}: ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+}
+
+// Minimal SMTP client (RFC 5321): EHLO, STARTTLS when offered, AUTH PLAIN or LOGIN over TLS only, one message per connection
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpTransportOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const session = new SmtpSession(this.options);
+    try {
+      await session.open();
+      let capabilities = (await session.command(`EHLO ${os.hostname()}`, [250])).lines;
+      if (!this.options.secure && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+        await session.startTls();
+        capabilities = (await session.command(`EHLO ${os.hostname()}`, [250])).lines;
+      } else if (!this.options.secure && this.options.user) {
+        // Credentials never go over a plain connection
+        throw new MailTransportError(`SMTP server ${this.options.host} doesn't offer STARTTLS; refusing to authenticate without TLS`);
+      }
+
+      if (this.options.user) {
+        await this.authenticate(session, capabilities);
+      }
+
+      await session.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250]);
+      await session.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+      await session.data(buildMimeMessage(message));
+      await session.command('QUIT', [221]).catch(() => undefined); // the message is already accepted
+    } finally {
+      session.close();
+    }
+  }
+
+  private async authenticate(session: SmtpSession, capabilities: string[]) {
+    const { user = '', password = '' } = this.options;
+    const mechanisms = capabilities.find(line => /^AUTH\b/i.test(line))?.toUpperCase().split(/\s+/).slice(1) ?? [];
+    const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+    if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+      await session.command(`AUTH PLAIN ${base64(`\0${user}\0${password}`)}`, [235]);
+    } else {
+      await session.command('AUTH LOGIN', [334]);
+      await session.command(base64(user), [334]);
+      await session.command(base64(password), [235]);
+    }
+  }
+}
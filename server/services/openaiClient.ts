@@ -0,0 +1,80 @@
+// Minimal OpenAI-compatible chat completions client - works against OpenAI, Azure-style proxies and the local stub
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  responseFormat?: 'json_object' | 'text';
+}
+
+export interface ChatCompletionClient {
+  // Resolves with the first choice's message content
+  createChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export class LLMRequestError extends Error {
+  constructor(message: string, public status?: number, public retryable: boolean = true) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+export interface OpenAICompatibleClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export class OpenAICompatibleClient implements ChatCompletionClient {
+  private baseUrl: string;
+
+  constructor(private options: OpenAICompatibleClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0,
+          ...(request.responseFormat ? { response_format: { type: request.responseFormat } } : {})
+        })
+      });
+    } catch (error) {
+      const failure = error as Error | undefined;
+      if (failure?.name === 'AbortError') {
+        throw new LLMRequestError('Chat completion request timed out');
+      }
+      throw new LLMRequestError(`Chat completion request failed: ${failure?.message || error}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      // Rate limits and server errors are worth retrying; other client errors will fail the same way again
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new LLMRequestError(`Chat completion returned ${response.status}: ${body.slice(0, 200)}`, response.status, retryable);
+    }
+
+    const data: { choices?: { message?: { content?: unknown } }[] } | null = await response.json().catch(() => null);
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMRequestError('Chat completion response had no message content');
+    }
+    return content;
+  }
+}
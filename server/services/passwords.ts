@@ -0,0 +1,18 @@
+// Password hashing - bcrypt with 12 salt rounds (see ARCHITECTURE_DECISIONS_PRODUCTION.md §2)
+import bcrypt from "bcryptjs";
+
+const SALT_ROUNDS = 12;
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, SALT_ROUNDS);
+}
+
+// Only for seeding demo data at boot, where storage constructors are synchronous
+export function hashPasswordSync(password: string): string {
+  return bcrypt.hashSync(password, SALT_ROUNDS);
+}
+
+export function verifyPassword(password: string, passwordHash: string | null): Promise<boolean> {
+  if (!passwordHash) return Promise.resolve(false);
+  return bcrypt.compare(password, passwordHash);
+}
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Business, BusinessScore, UserPreferences } from "../../shared/schema.js";
+import { demoUser, getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { storageDrivers, TestStorage } from "../test/storageDrivers.js";
+import { resolveScores, scoreCacheKey } from "./scoreCache.js";
+import { scoringEngine } from "./scoringConfig.js";
+import { ScoringEngine } from "./scoringEngine.js";
+
+const preferences: UserPreferences = {
+  budgetRange: { min: 100000, max: 400000 },
+  preferredIndustries: ["Food & Beverage"],
+  preferredLocations: ["Portland, OR"],
+  businessSize: "small",
+  riskTolerance: "low",
+  involvementLevel: "hands-on"
+};
+
+const fixedScore = (score: number): BusinessScore => ({ score, reasoning: "fixed", baseScore: score, factors: [] });
+
+describe("resolveScores", () => {
+  it("scores only the businesses missing from the cache", async () => {
+    const [cachedBusiness, missingBusiness] = getAllDemoBusinesses();
+    const engine: ScoringEngine = {
+      name: "fixed",
+      scoreBusinesses: vi.fn(async (businesses: Business[]) => new Map(businesses.map(business => [business.id, fixedScore(42)])))
+    };
+    const cached = new Map([[cachedBusiness.id, fixedScore(90)]]);
+
+    const { scores, computed } = await resolveScores([cachedBusiness, missingBusiness], preferences, cached, undefined, engine);
+
+    expect(engine.scoreBusinesses).toHaveBeenCalledWith([missingBusiness], preferences);
+    expect(Array.from(computed.keys())).toEqual([missingBusiness.id]);
+    expect(scores.get(cachedBusiness.id)?.score).toBe(90);
+    expect(scores.get(missingBusiness.id)?.score).toBe(42);
+  });
+
+  it("skips the engine when everything is cached", async () => {
+    const engine: ScoringEngine = { name: "fixed", scoreBusinesses: vi.fn() };
+    const [business] = getAllDemoBusinesses();
+    await resolveScores([business], preferences, new Map([[business.id, fixedScore(70)]]), undefined, engine);
+    expect(engine.scoreBusinesses).not.toHaveBeenCalled();
+  });
+
+  describe("past the engine's request budget", () => {
+    const businesses = getAllDemoBusinesses().slice(0, 5);
+    // The fallback ranks the businesses in list order, highest first
+    const fallback: ScoringEngine = {
+      name: "ranked",
+      scoreBusinesses: async (listed: Business[]) => new Map(listed.map(business => [business.id, fixedScore(100 - businesses.indexOf(business))]))
+    };
+    const budgetedEngine = (): ScoringEngine => ({
+      name: "slow",
+      requestBudget: 2,
+      fallback,
+      scoreBusinesses: vi.fn(async (listed: Business[]) => new Map(listed.map(business => [business.id, fixedScore(50)])))
+    });
+
+    it("scores the fallback's top picks now and serves provisional scores for the rest", async () => {
+      const engine = budgetedEngine();
+      const { scores, computed } = await resolveScores(businesses, preferences, new Map(), undefined, engine);
+
+      expect(engine.scoreBusinesses).toHaveBeenCalledTimes(1);
+      expect(Array.from(computed.keys())).toEqual([businesses[0].id, businesses[1].id]);
+      expect(businesses.map(business => scores.get(business.id)?.score)).toEqual([50, 50, 98, 97, 96]);
+    });
+
+    it("backfills the rest once, however often the search repeats while it runs", async () => {
+      let finishBackfill = () => {};
+      const backfillRunning = new Promise<void>(resolve => { finishBackfill = resolve; });
+      const engine = budgetedEngine();
+      vi.mocked(engine.scoreBusinesses).mockImplementation(async (listed: Business[]) => {
+        if (listed.length > 2) await backfillRunning;
+        return new Map(listed.map(business => [business.id, fixedScore(50)]));
+      });
+      const save = vi.fn();
+      const backfill = { userId: "backfill-user", preferencesVersion: 1, save };
+
+      await resolveScores(businesses, preferences, new Map(), backfill, engine);
+      await resolveScores(businesses, preferences, new Map(), backfill, engine);
+      finishBackfill();
+      await vi.waitFor(() => expect(save).toHaveBeenCalledTimes(1));
+
+      expect(Array.from(save.mock.calls[0][0].keys())).toEqual(businesses.slice(2).map(business => business.id));
+      // Each request scored its top picks; only the first queued a backfill
+      expect(engine.scoreBusinesses).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it("keys entries by user, business and preferences version", () => {
+    expect(scoreCacheKey("user-1", "demo-tech-1", 3)).toBe("user-1:demo-tech-1:v3");
+  });
+});
+
+const scoreBusinesses = vi.spyOn(scoringEngine, "scoreBusinesses");
+
+describe.each(storageDrivers)("$name score cache", ({ open }) => {
+  let store: TestStorage;
+
+  beforeAll(() => {
+    store = open();
+  });
+  beforeEach(() => {
+    scoreBusinesses.mockClear();
+  });
+  afterAll(() => store.close());
+
+  // Each test gets a user of its own, so Postgres runs don't see cache entries left by earlier ones
+  const createScoredUser = async () => {
+    const suffix = crypto.randomUUID().slice(0, 8);
+    const user = await store.storage.createUser({ username: `scores_${suffix}`, email: `scores-${suffix}@example.com`, passwordHash: "hash" });
+    await store.storage.updateUserPreferences(user.id, demoUser.preferences as UserPreferences);
+    return user.id;
+  };
+
+  it("scores a business once per preferences version", async () => {
+    const userId = await createScoredUser();
+    const first = await store.storage.getBusinessScore(userId, "demo-tech-1");
+    const second = await store.storage.getBusinessScore(userId, "demo-tech-1");
+    expect(second).toEqual(first);
+    expect(scoreBusinesses).toHaveBeenCalledTimes(1);
+  });
+
+  it("has no score for users without preferences", async () => {
+    const user = await store.storage.createUser({ username: `noprefs_${crypto.randomUUID().slice(0, 8)}`, email: `noprefs-${crypto.randomUUID()}@example.com`, passwordHash: "hash" });
+    expect(await store.storage.getBusinessScore(user.id, "demo-tech-1")).toBeNull();
+    expect(scoreBusinesses).not.toHaveBeenCalled();
+  });
+
+  it("rescores after the user's preferences change", async () => {
+    const userId = await createScoredUser();
+    const before = await store.storage.getBusinessScore(userId, "demo-food-1");
+    await store.storage.updateUserPreferences(userId, preferences);
+    const after = await store.storage.getBusinessScore(userId, "demo-food-1");
+
+    expect(scoreBusinesses).toHaveBeenCalledTimes(2);
+    expect(scoreBusinesses.mock.calls[1][1]).toEqual(preferences);
+    expect(after?.score).not.toBe(before?.score);
+  });
+
+  it("rescores a business after it is updated", async () => {
+    const userId = await createScoredUser();
+    const business = await store.storage.getBusinessById("demo-health-1");
+    await store.storage.getBusinessScore(userId, "demo-health-1");
+    await store.storage.upsertBusinesses([{ ...business!, askingPrice: business!.askingPrice * 3 }]);
+    await store.storage.getBusinessScore(userId, "demo-health-1");
+
+    expect(scoreBusinesses).toHaveBeenCalledTimes(2);
+    expect(scoreBusinesses.mock.calls[1][0][0].askingPrice).toBe(business!.askingPrice * 3);
+    await store.storage.upsertBusinesses([business!]);
+  });
+
+  it("carries the user's score on search results", async () => {
+    const userId = await createScoredUser();
+    const { businesses } = await store.storage.searchBusinesses({ industries: ["Technology"] }, userId);
+    const score = await store.storage.getBusinessScore(userId, businesses[0].id);
+    expect(businesses[0].aiScore).toBe(score?.score);
+  });
+});
@@ -0,0 +1,64 @@
+// Per-user score cache helpers - entries are keyed by (userId, businessId, preferences version)
+import { Business, BusinessScore, UserPreferences } from "../../shared/schema.js";
+import { ScoringEngine } from "./scoringEngine.js";
+import { scoringEngine } from "./scoringConfig.js";
+
+export function scoreCacheKey(userId: string, businessId: string, preferencesVersion: number): string {
+  return `${userId}:${businessId}:v${preferencesVersion}`;
+}
+
+// Where scores computed after the request has responded get cached
+export interface ScoreBackfill {
+  userId: string;
+  preferencesVersion: number;
+  save(scores: Map<string, BusinessScore>): void | Promise<void>;
+}
+
+// Cache keys being backfilled, so repeating a search doesn't queue the same businesses again
+const backfilling = new Set<string>();
+
+// Fill gaps in a user's cached scores; `computed` holds only the new entries so callers can persist them.
+// Past the engine's request budget, the misses the fallback ranks highest - the likeliest first page - are scored now
+// and the rest carry the fallback's provisional score, uncached, while the engine backfills them in the background.
+export async function resolveScores(
+  businesses: Business[],
+  preferences: UserPreferences,
+  cached: Map<string, BusinessScore>,
+  backfill?: ScoreBackfill,
+  engine: ScoringEngine = scoringEngine
+): Promise<{ scores: Map<string, BusinessScore>; computed: Map<string, BusinessScore> }> {
+  let missing = businesses.filter(business => !cached.has(business.id));
+  let provisional = new Map<string, BusinessScore>();
+  let deferred: Business[] = [];
+
+  if (engine.fallback && engine.requestBudget !== undefined && missing.length > engine.requestBudget) {
+    provisional = await engine.fallback.scoreBusinesses(missing, preferences);
+    const ranked = [...missing].sort((a, b) => (provisional.get(b.id)?.score ?? 0) - (provisional.get(a.id)?.score ?? 0));
+    missing = ranked.slice(0, engine.requestBudget);
+    deferred = ranked.slice(engine.requestBudget);
+  }
+
+  const computed = missing.length > 0 ? await engine.scoreBusinesses(missing, preferences) : new Map<string, BusinessScore>();
+  // Queued after this request's own scores so the backfill never holds up the page
+  if (backfill && deferred.length > 0) startBackfill(deferred, preferences, backfill, engine);
+
+  const scores = new Map<string, BusinessScore>();
+  businesses.forEach(business => {
+    const score = cached.get(business.id) || computed.get(business.id) || provisional.get(business.id);
+    if (score) scores.set(business.id, score);
+  });
+
+  return { scores, computed };
+}
+
+function startBackfill(businesses: Business[], preferences: UserPreferences, backfill: ScoreBackfill, engine: ScoringEngine): void {
+  const key = (business: Business) => scoreCacheKey(backfill.userId, business.id, backfill.preferencesVersion);
+  const queued = businesses.filter(business => !backfilling.has(key(business)));
+  if (queued.length === 0) return;
+
+  queued.forEach(business => backfilling.add(key(business)));
+  engine.scoreBusinesses(queued, preferences)
+    .then(scores => backfill.save(scores))
+    .catch(error => console.error('Backfilling scores failed:', error))
+    .finally(() => queued.forEach(business => backfilling.delete(key(business))));
+}
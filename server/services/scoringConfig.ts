@@ -0,0 +1,67 @@
+// Scoring engine selection - SCORING_ENGINE picks the engine at boot (rule-based by default)
+import { SEARCH_PAGE_SIZE } from "../../shared/schema.js";
+import { ScoringEngine, RuleBasedScoringEngine } from "./scoringEngine.js";
+import { LLMScoringProvider } from "./llmScoring.js";
+import { OpenAICompatibleClient } from "./openaiClient.js";
+import { parseNonNegativeInt, parsePositiveInt } from "./envConfig.js";
+
+export type ScoringEngineKind = 'rule-based' | 'llm';
+
+export interface ScoringConfig {
+  engine: ScoringEngineKind;
+  llm: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    timeoutMs: number;
+    maxRetries: number;
+    concurrency: number;
+    requestBudget: number;
+  };
+}
+
+const DEFAULT_LLM_BASE_URL = 'https://api.openai.com/v1';
+
+export function getScoringConfig(env: NodeJS.ProcessEnv = process.env): ScoringConfig {
+  const engine = (env.SCORING_ENGINE || 'rule-based').toLowerCase();
+  if (engine !== 'rule-based' && engine !== 'llm') {
+    throw new Error(`Unknown SCORING_ENGINE "${engine}" (expected "rule-based" or "llm")`);
+  }
+
+  const baseUrl = env.LLM_BASE_URL || DEFAULT_LLM_BASE_URL;
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY;
+  if (engine === 'llm' && baseUrl === DEFAULT_LLM_BASE_URL && !apiKey) {
+    throw new Error('SCORING_ENGINE=llm against OpenAI requires LLM_API_KEY (or OPENAI_API_KEY)');
+  }
+
+  return {
+    engine,
+    llm: {
+      baseUrl,
+      apiKey,
+      model: env.LLM_MODEL || 'gpt-4o',
+      timeoutMs: parsePositiveInt(env.LLM_TIMEOUT_MS, 15000, 'LLM_TIMEOUT_MS'),
+      maxRetries: parseNonNegativeInt(env.LLM_MAX_RETRIES, 2, 'LLM_MAX_RETRIES'),
+      concurrency: parsePositiveInt(env.LLM_CONCURRENCY, 4, 'LLM_CONCURRENCY'),
+      requestBudget: parsePositiveInt(env.LLM_REQUEST_BUDGET, SEARCH_PAGE_SIZE, 'LLM_REQUEST_BUDGET')
+    }
+  };
+}
+
+export function createScoringEngine(config: ScoringConfig = getScoringConfig()): ScoringEngine {
+  const ruleBased = new RuleBasedScoringEngine();
+  if (config.engine !== 'llm') return ruleBased;
+
+  return new LLMScoringProvider({
+    client: new OpenAICompatibleClient({ baseUrl: config.llm.baseUrl, apiKey: config.llm.apiKey }),
+    model: config.llm.model,
+    fallback: ruleBased,
+    timeoutMs: config.llm.timeoutMs,
+    maxRetries: config.llm.maxRetries,
+    concurrency: config.llm.concurrency,
+    requestBudget: config.llm.requestBudget
+  });
+}
+
+// Singleton instance used for every score computed on a cache miss
+export const scoringEngine: ScoringEngine = createScoringEngine();
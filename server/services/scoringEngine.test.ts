@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { defaultScoringProfile, ScoringWeightsProfile, UserPreferences } from "../../shared/schema.js";
+import { getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { factorAllowances, previewScoringProfile, RuleBasedScoringEngine } from "./scoringEngine.js";
+
+const engine = new RuleBasedScoringEngine();
+const businesses = getAllDemoBusinesses();
+const cloudSync = businesses.find(business => business.id === "demo-tech-1")!;
+
+const preferences: UserPreferences = {
+  budgetRange: { min: 500000, max: 1500000 },
+  preferredIndustries: ["Technology"],
+  preferredLocations: ["New York, NY"],
+  businessSize: "medium",
+  riskTolerance: "high",
+  involvementLevel: "hands-on"
+};
+
+const onlyWeight = (factor: keyof ScoringWeightsProfile["weights"], overrides: Partial<ScoringWeightsProfile> = {}): ScoringWeightsProfile => ({
+  ...defaultScoringProfile,
+  weights: { industry: 0, location: 0, budget: 0, size: 0, cashFlowMargin: 0, valuation: 0, risk: 0, involvement: 0, [factor]: 10 },
+  ...overrides
+});
+
+describe("factorAllowances", () => {
+  it("splits the score range across the weighted factors", () => {
+    const { baseScore, allowances } = factorAllowances(defaultScoringProfile);
+    expect(baseScore).toBe(50);
+    expect(allowances.find(allowance => allowance.key === "industry")?.maxPoints).toBe(14.1);
+    expect(allowances.reduce((sum, allowance) => sum + allowance.maxPoints, 0)).toBeCloseTo(48, 0);
+  });
+
+  it("leaves zero-weight factors out", () => {
+    expect(factorAllowances(onlyWeight("valuation")).allowances.map(allowance => allowance.key)).toEqual(["valuation"]);
+  });
+});
+
+describe("RuleBasedScoringEngine", () => {
+  it("explains the score as the base plus each factor's points", () => {
+    const score = engine.scoreBusiness(cloudSync, preferences);
+    const points = score.factors.reduce((sum, factor) => sum + factor.pointsAwarded, score.baseScore);
+    expect(score.score).toBe(Math.round(points));
+    expect(score.factors.find(factor => factor.key === "industry")).toMatchObject({ pointsAwarded: 14.1, evidence: "Strong industry match (Technology)" });
+  });
+
+  it("keeps scores within the profile's bounds", () => {
+    const bounds = { min: 20, max: 40 };
+    const profile = { ...defaultScoringProfile, bounds };
+    for (const business of businesses) {
+      const { score } = engine.scoreBusiness(business, { ...preferences, weightsProfile: profile });
+      expect(score).toBeGreaterThanOrEqual(bounds.min);
+      expect(score).toBeLessThanOrEqual(bounds.max);
+    }
+  });
+
+  it("applies the factor's curve to its fit", () => {
+    // 450K cash flow on 1.8M revenue is a 25% margin, a 5/6 fit
+    const score = (curve: "linear" | "step" | "strict") =>
+      engine.scoreBusiness(cloudSync, { ...preferences, weightsProfile: onlyWeight("cashFlowMargin", { curves: { cashFlowMargin: curve } }) }).factors[0].pointsAwarded;
+    expect(score("linear")).toBe(40);
+    expect(score("step")).toBe(48);
+    expect(score("strict")).toBe(33.3);
+  });
+});
+
+describe("previewScoringProfile", () => {
+  it("reranks the results under the candidate profile", async () => {
+    const ranked = businesses.slice(0, 10);
+    const preview = await previewScoringProfile(ranked, preferences, onlyWeight("cashFlowMargin"), engine);
+
+    expect(preview.map(entry => entry.previewScore)).toEqual([...preview.map(entry => entry.previewScore)].sort((a, b) => b - a));
+    preview.forEach(entry => {
+      expect(entry.currentRank).toBe(ranked.findIndex(business => business.id === entry.businessId) + 1);
+      expect(entry.rankChange).toBe(entry.currentRank - entry.previewRank);
+    });
+  });
+});
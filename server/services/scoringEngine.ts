@@ -0,0 +1,244 @@
+// Scoring engines - turn a business plus a user's preferences into a compatibility score
+import {
+  Business,
+  BusinessScore,
+  BusinessSize,
+  ScoreFactor,
+  UserPreferences,
+  ScoringCurve,
+  ScoringFactorKey,
+  ScoringWeightsProfile,
+  scoringFactorKeys,
+  defaultScoringProfile,
+  normalizeRiskTolerance,
+  normalizeInvolvement
+} from "../../shared/schema.js";
+import { businessAgeYears, businessSize, cashFlowMargin, suitsInvolvement } from "./businessMetrics.js";
+import { normalizeLocation } from "./geo.js";
+
+export interface ScoringEngine {
+  readonly name: string;
+  // Batch-oriented so engines backed by a remote model can score a whole result page in one call
+  scoreBusinesses(businesses: Business[], preferences: UserPreferences): Promise<Map<string, BusinessScore>>;
+  // Slow engines cap how many businesses they score while a request waits; the fallback covers the rest until they're backfilled
+  readonly requestBudget?: number;
+  readonly fallback?: ScoringEngine;
+}
+
+interface FactorEvaluation {
+  fit: number; // 0-1
+  detail: string;
+}
+
+type FactorEvaluator = (business: Business, preferences: UserPreferences) => FactorEvaluation;
+
+const curves: Record<ScoringCurve, (fit: number) => number> = {
+  linear: fit => fit,
+  step: fit => (fit >= 0.5 ? 1 : 0),
+  lenient: fit => Math.sqrt(fit),
+  strict: fit => fit * fit
+};
+
+const clampFit = (value: number) => Math.max(0, Math.min(1, value));
+
+const sizeOrder: Record<BusinessSize, number> = { small: 0, medium: 1, large: 2 };
+
+const evaluators: Record<ScoringFactorKey, FactorEvaluator> = {
+  industry: (business, preferences) => {
+    if (preferences.preferredIndustries.length === 0) {
+      return { fit: 0.5, detail: 'No industry preference set' };
+    }
+    return preferences.preferredIndustries.includes(business.industry)
+      ? { fit: 1, detail: `Strong industry match (${business.industry})` }
+      : { fit: 0, detail: `${business.industry} is outside your preferred industries` };
+  },
+
+  location: (business, preferences) => {
+    if (preferences.preferredLocations.length === 0) {
+      return { fit: 0.5, detail: 'No location preference set' };
+    }
+    // A preferred city also accepts the rest of its state; a preferred state ("California") accepts all of it
+    const matches = preferences.preferredLocations.map(normalizeLocation).some(preferred =>
+      preferred.state ? preferred.state === business.state : !!preferred.city && preferred.city.toLowerCase() === business.city.toLowerCase()
+    );
+    return matches
+      ? { fit: 1, detail: `Preferred location (${business.location})` }
+      : { fit: 0, detail: `${business.location} is outside your preferred locations` };
+  },
+
+  budget: (business, preferences) => {
+    const { min, max } = preferences.budgetRange;
+    if (business.askingPrice >= min && business.askingPrice <= max) {
+      return { fit: 1, detail: `Within your budget range ($${(min/1000).toFixed(0)}K-$${(max/1000).toFixed(0)}K)` };
+    }
+    if (business.askingPrice < min) {
+      return { fit: 0.7, detail: 'Below budget - potential value opportunity' };
+    }
+    // Falls off linearly, reaching zero at twice the top of the budget
+    return { fit: clampFit(1 - (business.askingPrice - max) / max), detail: 'Above your budget range' };
+  },
+
+  size: (business, preferences) => {
+    const preferred = sizeOrder[preferences.businessSize as BusinessSize];
+    if (preferred === undefined) {
+      return { fit: 0.5, detail: 'No business size preference set' };
+    }
+    const distance = Math.abs(sizeOrder[businessSize(business)] - preferred);
+    return distance === 0
+      ? { fit: 1, detail: `${preferences.businessSize} business size preference match` }
+      : { fit: distance === 1 ? 0.5 : 0, detail: `${business.employees} employees differs from your ${preferences.businessSize} size preference` };
+  },
+
+  cashFlowMargin: (business) => {
+    const margin = cashFlowMargin(business);
+    // A 30% cash flow margin or better is a full fit
+    return { fit: clampFit(margin / 0.3), detail: `${Math.round(margin * 100)}% cash flow margin` };
+  },
+
+  valuation: (business) => {
+    const revenueMultiple = business.annualRevenue > 0 ? business.askingPrice / business.annualRevenue : Infinity;
+    // 1x revenue or less is a full fit, 3x or more is none
+    return { fit: clampFit((3 - revenueMultiple) / 2), detail: `Asking ${revenueMultiple.toFixed(1)}x annual revenue` };
+  },
+
+  risk: (business, preferences) => {
+    const businessAge = businessAgeYears(business);
+    switch (normalizeRiskTolerance(preferences.riskTolerance)) {
+      case 'low':
+        return { fit: clampFit(businessAge / 10), detail: `${businessAge} years in business against a conservative risk preference` };
+      case 'medium':
+        return { fit: clampFit(businessAge / 5), detail: `${businessAge} years in business against a moderate risk preference` };
+      case 'high':
+        return { fit: 1, detail: 'Growth potential matches aggressive investment approach' };
+      default:
+        return { fit: 0.5, detail: 'No risk preference set' };
+    }
+  },
+
+  involvement: (business, preferences) => {
+    switch (normalizeInvolvement(preferences.involvementLevel)) {
+      case 'low':
+        return { fit: clampFit(business.employees / 10), detail: `${business.employees} employees to support hands-off management` };
+      case 'medium':
+        return { fit: suitsInvolvement(business, 'medium') ? 1 : 0.5, detail: 'Team size against a managerial role' };
+      case 'high':
+        return { fit: business.employees <= 20 ? 1 : clampFit(20 / business.employees), detail: 'Business size against hands-on involvement' };
+      default:
+        return { fit: 0.5, detail: 'No involvement preference set' };
+    }
+  }
+};
+
+export const scoringFactorNames: Record<ScoringFactorKey, string> = {
+  industry: 'Industry fit',
+  location: 'Location',
+  budget: 'Price vs. budget',
+  size: 'Business size',
+  cashFlowMargin: 'Cash flow margin',
+  valuation: 'Valuation',
+  risk: 'Risk alignment',
+  involvement: 'Involvement fit'
+};
+
+export interface FactorAllowance {
+  key: ScoringFactorKey;
+  name: string;
+  weight: number;
+  maxPoints: number;
+}
+
+const roundPoints = (points: number) => Math.round(points * 10) / 10;
+
+// Splits the profile's score range across its weighted factors; zero-weight factors get no allowance
+export function factorAllowances(profile: ScoringWeightsProfile): { baseScore: number; allowances: FactorAllowance[] } {
+  const { min, max } = profile.bounds;
+  const totalWeight = scoringFactorKeys.reduce((sum, key) => sum + profile.weights[key], 0);
+
+  const allowances = scoringFactorKeys
+    .filter(key => profile.weights[key] > 0)
+    .map(key => ({
+      key,
+      name: scoringFactorNames[key],
+      weight: profile.weights[key],
+      maxPoints: roundPoints((max - min) * profile.weights[key] / totalWeight)
+    }));
+
+  return { baseScore: min, allowances };
+}
+
+export function totalScore(baseScore: number, factors: ScoreFactor[]): number {
+  return Math.round(factors.reduce((sum, factor) => sum + factor.pointsAwarded, baseScore));
+}
+
+// Deterministic, explainable scoring driven entirely by the user's weights profile
+export class RuleBasedScoringEngine implements ScoringEngine {
+  readonly name = 'rule-based';
+
+  async scoreBusinesses(businesses: Business[], preferences: UserPreferences): Promise<Map<string, BusinessScore>> {
+    return new Map(businesses.map(business => [business.id, this.scoreBusiness(business, preferences)]));
+  }
+
+  scoreBusiness(business: Business, preferences: UserPreferences): BusinessScore {
+    const profile = preferences.weightsProfile || defaultScoringProfile;
+    const { baseScore, allowances } = factorAllowances(profile);
+
+    const factors: ScoreFactor[] = allowances.map(allowance => {
+      const { fit, detail } = evaluators[allowance.key](business, preferences);
+      const curved = curves[profile.curves[allowance.key] || 'linear'](fit);
+      return { ...allowance, pointsAwarded: roundPoints(allowance.maxPoints * curved), evidence: detail };
+    });
+    const score = totalScore(baseScore, factors);
+
+    const keyFactors = [...factors]
+      .sort((a, b) => b.pointsAwarded - a.pointsAwarded)
+      .slice(0, 4)
+      .map(factor => factor.evidence);
+
+    const reasoning = `This business scores ${score}/100 for compatibility with your investment criteria. Key factors: ${keyFactors.join(', ')}. ${
+      score >= 85 ? 'Excellent match with strong alignment across multiple criteria.' :
+      score >= 75 ? 'Good compatibility with your investment preferences.' :
+      'Moderate fit that could offer portfolio diversification benefits.'
+    }`;
+
+    return { score, reasoning, baseScore, factors };
+  }
+}
+
+export interface ScoringPreviewEntry {
+  businessId: string;
+  name: string;
+  currentScore: number | null;
+  previewScore: number;
+  currentRank: number;
+  previewRank: number;
+  rankChange: number; // positive = moves up
+}
+
+// Rescore an already ranked result set with a candidate profile, without touching the score cache
+export async function previewScoringProfile(
+  ranked: Business[],
+  preferences: UserPreferences,
+  profile: ScoringWeightsProfile,
+  engine: ScoringEngine
+): Promise<ScoringPreviewEntry[]> {
+  const previewScores = await engine.scoreBusinesses(ranked, { ...preferences, weightsProfile: profile });
+
+  const previewOrder = [...ranked].sort((a, b) =>
+    (previewScores.get(b.id)?.score || 0) - (previewScores.get(a.id)?.score || 0)
+  );
+  const previewRanks = new Map(previewOrder.map((business, index) => [business.id, index + 1]));
+
+  return previewOrder.map(business => {
+    const currentRank = ranked.indexOf(business) + 1;
+    const previewRank = previewRanks.get(business.id)!;
+    return {
+      businessId: business.id,
+      name: business.name,
+      currentScore: business.aiScore ?? null,
+      previewScore: previewScores.get(business.id)?.score || 0,
+      currentRank,
+      previewRank,
+      rankChange: currentRank - previewRank
+    };
+  });
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { businessSearchRequestSchema } from "../../shared/schema.js";
+import { getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { DemoMemoryStorage } from "../storage/memoryStorage.js";
+import { recordSearch, toHistoryFilters } from "./searchHistory.js";
+
+const results = getAllDemoBusinesses().slice(0, 12);
+const request = (params: Record<string, unknown>) => businessSearchRequestSchema.parse(params);
+
+describe("recordSearch", () => {
+  let storage: DemoMemoryStorage;
+  const userId = "demo-user-1";
+
+  beforeEach(async () => {
+    storage = new DemoMemoryStorage();
+    await storage.clearSearchHistory(userId);
+  });
+
+  it("records the top of the whole result set, whatever the page size", async () => {
+    const entry = await recordSearch(storage, userId, request({ query: "cafe", limit: 2 }), results);
+    expect(entry).toMatchObject({ query: "cafe", resultsCount: 12, topResultIds: results.slice(0, 5).map(business => business.id) });
+  });
+
+  it("skips later pages", async () => {
+    expect(await recordSearch(storage, userId, request({ offset: 20 }), results)).toBeNull();
+    expect(await storage.countSearchHistory(userId)).toBe(0);
+  });
+
+  it("replaces an identical immediately-previous entry", async () => {
+    await recordSearch(storage, userId, request({ query: "cafe", industries: "Food & Beverage" }), results);
+    await recordSearch(storage, userId, request({ query: "cafe", industries: "Food & Beverage", sortBy: "askingPrice" }), results.slice().reverse());
+
+    const history = await storage.getSearchHistory(userId, { limit: 10, offset: 0 });
+    expect(history).toHaveLength(1);
+    expect(history[0].topResultIds[0]).toBe(results[results.length - 1].id);
+  });
+
+  it("keeps an earlier run of the same search once another search came between", async () => {
+    await recordSearch(storage, userId, request({ query: "cafe" }), results);
+    await recordSearch(storage, userId, request({ query: "hvac" }), results);
+    await recordSearch(storage, userId, request({ query: "cafe" }), results);
+
+    const history = await storage.getSearchHistory(userId, { limit: 10, offset: 0 });
+    expect(history.map(entry => entry.query)).toEqual(["cafe", "hvac", "cafe"]);
+  });
+});
+
+describe("toHistoryFilters", () => {
+  it("drops sorting, paging and unset filters", () => {
+    expect(toHistoryFilters(request({ query: "cafe", minPrice: "100000", sortBy: "newest", limit: 5, offset: 0 })))
+      .toEqual({ query: "cafe", filters: { minPrice: 100000 } });
+  });
+});
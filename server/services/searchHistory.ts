@@ -0,0 +1,44 @@
+// Search history: the first page of every search a signed-in user runs is recorded with its filters, result count
+// and top results. Re-sorting or re-running a search right after itself replaces that entry rather than adding a
+// duplicate; only the user's latest entry is compared, so the same search run again later gets a new entry.
+import { Business, BusinessSearchRequest, BusinessSearchQuery, SearchHistoryEntry } from "../../shared/schema.js";
+import { IStorage } from "../storage/IStorage.js";
+
+const TOP_RESULT_COUNT = 5;
+
+// The request minus sorting and paging, with unset filters dropped, so equal searches compare equal
+export function toHistoryFilters(request: BusinessSearchRequest): { query: string; filters: BusinessSearchQuery } {
+  const { query, sortBy, sortOrder, limit, offset, cursor, ...filters } = request;
+  const setFilters = Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as BusinessSearchQuery;
+  return { query: query ?? '', filters: setFilters };
+}
+
+const isFirstPage = (request: BusinessSearchRequest) => !request.cursor && request.offset === 0;
+
+// `results` is every match in the order the search shows them, not just the page returned, so the top results
+// don't depend on the page size. Returns the entry recorded, or null for a later page, which is part of a search
+// already recorded.
+export async function recordSearch(
+  storage: IStorage,
+  userId: string,
+  request: BusinessSearchRequest,
+  results: Business[]
+): Promise<SearchHistoryEntry | null> {
+  if (!isFirstPage(request)) return null;
+
+  const { query, filters } = toHistoryFilters(request);
+  // Only an identical immediately-previous entry is replaced; older entries for the same search are kept
+  const [latest] = await storage.getSearchHistory(userId, { limit: 1, offset: 0 });
+  if (latest && latest.query === query && JSON.stringify(latest.filters) === JSON.stringify(filters)) {
+    await storage.deleteSearchHistoryEntry(userId, latest.id);
+  }
+
+  return storage.addSearchHistory(userId, {
+    query,
+    filters,
+    resultsCount: results.length,
+    topResultIds: results.slice(0, TOP_RESULT_COUNT).map(business => business.id)
+  });
+}
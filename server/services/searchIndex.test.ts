@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { testListing } from "../test/listings.js";
+import { editDistance, highlightBusiness, SearchIndex, stem, tokenize } from "./searchIndex.js";
+
+const listings = [
+  testListing("bakery", { name: "Sunrise Bakery", description: "Neighborhood bakery with wholesale bread accounts", industry: "Food & Beverage" }),
+  testListing("bread-route", { name: "Valley Distribution", description: "Bread and bakery delivery route serving cafes", industry: "Distribution" }),
+  testListing("gym", { name: "Ironworks Fitness", description: "Strength training facility with 400 members", industry: "Health & Fitness", location: "Denver, CO" }),
+  testListing("saas", { name: "LedgerLoop", description: "Accounting software for property managers", industry: "Technology", location: "Austin, TX" }),
+  testListing("restaurant", { name: "Casa Verde Restaurant", description: "Family restaurant with full liquor license", industry: "Food & Beverage" })
+];
+
+// Plain BM25, without the synonym dictionary widening queries
+const bm25Index = () => new SearchIndex(listings, {});
+
+describe("tokenize", () => {
+  it("stems plurals and verb forms, and drops stop words", () => {
+    expect(stem("restaurants")).toBe("restaurant");
+    expect(stem("shipping")).toBe("ship");
+    expect(stem("bakeries")).toBe("bakery");
+    expect(tokenize("The Bakeries of Zürich")).toEqual(["bakery", "zurich"]);
+  });
+});
+
+describe("editDistance", () => {
+  it("counts adjacent transpositions as one edit and stops past the limit", () => {
+    expect(editDistance("resturant", "restaurant", 2)).toBe(1);
+    expect(editDistance("bakrey", "bakery", 2)).toBe(1);
+    expect(editDistance("gym", "software", 2)).toBe(3);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("ranks a name match above a description-only match", () => {
+    const { relevance } = bm25Index().search("bakery")!;
+    expect(Array.from(relevance.keys()).sort()).toEqual(["bakery", "bread-route"]);
+    expect(relevance.get("bakery")!).toBeGreaterThan(relevance.get("bread-route")!);
+  });
+
+  it("matches only listings containing every query term", () => {
+    const { relevance } = bm25Index().search("bakery delivery")!;
+    expect(Array.from(relevance.keys())).toEqual(["bread-route"]);
+  });
+
+  it("weights rare terms above common ones", () => {
+    const index = bm25Index();
+    const common = index.search("bread")!.relevance.get("bakery")!;
+    const rare = index.search("neighborhood")!.relevance.get("bakery")!;
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it("has no text filter for a query of only stop words", () => {
+    expect(new SearchIndex(listings).search("the business")).toBeUndefined();
+  });
+
+  it("keeps up with updated and removed listings", () => {
+    const index = bm25Index();
+    index.upsert({ ...listings[0], name: "Sunrise Patisserie", description: "French pastry shop" });
+    expect(index.search("bakery")!.relevance.has("bakery")).toBe(false);
+    expect(index.search("patisserie")!.relevance.has("bakery")).toBe(true);
+
+    index.remove("bread-route");
+    expect(index.search("bakery")!.relevance.size).toBe(0);
+    expect(index.size).toBe(listings.length - 1);
+  });
+
+  it("widens a query with its synonyms and reports them", () => {
+    const matches = new SearchIndex(listings).search("gym")!;
+    expect(Array.from(matches.relevance.keys())).toEqual(["gym"]);
+    expect(matches.expansion.synonyms).toEqual([{ term: "gym", expandedTo: ["health & fitness"] }]);
+    expect(matches.terms).toContain("fitness");
+  });
+
+  it("scores a synonym match below a literal one", () => {
+    const index = new SearchIndex(listings, { ledger: ["software"] });
+    const literal = index.search("software")!.relevance.get("saas")!;
+    const synonym = index.search("ledger")!.relevance.get("saas")!;
+    expect(synonym).toBeLessThan(literal);
+  });
+
+  it("corrects misspelled words that no listing contains", () => {
+    const matches = new SearchIndex(listings).search("resturant")!;
+    expect(Array.from(matches.relevance.keys())).toEqual(["restaurant"]);
+    expect(matches.expansion.corrections).toEqual([{ term: "resturant", correctedTo: ["restaurant"] }]);
+  });
+
+  it("doesn't correct short words or words some listing contains", () => {
+    const index = new SearchIndex(listings);
+    expect(index.search("gim")!.relevance.size).toBe(0);
+    expect(index.search("bread")!.expansion.corrections).toEqual([]);
+  });
+
+  it("finds the demo listings for the header search examples", () => {
+    const index = new SearchIndex(getAllDemoBusinesses());
+    for (const query of ["resturant", "saas", "gym"]) {
+      expect(index.search(query)!.relevance.size, query).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("highlightBusiness", () => {
+  it("marks the words whose stems matched, with a snippet of the description", () => {
+    const cloudSync = getAllDemoBusinesses().find(business => business.id === "demo-tech-1")!;
+    const highlights = highlightBusiness(cloudSync, new Set(tokenize("cloud service")))!;
+
+    expect(highlights.fields.name).toBeUndefined();
+    expect(highlights.fields.description!.map(range => cloudSync.description.slice(range.start, range.end))).toEqual(["cloud", "services"]);
+    expect(highlights.snippet!.ranges.map(range => highlights.snippet!.text.slice(range.start, range.end))).toEqual(["cloud", "services"]);
+  });
+
+  it("has nothing for a listing without the terms", () => {
+    expect(highlightBusiness(getAllDemoBusinesses()[0], new Set(["zebra"]))).toBeUndefined();
+  });
+});
@@ -0,0 +1,374 @@
+// In-process full-text index over business listings - BM25 relevance with per-field boosts,
+// widened with synonyms and typo-tolerant matching
+import { Business, BusinessHighlights, BusinessListing, HighlightField, HighlightRange, QueryExpansion } from "../../shared/schema.js";
+import { searchSynonyms } from "../data/searchSynonyms.js";
+
+type IndexedField = HighlightField;
+
+// A term in the listing name counts three times as much as the same term in its description
+export const fieldBoosts: Record<IndexedField, number> = {
+  name: 3,
+  industry: 2,
+  location: 1.5,
+  description: 1
+};
+
+const indexedFields = Object.keys(fieldBoosts) as IndexedField[];
+
+// BM25 defaults: k1 controls term-frequency saturation, b how strongly long fields are penalised
+const K1 = 1.2;
+const B = 0.75;
+
+const stopWords = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with', 'business', 'businesses'
+]);
+
+// Light suffix-stripping stemmer - folds plurals and -ing/-ed forms so "restaurants" finds "restaurant"
+export function stem(word: string): string {
+  let result = word;
+  if (result.length > 4 && result.endsWith('ies')) {
+    result = result.slice(0, -3) + 'y';
+  } else if (result.length > 4 && result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.length > 3 && result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  const suffix = result.match(/(ing|ed)$/);
+  if (suffix && result.length - suffix[0].length >= 3) {
+    result = result.slice(0, -suffix[0].length);
+    // "shipping" -> "shipp" -> "ship"
+    if (/([^aeiouslz])\1$/.test(result)) result = result.slice(0, -1);
+  }
+
+  // Drop a trailing "e" so "service" and "servicing" share a stem
+  if (result.length > 4 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+interface Token {
+  word: string;
+  stem: string;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .toLowerCase();
+}
+
+function analyze(text: string): Token[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !stopWords.has(word))
+    .map(word => ({ word, stem: stem(word) }));
+}
+
+export function tokenize(text: string): string[] {
+  return analyze(text).map(token => token.stem);
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions), giving up past maxDistance
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos allowed in a query word: none for short words, where one edit is usually a different word
+const allowedTypos = (term: string) => (term.length < 4 ? 0 : term.length < 7 ? 1 : 2);
+
+// Alternatives for a query term score below an exact match, so literal hits stay on top
+const SYNONYM_WEIGHT = 0.7;
+const TYPO_PENALTY = 0.2; // per edit
+
+interface CompiledSynonym {
+  phrase: string;
+  terms: string[];
+}
+
+function compileSynonyms(synonyms: Record<string, string[]>): Map<string, CompiledSynonym[]> {
+  const compiled = new Map<string, CompiledSynonym[]>();
+  Object.entries(synonyms).forEach(([key, phrases]) => {
+    const [keyStem] = tokenize(key);
+    if (!keyStem) return;
+    const entries = compiled.get(keyStem) || [];
+    phrases.forEach(phrase => {
+      const terms = tokenize(phrase);
+      if (terms.length > 0) entries.push({ phrase, terms });
+    });
+    compiled.set(keyStem, entries);
+  });
+  return compiled;
+}
+
+// One way of satisfying a query term: the term itself, a synonym phrase (all of its terms) or a typo correction
+interface Alternative {
+  terms: string[];
+  weight: number;
+  synonym?: string;
+  correction?: string;
+}
+
+export interface SearchMatches {
+  relevance: Map<string, number>; // by business ID
+  expansion: QueryExpansion;
+  terms: Set<string>; // stems that matched, including synonym and correction terms - what to highlight
+}
+
+interface IndexedDocument {
+  termFrequencies: Record<IndexedField, Map<string, number>>;
+  lengths: Record<IndexedField, number>;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> field -> businessId -> term frequency
+  private postings = new Map<string, Record<IndexedField, Map<string, number>>>();
+  private totalLengths: Record<IndexedField, number> = { name: 0, industry: 0, location: 0, description: 0 };
+  // A word seen in listings for each stem, so corrections can be reported as readable words
+  private surfaceForms = new Map<string, string>();
+  private synonyms: Map<string, CompiledSynonym[]>;
+
+  constructor(businesses: BusinessListing[] = [], synonyms: Record<string, string[]> = searchSynonyms) {
+    this.synonyms = compileSynonyms(synonyms);
+    businesses.forEach(business => this.upsert(business));
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // Adds a listing, or re-indexes it if it is already present
+  upsert(business: BusinessListing): void {
+    this.remove(business.id);
+
+    const document: IndexedDocument = {
+      termFrequencies: { name: new Map(), industry: new Map(), location: new Map(), description: new Map() },
+      lengths: { name: 0, industry: 0, location: 0, description: 0 }
+    };
+
+    for (const field of indexedFields) {
+      const tokens = analyze(business[field] || '');
+      document.lengths[field] = tokens.length;
+      this.totalLengths[field] += tokens.length;
+
+      const frequencies = document.termFrequencies[field];
+      tokens.forEach(({ word, stem }) => {
+        frequencies.set(stem, (frequencies.get(stem) || 0) + 1);
+        if (!this.surfaceForms.has(stem)) this.surfaceForms.set(stem, word);
+      });
+      frequencies.forEach((frequency, term) => this.postingsFor(term)[field].set(business.id, frequency));
+    }
+
+    this.documents.set(business.id, document);
+  }
+
+  remove(businessId: string): void {
+    const document = this.documents.get(businessId);
+    if (!document) return;
+
+    for (const field of indexedFields) {
+      this.totalLengths[field] -= document.lengths[field];
+      document.termFrequencies[field].forEach((_, term) => {
+        const postings = this.postings.get(term);
+        postings?.[field].delete(businessId);
+        if (postings && indexedFields.every(f => postings[f].size === 0)) {
+          this.postings.delete(term);
+        }
+      });
+    }
+    this.documents.delete(businessId);
+  }
+
+  // BM25 relevance for every listing matching all query terms, where a term also matches through its
+  // synonyms or, when it appears in no listing, through close spellings. Undefined when the query has
+  // no searchable terms, i.e. there is no text filter.
+  search(query: string | undefined): SearchMatches | undefined {
+    const tokens = analyze(query || '').filter((token, index, all) => all.findIndex(t => t.stem === token.stem) === index);
+    if (tokens.length === 0) return undefined;
+
+    const termMatches = tokens.map(token => this.matchTerm(token));
+
+    // Every term must match somewhere in the listing
+    const relevance = new Map(termMatches[0].scores);
+    termMatches.slice(1).forEach(({ scores }) => {
+      relevance.forEach((score, businessId) => {
+        const termScore = scores.get(businessId);
+        if (termScore === undefined) relevance.delete(businessId);
+        else relevance.set(businessId, score + termScore);
+      });
+    });
+
+    // Report only the alternatives that brought in at least one listing of the final result
+    const expansion: QueryExpansion = { synonyms: [], corrections: [] };
+    const terms = new Set<string>();
+    tokens.forEach((token, index) => {
+      const used = termMatches[index].alternatives.filter(({ matched }) =>
+        Array.from(matched).some(businessId => relevance.has(businessId))
+      );
+      used.forEach(({ alternative }) => alternative.terms.forEach(term => terms.add(term)));
+      const synonyms = used.flatMap(({ alternative }) => (alternative.synonym ? [alternative.synonym] : []));
+      const corrections = used.flatMap(({ alternative }) => (alternative.correction ? [alternative.correction] : []));
+      if (synonyms.length > 0) expansion.synonyms.push({ term: token.word, expandedTo: synonyms });
+      if (corrections.length > 0) expansion.corrections.push({ term: token.word, correctedTo: corrections });
+    });
+
+    return { relevance, expansion, terms };
+  }
+
+  // Scores a query term as the best of its alternatives for each listing
+  private matchTerm(token: Token): {
+    scores: Map<string, number>;
+    alternatives: { alternative: Alternative; matched: Set<string> }[];
+  } {
+    const scores = new Map<string, number>();
+    const alternatives = this.alternativesFor(token).map(alternative => {
+      const matched = this.scorePhrase(alternative.terms);
+      matched.forEach((score, businessId) => {
+        scores.set(businessId, Math.max(scores.get(businessId) || 0, score * alternative.weight));
+      });
+      return { alternative, matched: new Set(matched.keys()) };
+    });
+    return { scores, alternatives };
+  }
+
+  private alternativesFor({ word, stem }: Token): Alternative[] {
+    const alternatives: Alternative[] = [{ terms: [stem], weight: 1 }];
+    const synonyms = this.synonyms.get(stem) || [];
+    synonyms.forEach(({ phrase, terms }) => alternatives.push({ terms, weight: SYNONYM_WEIGHT, synonym: phrase }));
+
+    // Typo tolerance only for words no listing contains and no synonym covers
+    const maxTypos = allowedTypos(word);
+    if (this.postings.has(stem) || synonyms.length > 0 || maxTypos === 0) return alternatives;
+
+    const candidates = Array.from(this.postings.keys())
+      .map(term => ({ term, distance: editDistance(stem, term, maxTypos) }))
+      .filter(candidate => candidate.distance <= maxTypos);
+    const closest = Math.min(...candidates.map(candidate => candidate.distance));
+    candidates
+      .filter(candidate => candidate.distance === closest)
+      .slice(0, 3)
+      .forEach(({ term, distance }) => alternatives.push({
+        terms: [term],
+        weight: 1 - TYPO_PENALTY * distance,
+        correction: this.surfaceForms.get(term) || term
+      }));
+    return alternatives;
+  }
+
+  // Listings containing every term of a phrase, scored by the sum of their BM25 term scores
+  private scorePhrase(terms: string[]): Map<string, number> {
+    const scores = this.scoreTerm(terms[0]);
+    terms.slice(1).forEach(term => {
+      const termScores = this.scoreTerm(term);
+      scores.forEach((score, businessId) => {
+        const termScore = termScores.get(businessId);
+        if (termScore === undefined) scores.delete(businessId);
+        else scores.set(businessId, score + termScore);
+      });
+    });
+    return scores;
+  }
+
+  private scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const postings = this.postings.get(term);
+    if (!postings) return scores;
+
+    const matching = new Set<string>();
+    indexedFields.forEach(field => postings[field].forEach((_, businessId) => matching.add(businessId)));
+    const documentCount = this.documents.size;
+    const idf = Math.log(1 + (documentCount - matching.size + 0.5) / (matching.size + 0.5));
+
+    for (const field of indexedFields) {
+      const averageLength = this.totalLengths[field] / documentCount || 1;
+      postings[field].forEach((frequency, businessId) => {
+        const length = this.documents.get(businessId)!.lengths[field];
+        const saturated = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(businessId, (scores.get(businessId) || 0) + fieldBoosts[field] * idf * saturated);
+      });
+    }
+    return scores;
+  }
+
+  private postingsFor(term: string): Record<IndexedField, Map<string, number>> {
+    let postings = this.postings.get(term);
+    if (!postings) {
+      postings = { name: new Map(), industry: new Map(), location: new Map(), description: new Map() };
+      this.postings.set(term, postings);
+    }
+    return postings;
+  }
+}
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 40; // characters kept ahead of the first match
+
+// Words in the text whose stem is one of the matched terms, as character ranges into the original text
+function highlightRanges(text: string, terms: Set<string>): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = normalizeText(match[0]);
+    if (word.length > 1 && /^[a-z0-9]+$/.test(word) && !stopWords.has(word) && terms.has(stem(word))) {
+      ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return ranges;
+}
+
+// An excerpt of about SNIPPET_LENGTH characters starting shortly before the first match, cut at word boundaries
+function buildSnippet(text: string, ranges: HighlightRange[]): { text: string; ranges: HighlightRange[] } {
+  let start = Math.max(0, ranges[0].start - SNIPPET_CONTEXT);
+  if (start > 0) start = text.lastIndexOf(' ', start) + 1;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > ranges[0].end) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    ranges: ranges
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length }))
+  };
+}
+
+// Where the matched terms of a search appear in a listing; undefined when none of its fields contain them
+export function highlightBusiness(business: Business, terms: Set<string>): BusinessHighlights | undefined {
+  const fields: BusinessHighlights['fields'] = {};
+  for (const field of indexedFields) {
+    const ranges = highlightRanges(business[field] || '', terms);
+    if (ranges.length > 0) fields[field] = ranges;
+  }
+  if (Object.keys(fields).length === 0) return undefined;
+
+  return {
+    fields,
+    snippet: fields.description ? buildSnippet(business.description, fields.description) : undefined
+  };
+}
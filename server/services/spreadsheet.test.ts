@@ -0,0 +1,155 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { MAX_IMPORT_COLUMNS, MAX_IMPORT_ROWS, MAX_XLSX_PART_BYTES, readCsvGrid, readSpreadsheet, SpreadsheetError } from "./spreadsheet.js";
+
+const xlsx = readFileSync(new URL("./fixtures/listings.xlsx", import.meta.url));
+
+// A copy of the workbook whose zip directory declares a different uncompressed size for one part
+function withDeclaredSize(data: Buffer, partName: string, size: number): Buffer {
+  const copy = Buffer.from(data);
+  for (let offset = 0; offset < copy.length - 46; offset++) {
+    if (copy.readUInt32LE(offset) !== 0x02014b50) continue;
+    const nameLength = copy.readUInt16LE(offset + 28);
+    if (copy.toString("utf8", offset + 46, offset + 46 + nameLength) === partName) {
+      copy.writeUInt32LE(size, offset + 24);
+      return copy;
+    }
+  }
+  throw new Error(`${partName} isn't in the workbook`);
+}
+
+// A workbook whose parts are stored uncompressed, with `rows` as the first worksheet's sheetData
+function storedWorkbook(rows: string): Buffer {
+  const parts: Record<string, string> = {
+    "xl/workbook.xml": '<workbook><sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${rows}</sheetData></worksheet>`
+  };
+  const local: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(parts)) {
+    const nameBytes = Buffer.from(name);
+    const content = Buffer.from(text);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt32LE(content.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt32LE(content.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    local.push(header, nameBytes, content);
+    directory.push(entry, nameBytes);
+    offset += header.length + nameBytes.length + content.length;
+  }
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(parts).length, 8);
+  end.writeUInt16LE(Object.keys(parts).length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, ...directory, end]);
+}
+
+const endOfDirectory = (data: Buffer) => data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+
+describe("readSpreadsheet", () => {
+  it("reads the first worksheet of an XLSX workbook", () => {
+    const table = readSpreadsheet(xlsx, "listings.xlsx");
+    expect(table.format).toBe("xlsx");
+    expect(table.columns).toEqual(["Business Name", "Industry", "Location", "Asking Price", "Cash Flow", "Year Established", "Column G"]);
+    expect(table.rows[0]).toEqual(["Harbor Light Coffee Roasters", "Food & Beverage", "Portland, OR", "850000", "265000.5", "2011", ""]);
+  });
+
+  it("fills empty and left-out cells, skipping blank rows but not their numbers", () => {
+    const table = readSpreadsheet(xlsx, "listings.xlsx");
+    expect(table.rows.slice(1)).toEqual([
+      ["Summit Ridge HVAC", "Construction", "", "", "", "1998", ""],
+      ["Ironworks Fitness", "Health & Fitness", "Denver, CO", "575000", "", "", "TRUE"]
+    ]);
+    expect(table.rowNumbers).toEqual([2, 3, 5]);
+  });
+
+  it("joins rich-text runs of a shared string and leaves out phonetic hints", () => {
+    expect(readSpreadsheet(xlsx, "listings.xlsx").rows[2][0]).toBe("Ironworks Fitness");
+  });
+
+  it("reads a CSV file, whatever its name", () => {
+    const table = readSpreadsheet(Buffer.from("\uFEFFName;Price\r\nBakery;450000\r\n"), "export.txt");
+    expect(table).toEqual({ format: "csv", columns: ["Name", "Price"], rows: [["Bakery", "450000"]], rowNumbers: [2] });
+  });
+
+  it("names a damaged or legacy workbook", () => {
+    expect(() => readSpreadsheet(Buffer.from("Name,Price"), "listings.xlsx")).toThrow("listings.xlsx is not a valid XLSX file");
+    expect(() => readSpreadsheet(Buffer.from("Name,Price"), "listings.xls")).toThrow(/Legacy \.xls/);
+    expect(() => readSpreadsheet(xlsx.subarray(0, xlsx.length - 30), "listings.xlsx")).toThrow(SpreadsheetError);
+  });
+
+  it("refuses a part that declares more than the size limit", () => {
+    const oversized = withDeclaredSize(xlsx, "xl/worksheets/sheet1.xml", MAX_XLSX_PART_BYTES + 1);
+    expect(() => readSpreadsheet(oversized, "listings.xlsx")).toThrow(/too large to import \(xl\/worksheets\/sheet1.xml/);
+  });
+
+  it("stops inflating a part at its declared size", () => {
+    const understated = withDeclaredSize(xlsx, "xl/worksheets/sheet1.xml", 64);
+    expect(() => readSpreadsheet(understated, "listings.xlsx")).toThrow("larger than its zip entry declares");
+  });
+
+  it("reads a workbook with stored parts", () => {
+    const workbook = storedWorkbook('<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c></row><row r="2"><c r="A2"><v>42</v></c></row>');
+    expect(readSpreadsheet(workbook, "listings.xlsx").rows).toEqual([["42"]]);
+  });
+
+  it("rejects rows and columns past the import limits before building the grid", () => {
+    const farRow = storedWorkbook(`<row r="1"><c r="A1"><v>1</v></c></row><row r="${MAX_IMPORT_ROWS + 2}"><c><v>2</v></c></row>`);
+    expect(() => readSpreadsheet(farRow, "listings.xlsx")).toThrow(`more than ${MAX_IMPORT_ROWS} rows`);
+    expect(() => readSpreadsheet(storedWorkbook('<row r="999999999"><c><v>1</v></c></row>'), "listings.xlsx")).toThrow(SpreadsheetError);
+    expect(() => readSpreadsheet(storedWorkbook('<row r="1"><c r="XFD1"><v>1</v></c></row>'), "listings.xlsx"))
+      .toThrow(`more than ${MAX_IMPORT_COLUMNS} columns`);
+  });
+
+  it("reports zip offsets pointing outside the file as a damaged workbook", () => {
+    const directoryPastEnd = Buffer.from(xlsx);
+    directoryPastEnd.writeUInt32LE(xlsx.length + 1000, endOfDirectory(directoryPastEnd) + 16);
+    expect(() => readSpreadsheet(directoryPastEnd, "listings.xlsx")).toThrow("The XLSX file is damaged");
+
+    const entriesPastEnd = Buffer.from(xlsx);
+    entriesPastEnd.writeUInt16LE(0xffff, endOfDirectory(entriesPastEnd) + 10);
+    expect(() => readSpreadsheet(entriesPastEnd, "listings.xlsx")).toThrow(SpreadsheetError);
+  });
+
+  it("rejects a CSV file with more rows than one import takes", () => {
+    const csv = "Name\n" + "Bakery\n".repeat(200_000);
+    expect(() => readSpreadsheet(Buffer.from(csv), "listings.csv")).toThrow(`more than ${MAX_IMPORT_ROWS} rows`);
+    expect(readSpreadsheet(Buffer.from("Name\n" + "Bakery\n".repeat(MAX_IMPORT_ROWS)), "listings.csv").rows).toHaveLength(MAX_IMPORT_ROWS);
+  });
+
+  it("rejects a CSV file with more columns than one import takes", () => {
+    expect(() => readCsvGrid(",".repeat(MAX_IMPORT_COLUMNS))).toThrow(`more than ${MAX_IMPORT_COLUMNS} columns`);
+  });
+});
+
+describe("readCsvGrid", () => {
+  it("keeps delimiters, quotes and line breaks inside quoted values", () => {
+    const csv = 'Name,Description,Price\n"Smith, Jones & Co","Two locations:\nNorth and ""Old Town""",450000\nCafe,,\n';
+    expect(readCsvGrid(csv)).toEqual([
+      ["Name", "Description", "Price"],
+      ["Smith, Jones & Co", 'Two locations:\nNorth and "Old Town"', "450000"],
+      ["Cafe", "", ""]
+    ]);
+  });
+
+  it("detects semicolon and tab separators from the header", () => {
+    expect(readCsvGrid("a;b\n1,5;2")).toEqual([["a", "b"], ["1,5", "2"]]);
+    expect(readCsvGrid("a\tb\r\n1\t2")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("rejects a file ending inside a quoted value", () => {
+    expect(() => readCsvGrid('Name\n"Unclosed')).toThrow("The file ends inside a quoted value");
+  });
+});
@@ -0,0 +1,279 @@
+// Spreadsheet reading for listing imports - CSV (RFC 4180, comma/semicolon/tab separated) and the first worksheet
+// of an XLSX workbook, both returned as a header row and string cells
+import { inflateRawSync } from "zlib";
+import { HtmlElement, parseHtml, selectAll, selectOne, textOf } from "../ingestion/html.js";
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface SpreadsheetTable {
+  format: SpreadsheetFormat;
+  columns: string[];
+  // Data rows, one cell per column ("" when empty); blank rows are dropped but keep their place in rowNumbers
+  rows: string[][];
+  // Each row's line in the sheet as a spreadsheet app numbers it (the header is row 1)
+  rowNumbers: number[];
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_COLUMNS = 256;
+// Sheets are read no further than the header and MAX_IMPORT_ROWS rows, so an oversized file is turned away before its grid is built
+const MAX_SHEET_ROWS = MAX_IMPORT_ROWS + 1;
+// Most any one part of an XLSX file may inflate to, whatever size its zip entry declares
+export const MAX_XLSX_PART_BYTES = 50 * 1024 * 1024;
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+const tooManyRows = () =>
+  new SpreadsheetError(`The file has more than ${MAX_IMPORT_ROWS} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+const tooManyColumns = () => new SpreadsheetError(`The file has more than ${MAX_IMPORT_COLUMNS} columns`);
+
+export function detectFormat(data: Buffer, fileName: string): SpreadsheetFormat {
+  if (data.subarray(0, 4).equals(ZIP_SIGNATURE)) return 'xlsx';
+  if (/\.xlsx$/i.test(fileName)) throw new SpreadsheetError(`${fileName} is not a valid XLSX file`);
+  if (/\.xls$/i.test(fileName)) throw new SpreadsheetError('Legacy .xls workbooks are not supported - save the file as .xlsx or .csv');
+  return 'csv';
+}
+
+export function readSpreadsheet(data: Buffer, fileName: string): SpreadsheetTable {
+  const format = detectFormat(data, fileName);
+  const grid = format === 'xlsx' ? readXlsxGrid(data) : readCsvGrid(data.toString('utf8'));
+  return toTable(format, grid);
+}
+
+// First non-blank row is the header; columns without a heading get their spreadsheet letter
+function toTable(format: SpreadsheetFormat, grid: string[][]): SpreadsheetTable {
+  const isBlank = (row: string[]) => row.every(cell => cell.trim() === '');
+  const headerIndex = grid.findIndex(row => !isBlank(row));
+  if (headerIndex === -1) throw new SpreadsheetError('The file is empty');
+
+  const header = grid[headerIndex];
+  const width = grid.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const columns = Array.from({ length: width }, (_, index) => header[index]?.trim() || `Column ${columnLetters(index)}`);
+  const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (duplicate) throw new SpreadsheetError(`Column "${duplicate}" appears more than once in the header row`);
+
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  grid.slice(headerIndex + 1).forEach((row, index) => {
+    if (isBlank(row)) return;
+    rows.push(columns.map((_, column) => (row[column] ?? '').trim()));
+    rowNumbers.push(headerIndex + index + 2);
+  });
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new SpreadsheetError(`The file has ${rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+  }
+  return { format, columns, rows, rowNumbers };
+}
+
+// CSV
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+export function readCsvGrid(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const grid: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      if (row.length >= MAX_IMPORT_COLUMNS) throw tooManyColumns();
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      grid.push(row);
+      if (grid.length > MAX_SHEET_ROWS) throw tooManyRows();
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new SpreadsheetError('The file ends inside a quoted value');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    grid.push(row);
+    if (grid.length > MAX_SHEET_ROWS) throw tooManyRows();
+  }
+  return grid;
+}
+
+// XLSX - a zip of XML parts; only what's needed to read cell values is understood
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Offsets and lengths come from the file itself, so every read is checked against its size
+function readUInt(data: Buffer, offset: number, bytes: 2 | 4): number {
+  if (!Number.isInteger(offset) || offset < 0 || offset + bytes > data.length) {
+    throw new SpreadsheetError('The XLSX file is damaged (zip offset out of range)');
+  }
+  return bytes === 2 ? data.readUInt16LE(offset) : data.readUInt32LE(offset);
+}
+
+function readZipEntries(data: Buffer): Map<string, ZipEntry> {
+  // The end of central directory record is in the last 64KB (its comment is at most 65535 bytes)
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 65557); offset--) {
+    if (readUInt(data, offset, 4) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new SpreadsheetError('The XLSX file is damaged (no zip directory)');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = readUInt(data, end + 10, 2);
+  let offset = readUInt(data, end + 16, 4);
+  for (let i = 0; i < count; i++) {
+    if (readUInt(data, offset, 4) !== 0x02014b50) throw new SpreadsheetError('The XLSX file is damaged (bad zip directory)');
+    const nameLength = readUInt(data, offset + 28, 2);
+    const extraLength = readUInt(data, offset + 30, 2);
+    const commentLength = readUInt(data, offset + 32, 2);
+    if (offset + 46 + nameLength > data.length) throw new SpreadsheetError('The XLSX file is damaged (bad zip directory)');
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      name,
+      method: readUInt(data, offset + 10, 2),
+      compressedSize: readUInt(data, offset + 20, 4),
+      uncompressedSize: readUInt(data, offset + 24, 4),
+      localHeaderOffset: readUInt(data, offset + 42, 4)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readZipEntry(data: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset;
+  if (readUInt(data, header, 4) !== 0x04034b50) throw new SpreadsheetError(`The XLSX file is damaged (${entry.name})`);
+  const start = header + 30 + readUInt(data, header + 26, 2) + readUInt(data, header + 28, 2);
+  if (start + entry.compressedSize > data.length) throw new SpreadsheetError(`The XLSX file is damaged (${entry.name} is cut short)`);
+  const content = data.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) return content;
+  if (entry.method !== 8) throw new SpreadsheetError(`The XLSX file uses an unsupported compression method (${entry.method})`);
+
+  // Inflating stops at the declared size, so a part that claims to be small can't expand without bound
+  if (entry.uncompressedSize > MAX_XLSX_PART_BYTES) {
+    throw new SpreadsheetError(`The XLSX file is too large to import (${entry.name} expands past ${MAX_XLSX_PART_BYTES / 1024 / 1024}MB)`);
+  }
+  try {
+    return inflateRawSync(content, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new SpreadsheetError(`The XLSX file is damaged (${entry.name} is larger than its zip entry declares)`);
+    }
+    throw new SpreadsheetError(`The XLSX file is damaged (${entry.name})`);
+  }
+}
+
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+const columnIndex = (reference: string) =>
+  reference.replace(/\d+$/, '').toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Rich-text strings are split into runs, spaces at their edges included; phonetic hints (<rPh>) aren't part of the value
+const stringItemText = (item: HtmlElement) =>
+  selectAll(item, 't')
+    .filter(t => t.parent?.tag !== 'rph')
+    .map(t => t.children.filter(child => typeof child === 'string').join(''))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Anything the reader trips over in a malformed workbook is reported as a damaged file, not a server error
+export function readXlsxGrid(data: Buffer): string[][] {
+  try {
+    return readWorkbookGrid(data);
+  } catch (error) {
+    if (error instanceof SpreadsheetError) throw error;
+    throw new SpreadsheetError('The XLSX file is damaged');
+  }
+}
+
+function readWorkbookGrid(data: Buffer): string[][] {
+  const entries = readZipEntries(data);
+  // The HTML reader is lenient enough for these XML parts once namespace prefixes (<x:row>) are dropped;
+  // tag and attribute names come back lower-cased
+  const part = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? parseHtml(readZipEntry(data, entry).toString('utf8').replace(/<(\/?)[A-Za-z][\w.-]*:/g, '<$1')) : null;
+  };
+
+  const workbook = part('xl/workbook.xml');
+  const firstSheet = workbook && selectOne(workbook, 'sheet');
+  if (!firstSheet) throw new SpreadsheetError('The XLSX file has no worksheets');
+  const relationships = part('xl/_rels/workbook.xml.rels');
+  const relationship = relationships && selectAll(relationships, 'relationship').find(rel => rel.attrs.id === firstSheet.attrs['r:id']);
+  const target = relationship?.attrs.target ?? 'worksheets/sheet1.xml';
+  const sheet = part(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new SpreadsheetError('The XLSX file\'s first worksheet is missing');
+
+  const sharedStringsPart = part('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsPart ? selectAll(sharedStringsPart, 'si').map(stringItemText) : [];
+
+  const grid: string[][] = [];
+  selectAll(sheet, 'sheetdata row').forEach(row => {
+    const rowIndex = Number(row.attrs.r ?? grid.length + 1) - 1;
+    if (!Number.isInteger(rowIndex) || rowIndex < 0) throw new SpreadsheetError(`The XLSX file is damaged (row "${row.attrs.r}")`);
+    if (rowIndex >= MAX_SHEET_ROWS) throw tooManyRows();
+    const cells: string[] = [];
+    selectAll(row, 'c').forEach((cell, position) => {
+      const column = cell.attrs.r ? columnIndex(cell.attrs.r) : position;
+      if (!(column >= 0)) throw new SpreadsheetError(`The XLSX file is damaged (cell "${cell.attrs.r}")`);
+      if (column >= MAX_IMPORT_COLUMNS) throw tooManyColumns();
+      const value = textOf(selectOne(cell, 'v'));
+      switch (cell.attrs.t) {
+        case 's':
+          cells[column] = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          cells[column] = selectOne(cell, 'is') ? stringItemText(selectOne(cell, 'is')!) : '';
+          break;
+        case 'b':
+          cells[column] = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          cells[column] = value;
+      }
+    });
+    grid[rowIndex] = Array.from(cells, cell => cell ?? '');
+  });
+  return Array.from(grid, row => row ?? []);
+}
@@ -0,0 +1,15 @@
+// Request validation errors - every endpoint reports zod issues the same way, as "path: message" joined by "; "
+import { Response } from 'express';
+import { ZodError } from 'zod';
+
+// Issues without a path are about the input as a whole
+export function validationMessage(error: ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; ');
+}
+
+// Responds 400 with the issues, after a description of what was invalid when one is given:
+// { error: "Invalid saved search - name: Required" }
+export function sendValidationError(res: Response, error: ZodError, description?: string): void {
+  const message = validationMessage(error);
+  res.status(400).json({ error: description ? `${description} - ${message}` : message });
+}
@@ -0,0 +1,145 @@
+// Storage contract shared by every persistence backend (memory, SQLite, ...)
+import { Business, BusinessListing, BusinessScore, BusinessSearchQuery, QueryExpansion, SearchFacets, User, UserPreferences, SearchHistoryEntry, SavedSearch, SavedSearchInput, SavedSearchUpdate, UserNotification, NotificationsQuery, DigestFrequency, DigestSettings, SearchHistoryQuery, IngestionRun, ImportBatch, DuplicateGroup, ListingChange, TrackedListingField } from "../../shared/schema.js";
+
+export interface BusinessSearchResult {
+  businesses: Business[];
+  totalFound: number;
+  // BM25 text relevance by business ID; only present when the search had a text query
+  relevance?: Map<string, number>;
+  // Synonyms and typo corrections applied to the text query
+  queryExpansion?: QueryExpansion;
+  // Stems the text query matched, for highlighting
+  matchedTerms?: Set<string>;
+  facets: SearchFacets;
+}
+
+export interface RankedBusinessResult {
+  business: Business;
+  score: BusinessScore;
+}
+
+// Server-only view of a user, including credentials that must never leave the API
+export interface UserRecord extends User {
+  passwordHash: string | null;
+}
+
+export interface UserInsert {
+  username: string;
+  email: string;
+  passwordHash: string;
+}
+
+export interface SavedSearchRecord extends SavedSearch {
+  userId: string;
+}
+
+export interface NotificationInsert extends Omit<UserNotification, 'id' | 'readAt' | 'createdAt'> {
+  userId: string;
+}
+
+// A user who gets the email digest, with where to send it
+export interface DigestSubscriber extends DigestSettings {
+  userId: string;
+  email: string;
+  username: string;
+}
+
+// A listing an import wrote, with what to roll it back to; previous is null when the import created it
+export interface ImportBatchItem {
+  businessId: string;
+  previous: BusinessListing | null;
+}
+
+export type ListingChangeInsert = Omit<ListingChange, 'id'>;
+
+export interface IStorage {
+  // Business operations
+  getAllBusinesses(): Promise<Business[]>;
+  // When userId is given, results carry that user's aiScore (scored against their own preferences)
+  getBusinessById(id: string, userId?: string): Promise<Business | null>;
+  searchBusinesses(filters?: BusinessSearchQuery, userId?: string): Promise<BusinessSearchResult>;
+  // Inserts or updates listings, keeping the search index in step and dropping their cached scores
+  upsertBusinesses(businesses: BusinessListing[]): Promise<void>;
+  // Removes listings with their cached scores and notifications; returns how many existed
+  deleteBusinesses(ids: string[]): Promise<number>;
+
+  // User operations
+  getUserById(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<UserRecord | null>;
+  getUserByUsername(username: string): Promise<UserRecord | null>;
+  createUser(user: UserInsert): Promise<User>;
+  // Bumps the user's preferences version, invalidating their cached scores
+  updateUserPreferences(userId: string, preferences: UserPreferences): Promise<void>;
+
+  // Business scoring - cached per (userId, businessId, preferences version); null without preferences
+  getBusinessScore(userId: string, businessId: string): Promise<BusinessScore | null>;
+  rankBusiness(userId: string, businessId: string): Promise<RankedBusinessResult | null>;
+  rankMultipleBusinesses(userId: string, businessIds: string[]): Promise<RankedBusinessResult[]>;
+
+  // Search history - per user, newest first; adding beyond SEARCH_HISTORY_MAX_ENTRIES drops the oldest
+  getSearchHistory(userId: string, page: SearchHistoryQuery): Promise<SearchHistoryEntry[]>;
+  countSearchHistory(userId: string): Promise<number>;
+  addSearchHistory(userId: string, entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>): Promise<SearchHistoryEntry>;
+  // False when the user has no history entry with that ID
+  deleteSearchHistoryEntry(userId: string, id: string): Promise<boolean>;
+  // Returns how many entries were deleted
+  clearSearchHistory(userId: string): Promise<number>;
+
+  // Saved searches - scoped to their owner; lookups by another user's ID find nothing
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  getSavedSearch(userId: string, id: string): Promise<SavedSearch | null>;
+  createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch>;
+  updateSavedSearch(userId: string, id: string, update: SavedSearchUpdate): Promise<SavedSearch | null>;
+  // False when the user has no saved search with that ID
+  deleteSavedSearch(userId: string, id: string): Promise<boolean>;
+  // Every user's saved searches that have alerts on, for the listing alert matcher
+  getAlertingSavedSearches(): Promise<SavedSearchRecord[]>;
+
+  // Notifications - newest first; a (saved search, business) pair is only ever notified once
+  // Returns how many were added; duplicates of earlier notifications are skipped
+  addNotifications(notifications: NotificationInsert[]): Promise<number>;
+  getNotifications(userId: string, query: NotificationsQuery): Promise<UserNotification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  setNotificationRead(userId: string, id: string, read: boolean): Promise<UserNotification | null>;
+  // Returns how many were unread
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  // Email digest - users without settings get the defaults (frequency "off", never sent)
+  getDigestSettings(userId: string): Promise<DigestSettings>;
+  updateDigestSettings(userId: string, frequency: DigestFrequency): Promise<DigestSettings>;
+  // Every user whose frequency isn't "off"
+  getDigestSubscribers(): Promise<DigestSubscriber[]>;
+  recordDigestSent(userId: string, sentAt: Date): Promise<void>;
+
+  // Ingestion runs - saved when a run starts and again as it finishes (same ID); listed newest first
+  saveIngestionRun(run: IngestionRun): Promise<void>;
+  getIngestionRuns(limit: number, source?: string): Promise<IngestionRun[]>;
+
+  // Listing imports - batches newest first
+  createImportBatch(batch: ImportBatch, items: ImportBatchItem[]): Promise<void>;
+  getImportBatches(limit: number): Promise<ImportBatch[]>;
+  getImportBatch(id: string): Promise<ImportBatch | null>;
+  getImportBatchItems(id: string): Promise<ImportBatchItem[]>;
+  markImportBatchRolledBack(id: string, rolledBackAt: Date): Promise<ImportBatch | null>;
+
+  // Duplicate listings - groups are saved whole (insert or replace)
+  getDuplicateGroups(): Promise<DuplicateGroup[]>;
+  getDuplicateGroup(id: string): Promise<DuplicateGroup | null>;
+  saveDuplicateGroup(group: DuplicateGroup): Promise<void>;
+  deleteDuplicateGroup(id: string): Promise<boolean>;
+  // Listings split apart by an admin, as [lower ID, higher ID]
+  getDistinctListingPairs(): Promise<[string, string][]>;
+  addDistinctListingPairs(pairs: [string, string][], createdBy: string): Promise<void>;
+
+  // Listing history - changes to tracked fields, recorded as listings are upserted; they go with the listing
+  addListingChanges(changes: ListingChangeInsert[]): Promise<void>;
+  // Oldest first
+  getListingChanges(businessId: string): Promise<ListingChange[]>;
+  // The latest change to the field, for each of the listings that has one
+  getLatestListingChanges(businessIds: string[], field: TrackedListingField): Promise<ListingChange[]>;
+
+  // Sessions (backing store for express-session)
+  getSession(sid: string): Promise<Record<string, unknown> | null>;
+  setSession(sid: string, sess: Record<string, unknown>, expiresAt: Date): Promise<void>;
+  deleteSession(sid: string): Promise<void>;
+}
@@ -0,0 +1,142 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { BusinessListing } from "../../shared/schema.js";
+import { storageDrivers, TestStorage } from "../test/storageDrivers.js";
+import { testListing } from "../test/listings.js";
+import { DemoMemoryStorage } from "./memoryStorage.js";
+import { duplicateDetection, listingChangeTracking, ListingMutationHook, savedSearchAlerts, withListingHooks } from "./index.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("withListingHooks", () => {
+  // Records each step it's called for, in order
+  const recordingHook = (name: string, calls: string[]): ListingMutationHook<string> => ({
+    name,
+    beforeUpsert: async () => {
+      calls.push(`${name}:before`);
+      return `${name}-state`;
+    },
+    afterUpsert: async (_storage, _listings, before) => {
+      calls.push(`${name}:after:${before}`);
+    },
+    afterDelete: async (_storage, ids) => {
+      calls.push(`${name}:delete:${ids.join(",")}`);
+    }
+  });
+
+  it("runs every hook's before step, the write, then every after step, in order", async () => {
+    const calls: string[] = [];
+    const base = new DemoMemoryStorage();
+    const upsert = vi.spyOn(base, "upsertBusinesses").mockImplementation(async () => {
+      calls.push("write");
+    });
+    const storage = withListingHooks(base, [recordingHook("first", calls), recordingHook("second", calls)]);
+
+    await storage.upsertBusinesses([testListing("hooked")]);
+
+    expect(upsert).toHaveBeenCalledOnce();
+    expect(calls).toEqual(["first:before", "second:before", "write", "first:after:first-state", "second:after:second-state"]);
+  });
+
+  it("runs the delete hooks only when something was deleted", async () => {
+    const calls: string[] = [];
+    const storage = withListingHooks(new DemoMemoryStorage(), [recordingHook("hook", calls)]);
+
+    expect(await storage.deleteBusinesses(["no-such-listing"])).toBe(0);
+    expect(await storage.deleteBusinesses(["demo-tech-1"])).toBe(1);
+    expect(calls).toEqual(["hook:delete:demo-tech-1"]);
+  });
+
+  it("logs a failing hook and carries on with the others", async () => {
+    const calls: string[] = [];
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failing: ListingMutationHook = {
+      name: "Failing hook",
+      afterUpsert: async () => {
+        throw new Error("boom");
+      }
+    };
+    const storage = withListingHooks(new DemoMemoryStorage(), [failing, recordingHook("next", calls)]);
+
+    await storage.upsertBusinesses([testListing("hooked")]);
+
+    expect(await storage.getBusinessById("hooked")).not.toBeNull();
+    expect(calls).toEqual(["next:before", "next:after:next-state"]);
+    expect(error).toHaveBeenCalledWith("Failing hook failed:", expect.any(Error));
+  });
+
+  it("hands afterUpsert nothing when beforeUpsert failed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const afterUpsert = vi.fn(async () => {});
+    const storage = withListingHooks(new DemoMemoryStorage(), [{
+      name: "Reading hook",
+      beforeUpsert: async () => {
+        throw new Error("unreadable");
+      },
+      afterUpsert
+    }]);
+
+    await storage.upsertBusinesses([testListing("hooked")]);
+    expect(afterUpsert).toHaveBeenCalledWith(expect.anything(), [expect.objectContaining({ id: "hooked" })], undefined);
+  });
+});
+
+describe.each(storageDrivers)("$name listing hooks", ({ open }) => {
+  let store: TestStorage;
+  let storage: ReturnType<typeof withListingHooks>;
+
+  beforeAll(() => {
+    store = open();
+    storage = withListingHooks(store.storage, [listingChangeTracking, duplicateDetection, savedSearchAlerts]);
+  });
+  afterAll(() => store.close());
+
+  // A listing and its copy on another marketplace, in a place of their own so Postgres runs don't see earlier ones
+  const duplicatePair = (): BusinessListing[] => {
+    const suffix = crypto.randomUUID().slice(0, 8);
+    const location = `Hookton ${suffix}, OR`;
+    return [
+      testListing(`hooks-a-${suffix}`, { location, createdAt: new Date("2024-01-01T00:00:00Z") }),
+      testListing(`hooks-b-${suffix}`, { location, name: "Harbor Coffee Roasters LLC", sourceSite: "Other Marketplace" })
+    ];
+  };
+  const groupOf = async (id: string) =>
+    (await storage.getDuplicateGroups()).find(group => [group.canonicalId, ...group.members.map(member => member.businessId)].includes(id));
+
+  it("records changes and groups duplicates as listings are upserted", async () => {
+    const [first, second] = duplicatePair();
+    await storage.upsertBusinesses([first, second]);
+    await storage.upsertBusinesses([{ ...first, askingPrice: 600000 }]);
+
+    expect((await storage.getListingChanges(first.id)).map(change => [change.field, change.newValue])).toEqual([["askingPrice", 600000]]);
+    expect(await groupOf(first.id)).toMatchObject({ canonicalId: first.id, members: [{ businessId: second.id }] });
+  });
+
+  it("takes deleted listings out of their duplicate group and drops their history", async () => {
+    const [first, second] = duplicatePair();
+    await storage.upsertBusinesses([first, second]);
+    await storage.upsertBusinesses([{ ...second, askingPrice: 600000 }]);
+    expect(await groupOf(first.id)).toBeDefined();
+
+    await storage.deleteBusinesses([first.id]);
+
+    expect(await groupOf(second.id)).toBeUndefined();
+    expect(await storage.getListingChanges(first.id)).toEqual([]);
+    const { businesses } = await storage.searchBusinesses({ location: second.location });
+    expect(businesses.map(business => business.id)).toEqual([second.id]);
+  });
+
+  it("keeps a group of three going when its canonical listing is deleted", async () => {
+    const [first, second] = duplicatePair();
+    const third = { ...second, id: `${second.id}-3`, sourceSite: "Third Marketplace", createdAt: new Date("2024-02-01T00:00:00Z") };
+    await storage.upsertBusinesses([first, second, third]);
+
+    await storage.deleteBusinesses([first.id]);
+
+    const group = await groupOf(second.id);
+    // Shown as the oldest listing left
+    expect(group?.canonicalId).toBe(second.id);
+    expect(group?.members.map(member => member.businessId)).toEqual([third.id]);
+  });
+});
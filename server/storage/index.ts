@@ -0,0 +1,130 @@
+// Storage selection - STORAGE_DRIVER picks the backend at boot (memory by default)
+import { DemoMemoryStorage } from "./memoryStorage.js";
+import { SqliteStorage } from "./sqliteStorage.js";
+import { PostgresStorage } from "./postgresStorage.js";
+import { IStorage } from "./IStorage.js";
+import { Business, BusinessListing } from "../../shared/schema.js";
+import { notifySavedSearchMatches } from "../services/listingAlerts.js";
+import { detectDuplicates, removeFromDuplicateGroups } from "../services/dedupe.js";
+import { diffListings, storedVersions } from "../services/listingHistory.js";
+
+export type StorageDriver = 'memory' | 'sqlite' | 'postgres';
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  sqlitePath: string;
+  databaseUrl?: string;
+}
+
+export function getStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const driver = (env.STORAGE_DRIVER || 'memory').toLowerCase();
+  if (driver !== 'memory' && driver !== 'sqlite' && driver !== 'postgres') {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "memory", "sqlite" or "postgres")`);
+  }
+  if (driver === 'postgres' && !env.DATABASE_URL) {
+    throw new Error('STORAGE_DRIVER=postgres requires DATABASE_URL');
+  }
+
+  return {
+    driver,
+    sqlitePath: env.SQLITE_PATH || 'data/bizsearch.db',
+    databaseUrl: env.DATABASE_URL
+  };
+}
+
+export function createStorage(config: StorageConfig = getStorageConfig()): IStorage {
+  switch (config.driver) {
+    case 'sqlite':
+      return new SqliteStorage(config.sqlitePath);
+    case 'postgres':
+      return new PostgresStorage({ connectionString: config.databaseUrl! });
+    case 'memory':
+    default:
+      return new DemoMemoryStorage();
+  }
+}
+
+// Work that follows every listing write, whichever backend is underneath. The listings have already been written when a
+// hook runs, so a failing hook is logged rather than failing the write.
+export interface ListingMutationHook<Before = unknown> {
+  // Names the hook in the log when it fails
+  readonly name: string;
+  // Reads what the hook needs from the listings as stored before the upsert; handed to afterUpsert
+  beforeUpsert?(storage: IStorage, listings: BusinessListing[]): Promise<Before>;
+  // `before` is undefined when beforeUpsert failed
+  afterUpsert?(storage: IStorage, listings: BusinessListing[], before: Before | undefined): Promise<void>;
+  afterDelete?(storage: IStorage, businessIds: string[]): Promise<void>;
+}
+
+// Runs the hooks in order around upsertBusinesses and deleteBusinesses
+export function withListingHooks(base: IStorage, hooks: ListingMutationHook[]): IStorage {
+  const run = async <T>(hook: ListingMutationHook, task: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await task();
+    } catch (error) {
+      console.error(`${hook.name} failed:`, error);
+      return undefined;
+    }
+  };
+
+  const mutations: Partial<IStorage> = {
+    upsertBusinesses: async (listings: BusinessListing[]) => {
+      const before: unknown[] = [];
+      for (const hook of hooks) {
+        before.push(hook.beforeUpsert ? await run(hook, () => hook.beforeUpsert!(base, listings)) : undefined);
+      }
+      await base.upsertBusinesses(listings);
+      for (const [index, hook] of hooks.entries()) {
+        if (hook.afterUpsert) await run(hook, () => hook.afterUpsert!(base, listings, before[index]));
+      }
+    },
+    deleteBusinesses: async (ids: string[]) => {
+      const deleted = await base.deleteBusinesses(ids);
+      if (deleted === 0) return deleted;
+      for (const hook of hooks) {
+        if (hook.afterDelete) await run(hook, () => hook.afterDelete!(base, ids));
+      }
+      return deleted;
+    }
+  };
+  return new Proxy(base, {
+    get: (target, property, receiver) =>
+      Object.prototype.hasOwnProperty.call(mutations, property) ? mutations[property as keyof IStorage] : Reflect.get(target, property, receiver)
+  });
+}
+
+// Records what changed in each listing's tracked fields, against the version stored before the upsert. First, so the
+// history is written before detection and alerts run. Deleting a listing deletes its history in every driver.
+export const listingChangeTracking: ListingMutationHook<Map<string, Business>> = {
+  name: 'Recording listing changes',
+  beforeUpsert: (storage, listings) => storedVersions(storage, listings),
+  afterUpsert: async (storage, listings, stored) => {
+    if (stored) await storage.addListingChanges(diffListings(stored, listings, new Date()));
+  }
+};
+
+// Groups upserted listings with their duplicates from other sources, and takes deleted listings out of their groups - a
+// group left with one listing is removed and one that lost its canonical listing is shown as another. Before alerts, so
+// they aren't raised for a listing that search now shows as part of another.
+export const duplicateDetection: ListingMutationHook = {
+  name: 'Duplicate listing detection',
+  afterUpsert: async (storage, listings) => {
+    await detectDuplicates(storage, listings.map(listing => listing.id));
+  },
+  afterDelete: async (storage, ids) => {
+    await removeFromDuplicateGroups(storage, ids);
+  }
+};
+
+// Matches upserted listings against saved searches
+export const savedSearchAlerts: ListingMutationHook = {
+  name: 'Saved search alert matching',
+  afterUpsert: async (storage, listings) => {
+    await notifySavedSearchMatches(storage, listings);
+  }
+};
+
+// Singleton instance used by the routes
+export const storage: IStorage = withListingHooks(createStorage(), [listingChangeTracking, duplicateDetection, savedSearchAlerts]);
+
+export type { IStorage } from "./IStorage.js";
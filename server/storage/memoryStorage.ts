@@ -1,31 +1,66 @@
 // In-memory storage for demo - no database required
-import { Business, BusinessScore, User, UserPreferences } from "../../shared/schema.js";
-import { getAllDemoBusinesses, demoUser, demoSearchHistory } from "../data/demoBusinesses.js";
-import { createBusinessScore, batchScoreBusinesses } from "../services/mockAIScoring.js";
+import { Business, BusinessListing, BusinessScore, BusinessSearchQuery, User, UserPreferences, SearchHistoryEntry, SavedSearch, SavedSearchInput, SavedSearchUpdate, UserNotification, NotificationsQuery, DigestFrequency, DigestSettings, SearchHistoryQuery, SEARCH_HISTORY_MAX_ENTRIES, IngestionRun, ImportBatch, DuplicateGroup, ListingChange, TrackedListingField } from "../../shared/schema.js";
+import { randomUUID } from "crypto";
+import { getAllDemoBusinesses, demoUser, demoUserPassword, demoSearchHistory, demoListingChanges } from "../data/demoBusinesses.js";
+import { computeFacets, filterBusinesses, rankByScore } from "../services/businessSearch.js";
+import { resolveScores, scoreCacheKey } from "../services/scoreCache.js";
+import { SearchIndex } from "../services/searchIndex.js";
+import { collapseDuplicates } from "../services/dedupe.js";
+import { withNormalizedLocation } from "../services/geo.js";
+import { hashPasswordSync } from "../services/passwords.js";
+import { IStorage, BusinessSearchResult, RankedBusinessResult, UserRecord, UserInsert, SavedSearchRecord, NotificationInsert, DigestSubscriber, ImportBatchItem, ListingChangeInsert } from "./IStorage.js";
 
-export class DemoMemoryStorage {
+function toPublicUser({ passwordHash, ...user }: UserRecord): User {
+  return user;
+}
+
+export class DemoMemoryStorage implements IStorage {
   private businesses: Business[] = [];
-  private businessScores: Map<string, BusinessScore> = new Map();
-  private users: Map<string, User> = new Map();
-  private searchHistory: any[] = [];
+  private searchIndex: SearchIndex;
+  private scoreCache: Map<string, BusinessScore> = new Map();
+  private preferencesVersions: Map<string, number> = new Map();
+  private users: Map<string, UserRecord> = new Map();
+  private searchHistory: (SearchHistoryEntry & { userId: string })[] = [];
+  private savedSearches: Map<string, SavedSearchRecord> = new Map();
+  private notifications: (UserNotification & { userId: string })[] = [];
+  private digestSettings: Map<string, DigestSettings> = new Map();
+  private ingestionRuns: Map<string, IngestionRun> = new Map();
+  private importBatches: Map<string, { batch: ImportBatch; items: ImportBatchItem[] }> = new Map();
+  private duplicateGroups: Map<string, DuplicateGroup> = new Map();
+  private distinctListingPairs: Map<string, [string, string]> = new Map();
+  private listingChanges: ListingChange[] = [];
+  private sessions: Map<string, { sess: Record<string, unknown>; expiresAt: Date }> = new Map();
 
   constructor() {
     // Initialize with demo data
     this.businesses = getAllDemoBusinesses();
-    this.users.set(demoUser.id, demoUser);
-    this.searchHistory = [...demoSearchHistory];
-    
-    // Pre-generate scores for all businesses
-    this.preGenerateScores();
+    this.searchIndex = new SearchIndex(this.businesses);
+    this.users.set(demoUser.id, {
+      ...demoUser,
+      preferences: { ...demoUser.preferences },
+      passwordHash: hashPasswordSync(demoUserPassword)
+    });
+    this.searchHistory = demoSearchHistory.map(entry => ({ ...entry, userId: demoUser.id }));
+    this.listingChanges = demoListingChanges.map(change => ({ ...change }));
   }
 
-  private preGenerateScores() {
-    if (demoUser.preferences) {
-      this.businesses.forEach(business => {
-        const score = createBusinessScore(business, demoUser.preferences!);
-        this.businessScores.set(business.id, score);
-      });
-    }
+  // Scores for the given businesses against the user's current preferences, computed on cache miss
+  private async scoresForUser(userId: string | undefined, businesses: Business[]): Promise<Map<string, BusinessScore> | undefined> {
+    const preferences = userId ? this.users.get(userId)?.preferences : undefined;
+    if (!userId || !preferences) return undefined;
+
+    const version = this.preferencesVersions.get(userId) || 0;
+    const cached = new Map<string, BusinessScore>();
+    businesses.forEach(business => {
+      const score = this.scoreCache.get(scoreCacheKey(userId, business.id, version));
+      if (score) cached.set(business.id, score);
+    });
+
+    const cacheScores = (scores: Map<string, BusinessScore>) =>
+      scores.forEach((score, businessId) => this.scoreCache.set(scoreCacheKey(userId, businessId, version), score));
+    const { scores, computed } = await resolveScores(businesses, preferences, cached, { userId, preferencesVersion: version, save: cacheScores });
+    cacheScores(computed);
+    return scores;
   }
 
   // Business operations
@@ -33,110 +68,103 @@ export class DemoMemoryStorage {
     return [...this.businesses];
   }
 
-  async getBusinessById(id: string): Promise<Business | null> {
+  async getBusinessById(id: string, userId?: string): Promise<Business | null> {
     const business = this.businesses.find(b => b.id === id);
     if (!business) return null;
     
     // Add aiScore to business for consistency with search results
-    const score = this.businessScores.get(business.id);
+    const score = (await this.scoresForUser(userId, [business]))?.get(business.id);
     return {
       ...business,
       aiScore: score?.score || undefined
     };
   }
 
-  async searchBusinesses(filters: any = {}): Promise<{ businesses: Business[]; totalFound: number }> {
-    let filtered = [...this.businesses];
-
-    // Apply text search query
-    if (filters.query && filters.query.trim()) {
-      const query = filters.query.toLowerCase().trim();
-      filtered = filtered.filter(b => 
-        b.name.toLowerCase().includes(query) ||
-        b.description.toLowerCase().includes(query) ||
-        b.industry.toLowerCase().includes(query) ||
-        b.location.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply filters
-    if (filters.industry) {
-      filtered = filtered.filter(b => 
-        b.industry.toLowerCase().includes(filters.industry.toLowerCase())
-      );
-    }
-
-    if (filters.location) {
-      filtered = filtered.filter(b => 
-        b.location.toLowerCase().includes(filters.location.toLowerCase())
-      );
-    }
-
-    if (filters.minPrice) {
-      filtered = filtered.filter(b => b.askingPrice >= parseInt(filters.minPrice));
-    }
-
-    if (filters.maxPrice) {
-      filtered = filtered.filter(b => b.askingPrice <= parseInt(filters.maxPrice));
-    }
+  async searchBusinesses(filters: BusinessSearchQuery = {}, userId?: string): Promise<BusinessSearchResult> {
+    const listed = collapseDuplicates(this.businesses, Array.from(this.duplicateGroups.values()));
+    const textMatches = this.searchIndex.search(filters.query);
+    const filtered = filterBusinesses(listed, filters, textMatches);
+    return {
+      ...rankByScore(filtered, await this.scoresForUser(userId, filtered), textMatches),
+      facets: computeFacets(listed, filters, textMatches)
+    };
+  }
 
-    if (filters.minRevenue) {
-      filtered = filtered.filter(b => b.annualRevenue >= parseInt(filters.minRevenue));
-    }
+  async upsertBusinesses(listings: BusinessListing[]): Promise<void> {
+    const businesses: Business[] = listings.map(withNormalizedLocation);
+    businesses.forEach(business => {
+      const index = this.businesses.findIndex(b => b.id === business.id);
+      // Like the SQL drivers' upserts, an update keeps when the listing was first added
+      if (index === -1) this.businesses.push(business);
+      else this.businesses[index] = { ...business, createdAt: this.businesses[index].createdAt };
+      this.searchIndex.upsert(business);
+    });
 
-    if (filters.maxRevenue) {
-      filtered = filtered.filter(b => b.annualRevenue <= parseInt(filters.maxRevenue));
-    }
+    // Scores were computed from the old listing data
+    this.dropCachedScores(new Set(businesses.map(business => business.id)));
+  }
 
-    if (filters.minEmployees) {
-      filtered = filtered.filter(b => b.employees >= parseInt(filters.minEmployees));
-    }
+  async deleteBusinesses(ids: string[]): Promise<number> {
+    const deletedIds = new Set(ids.filter(id => this.businesses.some(b => b.id === id)));
+    if (deletedIds.size === 0) return 0;
+    this.businesses = this.businesses.filter(b => !deletedIds.has(b.id));
+    deletedIds.forEach(id => this.searchIndex.remove(id));
+    this.dropCachedScores(deletedIds);
+    this.notifications = this.notifications.filter(n => !deletedIds.has(n.businessId));
+    this.listingChanges = this.listingChanges.filter(change => !deletedIds.has(change.businessId));
+    return deletedIds.size;
+  }
 
-    if (filters.maxEmployees) {
-      filtered = filtered.filter(b => b.employees <= parseInt(filters.maxEmployees));
-    }
+  private dropCachedScores(businessIds: Set<string>) {
+    this.scoreCache.forEach((_, key) => {
+      if (businessIds.has(key.split(':').slice(1, -1).join(':'))) this.scoreCache.delete(key);
+    });
+  }
 
-    if (filters.yearEstablished) {
-      filtered = filtered.filter(b => b.yearEstablished >= parseInt(filters.yearEstablished));
-    }
+  // User operations
+  async getUserById(id: string): Promise<User | null> {
+    const user = this.users.get(id);
+    return user ? toPublicUser(user) : null;
+  }
 
-    // Add AI scores and sort by compatibility
-    if (demoUser.preferences) {
-      filtered = batchScoreBusinesses(filtered, demoUser.preferences);
-      filtered.sort((a, b) => (b.aiScore || 0) - (a.aiScore || 0));
-    }
+  async getUserByEmail(email: string): Promise<UserRecord | null> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find(u => u.email.toLowerCase() === normalized) || null;
+  }
 
-    return {
-      businesses: filtered,
-      totalFound: filtered.length
-    };
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    const normalized = username.toLowerCase();
+    return Array.from(this.users.values()).find(u => u.username.toLowerCase() === normalized) || null;
   }
 
-  // User operations
-  async getUserById(id: string): Promise<User | null> {
-    return this.users.get(id) || null;
+  async createUser(user: UserInsert): Promise<User> {
+    const record: UserRecord = { id: `user-${randomUUID()}`, ...user };
+    this.users.set(record.id, record);
+    return toPublicUser(record);
   }
 
   async updateUserPreferences(userId: string, preferences: UserPreferences): Promise<void> {
     const user = this.users.get(userId);
     if (user) {
       user.preferences = preferences;
-      // Regenerate scores with new preferences
-      this.businesses.forEach(business => {
-        const score = createBusinessScore(business, preferences);
-        this.businessScores.set(business.id, score);
-      });
+      // New version makes every cached score for this user stale; drop them rather than wait
+      this.preferencesVersions.set(userId, (this.preferencesVersions.get(userId) || 0) + 1);
+      Array.from(this.scoreCache.keys())
+        .filter(key => key.startsWith(`${userId}:`))
+        .forEach(key => this.scoreCache.delete(key));
     }
   }
 
   // Business scoring
-  async getBusinessScore(businessId: string): Promise<BusinessScore | null> {
-    return this.businessScores.get(businessId) || null;
+  async getBusinessScore(userId: string, businessId: string): Promise<BusinessScore | null> {
+    const business = this.businesses.find(b => b.id === businessId);
+    if (!business) return null;
+    return (await this.scoresForUser(userId, [business]))?.get(businessId) || null;
   }
 
-  async rankBusiness(businessId: string): Promise<{ score: BusinessScore; business: Business } | null> {
-    const business = await this.getBusinessById(businessId);
-    const score = this.businessScores.get(businessId);
+  async rankBusiness(userId: string, businessId: string): Promise<RankedBusinessResult | null> {
+    const business = await this.getBusinessById(businessId, userId);
+    const score = await this.getBusinessScore(userId, businessId);
     
     if (business && score) {
       return { business, score };
@@ -145,11 +173,11 @@ export class DemoMemoryStorage {
     return null;
   }
 
-  async rankMultipleBusinesses(businessIds: string[]): Promise<{ business: Business; score: BusinessScore }[]> {
-    const results = [];
+  async rankMultipleBusinesses(userId: string, businessIds: string[]): Promise<RankedBusinessResult[]> {
+    const results: RankedBusinessResult[] = [];
     
     for (const id of businessIds) {
-      const result = await this.rankBusiness(id);
+      const result = await this.rankBusiness(userId, id);
       if (result) {
         results.push(result);
       }
@@ -162,34 +190,276 @@ export class DemoMemoryStorage {
   }
 
   // Search history
-  async getSearchHistory(userId: string): Promise<any[]> {
-    return [...this.searchHistory];
+  async getSearchHistory(userId: string, { limit, offset }: SearchHistoryQuery): Promise<SearchHistoryEntry[]> {
+    return this.searchHistory
+      .filter(entry => entry.userId === userId)
+      .slice(offset, offset + limit)
+      .map(({ userId: _userId, ...entry }) => entry);
+  }
+
+  async countSearchHistory(userId: string): Promise<number> {
+    return this.searchHistory.filter(entry => entry.userId === userId).length;
+  }
+
+  async addSearchHistory(userId: string, entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>): Promise<SearchHistoryEntry> {
+    const added: SearchHistoryEntry = { id: `search-${randomUUID()}`, ...entry, createdAt: new Date() };
+    this.searchHistory.unshift({ ...added, userId });
+
+    const overflow = this.searchHistory.filter(existing => existing.userId === userId).slice(SEARCH_HISTORY_MAX_ENTRIES);
+    if (overflow.length > 0) {
+      this.searchHistory = this.searchHistory.filter(existing => !overflow.includes(existing));
+    }
+    return added;
+  }
+
+  async deleteSearchHistoryEntry(userId: string, id: string): Promise<boolean> {
+    const index = this.searchHistory.findIndex(entry => entry.id === id && entry.userId === userId);
+    if (index === -1) return false;
+    this.searchHistory.splice(index, 1);
+    return true;
+  }
+
+  async clearSearchHistory(userId: string): Promise<number> {
+    const before = this.searchHistory.length;
+    this.searchHistory = this.searchHistory.filter(entry => entry.userId !== userId);
+    return before - this.searchHistory.length;
+  }
+
+  // Saved searches
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ userId: _userId, ...search }) => search);
+  }
+
+  async getSavedSearch(userId: string, id: string): Promise<SavedSearch | null> {
+    const saved = this.savedSearches.get(id);
+    if (!saved || saved.userId !== userId) return null;
+    const { userId: _userId, ...search } = saved;
+    return search;
+  }
+
+  async createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const now = new Date();
+    const search: SavedSearch = {
+      id: `saved-${randomUUID()}`,
+      name: input.name,
+      filters: input.filters,
+      alertMinScore: input.alertMinScore,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.savedSearches.set(search.id, { ...search, userId });
+    return search;
+  }
+
+  async updateSavedSearch(userId: string, id: string, update: SavedSearchUpdate): Promise<SavedSearch | null> {
+    const saved = this.savedSearches.get(id);
+    if (!saved || saved.userId !== userId) return null;
+    if (update.name !== undefined) saved.name = update.name;
+    if (update.alertMinScore !== undefined) saved.alertMinScore = update.alertMinScore;
+    saved.updatedAt = new Date();
+    return this.getSavedSearch(userId, id);
   }
 
-  async addSearchHistory(userId: string, searchData: any): Promise<void> {
-    this.searchHistory.unshift({
-      id: `search-${Date.now()}`,
-      ...searchData,
-      createdAt: new Date()
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    if (this.savedSearches.get(id)?.userId !== userId) return false;
+    return this.savedSearches.delete(id);
+  }
+
+  async getAlertingSavedSearches(): Promise<SavedSearchRecord[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.alertMinScore !== null)
+      .map(search => ({ ...search }));
+  }
+
+  // Notifications
+  async addNotifications(notifications: NotificationInsert[]): Promise<number> {
+    let added = 0;
+    notifications.forEach(notification => {
+      const duplicate = this.notifications.some(existing =>
+        existing.savedSearchId === notification.savedSearchId && existing.businessId === notification.businessId
+      );
+      if (duplicate) return;
+      this.notifications.unshift({ id: `notification-${randomUUID()}`, ...notification, readAt: null, createdAt: new Date() });
+      added++;
     });
-    
-    // Keep only last 10 searches
-    if (this.searchHistory.length > 10) {
-      this.searchHistory = this.searchHistory.slice(0, 10);
+    return added;
+  }
+
+  async getNotifications(userId: string, { unreadOnly, limit }: NotificationsQuery): Promise<UserNotification[]> {
+    return this.notifications
+      .filter(notification => notification.userId === userId && (!unreadOnly || notification.readAt === null))
+      .slice(0, limit)
+      .map(({ userId: _userId, ...notification }) => notification);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    return this.notifications.filter(notification => notification.userId === userId && notification.readAt === null).length;
+  }
+
+  async setNotificationRead(userId: string, id: string, read: boolean): Promise<UserNotification | null> {
+    const notification = this.notifications.find(candidate => candidate.id === id && candidate.userId === userId);
+    if (!notification) return null;
+    // Marking an already read notification read again keeps when it was first read
+    notification.readAt = read ? notification.readAt ?? new Date() : null;
+    const { userId: _userId, ...result } = notification;
+    return result;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const unread = this.notifications.filter(notification => notification.userId === userId && notification.readAt === null);
+    const now = new Date();
+    unread.forEach(notification => { notification.readAt = now; });
+    return unread.length;
+  }
+
+  // Email digest
+  async getDigestSettings(userId: string): Promise<DigestSettings> {
+    const settings = this.digestSettings.get(userId);
+    return settings ? { ...settings } : { frequency: 'off', lastSentAt: null };
+  }
+
+  async updateDigestSettings(userId: string, frequency: DigestFrequency): Promise<DigestSettings> {
+    const settings = { ...(await this.getDigestSettings(userId)), frequency };
+    this.digestSettings.set(userId, settings);
+    return { ...settings };
+  }
+
+  async getDigestSubscribers(): Promise<DigestSubscriber[]> {
+    return Array.from(this.digestSettings.entries()).flatMap(([userId, settings]) => {
+      const user = this.users.get(userId);
+      return user && settings.frequency !== 'off'
+        ? [{ ...settings, userId, email: user.email, username: user.username }]
+        : [];
+    });
+  }
+
+  async recordDigestSent(userId: string, sentAt: Date): Promise<void> {
+    const settings = this.digestSettings.get(userId);
+    if (settings) settings.lastSentAt = sentAt;
+  }
+
+  // Ingestion runs
+  async saveIngestionRun(run: IngestionRun): Promise<void> {
+    this.ingestionRuns.set(run.id, { ...run, errors: [...run.errors] });
+  }
+
+  async getIngestionRuns(limit: number, source?: string): Promise<IngestionRun[]> {
+    return Array.from(this.ingestionRuns.values())
+      .filter(run => !source || run.source === source)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Listing imports
+  async createImportBatch(batch: ImportBatch, items: ImportBatchItem[]): Promise<void> {
+    this.importBatches.set(batch.id, { batch: { ...batch }, items: items.map(item => ({ ...item })) });
+  }
+
+  async getImportBatches(limit: number): Promise<ImportBatch[]> {
+    return Array.from(this.importBatches.values())
+      .map(({ batch }) => ({ ...batch }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getImportBatch(id: string): Promise<ImportBatch | null> {
+    const entry = this.importBatches.get(id);
+    return entry ? { ...entry.batch } : null;
+  }
+
+  async getImportBatchItems(id: string): Promise<ImportBatchItem[]> {
+    return (this.importBatches.get(id)?.items ?? []).map(item => ({ ...item }));
+  }
+
+  async markImportBatchRolledBack(id: string, rolledBackAt: Date): Promise<ImportBatch | null> {
+    const entry = this.importBatches.get(id);
+    if (!entry) return null;
+    entry.batch = { ...entry.batch, status: 'rolled_back', rolledBackAt };
+    return { ...entry.batch };
+  }
+
+  // Duplicate listings
+  async getDuplicateGroups(): Promise<DuplicateGroup[]> {
+    return Array.from(this.duplicateGroups.values()).map(group => ({ ...group, members: [...group.members] }));
+  }
+
+  async getDuplicateGroup(id: string): Promise<DuplicateGroup | null> {
+    const group = this.duplicateGroups.get(id);
+    return group ? { ...group, members: [...group.members] } : null;
+  }
+
+  async saveDuplicateGroup(group: DuplicateGroup): Promise<void> {
+    this.duplicateGroups.set(group.id, { ...group, members: [...group.members] });
+  }
+
+  async deleteDuplicateGroup(id: string): Promise<boolean> {
+    return this.duplicateGroups.delete(id);
+  }
+
+  async getDistinctListingPairs(): Promise<[string, string][]> {
+    return Array.from(this.distinctListingPairs.values());
+  }
+
+  async addDistinctListingPairs(pairs: [string, string][], createdBy: string): Promise<void> {
+    pairs.forEach(([a, b]) => this.distinctListingPairs.set(`${a}|${b}`, [a, b]));
+  }
+
+  // Listing history
+  async addListingChanges(changes: ListingChangeInsert[]): Promise<void> {
+    changes.forEach(change => this.listingChanges.push({ id: `change-${randomUUID()}`, ...change }));
+  }
+
+  async getListingChanges(businessId: string): Promise<ListingChange[]> {
+    return this.listingChanges
+      .filter(change => change.businessId === businessId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+
+  async getLatestListingChanges(businessIds: string[], field: TrackedListingField): Promise<ListingChange[]> {
+    const ids = new Set(businessIds);
+    const latest = new Map<string, ListingChange>();
+    this.listingChanges.forEach(change => {
+      if (change.field !== field || !ids.has(change.businessId)) return;
+      const current = latest.get(change.businessId);
+      if (!current || change.changedAt >= current.changedAt) latest.set(change.businessId, change);
+    });
+    return Array.from(latest.values());
+  }
+
+  // Sessions
+  async getSession(sid: string): Promise<Record<string, unknown> | null> {
+    const entry = this.sessions.get(sid);
+    if (!entry) return null;
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.sessions.delete(sid);
+      return null;
     }
+    return entry.sess;
+  }
+
+  async setSession(sid: string, sess: Record<string, unknown>, expiresAt: Date): Promise<void> {
+    this.sessions.set(sid, { sess, expiresAt });
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    this.sessions.delete(sid);
   }
 
   // Web search simulation (returns filtered demo data)
-  async simulateWebSearch(query: string = '', filters: any = {}): Promise<{
-    businesses: any[];
+  async simulateWebSearch(query: string = '', filters: BusinessSearchQuery = {}, userId?: string): Promise<{
+    businesses: Business[];
     totalFound: number;
     searchSummary: string;
   }> {
-    const { businesses, totalFound } = await this.searchBusinesses(filters);
+    const { businesses, totalFound } = await this.searchBusinesses(filters, userId);
     
     // Simulate some variation in results
     const shuffled = businesses.sort(() => Math.random() - 0.5);
     const selected = shuffled.slice(0, Math.min(15, businesses.length));
+    const scores = await this.scoresForUser(userId, selected);
     
     const searchSummary = `Found ${totalFound} businesses matching your criteria. Showing top ${selected.length} results with AI compatibility scoring.`;
     
@@ -198,13 +468,10 @@ export class DemoMemoryStorage {
         ...business,
         ranking: Math.floor(Math.random() * 4) + 1, // For compatibility
         compatibilityScore: business.aiScore || 75,
-        rankingExplanation: this.businessScores.get(business.id)?.reasoning || 'Mock AI analysis complete.'
+        rankingExplanation: scores?.get(business.id)?.reasoning || 'Mock AI analysis complete.'
       })),
       totalFound,
       searchSummary
     };
   }
 }
-
-// Singleton instance
-export const demoStorage = new DemoMemoryStorage();
\ No newline at end of file
@@ -0,0 +1,749 @@
+// Postgres storage via Drizzle ORM - schema lives in shared/schema.ts, migrations in ./migrations
+import pg from "pg";
+import { drizzle, NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { randomUUID } from "crypto";
+import { SQL, and, asc, count, desc, eq, inArray, isNotNull, isNull, ne, notInArray, sql } from "drizzle-orm";
+import {
+  Business,
+  BusinessListing,
+  BusinessScore,
+  BusinessSearchQuery,
+  User,
+  UserPreferences,
+  SearchHistoryEntry,
+  SavedSearch,
+  SavedSearchInput,
+  SavedSearchUpdate,
+  UserNotification,
+  NotificationsQuery,
+  DigestFrequency,
+  DigestSettings,
+  SearchHistoryQuery,
+  SEARCH_HISTORY_MAX_ENTRIES,
+  IngestionRun,
+  ImportBatch,
+  DuplicateGroup,
+  ListingChange,
+  TrackedListingField,
+  businesses,
+  users,
+  userPreferences,
+  businessScores,
+  searchHistory,
+  savedSearches,
+  notifications,
+  digestSettings,
+  ingestionRuns,
+  importBatches,
+  importBatchItems,
+  duplicateGroups,
+  distinctListingPairs,
+  listingChanges,
+  sessions,
+} from "../../shared/schema.js";
+import { getAllDemoBusinesses, demoUser, demoUserPassword, demoSearchHistory, demoListingChanges } from "../data/demoBusinesses.js";
+import { computeFacets, filterBusinesses, rankByScore } from "../services/businessSearch.js";
+import { resolveScores } from "../services/scoreCache.js";
+import { SearchIndex } from "../services/searchIndex.js";
+import { collapseDuplicates } from "../services/dedupe.js";
+import { withNormalizedLocation } from "../services/geo.js";
+import { hashPassword } from "../services/passwords.js";
+import { IStorage, BusinessSearchResult, RankedBusinessResult, UserRecord, UserInsert, SavedSearchRecord, NotificationInsert, DigestSubscriber, ImportBatchItem, ListingChangeInsert } from "./IStorage.js";
+
+type BusinessRow = typeof businesses.$inferSelect;
+type UserRow = typeof users.$inferSelect;
+type UserPreferencesRow = typeof userPreferences.$inferSelect;
+type ImportBatchItemRow = typeof importBatchItems.$inferSelect;
+
+function rowToBusiness(row: BusinessRow): Business {
+  return withNormalizedLocation({
+    ...row,
+    sellerInfo: null,
+    businessDetails: null
+  });
+}
+
+// previous is stored as JSON, so its dates come back as strings
+function rowToImportBatchItem({ businessId, previous }: ImportBatchItemRow): ImportBatchItem {
+  return {
+    businessId,
+    previous: previous && { ...previous, createdAt: new Date(previous.createdAt), updatedAt: new Date(previous.updatedAt) }
+  };
+}
+
+function rowToPreferences(row: UserPreferencesRow): UserPreferences {
+  return {
+    budgetRange: { min: row.budgetMin, max: row.budgetMax },
+    preferredIndustries: row.preferredIndustries,
+    preferredLocations: row.preferredLocations,
+    businessSize: row.businessSize,
+    riskTolerance: row.riskTolerance,
+    involvementLevel: row.involvementLevel,
+    weightsProfile: row.weightsProfile || undefined
+  };
+}
+
+function preferencesToRow(userId: string, preferences: UserPreferences): Omit<UserPreferencesRow, 'version'> {
+  return {
+    userId,
+    budgetMin: preferences.budgetRange.min,
+    budgetMax: preferences.budgetRange.max,
+    preferredIndustries: preferences.preferredIndustries,
+    preferredLocations: preferences.preferredLocations,
+    businessSize: preferences.businessSize,
+    riskTolerance: preferences.riskTolerance,
+    involvementLevel: preferences.involvementLevel,
+    weightsProfile: preferences.weightsProfile || null,
+    updatedAt: new Date()
+  };
+}
+
+function rowToUserRecord(user: UserRow, preferences: UserPreferencesRow | null): UserRecord {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    preferences: preferences ? rowToPreferences(preferences) : undefined,
+    passwordHash: user.passwordHash
+  };
+}
+
+export interface PostgresStorageOptions {
+  connectionString: string;
+  migrationsFolder?: string;
+}
+
+export class PostgresStorage implements IStorage {
+  private pool: pg.Pool;
+  private db: NodePgDatabase;
+  private ready: Promise<void>;
+  // Built from the table on startup; only writes made through this process update it
+  private searchIndex = new SearchIndex();
+
+  constructor({ connectionString, migrationsFolder = 'migrations' }: PostgresStorageOptions) {
+    this.pool = new pg.Pool({ connectionString });
+    this.db = drizzle(this.pool);
+
+    // Migrations and seeding are async, so every operation waits on this first
+    this.ready = this.initialize(migrationsFolder);
+    this.ready.catch(error => console.error('Postgres storage failed to initialize:', error));
+  }
+
+  private async initialize(migrationsFolder: string) {
+    await migrate(this.db, { migrationsFolder });
+    await this.seedIfEmpty();
+    const rows = await this.db.select().from(businesses);
+    rows.forEach(row => this.searchIndex.upsert(rowToBusiness(row)));
+  }
+
+  private async seedIfEmpty() {
+    const [{ total }] = await this.db.select({ total: count() }).from(businesses);
+    if (total > 0) return;
+
+    const demoPasswordHash = await hashPassword(demoUserPassword);
+    await this.db.transaction(async (tx) => {
+      const demoBusinesses = getAllDemoBusinesses();
+      await tx.insert(businesses).values(demoBusinesses.map(({ sellerInfo, businessDetails, aiScore, ...row }) => row));
+
+      await tx.insert(users).values({
+        id: demoUser.id,
+        username: demoUser.username,
+        email: demoUser.email,
+        passwordHash: demoPasswordHash
+      }).onConflictDoNothing();
+      await tx.insert(userPreferences).values(preferencesToRow(demoUser.id, demoUser.preferences)).onConflictDoNothing();
+
+      await tx.insert(searchHistory).values(demoSearchHistory.map(entry => ({
+        id: entry.id,
+        userId: demoUser.id,
+        query: entry.query,
+        filters: entry.filters,
+        resultsCount: entry.resultsCount,
+        topResultIds: entry.topResultIds,
+        createdAt: entry.createdAt
+      })));
+
+      await tx.insert(listingChanges).values(demoListingChanges);
+    });
+  }
+
+  // Scores for the given businesses against the user's current preferences, computed on cache miss
+  private async scoresForUser(userId: string | undefined, businessList: Business[]): Promise<Map<string, BusinessScore> | undefined> {
+    if (!userId) return undefined;
+    const [preferencesRow] = await this.db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    if (!preferencesRow) return undefined;
+
+    const version = preferencesRow.version;
+    const rows = await this.db
+      .select()
+      .from(businessScores)
+      .where(and(eq(businessScores.userId, userId), eq(businessScores.preferencesVersion, version)));
+    const cached = new Map<string, BusinessScore>(
+      rows.map(row => [row.businessId, { score: row.score, reasoning: row.reasoning, baseScore: row.baseScore, factors: row.factors }])
+    );
+
+    const { scores, computed } = await resolveScores(businessList, rowToPreferences(preferencesRow), cached, {
+      userId,
+      preferencesVersion: version,
+      save: backfilled => this.cacheScores(userId, version, backfilled)
+    });
+    await this.cacheScores(userId, version, computed);
+    return scores;
+  }
+
+  private async cacheScores(userId: string, version: number, scores: Map<string, BusinessScore>): Promise<void> {
+    if (scores.size === 0) return;
+    const values = Array.from(scores, ([businessId, score]) => ({
+      userId,
+      businessId,
+      preferencesVersion: version,
+      ...score,
+      createdAt: new Date()
+    }));
+    await this.db
+      .insert(businessScores)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [businessScores.userId, businessScores.businessId],
+        set: {
+          preferencesVersion: sql`excluded.preferences_version`,
+          score: sql`excluded.score`,
+          reasoning: sql`excluded.reasoning`,
+          baseScore: sql`excluded.base_score`,
+          factors: sql`excluded.factors`,
+          createdAt: sql`excluded.created_at`
+        }
+      });
+  }
+
+  // Business operations
+  async getAllBusinesses(): Promise<Business[]> {
+    await this.ready;
+    const rows = await this.db.select().from(businesses).orderBy(asc(businesses.createdAt), asc(businesses.id));
+    return rows.map(rowToBusiness);
+  }
+
+  async getBusinessById(id: string, userId?: string): Promise<Business | null> {
+    await this.ready;
+    const [row] = await this.db.select().from(businesses).where(eq(businesses.id, id));
+    if (!row) return null;
+
+    // Add aiScore to business for consistency with search results
+    const business = rowToBusiness(row);
+    const score = (await this.scoresForUser(userId, [business]))?.get(id);
+    return {
+      ...business,
+      aiScore: score?.score || undefined
+    };
+  }
+
+  async searchBusinesses(filters: BusinessSearchQuery = {}, userId?: string): Promise<BusinessSearchResult> {
+    const all = collapseDuplicates(await this.getAllBusinesses(), await this.getDuplicateGroups());
+    const textMatches = this.searchIndex.search(filters.query);
+    const filtered = filterBusinesses(all, filters, textMatches);
+    return {
+      ...rankByScore(filtered, await this.scoresForUser(userId, filtered), textMatches),
+      facets: computeFacets(all, filters, textMatches)
+    };
+  }
+
+  async upsertBusinesses(businessList: BusinessListing[]): Promise<void> {
+    await this.ready;
+    if (businessList.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      await tx
+        .insert(businesses)
+        .values(businessList.map(({ sellerInfo, businessDetails, aiScore, ...row }) => row))
+        .onConflictDoUpdate({
+          target: businesses.id,
+          set: {
+            name: sql`excluded.name`,
+            description: sql`excluded.description`,
+            location: sql`excluded.location`,
+            industry: sql`excluded.industry`,
+            askingPrice: sql`excluded.asking_price`,
+            annualRevenue: sql`excluded.annual_revenue`,
+            cashFlow: sql`excluded.cash_flow`,
+            ebitda: sql`excluded.ebitda`,
+            employees: sql`excluded.employees`,
+            yearEstablished: sql`excluded.year_established`,
+            sourceUrl: sql`excluded.source_url`,
+            sourceSite: sql`excluded.source_site`,
+            isActive: sql`excluded.is_active`,
+            updatedAt: sql`excluded.updated_at`
+          }
+        });
+      // Scores were computed from the old listing data
+      await tx.delete(businessScores).where(inArray(businessScores.businessId, businessList.map(business => business.id)));
+    });
+    businessList.forEach(business => this.searchIndex.upsert(business));
+  }
+
+  // Scores and notifications go with the listing (ON DELETE CASCADE)
+  async deleteBusinesses(ids: string[]): Promise<number> {
+    await this.ready;
+    if (ids.length === 0) return 0;
+    const deleted = await this.db.delete(businesses).where(inArray(businesses.id, ids)).returning({ id: businesses.id });
+    deleted.forEach(({ id }) => this.searchIndex.remove(id));
+    return deleted.length;
+  }
+
+  // User operations
+  private async findUser(condition: SQL): Promise<UserRecord | null> {
+    await this.ready;
+    const [row] = await this.db
+      .select({ user: users, preferences: userPreferences })
+      .from(users)
+      .leftJoin(userPreferences, eq(userPreferences.userId, users.id))
+      .where(condition);
+    return row ? rowToUserRecord(row.user, row.preferences) : null;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const record = await this.findUser(eq(users.id, id));
+    if (!record) return null;
+    const { passwordHash, ...user } = record;
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<UserRecord | null> {
+    return this.findUser(eq(sql`lower(${users.email})`, email.toLowerCase()));
+  }
+
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    return this.findUser(eq(sql`lower(${users.username})`, username.toLowerCase()));
+  }
+
+  async createUser(user: UserInsert): Promise<User> {
+    await this.ready;
+    const [row] = await this.db
+      .insert(users)
+      .values({ id: `user-${randomUUID()}`, ...user })
+      .returning();
+    return { id: row.id, username: row.username, email: row.email };
+  }
+
+  async updateUserPreferences(userId: string, preferences: UserPreferences): Promise<void> {
+    await this.ready;
+    const user = await this.getUserById(userId);
+    if (!user) return;
+
+    await this.db.transaction(async (tx) => {
+      const row = preferencesToRow(userId, preferences);
+      await tx
+        .insert(userPreferences)
+        .values(row)
+        .onConflictDoUpdate({ target: userPreferences.userId, set: { ...row, version: sql`${userPreferences.version} + 1` } });
+
+      // New version makes every cached score for this user stale; drop them rather than wait
+      await tx.delete(businessScores).where(eq(businessScores.userId, userId));
+    });
+  }
+
+  // Business scoring
+  async getBusinessScore(userId: string, businessId: string): Promise<BusinessScore | null> {
+    await this.ready;
+    const [row] = await this.db.select().from(businesses).where(eq(businesses.id, businessId));
+    if (!row) return null;
+    return (await this.scoresForUser(userId, [rowToBusiness(row)]))?.get(businessId) || null;
+  }
+
+  async rankBusiness(userId: string, businessId: string): Promise<RankedBusinessResult | null> {
+    const business = await this.getBusinessById(businessId, userId);
+    const score = await this.getBusinessScore(userId, businessId);
+
+    if (business && score) {
+      return { business, score };
+    }
+
+    return null;
+  }
+
+  async rankMultipleBusinesses(userId: string, businessIds: string[]): Promise<RankedBusinessResult[]> {
+    const results: RankedBusinessResult[] = [];
+
+    for (const id of businessIds) {
+      const result = await this.rankBusiness(userId, id);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    // Sort by score descending
+    results.sort((a, b) => b.score.score - a.score.score);
+
+    return results;
+  }
+
+  // Search history
+  async getSearchHistory(userId: string, { limit, offset }: SearchHistoryQuery): Promise<SearchHistoryEntry[]> {
+    await this.ready;
+    const rows = await this.db
+      .select()
+      .from(searchHistory)
+      .where(eq(searchHistory.userId, userId))
+      .orderBy(desc(searchHistory.createdAt), desc(searchHistory.id))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(({ userId: _userId, ...entry }) => entry);
+  }
+
+  async countSearchHistory(userId: string): Promise<number> {
+    await this.ready;
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(searchHistory)
+      .where(eq(searchHistory.userId, userId));
+    return total;
+  }
+
+  async addSearchHistory(userId: string, entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>): Promise<SearchHistoryEntry> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      const [{ userId: _userId, ...added }] = await tx
+        .insert(searchHistory)
+        .values({ id: `search-${randomUUID()}`, userId, ...entry })
+        .returning();
+
+      const newest = tx
+        .select({ id: searchHistory.id })
+        .from(searchHistory)
+        .where(eq(searchHistory.userId, userId))
+        .orderBy(desc(searchHistory.createdAt), desc(searchHistory.id))
+        .limit(SEARCH_HISTORY_MAX_ENTRIES);
+      await tx.delete(searchHistory).where(and(eq(searchHistory.userId, userId), notInArray(searchHistory.id, newest)));
+      return added;
+    });
+  }
+
+  async deleteSearchHistoryEntry(userId: string, id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db
+      .delete(searchHistory)
+      .where(and(eq(searchHistory.id, id), eq(searchHistory.userId, userId)))
+      .returning({ id: searchHistory.id });
+    return deleted.length > 0;
+  }
+
+  async clearSearchHistory(userId: string): Promise<number> {
+    await this.ready;
+    const deleted = await this.db
+      .delete(searchHistory)
+      .where(eq(searchHistory.userId, userId))
+      .returning({ id: searchHistory.id });
+    return deleted.length;
+  }
+
+  // Saved searches
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    await this.ready;
+    const rows = await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt), desc(savedSearches.id));
+
+    return rows.map(({ userId: _userId, ...search }) => search);
+  }
+
+  async getSavedSearch(userId: string, id: string): Promise<SavedSearch | null> {
+    await this.ready;
+    const [row] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    if (!row) return null;
+    const { userId: _userId, ...search } = row;
+    return search;
+  }
+
+  async createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    await this.ready;
+    const [{ userId: _userId, ...search }] = await this.db
+      .insert(savedSearches)
+      .values({ id: `saved-${randomUUID()}`, userId, name: input.name, filters: input.filters, alertMinScore: input.alertMinScore })
+      .returning();
+    return search;
+  }
+
+  async updateSavedSearch(userId: string, id: string, update: SavedSearchUpdate): Promise<SavedSearch | null> {
+    await this.ready;
+    const [row] = await this.db
+      .update(savedSearches)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+    if (!row) return null;
+    const { userId: _userId, ...search } = row;
+    return search;
+  }
+
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id });
+    return deleted.length > 0;
+  }
+
+  async getAlertingSavedSearches(): Promise<SavedSearchRecord[]> {
+    await this.ready;
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(isNotNull(savedSearches.alertMinScore))
+      .orderBy(asc(savedSearches.createdAt), asc(savedSearches.id));
+  }
+
+  // Notifications
+  async addNotifications(notificationList: NotificationInsert[]): Promise<number> {
+    await this.ready;
+    if (notificationList.length === 0) return 0;
+    const added = await this.db
+      .insert(notifications)
+      .values(notificationList.map(notification => ({ id: `notification-${randomUUID()}`, ...notification })))
+      .onConflictDoNothing({ target: [notifications.savedSearchId, notifications.businessId] })
+      .returning({ id: notifications.id });
+    return added.length;
+  }
+
+  async getNotifications(userId: string, { unreadOnly, limit }: NotificationsQuery): Promise<UserNotification[]> {
+    await this.ready;
+    const rows = await this.db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), unreadOnly ? isNull(notifications.readAt) : undefined))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+
+    return rows.map(({ userId: _userId, ...notification }) => notification);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    await this.ready;
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return total;
+  }
+
+  async setNotificationRead(userId: string, id: string, read: boolean): Promise<UserNotification | null> {
+    await this.ready;
+    const [row] = await this.db
+      .update(notifications)
+      // Marking an already read notification read again keeps when it was first read
+      .set({ readAt: read ? sql`coalesce(${notifications.readAt}, now())` : null })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    if (!row) return null;
+    const { userId: _userId, ...notification } = row;
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    await this.ready;
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Email digest
+  async getDigestSettings(userId: string): Promise<DigestSettings> {
+    await this.ready;
+    const [row] = await this.db
+      .select({ frequency: digestSettings.frequency, lastSentAt: digestSettings.lastSentAt })
+      .from(digestSettings)
+      .where(eq(digestSettings.userId, userId));
+    return row || { frequency: 'off', lastSentAt: null };
+  }
+
+  async updateDigestSettings(userId: string, frequency: DigestFrequency): Promise<DigestSettings> {
+    await this.ready;
+    const [row] = await this.db
+      .insert(digestSettings)
+      .values({ userId, frequency })
+      .onConflictDoUpdate({ target: digestSettings.userId, set: { frequency, updatedAt: new Date() } })
+      .returning({ frequency: digestSettings.frequency, lastSentAt: digestSettings.lastSentAt });
+    return row;
+  }
+
+  async getDigestSubscribers(): Promise<DigestSubscriber[]> {
+    await this.ready;
+    return this.db
+      .select({
+        userId: digestSettings.userId,
+        email: users.email,
+        username: users.username,
+        frequency: digestSettings.frequency,
+        lastSentAt: digestSettings.lastSentAt
+      })
+      .from(digestSettings)
+      .innerJoin(users, eq(users.id, digestSettings.userId))
+      .where(ne(digestSettings.frequency, 'off'))
+      .orderBy(asc(digestSettings.userId));
+  }
+
+  async recordDigestSent(userId: string, sentAt: Date): Promise<void> {
+    await this.ready;
+    await this.db.update(digestSettings).set({ lastSentAt: sentAt }).where(eq(digestSettings.userId, userId));
+  }
+
+  // Ingestion runs
+  async saveIngestionRun(run: IngestionRun): Promise<void> {
+    await this.ready;
+    const { id, ...fields } = run;
+    await this.db
+      .insert(ingestionRuns)
+      .values(run)
+      .onConflictDoUpdate({ target: ingestionRuns.id, set: fields });
+  }
+
+  async getIngestionRuns(limit: number, source?: string): Promise<IngestionRun[]> {
+    await this.ready;
+    return this.db
+      .select()
+      .from(ingestionRuns)
+      .where(source ? eq(ingestionRuns.source, source) : undefined)
+      .orderBy(desc(ingestionRuns.startedAt), desc(ingestionRuns.id))
+      .limit(limit);
+  }
+
+  // Listing imports
+  async createImportBatch(batch: ImportBatch, items: ImportBatchItem[]): Promise<void> {
+    await this.ready;
+    await this.db.transaction(async (tx) => {
+      await tx.insert(importBatches).values(batch);
+      if (items.length > 0) {
+        await tx.insert(importBatchItems).values(items.map(item => ({ batchId: batch.id, ...item })));
+      }
+    });
+  }
+
+  async getImportBatches(limit: number): Promise<ImportBatch[]> {
+    await this.ready;
+    return this.db.select().from(importBatches).orderBy(desc(importBatches.createdAt), desc(importBatches.id)).limit(limit);
+  }
+
+  async getImportBatch(id: string): Promise<ImportBatch | null> {
+    await this.ready;
+    const [row] = await this.db.select().from(importBatches).where(eq(importBatches.id, id));
+    return row ?? null;
+  }
+
+  async getImportBatchItems(id: string): Promise<ImportBatchItem[]> {
+    await this.ready;
+    const rows = await this.db.select().from(importBatchItems).where(eq(importBatchItems.batchId, id));
+    return rows.map(rowToImportBatchItem);
+  }
+
+  async markImportBatchRolledBack(id: string, rolledBackAt: Date): Promise<ImportBatch | null> {
+    await this.ready;
+    const [row] = await this.db
+      .update(importBatches)
+      .set({ status: 'rolled_back', rolledBackAt })
+      .where(eq(importBatches.id, id))
+      .returning();
+    return row ?? null;
+  }
+
+  // Duplicate listings
+  async getDuplicateGroups(): Promise<DuplicateGroup[]> {
+    await this.ready;
+    return this.db.select().from(duplicateGroups).orderBy(asc(duplicateGroups.detectedAt), asc(duplicateGroups.id));
+  }
+
+  async getDuplicateGroup(id: string): Promise<DuplicateGroup | null> {
+    await this.ready;
+    const [row] = await this.db.select().from(duplicateGroups).where(eq(duplicateGroups.id, id));
+    return row ?? null;
+  }
+
+  async saveDuplicateGroup(group: DuplicateGroup): Promise<void> {
+    await this.ready;
+    const { id, ...fields } = group;
+    await this.db
+      .insert(duplicateGroups)
+      .values(group)
+      .onConflictDoUpdate({ target: duplicateGroups.id, set: fields });
+  }
+
+  async deleteDuplicateGroup(id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(duplicateGroups).where(eq(duplicateGroups.id, id)).returning({ id: duplicateGroups.id });
+    return deleted.length > 0;
+  }
+
+  async getDistinctListingPairs(): Promise<[string, string][]> {
+    await this.ready;
+    const rows = await this.db.select().from(distinctListingPairs);
+    return rows.map(row => [row.businessId, row.otherBusinessId]);
+  }
+
+  async addDistinctListingPairs(pairs: [string, string][], createdBy: string): Promise<void> {
+    await this.ready;
+    if (pairs.length === 0) return;
+    await this.db
+      .insert(distinctListingPairs)
+      .values(pairs.map(([businessId, otherBusinessId]) => ({ businessId, otherBusinessId, createdBy })))
+      .onConflictDoNothing();
+  }
+
+  // Listing history
+  async addListingChanges(changes: ListingChangeInsert[]): Promise<void> {
+    await this.ready;
+    if (changes.length === 0) return;
+    await this.db.insert(listingChanges).values(changes.map(change => ({ id: `change-${randomUUID()}`, ...change })));
+  }
+
+  async getListingChanges(businessId: string): Promise<ListingChange[]> {
+    await this.ready;
+    return this.db.select().from(listingChanges)
+      .where(eq(listingChanges.businessId, businessId))
+      .orderBy(asc(listingChanges.changedAt), asc(listingChanges.id));
+  }
+
+  async getLatestListingChanges(businessIds: string[], field: TrackedListingField): Promise<ListingChange[]> {
+    await this.ready;
+    if (businessIds.length === 0) return [];
+    return this.db.selectDistinctOn([listingChanges.businessId]).from(listingChanges)
+      .where(and(eq(listingChanges.field, field), inArray(listingChanges.businessId, businessIds)))
+      .orderBy(listingChanges.businessId, desc(listingChanges.changedAt), desc(listingChanges.id));
+  }
+
+  // Sessions
+  async getSession(sid: string): Promise<Record<string, unknown> | null> {
+    await this.ready;
+    const [row] = await this.db.select().from(sessions).where(eq(sessions.sid, sid));
+    if (!row) return null;
+    if (row.expire.getTime() <= Date.now()) {
+      await this.deleteSession(sid);
+      return null;
+    }
+    return row.sess;
+  }
+
+  async setSession(sid: string, sess: Record<string, unknown>, expiresAt: Date): Promise<void> {
+    await this.ready;
+    await this.db
+      .insert(sessions)
+      .values({ sid, sess, expire: expiresAt })
+      .onConflictDoUpdate({ target: sessions.sid, set: { sess, expire: expiresAt } });
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await this.ready;
+    await this.db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async close() {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,939 @@
+// File-backed SQLite storage - persists preferences, scores and history across restarts
+import Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Business, BusinessListing, BusinessScore, BusinessSearchQuery, User, UserPreferences, SearchHistoryEntry, SavedSearch, SavedSearchInput, SavedSearchUpdate, UserNotification, NotificationsQuery, DigestFrequency, DigestSettings, SearchHistoryQuery, SEARCH_HISTORY_MAX_ENTRIES, IngestionRun, ImportBatch, DuplicateGroup, ListingChange, TrackedListingField } from "../../shared/schema.js";
+import { getAllDemoBusinesses, demoUser, demoUserPassword, demoSearchHistory, demoListingChanges } from "../data/demoBusinesses.js";
+import { computeFacets, filterBusinesses, rankByScore } from "../services/businessSearch.js";
+import { resolveScores } from "../services/scoreCache.js";
+import { SearchIndex } from "../services/searchIndex.js";
+import { collapseDuplicates } from "../services/dedupe.js";
+import { withNormalizedLocation } from "../services/geo.js";
+import { hashPasswordSync } from "../services/passwords.js";
+import { IStorage, BusinessSearchResult, RankedBusinessResult, UserRecord, UserInsert, SavedSearchRecord, NotificationInsert, DigestSubscriber, ImportBatchItem, ListingChangeInsert } from "./IStorage.js";
+
+// Applied in order and tracked with PRAGMA user_version; append new entries, never edit old ones
+const MIGRATIONS = [
+  `
+  CREATE TABLE IF NOT EXISTS businesses (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    location TEXT NOT NULL,
+    industry TEXT NOT NULL,
+    asking_price INTEGER NOT NULL,
+    annual_revenue INTEGER NOT NULL,
+    cash_flow INTEGER NOT NULL,
+    ebitda INTEGER NOT NULL,
+    employees INTEGER NOT NULL,
+    year_established INTEGER NOT NULL,
+    source_url TEXT NOT NULL,
+    source_site TEXT NOT NULL,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    email TEXT NOT NULL UNIQUE,
+    preferences TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS business_scores (
+    business_id TEXT PRIMARY KEY REFERENCES businesses(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL,
+    reasoning TEXT NOT NULL,
+    factors TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS search_history (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    query TEXT NOT NULL,
+    filters TEXT NOT NULL,
+    results_count INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS search_history_user_idx ON search_history (user_id, created_at);
+  `,
+  `
+  ALTER TABLE users ADD COLUMN password_hash TEXT;
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    sid TEXT PRIMARY KEY,
+    sess TEXT NOT NULL,
+    expire TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS sessions_expire_idx ON sessions (expire);
+  `,
+  `
+  ALTER TABLE users ADD COLUMN preferences_version INTEGER NOT NULL DEFAULT 0;
+
+  DROP TABLE IF EXISTS business_scores;
+
+  CREATE TABLE business_scores (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    business_id TEXT NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    preferences_version INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    reasoning TEXT NOT NULL,
+    factors TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, business_id)
+  );
+  `,
+  `
+  -- Factors changed shape to a ScoreFactor[] breakdown; cached scores are recomputed on demand
+  DELETE FROM business_scores;
+
+  ALTER TABLE business_scores ADD COLUMN base_score REAL NOT NULL DEFAULT 0;
+  `,
+  `
+  CREATE TABLE saved_searches (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    filters TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX saved_searches_user_idx ON saved_searches (user_id, created_at);
+  `,
+  `
+  ALTER TABLE saved_searches ADD COLUMN alert_min_score INTEGER;
+
+  CREATE TABLE notifications (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    saved_search_id TEXT NOT NULL,
+    saved_search_name TEXT NOT NULL,
+    business_id TEXT NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    business_name TEXT NOT NULL,
+    score INTEGER,
+    read_at TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX notifications_user_idx ON notifications (user_id, created_at);
+  CREATE UNIQUE INDEX notifications_search_business_idx ON notifications (saved_search_id, business_id);
+  `,
+  `
+  CREATE TABLE digest_settings (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    frequency TEXT NOT NULL DEFAULT 'off',
+    last_sent_at TEXT,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE search_history ADD COLUMN top_result_ids TEXT NOT NULL DEFAULT '[]';
+
+  -- Entries recorded before filters were stored as the search API parses them used a single industry
+  UPDATE search_history
+  SET filters = json_set(json_remove(filters, '$.industry'), '$.industries', json_array(json_extract(filters, '$.industry')))
+  WHERE json_extract(filters, '$.industry') IS NOT NULL;
+  `,
+  `
+  CREATE TABLE ingestion_runs (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    pages_fetched INTEGER NOT NULL DEFAULT 0,
+    listings_found INTEGER NOT NULL DEFAULT 0,
+    created INTEGER NOT NULL DEFAULT 0,
+    updated INTEGER NOT NULL DEFAULT 0,
+    unchanged INTEGER NOT NULL DEFAULT 0,
+    invalid INTEGER NOT NULL DEFAULT 0,
+    errors TEXT NOT NULL DEFAULT '[]'
+  );
+
+  CREATE INDEX ingestion_runs_started_idx ON ingestion_runs (started_at);
+  `,
+  `
+  CREATE TABLE import_batches (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    imported_by TEXT NOT NULL,
+    imported_by_name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'imported',
+    row_count INTEGER NOT NULL,
+    created INTEGER NOT NULL,
+    updated INTEGER NOT NULL,
+    unchanged INTEGER NOT NULL,
+    invalid INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    rolled_back_at TEXT
+  );
+
+  CREATE INDEX import_batches_created_idx ON import_batches (created_at);
+
+  CREATE TABLE import_batch_items (
+    batch_id TEXT NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+    business_id TEXT NOT NULL,
+    previous TEXT,
+    PRIMARY KEY (batch_id, business_id)
+  );
+  `,
+  `
+  CREATE TABLE duplicate_groups (
+    id TEXT PRIMARY KEY,
+    canonical_id TEXT NOT NULL,
+    members TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    detected_at TEXT NOT NULL,
+    reviewed_at TEXT,
+    reviewed_by TEXT
+  );
+
+  CREATE TABLE distinct_listing_pairs (
+    business_id TEXT NOT NULL,
+    other_business_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (business_id, other_business_id)
+  );
+  `,
+  `
+  CREATE TABLE listing_changes (
+    id TEXT PRIMARY KEY,
+    business_id TEXT NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    previous_value TEXT NOT NULL,
+    new_value TEXT NOT NULL,
+    changed_at TEXT NOT NULL
+  );
+
+  CREATE INDEX listing_changes_business_idx ON listing_changes (business_id, changed_at);
+  `,
+];
+
+function rowToBusiness(row: any): Business {
+  return withNormalizedLocation({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    location: row.location,
+    industry: row.industry,
+    askingPrice: row.asking_price,
+    annualRevenue: row.annual_revenue,
+    cashFlow: row.cash_flow,
+    ebitda: row.ebitda,
+    employees: row.employees,
+    yearEstablished: row.year_established,
+    sourceUrl: row.source_url,
+    sourceSite: row.source_site,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    sellerInfo: null,
+    businessDetails: null,
+    isActive: row.is_active === 1
+  });
+}
+
+function rowToUser(row: any): UserRecord {
+  return {
+    id: row.id,
+    username: row.username,
+    email: row.email,
+    preferences: row.preferences ? JSON.parse(row.preferences) : undefined,
+    passwordHash: row.password_hash
+  };
+}
+
+function toPublicUser({ passwordHash, ...user }: UserRecord): User {
+  return user;
+}
+
+function rowToSearchHistory(row: any): SearchHistoryEntry {
+  return {
+    id: row.id,
+    query: row.query,
+    filters: JSON.parse(row.filters),
+    resultsCount: row.results_count,
+    topResultIds: JSON.parse(row.top_result_ids),
+    createdAt: new Date(row.created_at)
+  };
+}
+
+function rowToSavedSearch(row: any): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    filters: JSON.parse(row.filters),
+    alertMinScore: row.alert_min_score,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+function rowToNotification(row: any): UserNotification {
+  return {
+    id: row.id,
+    savedSearchId: row.saved_search_id,
+    savedSearchName: row.saved_search_name,
+    businessId: row.business_id,
+    businessName: row.business_name,
+    score: row.score,
+    readAt: row.read_at ? new Date(row.read_at) : null,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+function rowToDigestSettings(row: any): DigestSettings {
+  return {
+    frequency: row.frequency,
+    lastSentAt: row.last_sent_at ? new Date(row.last_sent_at) : null
+  };
+}
+
+function rowToIngestionRun(row: any): IngestionRun {
+  return {
+    id: row.id,
+    source: row.source,
+    status: row.status,
+    startedAt: new Date(row.started_at),
+    finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+    pagesFetched: row.pages_fetched,
+    listingsFound: row.listings_found,
+    created: row.created,
+    updated: row.updated,
+    unchanged: row.unchanged,
+    invalid: row.invalid,
+    errors: JSON.parse(row.errors)
+  };
+}
+
+function rowToImportBatch(row: any): ImportBatch {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    importedBy: row.imported_by,
+    importedByName: row.imported_by_name,
+    status: row.status,
+    rowCount: row.row_count,
+    created: row.created,
+    updated: row.updated,
+    unchanged: row.unchanged,
+    invalid: row.invalid,
+    createdAt: new Date(row.created_at),
+    rolledBackAt: row.rolled_back_at ? new Date(row.rolled_back_at) : null
+  };
+}
+
+function rowToImportBatchItem(row: any): ImportBatchItem {
+  const previous = row.previous ? JSON.parse(row.previous) : null;
+  return {
+    businessId: row.business_id,
+    previous: previous && { ...previous, createdAt: new Date(previous.createdAt), updatedAt: new Date(previous.updatedAt) }
+  };
+}
+
+function rowToDuplicateGroup(row: any): DuplicateGroup {
+  return {
+    id: row.id,
+    canonicalId: row.canonical_id,
+    members: JSON.parse(row.members),
+    status: row.status,
+    detectedAt: new Date(row.detected_at),
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    reviewedBy: row.reviewed_by
+  };
+}
+
+function rowToListingChange(row: any): ListingChange {
+  return {
+    id: row.id,
+    businessId: row.business_id,
+    field: row.field,
+    previousValue: JSON.parse(row.previous_value),
+    newValue: JSON.parse(row.new_value),
+    changedAt: new Date(row.changed_at)
+  };
+}
+
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+  private searchIndex: SearchIndex;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+
+    // Seed demo data on first boot only, so generated listings stay stable afterwards
+    this.seedIfEmpty();
+    this.searchIndex = new SearchIndex(this.readAllBusinesses());
+  }
+
+  private migrate() {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    const pending = MIGRATIONS.slice(version);
+    if (pending.length === 0) return;
+
+    const apply = this.db.transaction(() => {
+      pending.forEach(sql => this.db.exec(sql));
+      this.db.pragma(`user_version = ${MIGRATIONS.length}`);
+    });
+    apply();
+  }
+
+  private seedIfEmpty() {
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM businesses').get() as { count: number };
+    if (count > 0) return;
+
+    const seed = this.db.transaction(() => {
+      getAllDemoBusinesses().forEach(business => this.insertBusiness(business));
+
+      this.db.prepare('INSERT OR IGNORE INTO users (id, username, email, preferences, password_hash) VALUES (?, ?, ?, ?, ?)')
+        .run(demoUser.id, demoUser.username, demoUser.email, JSON.stringify(demoUser.preferences), hashPasswordSync(demoUserPassword));
+
+      const insertHistory = this.db.prepare(
+        'INSERT INTO search_history (id, user_id, query, filters, results_count, top_result_ids, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      );
+      demoSearchHistory.forEach(entry => {
+        insertHistory.run(
+          entry.id, demoUser.id, entry.query, JSON.stringify(entry.filters), entry.resultsCount,
+          JSON.stringify(entry.topResultIds), entry.createdAt.toISOString()
+        );
+      });
+
+      this.insertListingChanges(demoListingChanges);
+    });
+    seed();
+  }
+
+  // An upsert rather than INSERT OR REPLACE, which would delete the row and move it to the end of the listing order
+  private insertBusiness(business: BusinessListing) {
+    this.db.prepare(`
+      INSERT INTO businesses (
+        id, name, description, location, industry, asking_price, annual_revenue, cash_flow, ebitda,
+        employees, year_established, source_url, source_site, is_active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name, description = excluded.description, location = excluded.location,
+        industry = excluded.industry, asking_price = excluded.asking_price, annual_revenue = excluded.annual_revenue,
+        cash_flow = excluded.cash_flow, ebitda = excluded.ebitda, employees = excluded.employees,
+        year_established = excluded.year_established, source_url = excluded.source_url,
+        source_site = excluded.source_site, is_active = excluded.is_active, updated_at = excluded.updated_at
+    `).run(
+      business.id, business.name, business.description, business.location, business.industry,
+      business.askingPrice, business.annualRevenue, business.cashFlow, business.ebitda,
+      business.employees, business.yearEstablished, business.sourceUrl, business.sourceSite,
+      business.isActive ? 1 : 0, business.createdAt.toISOString(), business.updatedAt.toISOString()
+    );
+  }
+
+  private readAllBusinesses(): Business[] {
+    return this.db.prepare('SELECT * FROM businesses ORDER BY rowid').all().map(rowToBusiness);
+  }
+
+  // Scores for the given businesses against the user's current preferences, computed on cache miss
+  private async scoresForUser(userId: string | undefined, businesses: Business[]): Promise<Map<string, BusinessScore> | undefined> {
+    if (!userId) return undefined;
+    const user = this.db.prepare('SELECT preferences, preferences_version FROM users WHERE id = ?').get(userId) as any;
+    if (!user?.preferences) return undefined;
+
+    const version: number = user.preferences_version;
+    const cached = new Map<string, BusinessScore>();
+    this.db
+      .prepare('SELECT * FROM business_scores WHERE user_id = ? AND preferences_version = ?')
+      .all(userId, version)
+      .forEach((row: any) => {
+        cached.set(row.business_id, { score: row.score, reasoning: row.reasoning, baseScore: row.base_score, factors: JSON.parse(row.factors) });
+      });
+
+    const { scores, computed } = await resolveScores(businesses, JSON.parse(user.preferences), cached, {
+      userId,
+      preferencesVersion: version,
+      save: backfilled => this.cacheScores(userId, version, backfilled)
+    });
+    this.cacheScores(userId, version, computed);
+    return scores;
+  }
+
+  private cacheScores(userId: string, version: number, scores: Map<string, BusinessScore>): void {
+    if (scores.size === 0) return;
+    const upsertScore = this.db.prepare(`
+      INSERT OR REPLACE INTO business_scores (user_id, business_id, preferences_version, score, reasoning, base_score, factors, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      scores.forEach((score, businessId) => {
+        upsertScore.run(userId, businessId, version, score.score, score.reasoning, score.baseScore, JSON.stringify(score.factors), now);
+      });
+    })();
+  }
+
+  // Business operations
+  async getAllBusinesses(): Promise<Business[]> {
+    return this.readAllBusinesses();
+  }
+
+  async getBusinessById(id: string, userId?: string): Promise<Business | null> {
+    const row = this.db.prepare('SELECT * FROM businesses WHERE id = ?').get(id);
+    if (!row) return null;
+
+    // Add aiScore to business for consistency with search results
+    const business = rowToBusiness(row);
+    const score = (await this.scoresForUser(userId, [business]))?.get(id);
+    return {
+      ...business,
+      aiScore: score?.score || undefined
+    };
+  }
+
+  async searchBusinesses(filters: BusinessSearchQuery = {}, userId?: string): Promise<BusinessSearchResult> {
+    const all = collapseDuplicates(this.readAllBusinesses(), await this.getDuplicateGroups());
+    const textMatches = this.searchIndex.search(filters.query);
+    const filtered = filterBusinesses(all, filters, textMatches);
+    return {
+      ...rankByScore(filtered, await this.scoresForUser(userId, filtered), textMatches),
+      facets: computeFacets(all, filters, textMatches)
+    };
+  }
+
+  async upsertBusinesses(businesses: BusinessListing[]): Promise<void> {
+    const deleteScores = this.db.prepare('DELETE FROM business_scores WHERE business_id = ?');
+    this.db.transaction(() => {
+      businesses.forEach(business => {
+        this.insertBusiness(business);
+        // Scores were computed from the old listing data
+        deleteScores.run(business.id);
+      });
+    })();
+    businesses.forEach(business => this.searchIndex.upsert(business));
+  }
+
+  // Scores and notifications go with the listing (ON DELETE CASCADE)
+  async deleteBusinesses(ids: string[]): Promise<number> {
+    const deleteBusiness = this.db.prepare('DELETE FROM businesses WHERE id = ?');
+    const deletedIds = this.db.transaction(() => ids.filter(id => deleteBusiness.run(id).changes > 0))();
+    deletedIds.forEach(id => this.searchIndex.remove(id));
+    return deletedIds.length;
+  }
+
+  // User operations
+  async getUserById(id: string): Promise<User | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id);
+    return row ? toPublicUser(rowToUser(row)) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<UserRecord | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE lower(email) = lower(?)').get(email);
+    return row ? rowToUser(row) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE lower(username) = lower(?)').get(username);
+    return row ? rowToUser(row) : null;
+  }
+
+  async createUser(user: UserInsert): Promise<User> {
+    const id = `user-${randomUUID()}`;
+    this.db.prepare('INSERT INTO users (id, username, email, password_hash) VALUES (?, ?, ?, ?)')
+      .run(id, user.username, user.email, user.passwordHash);
+    return { id, username: user.username, email: user.email };
+  }
+
+  async updateUserPreferences(userId: string, preferences: UserPreferences): Promise<void> {
+    const update = this.db.transaction(() => {
+      const result = this.db
+        .prepare('UPDATE users SET preferences = ?, preferences_version = preferences_version + 1 WHERE id = ?')
+        .run(JSON.stringify(preferences), userId);
+      if (result.changes > 0) {
+        // New version makes every cached score for this user stale; drop them rather than wait
+        this.db.prepare('DELETE FROM business_scores WHERE user_id = ?').run(userId);
+      }
+    });
+    update();
+  }
+
+  // Business scoring
+  async getBusinessScore(userId: string, businessId: string): Promise<BusinessScore | null> {
+    const row = this.db.prepare('SELECT * FROM businesses WHERE id = ?').get(businessId);
+    if (!row) return null;
+    return (await this.scoresForUser(userId, [rowToBusiness(row)]))?.get(businessId) || null;
+  }
+
+  async rankBusiness(userId: string, businessId: string): Promise<RankedBusinessResult | null> {
+    const business = await this.getBusinessById(businessId, userId);
+    const score = await this.getBusinessScore(userId, businessId);
+
+    if (business && score) {
+      return { business, score };
+    }
+
+    return null;
+  }
+
+  async rankMultipleBusinesses(userId: string, businessIds: string[]): Promise<RankedBusinessResult[]> {
+    const results: RankedBusinessResult[] = [];
+
+    for (const id of businessIds) {
+      const result = await this.rankBusiness(userId, id);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    // Sort by score descending
+    results.sort((a, b) => b.score.score - a.score.score);
+
+    return results;
+  }
+
+  // Search history
+  async getSearchHistory(userId: string, { limit, offset }: SearchHistoryQuery): Promise<SearchHistoryEntry[]> {
+    return this.db
+      .prepare('SELECT * FROM search_history WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?')
+      .all(userId, limit, offset)
+      .map(rowToSearchHistory);
+  }
+
+  async countSearchHistory(userId: string): Promise<number> {
+    const { count } = this.db
+      .prepare('SELECT COUNT(*) AS count FROM search_history WHERE user_id = ?')
+      .get(userId) as { count: number };
+    return count;
+  }
+
+  async addSearchHistory(userId: string, entry: Omit<SearchHistoryEntry, 'id' | 'createdAt'>): Promise<SearchHistoryEntry> {
+    const added: SearchHistoryEntry = { id: `search-${randomUUID()}`, ...entry, createdAt: new Date() };
+    this.db.transaction(() => {
+      this.db.prepare(
+        'INSERT INTO search_history (id, user_id, query, filters, results_count, top_result_ids, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      ).run(
+        added.id,
+        userId,
+        added.query,
+        JSON.stringify(added.filters),
+        added.resultsCount,
+        JSON.stringify(added.topResultIds),
+        added.createdAt.toISOString()
+      );
+      this.db.prepare(`
+        DELETE FROM search_history WHERE user_id = ? AND id NOT IN (
+          SELECT id FROM search_history WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+        )
+      `).run(userId, userId, SEARCH_HISTORY_MAX_ENTRIES);
+    })();
+    return added;
+  }
+
+  async deleteSearchHistoryEntry(userId: string, id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM search_history WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+
+  async clearSearchHistory(userId: string): Promise<number> {
+    return this.db.prepare('DELETE FROM search_history WHERE user_id = ?').run(userId).changes;
+  }
+
+  // Saved searches
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.db
+      .prepare('SELECT * FROM saved_searches WHERE user_id = ? ORDER BY created_at DESC')
+      .all(userId)
+      .map(rowToSavedSearch);
+  }
+
+  async getSavedSearch(userId: string, id: string): Promise<SavedSearch | null> {
+    const row = this.db.prepare('SELECT * FROM saved_searches WHERE id = ? AND user_id = ?').get(id, userId);
+    return row ? rowToSavedSearch(row) : null;
+  }
+
+  async createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const now = new Date();
+    const search: SavedSearch = {
+      id: `saved-${randomUUID()}`,
+      name: input.name,
+      filters: input.filters,
+      alertMinScore: input.alertMinScore,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.db.prepare(
+      'INSERT INTO saved_searches (id, user_id, name, filters, alert_min_score, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(search.id, userId, search.name, JSON.stringify(search.filters), search.alertMinScore, now.toISOString(), now.toISOString());
+    return search;
+  }
+
+  async updateSavedSearch(userId: string, id: string, update: SavedSearchUpdate): Promise<SavedSearch | null> {
+    const existing = await this.getSavedSearch(userId, id);
+    if (!existing) return null;
+    this.db.prepare('UPDATE saved_searches SET name = ?, alert_min_score = ?, updated_at = ? WHERE id = ?').run(
+      update.name ?? existing.name,
+      update.alertMinScore !== undefined ? update.alertMinScore : existing.alertMinScore,
+      new Date().toISOString(),
+      id
+    );
+    return this.getSavedSearch(userId, id);
+  }
+
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM saved_searches WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+
+  async getAlertingSavedSearches(): Promise<SavedSearchRecord[]> {
+    return this.db
+      .prepare('SELECT * FROM saved_searches WHERE alert_min_score IS NOT NULL ORDER BY created_at')
+      .all()
+      .map((row: any) => ({ ...rowToSavedSearch(row), userId: row.user_id }));
+  }
+
+  // Notifications
+  async addNotifications(notifications: NotificationInsert[]): Promise<number> {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO notifications (
+        id, user_id, saved_search_id, saved_search_name, business_id, business_name, score, read_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, ?)
+    `);
+    const now = new Date().toISOString();
+    return this.db.transaction(() => notifications.reduce((added, notification) => added + insert.run(
+      `notification-${randomUUID()}`, notification.userId, notification.savedSearchId, notification.savedSearchName,
+      notification.businessId, notification.businessName, notification.score, now
+    ).changes, 0))();
+  }
+
+  async getNotifications(userId: string, { unreadOnly, limit }: NotificationsQuery): Promise<UserNotification[]> {
+    return this.db
+      .prepare(`SELECT * FROM notifications WHERE user_id = ? ${unreadOnly ? 'AND read_at IS NULL' : ''} ORDER BY created_at DESC, rowid DESC LIMIT ?`)
+      .all(userId, limit)
+      .map(rowToNotification);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const { count } = this.db
+      .prepare('SELECT COUNT(*) AS count FROM notifications WHERE user_id = ? AND read_at IS NULL')
+      .get(userId) as { count: number };
+    return count;
+  }
+
+  async setNotificationRead(userId: string, id: string, read: boolean): Promise<UserNotification | null> {
+    // Marking an already read notification read again keeps when it was first read
+    if (read) {
+      this.db.prepare('UPDATE notifications SET read_at = COALESCE(read_at, ?) WHERE id = ? AND user_id = ?')
+        .run(new Date().toISOString(), id, userId);
+    } else {
+      this.db.prepare('UPDATE notifications SET read_at = NULL WHERE id = ? AND user_id = ?').run(id, userId);
+    }
+    const row = this.db.prepare('SELECT * FROM notifications WHERE id = ? AND user_id = ?').get(id, userId);
+    return row ? rowToNotification(row) : null;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    return this.db.prepare('UPDATE notifications SET read_at = ? WHERE user_id = ? AND read_at IS NULL')
+      .run(new Date().toISOString(), userId).changes;
+  }
+
+  // Email digest
+  async getDigestSettings(userId: string): Promise<DigestSettings> {
+    const row = this.db.prepare('SELECT * FROM digest_settings WHERE user_id = ?').get(userId);
+    return row ? rowToDigestSettings(row) : { frequency: 'off', lastSentAt: null };
+  }
+
+  async updateDigestSettings(userId: string, frequency: DigestFrequency): Promise<DigestSettings> {
+    this.db.prepare(`
+      INSERT INTO digest_settings (user_id, frequency, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (user_id) DO UPDATE SET frequency = excluded.frequency, updated_at = excluded.updated_at
+    `).run(userId, frequency, new Date().toISOString());
+    return this.getDigestSettings(userId);
+  }
+
+  async getDigestSubscribers(): Promise<DigestSubscriber[]> {
+    return this.db
+      .prepare(`
+        SELECT d.*, u.email, u.username FROM digest_settings d JOIN users u ON u.id = d.user_id
+        WHERE d.frequency != 'off' ORDER BY d.user_id
+      `)
+      .all()
+      .map((row: any) => ({ ...rowToDigestSettings(row), userId: row.user_id, email: row.email, username: row.username }));
+  }
+
+  async recordDigestSent(userId: string, sentAt: Date): Promise<void> {
+    this.db.prepare('UPDATE digest_settings SET last_sent_at = ? WHERE user_id = ?').run(sentAt.toISOString(), userId);
+  }
+
+  // Ingestion runs
+  async saveIngestionRun(run: IngestionRun): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO ingestion_runs
+        (id, source, status, started_at, finished_at, pages_fetched, listings_found, created, updated, unchanged, invalid, errors)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.id,
+      run.source,
+      run.status,
+      run.startedAt.toISOString(),
+      run.finishedAt?.toISOString() ?? null,
+      run.pagesFetched,
+      run.listingsFound,
+      run.created,
+      run.updated,
+      run.unchanged,
+      run.invalid,
+      JSON.stringify(run.errors)
+    );
+  }
+
+  async getIngestionRuns(limit: number, source?: string): Promise<IngestionRun[]> {
+    const rows = source
+      ? this.db.prepare('SELECT * FROM ingestion_runs WHERE source = ? ORDER BY started_at DESC LIMIT ?').all(source, limit)
+      : this.db.prepare('SELECT * FROM ingestion_runs ORDER BY started_at DESC LIMIT ?').all(limit);
+    return rows.map(rowToIngestionRun);
+  }
+
+  // Listing imports
+  async createImportBatch(batch: ImportBatch, items: ImportBatchItem[]): Promise<void> {
+    const insertItem = this.db.prepare('INSERT INTO import_batch_items (batch_id, business_id, previous) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO import_batches
+          (id, file_name, imported_by, imported_by_name, status, row_count, created, updated, unchanged, invalid, created_at, rolled_back_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        batch.id,
+        batch.fileName,
+        batch.importedBy,
+        batch.importedByName,
+        batch.status,
+        batch.rowCount,
+        batch.created,
+        batch.updated,
+        batch.unchanged,
+        batch.invalid,
+        batch.createdAt.toISOString(),
+        batch.rolledBackAt?.toISOString() ?? null
+      );
+      items.forEach(item => insertItem.run(batch.id, item.businessId, item.previous ? JSON.stringify(item.previous) : null));
+    })();
+  }
+
+  async getImportBatches(limit: number): Promise<ImportBatch[]> {
+    return this.db.prepare('SELECT * FROM import_batches ORDER BY created_at DESC LIMIT ?').all(limit).map(rowToImportBatch);
+  }
+
+  async getImportBatch(id: string): Promise<ImportBatch | null> {
+    const row = this.db.prepare('SELECT * FROM import_batches WHERE id = ?').get(id);
+    return row ? rowToImportBatch(row) : null;
+  }
+
+  async getImportBatchItems(id: string): Promise<ImportBatchItem[]> {
+    return this.db.prepare('SELECT * FROM import_batch_items WHERE batch_id = ?').all(id).map(rowToImportBatchItem);
+  }
+
+  async markImportBatchRolledBack(id: string, rolledBackAt: Date): Promise<ImportBatch | null> {
+    this.db.prepare("UPDATE import_batches SET status = 'rolled_back', rolled_back_at = ? WHERE id = ?").run(rolledBackAt.toISOString(), id);
+    return this.getImportBatch(id);
+  }
+
+  // Duplicate listings
+  async getDuplicateGroups(): Promise<DuplicateGroup[]> {
+    return this.db.prepare('SELECT * FROM duplicate_groups ORDER BY detected_at').all().map(rowToDuplicateGroup);
+  }
+
+  async getDuplicateGroup(id: string): Promise<DuplicateGroup | null> {
+    const row = this.db.prepare('SELECT * FROM duplicate_groups WHERE id = ?').get(id);
+    return row ? rowToDuplicateGroup(row) : null;
+  }
+
+  async saveDuplicateGroup(group: DuplicateGroup): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO duplicate_groups (id, canonical_id, members, status, detected_at, reviewed_at, reviewed_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      group.id,
+      group.canonicalId,
+      JSON.stringify(group.members),
+      group.status,
+      group.detectedAt.toISOString(),
+      group.reviewedAt?.toISOString() ?? null,
+      group.reviewedBy
+    );
+  }
+
+  async deleteDuplicateGroup(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM duplicate_groups WHERE id = ?').run(id).changes > 0;
+  }
+
+  async getDistinctListingPairs(): Promise<[string, string][]> {
+    const rows = this.db.prepare('SELECT business_id, other_business_id FROM distinct_listing_pairs').all() as any[];
+    return rows.map(row => [row.business_id, row.other_business_id]);
+  }
+
+  async addDistinctListingPairs(pairs: [string, string][], createdBy: string): Promise<void> {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO distinct_listing_pairs (business_id, other_business_id, created_by, created_at) VALUES (?, ?, ?, ?)'
+    );
+    const createdAt = new Date().toISOString();
+    this.db.transaction(() => pairs.forEach(([a, b]) => insert.run(a, b, createdBy, createdAt)))();
+  }
+
+  // Listing history
+  private insertListingChanges(changes: ListingChange[]) {
+    const insert = this.db.prepare(
+      'INSERT INTO listing_changes (id, business_id, field, previous_value, new_value, changed_at) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    changes.forEach(change => insert.run(
+      change.id, change.businessId, change.field, JSON.stringify(change.previousValue), JSON.stringify(change.newValue),
+      change.changedAt.toISOString()
+    ));
+  }
+
+  async addListingChanges(changes: ListingChangeInsert[]): Promise<void> {
+    this.db.transaction(() => this.insertListingChanges(changes.map(change => ({ id: `change-${randomUUID()}`, ...change }))))();
+  }
+
+  async getListingChanges(businessId: string): Promise<ListingChange[]> {
+    return this.db.prepare('SELECT * FROM listing_changes WHERE business_id = ? ORDER BY changed_at')
+      .all(businessId)
+      .map(rowToListingChange);
+  }
+
+  async getLatestListingChanges(businessIds: string[], field: TrackedListingField): Promise<ListingChange[]> {
+    if (businessIds.length === 0) return [];
+    const rows = this.db.prepare(`
+      SELECT * FROM listing_changes
+      WHERE field = ? AND business_id IN (SELECT value FROM json_each(?))
+      ORDER BY changed_at
+    `).all(field, JSON.stringify(businessIds));
+    // Ordered oldest first, so each listing's latest change is the one left in the map
+    return Array.from(new Map(rows.map(rowToListingChange).map(change => [change.businessId, change])).values());
+  }
+
+  // Sessions
+  async getSession(sid: string): Promise<Record<string, unknown> | null> {
+    const row = this.db.prepare('SELECT sess, expire FROM sessions WHERE sid = ?').get(sid) as any;
+    if (!row) return null;
+    if (new Date(row.expire).getTime() <= Date.now()) {
+      this.db.prepare('DELETE FROM sessions WHERE sid = ?').run(sid);
+      return null;
+    }
+    return JSON.parse(row.sess);
+  }
+
+  async setSession(sid: string, sess: Record<string, unknown>, expiresAt: Date): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO sessions (sid, sess, expire) VALUES (?, ?, ?)')
+      .run(sid, JSON.stringify(sess), expiresAt.toISOString());
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE sid = ?').run(sid);
+  }
+
+  close() {
+    this.db.close();
+  }
+}
@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getAllDemoBusinesses } from "../data/demoBusinesses.js";
+import { testListing } from "../test/listings.js";
+import { storageDrivers, TestStorage } from "../test/storageDrivers.js";
+
+describe.each(storageDrivers)("$name storage", ({ open }) => {
+  let store: TestStorage;
+  beforeAll(() => {
+    store = open();
+  });
+  afterAll(() => store.close());
+
+  it("seeds the demo listings with their locations normalized", async () => {
+    const business = await store.storage.getBusinessById("demo-tech-1");
+    expect(business).toMatchObject({ id: "demo-tech-1", askingPrice: 1200000, city: "New York", state: "NY" });
+    expect((await store.storage.getAllBusinesses()).length).toBeGreaterThanOrEqual(50);
+  });
+
+  it("inserts, updates and deletes listings", async () => {
+    const id = `test-${randomUUID()}`;
+    await store.storage.upsertBusinesses([testListing(id)]);
+    expect(await store.storage.getBusinessById(id)).toMatchObject({ name: "Harbor Coffee Roasters", city: "Portland", state: "OR" });
+
+    await store.storage.upsertBusinesses([testListing(id, { askingPrice: 600000, createdAt: new Date("2024-03-01T00:00:00Z") })]);
+    // An update keeps when the listing was first added
+    expect(await store.storage.getBusinessById(id)).toMatchObject({ askingPrice: 600000, createdAt: new Date("2024-01-02T00:00:00Z") });
+
+    expect(await store.storage.deleteBusinesses([id, "missing-listing"])).toBe(1);
+    expect(await store.storage.getBusinessById(id)).toBeNull();
+  });
+
+  it("finds upserted listings by text search", async () => {
+    const id = `test-${randomUUID()}`;
+    await store.storage.upsertBusinesses([testListing(id, { name: "Quillfeather Bindery" })]);
+    const { businesses } = await store.storage.searchBusinesses({ query: "quillfeather" });
+    expect(businesses.map(business => business.id)).toContain(id);
+    await store.storage.deleteBusinesses([id]);
+  });
+
+  it("looks users up by email and username ignoring case", async () => {
+    const suffix = randomUUID().slice(0, 8);
+    const user = await store.storage.createUser({ username: `Parity_${suffix}`, email: `parity-${suffix}@example.com`, passwordHash: "hash" });
+    expect(await store.storage.getUserByEmail(`PARITY-${suffix}@example.com`)).toMatchObject({ id: user.id, passwordHash: "hash" });
+    expect((await store.storage.getUserByUsername(`parity_${suffix}`))?.id).toBe(user.id);
+    expect(await store.storage.getUserById(user.id)).not.toHaveProperty("passwordHash");
+  });
+
+  it("stores a user's preferences", async () => {
+    const suffix = randomUUID().slice(0, 8);
+    const user = await store.storage.createUser({ username: `prefs_${suffix}`, email: `prefs-${suffix}@example.com`, passwordHash: "hash" });
+    const preferences = {
+      budgetRange: { min: 250000, max: 900000 },
+      preferredIndustries: ["Retail"],
+      preferredLocations: ["Denver, CO"],
+      businessSize: "small" as const,
+      riskTolerance: "low" as const,
+      involvementLevel: "hands-on" as const
+    };
+    await store.storage.updateUserPreferences(user.id, preferences);
+    expect((await store.storage.getUserById(user.id))?.preferences).toMatchObject(preferences);
+  });
+
+  it("keeps search history per user, newest first", async () => {
+    const suffix = randomUUID().slice(0, 8);
+    const user = await store.storage.createUser({ username: `history_${suffix}`, email: `history-${suffix}@example.com`, passwordHash: "hash" });
+    const first = await store.storage.addSearchHistory(user.id, { query: "bakery", filters: {}, resultsCount: 3, topResultIds: [] });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await store.storage.addSearchHistory(user.id, { query: "hvac", filters: { industries: ["Construction"] }, resultsCount: 1, topResultIds: ["demo-gen-15"] });
+
+    const history = await store.storage.getSearchHistory(user.id, { limit: 10, offset: 0 });
+    expect(history.map(entry => entry.id)).toEqual([second.id, first.id]);
+    expect(history[0]).toMatchObject({ filters: { industries: ["Construction"] }, topResultIds: ["demo-gen-15"] });
+
+    expect(await store.storage.deleteSearchHistoryEntry("someone-else", first.id)).toBe(false);
+    expect(await store.storage.deleteSearchHistoryEntry(user.id, first.id)).toBe(true);
+    expect(await store.storage.clearSearchHistory(user.id)).toBe(1);
+    expect(await store.storage.countSearchHistory(user.id)).toBe(0);
+  });
+
+  it("scopes saved searches to their owner", async () => {
+    const suffix = randomUUID().slice(0, 8);
+    const user = await store.storage.createUser({ username: `saved_${suffix}`, email: `saved-${suffix}@example.com`, passwordHash: "hash" });
+    const saved = await store.storage.createSavedSearch(user.id, { name: "Denver trades", filters: { location: "Denver, CO" }, alertMinScore: 70 });
+
+    expect(await store.storage.getSavedSearch("someone-else", saved.id)).toBeNull();
+    expect(await store.storage.updateSavedSearch(user.id, saved.id, { alertMinScore: null })).toMatchObject({ name: "Denver trades", alertMinScore: null });
+    expect((await store.storage.getAlertingSavedSearches()).some(search => search.id === saved.id)).toBe(false);
+    expect(await store.storage.deleteSavedSearch(user.id, saved.id)).toBe(true);
+    expect(await store.storage.getSavedSearches(user.id)).toEqual([]);
+  });
+
+  it("expires sessions", async () => {
+    const sid = randomUUID();
+    await store.storage.setSession(sid, { userId: "demo-user-1" }, new Date(Date.now() + 60000));
+    expect(await store.storage.getSession(sid)).toEqual({ userId: "demo-user-1" });
+
+    await store.storage.setSession(sid, { userId: "demo-user-1" }, new Date(Date.now() - 1000));
+    expect(await store.storage.getSession(sid)).toBeNull();
+  });
+});
+
+describe("storage parity", () => {
+  // Postgres reuses one database, so listings other tests left there are set aside and the seeded ones compared.
+  // Without a user the drivers return matches unranked, in the order they were added, so they're compared as sets.
+  const seeded = new Set(getAllDemoBusinesses().map(business => business.id));
+  const queries = [
+    { industries: ["Technology"] },
+    { minPrice: 500000, maxPrice: 1000000, sortBy: "askingPrice" as const, sortOrder: "asc" as const },
+    { query: "restaurant" },
+    { location: "Austin, TX" }
+  ];
+
+  let stores: TestStorage[];
+  beforeAll(() => {
+    stores = storageDrivers.map(({ open }) => open());
+  });
+  afterAll(() => Promise.all(stores.map(store => store.close())));
+
+  it.each(queries)("returns the same results from every driver for %j", async (query) => {
+    const results = await Promise.all(stores.map(async ({ storage }) => {
+      const { businesses } = await storage.searchBusinesses(query);
+      return businesses.map(business => business.id).filter(id => seeded.has(id)).sort();
+    }));
+    expect(results[0].length).toBeGreaterThan(0);
+    results.slice(1).forEach(result => expect(result).toEqual(results[0]));
+  });
+});
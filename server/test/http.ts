@@ -0,0 +1,61 @@
+// Runs an express app on an ephemeral port for tests, with a client that keeps cookies between requests like a browser
+import { Express } from 'express';
+import { AddressInfo } from 'net';
+
+export interface TestResponse {
+  status: number;
+  // Whatever JSON (or text) the route sent; tests reach into it freely
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+  headers: Headers;
+}
+
+export interface TestClient {
+  request(method: string, path: string, body?: unknown): Promise<TestResponse>;
+  cookie(name: string): string | undefined;
+}
+
+export interface TestServer {
+  client(): TestClient;
+  close(): Promise<void>;
+}
+
+export async function startTestServer(app: Express): Promise<TestServer> {
+  const server = await new Promise<ReturnType<Express['listen']>>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    client() {
+      const cookies = new Map<string, string>();
+      return {
+        async request(method, path, body) {
+          const res = await fetch(baseUrl + path, {
+            method,
+            headers: {
+              ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+              ...(cookies.size > 0 ? { Cookie: Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; ') } : {})
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+          });
+          for (const setCookie of res.headers.getSetCookie()) {
+            const [pair, ...attributes] = setCookie.split(';');
+            const [name, value] = pair.split('=');
+            const expired = attributes.some(attribute => /^\s*expires=/i.test(attribute) && new Date(attribute.split('=')[1]).getTime() <= Date.now());
+            if (expired || value === '') cookies.delete(name.trim());
+            else cookies.set(name.trim(), value);
+          }
+          const text = await res.text();
+          const json = res.headers.get('content-type')?.includes('application/json');
+          return { status: res.status, body: json ? JSON.parse(text) : text || null, headers: res.headers };
+        },
+        cookie: name => cookies.get(name)
+      };
+    },
+    close: () => new Promise((resolve, reject) => {
+      server.close(err => (err ? reject(err) : resolve()));
+      server.closeAllConnections();
+    })
+  };
+}
@@ -0,0 +1,24 @@
+// Listing builder for tests - a complete, valid listing with whatever fields the test cares about overridden
+import { BusinessListing } from "../../shared/schema.js";
+
+export const testListing = (id: string, overrides: Partial<BusinessListing> = {}): BusinessListing => ({
+  id,
+  name: "Harbor Coffee Roasters",
+  description: "Specialty coffee roaster with wholesale accounts",
+  location: "Portland, OR",
+  industry: "Food & Beverage",
+  askingPrice: 640000,
+  annualRevenue: 910000,
+  cashFlow: 210000,
+  ebitda: 190000,
+  employees: 9,
+  yearEstablished: 2012,
+  sourceUrl: `https://example.com/listings/${id}`,
+  sourceSite: "Example Marketplace",
+  createdAt: new Date("2024-01-02T00:00:00Z"),
+  updatedAt: new Date("2024-01-02T00:00:00Z"),
+  sellerInfo: null,
+  businessDetails: null,
+  isActive: true,
+  ...overrides
+});
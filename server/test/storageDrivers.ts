@@ -0,0 +1,41 @@
+// Storage backends for tests: memory and in-memory SQLite always, Postgres when TEST_DATABASE_URL names a database.
+// Memory and SQLite start from a freshly seeded store on every open; Postgres reuses one database, so tests that
+// run against it use their own IDs rather than assuming an empty store.
+import { DemoMemoryStorage } from "../storage/memoryStorage.js";
+import { SqliteStorage } from "../storage/sqliteStorage.js";
+import { PostgresStorage } from "../storage/postgresStorage.js";
+import { IStorage } from "../storage/IStorage.js";
+import type { StorageDriver } from "../storage/index.js";
+
+export interface TestStorage {
+  storage: IStorage;
+  close(): Promise<void>;
+}
+
+export interface TestStorageDriver {
+  name: StorageDriver;
+  open(): TestStorage;
+}
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+export const storageDrivers: TestStorageDriver[] = [
+  {
+    name: 'memory',
+    open: () => ({ storage: new DemoMemoryStorage(), close: async () => {} })
+  },
+  {
+    name: 'sqlite',
+    open: () => {
+      const storage = new SqliteStorage(':memory:');
+      return { storage, close: async () => storage.close() };
+    }
+  },
+  ...(testDatabaseUrl ? [{
+    name: 'postgres' as const,
+    open: () => {
+      const storage = new PostgresStorage({ connectionString: testDatabaseUrl });
+      return { storage, close: () => storage.close() };
+    }
+  }] : [])
+];
@@ -1,6 +1,5 @@
 // Simplified vite setup for demo
 import { type Express } from "express";
-import path from 'path';
 
 export async function setupVite(app: Express) {
   const vite = await (await import("vite")).createServer({
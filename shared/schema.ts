@@ -1,11 +1,18 @@
 import { z } from "zod";
+import { pgTable, varchar, text, integer, real, boolean, timestamp, jsonb, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 
-// Simplified schema for demo - no database dependencies
+// Domain types shared by client and server
 export interface Business {
   id: string;
   name: string;
   description: string;
-  location: string;
+  location: string; // as listed, e.g. "Austin, TX"
+  // Normalized from location against the bundled gazetteer; lat/lng are null for places it doesn't know
+  city: string;
+  state: string; // two-letter code, or empty when the location names none
+  lat: number | null;
+  lng: number | null;
+  distanceMiles?: number; // from the `near` place, on results of a search that gave one
   industry: string;
   askingPrice: number;
   annualRevenue: number;
@@ -16,6 +23,10 @@ export interface Business {
   sourceUrl: string;
   sourceSite: string;
   aiScore?: number;
+  // Every source the business is listed on, when it is the canonical listing of a duplicate group
+  sources?: ListingSourceLink[];
+  // The asking price before the latest change to it, when that change cut the price within PRICE_REDUCED_DAYS
+  priceReducedFrom?: number;
   createdAt: Date;
   updatedAt: Date;
   sellerInfo: null;
@@ -23,10 +34,25 @@ export interface Business {
   isActive: boolean;
 }
 
+// A listing as sourced, before its location is normalized; storage derives the rest
+export type BusinessListing = Omit<Business, 'city' | 'state' | 'lat' | 'lng' | 'distanceMiles'>;
+
+// One line of a score breakdown; score = baseScore + the sum of pointsAwarded, so the UI can show it verbatim
+export interface ScoreFactor {
+  key: ScoringFactorKey;
+  name: string;
+  weight: number; // as configured in the weights profile
+  pointsAwarded: number;
+  maxPoints: number;
+  evidence: string;
+}
+
 export interface BusinessScore {
   score: number;
   reasoning: string;
-  factors: Record<string, any>;
+  // Points every business starts from (the profile's lower bound)
+  baseScore: number;
+  factors: ScoreFactor[];
 }
 
 export interface User {
@@ -34,6 +60,8 @@ export interface User {
   username: string;
   email: string;
   preferences?: UserPreferences;
+  // Team member allowed into the admin tools (listing imports); set from ADMIN_EMAILS, not stored
+  isAdmin?: boolean;
 }
 
 export interface DemoUser {
@@ -53,8 +81,591 @@ export interface UserPreferences {
   businessSize: string;
   riskTolerance: string;
   involvementLevel: string;
+  // Scoring weights; the rule-based default profile applies when absent
+  weightsProfile?: ScoringWeightsProfile;
+}
+
+export const scoringFactorKeys = [
+  'industry',
+  'location',
+  'budget',
+  'size',
+  'cashFlowMargin',
+  'valuation',
+  'risk',
+  'involvement'
+] as const;
+
+export type ScoringFactorKey = typeof scoringFactorKeys[number];
+
+// How a factor's 0-1 fit turns into points: step = all-or-nothing at 0.5, lenient/strict bend partial fits up/down
+export type ScoringCurve = 'linear' | 'step' | 'lenient' | 'strict';
+
+export interface ScoringWeightsProfile {
+  name: string;
+  scope: 'user' | 'team';
+  weights: Record<ScoringFactorKey, number>;
+  curves: Partial<Record<ScoringFactorKey, ScoringCurve>>;
+  // Final score range: no fit on any factor scores `min`, a perfect fit scores `max`
+  bounds: { min: number; max: number };
+}
+
+export const defaultScoringProfile: ScoringWeightsProfile = {
+  name: 'Default',
+  scope: 'user',
+  weights: {
+    industry: 25,
+    location: 15,
+    budget: 15,
+    size: 10,
+    cashFlowMargin: 5,
+    valuation: 5,
+    risk: 5,
+    involvement: 5
+  },
+  curves: {},
+  bounds: { min: 50, max: 98 }
+};
+
+// A search the user ran; re-running it means searching with the query and filters again
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  // As the search API parsed them, without the text query, sorting or paging
+  filters: BusinessSearchQuery;
+  resultsCount: number;
+  // The first results, in the order they were shown
+  topResultIds: string[];
+  createdAt: Date;
+}
+
+// Response of GET /api/user/search-history; count is the user's whole history, for paging
+export interface SearchHistoryResponse {
+  history: SearchHistoryEntry[];
+  count: number;
+}
+
+// Older entries are dropped once a user has this many
+export const SEARCH_HISTORY_MAX_ENTRIES = 200;
+
+// A named set of search filters (text query included) a user can re-run; filters are stored as the search API parses them
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: BusinessSearchQuery;
+  // New or updated listings matching the search at this AI score or above raise a notification; null turns alerts off
+  alertMinScore: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Response of GET /api/user/saved-searches
+export interface SavedSearchesResponse {
+  savedSearches: SavedSearch[];
+}
+
+export const DEFAULT_ALERT_MIN_SCORE = 70;
+
+// In-app notification that a new or updated listing matched one of the user's saved searches.
+// The names are as they were when it was raised; readAt is null while unread.
+export interface UserNotification {
+  id: string;
+  savedSearchId: string;
+  savedSearchName: string;
+  businessId: string;
+  businessName: string;
+  score: number | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// Response of GET /api/user/notifications
+export interface NotificationsResponse {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+export const digestFrequencies = ['off', 'daily', 'weekly'] as const;
+export type DigestFrequency = typeof digestFrequencies[number];
+
+// Email digest of the top new listings matching the user's saved searches; lastSentAt is null until the first one goes out
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  lastSentAt: Date | null;
+}
+
+export type IngestionRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+// A page or listing an ingestion run couldn't take in; externalId is set for listings
+export interface IngestionRunError {
+  url?: string;
+  externalId?: string;
+  message: string;
+}
+
+// One pass of the ingestion pipeline over a listing source. "partial" means some pages or listings failed and the
+// rest were stored; finishedAt is null while it's running. Unchanged listings are counted but not written.
+export interface IngestionRun {
+  id: string;
+  source: string;
+  status: IngestionRunStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  pagesFetched: number;
+  listingsFound: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  invalid: number;
+  // The first INGESTION_RUN_MAX_ERRORS of them
+  errors: IngestionRunError[];
+}
+
+export const INGESTION_RUN_MAX_ERRORS = 50;
+
+// Listing fields a spreadsheet column can be imported into - every field of businessInsertSchema
+export const importFields = [
+  'name', 'description', 'location', 'industry', 'askingPrice', 'annualRevenue', 'cashFlow', 'ebitda',
+  'employees', 'yearEstablished', 'sourceUrl', 'sourceSite'
+] as const satisfies readonly (keyof BusinessInsert)[];
+export type ImportField = typeof importFields[number];
+
+// Spreadsheet column (by its heading) to read each listing field from
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+// Response of POST /api/admin/imports/preview - what the uploaded file holds, to map its columns
+export interface ImportPreview {
+  fileName: string;
+  format: 'csv' | 'xlsx';
+  columns: string[];
+  rowCount: number;
+  sampleRows: string[][];
+  // Columns whose headings look like a listing field
+  suggestedMapping: ImportMapping;
+}
+
+// Why a row wasn't imported; row is as the spreadsheet numbers it (the header is row 1)
+export interface ImportRowError {
+  row: number;
+  field?: ImportField;
+  column?: string;
+  message: string;
+}
+
+export type ImportBatchStatus = 'imported' | 'rolled_back';
+
+// One spreadsheet import. Listings are matched to existing ones by sourceUrl; rolling the batch back deletes the
+// listings it created and restores the previous version of the ones it updated.
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  importedBy: string;
+  importedByName: string;
+  status: ImportBatchStatus;
+  rowCount: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  invalid: number;
+  createdAt: Date;
+  rolledBackAt: Date | null;
+}
+
+// Response of POST /api/admin/imports; batch is null for a dry run, which validates without writing anything
+export interface ImportReport {
+  batch: ImportBatch | null;
+  rowCount: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  invalid: number;
+  // The first IMPORT_REPORT_MAX_ERRORS of them, in row order
+  errors: ImportRowError[];
+}
+
+export const IMPORT_REPORT_MAX_ERRORS = 500;
+
+// Response of POST /api/admin/imports/:id/rollback. Listings changed again since the import are left as they are.
+export interface ImportRollbackResult {
+  batch: ImportBatch;
+  deleted: number;
+  restored: number;
+  skippedBusinessIds: string[];
+}
+
+// One source's listing of a business that is listed on several
+export interface ListingSourceLink {
+  businessId: string;
+  sourceSite: string;
+  sourceUrl: string;
+}
+
+// A listing grouped with its group's canonical listing, how alike the two are (0-1) and why
+export interface DuplicateGroupMember {
+  businessId: string;
+  score: number;
+  reasons: string[];
+}
+
+export type DuplicateGroupStatus = 'pending' | 'confirmed';
+
+// Listings from different sources that are the same business. Search shows the canonical listing, with a link to each
+// source; the other members stay stored (and ingestion keeps updating them) but are left out of results. Detection
+// creates groups as pending; an admin confirms them, or splits listings out, which keeps detection from regrouping them.
+export interface DuplicateGroup {
+  id: string;
+  canonicalId: string;
+  members: DuplicateGroupMember[];
+  status: DuplicateGroupStatus;
+  detectedAt: Date;
+  reviewedAt: Date | null;
+  reviewedBy: string | null;
+}
+
+// A group with its listings (the canonical one first), as the admin review screen shows it
+export interface DuplicateGroupDetails extends DuplicateGroup {
+  listings: Business[];
+}
+
+// Response of POST /api/admin/duplicates/scan
+export interface DuplicateScanResult {
+  scanned: number;
+  groupsCreated: number;
+  listingsGrouped: number;
+  groupsRemoved: number;
+}
+
+// Listing fields whose changes are kept as the listing's history; isActive is its status (listed or withdrawn)
+export const trackedListingFields = [
+  'askingPrice', 'annualRevenue', 'cashFlow', 'isActive', 'description'
+] as const satisfies readonly (keyof BusinessListing)[];
+export type TrackedListingField = typeof trackedListingFields[number];
+
+export type ListingChangeValue = number | boolean | string;
+
+// One tracked field of a listing changing between two versions of it, as ingestion or an import wrote them
+export interface ListingChange {
+  id: string;
+  businessId: string;
+  field: TrackedListingField;
+  previousValue: ListingChangeValue;
+  newValue: ListingChangeValue;
+  changedAt: Date;
+}
+
+// How long a price cut marks a listing as reduced
+export const PRICE_REDUCED_DAYS = 90;
+
+// How a text query was widened: synonym phrases and typo corrections that matched listings
+export interface QueryExpansion {
+  synonyms: { term: string; expandedTo: string[] }[];
+  corrections: { term: string; correctedTo: string[] }[];
+}
+
+// A gazetteer city; label is "City, ST"
+export interface GeoPlace {
+  label: string;
+  city: string;
+  state: string;
+  lat: number;
+  lng: number;
+}
+
+// Response of GET /api/locations
+export interface LocationsResponse {
+  locations: GeoPlace[];
+}
+
+export type HighlightField = 'name' | 'industry' | 'location' | 'description';
+
+// Character offsets of a matched word; end is exclusive
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+// Why a listing matched the text query: matched words per field, plus a short description
+// excerpt around the first match ("…" added where it was cut) with offsets into the excerpt
+export interface BusinessHighlights {
+  fields: Partial<Record<HighlightField, HighlightRange[]>>;
+  snippet?: { text: string; ranges: HighlightRange[] };
+}
+
+export type AutocompleteSuggestionType = 'recent' | 'business' | 'industry' | 'city';
+
+// `value` is the business ID for business suggestions and the text to search for otherwise
+export interface AutocompleteSuggestion {
+  type: AutocompleteSuggestionType;
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+// Response of GET /api/search/autocomplete
+export interface AutocompleteResponse {
+  query: string;
+  suggestions: AutocompleteSuggestion[];
+}
+
+// Facet ranges: min inclusive, max exclusive; an open end has no bound
+export interface FacetRange {
+  value: string;
+  label: string;
+  min?: number;
+  max?: number;
 }
 
+export const priceBands: FacetRange[] = [
+  { value: 'under-250k', label: 'Under $250K', max: 250000 },
+  { value: '250k-500k', label: '$250K - $500K', min: 250000, max: 500000 },
+  { value: '500k-1m', label: '$500K - $1M', min: 500000, max: 1000000 },
+  { value: '1m-2.5m', label: '$1M - $2.5M', min: 1000000, max: 2500000 },
+  { value: '2.5m-5m', label: '$2.5M - $5M', min: 2500000, max: 5000000 },
+  { value: '5m-plus', label: '$5M+', min: 5000000 }
+];
+
+export const revenueBands: FacetRange[] = [
+  { value: 'under-500k', label: 'Under $500K', max: 500000 },
+  { value: '500k-1m', label: '$500K - $1M', min: 500000, max: 1000000 },
+  { value: '1m-2.5m', label: '$1M - $2.5M', min: 1000000, max: 2500000 },
+  { value: '2.5m-5m', label: '$2.5M - $5M', min: 2500000, max: 5000000 },
+  { value: '5m-10m', label: '$5M - $10M', min: 5000000, max: 10000000 },
+  { value: '10m-plus', label: '$10M+', min: 10000000 }
+];
+
+export const establishedRanges: FacetRange[] = [
+  { value: 'before-1990', label: 'Before 1990', max: 1990 },
+  { value: '1990s', label: '1990s', min: 1990, max: 2000 },
+  { value: '2000s', label: '2000s', min: 2000, max: 2010 },
+  { value: '2010s', label: '2010s', min: 2010, max: 2020 },
+  { value: '2020-plus', label: '2020 or later', min: 2020 }
+];
+
+export interface FacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// Counts per filter option. Each facet is computed with every filter applied except its own,
+// so picking an option doesn't hide the alternatives to it.
+export interface SearchFacets {
+  industries: FacetBucket[];
+  states: FacetBucket[];
+  cities: FacetBucket[];
+  priceBands: FacetBucket[];
+  revenueBands: FacetBucket[];
+  sizes: FacetBucket[];
+  established: FacetBucket[];
+}
+
+// Response of GET /api/businesses
+export interface BusinessSearchResponse {
+  businesses: Business[];
+  total: number; // matches across all pages
+  limit: number;
+  offset: number;
+  nextOffset: number | null; // null on the last page
+  nextCursor: string | null; // pass back as `cursor` for the next page; null on the last page
+  sortBy: BusinessSortField;
+  sortOrder: 'asc' | 'desc';
+  queryExpansion?: QueryExpansion; // only for searches with a text query
+  highlights?: Record<string, BusinessHighlights>; // by business ID, for this page; only for searches with a text query
+  facets: SearchFacets;
+}
+
+// Drizzle tables (Postgres) - mirror the domain types above; see drizzle.config.ts for migrations
+export const businesses = pgTable("businesses", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  location: text("location").notNull(),
+  industry: text("industry").notNull(),
+  askingPrice: integer("asking_price").notNull(),
+  annualRevenue: integer("annual_revenue").notNull(),
+  cashFlow: integer("cash_flow").notNull(),
+  ebitda: integer("ebitda").notNull(),
+  employees: integer("employees").notNull(),
+  yearEstablished: integer("year_established").notNull(),
+  sourceUrl: text("source_url").notNull(),
+  sourceSite: text("source_site").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("businesses_industry_idx").on(table.industry),
+  index("businesses_asking_price_idx").on(table.askingPrice),
+]);
+
+export const users = pgTable("users", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  username: varchar("username", { length: 64 }).notNull().unique(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  passwordHash: text("password_hash"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid", { length: 255 }).primaryKey(),
+  sess: jsonb("sess").$type<Record<string, unknown>>().notNull(),
+  expire: timestamp("expire").notNull(),
+}, (table) => [
+  index("sessions_expire_idx").on(table.expire),
+]);
+
+export const userPreferences = pgTable("user_preferences", {
+  userId: varchar("user_id", { length: 64 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  budgetMin: integer("budget_min").notNull(),
+  budgetMax: integer("budget_max").notNull(),
+  preferredIndustries: jsonb("preferred_industries").$type<string[]>().notNull(),
+  preferredLocations: jsonb("preferred_locations").$type<string[]>().notNull(),
+  businessSize: text("business_size").notNull(),
+  riskTolerance: text("risk_tolerance").notNull(),
+  involvementLevel: text("involvement_level").notNull(),
+  weightsProfile: jsonb("weights_profile").$type<ScoringWeightsProfile>(),
+  // Bumped on every update; cached scores from older versions are stale
+  version: integer("version").notNull().default(1),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const businessScores = pgTable("business_scores", {
+  userId: varchar("user_id", { length: 64 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  businessId: varchar("business_id", { length: 64 }).notNull().references(() => businesses.id, { onDelete: "cascade" }),
+  preferencesVersion: integer("preferences_version").notNull(),
+  score: integer("score").notNull(),
+  reasoning: text("reasoning").notNull(),
+  baseScore: real("base_score").notNull().default(0),
+  factors: jsonb("factors").$type<ScoreFactor[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.businessId] }),
+]);
+
+export const searchHistory = pgTable("search_history", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  query: text("query").notNull(),
+  filters: jsonb("filters").$type<BusinessSearchQuery>().notNull(),
+  resultsCount: integer("results_count").notNull(),
+  topResultIds: jsonb("top_result_ids").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("search_history_user_idx").on(table.userId, table.createdAt),
+]);
+
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<BusinessSearchQuery>().notNull(),
+  alertMinScore: integer("alert_min_score"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("saved_searches_user_idx").on(table.userId, table.createdAt),
+]);
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Not a foreign key: notifications outlive the saved search that raised them
+  savedSearchId: varchar("saved_search_id", { length: 64 }).notNull(),
+  savedSearchName: text("saved_search_name").notNull(),
+  businessId: varchar("business_id", { length: 64 }).notNull().references(() => businesses.id, { onDelete: "cascade" }),
+  businessName: text("business_name").notNull(),
+  score: integer("score"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+  // A listing raises at most one notification per saved search
+  uniqueIndex("notifications_search_business_idx").on(table.savedSearchId, table.businessId),
+]);
+
+export const digestSettings = pgTable("digest_settings", {
+  userId: varchar("user_id", { length: 64 }).primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  frequency: varchar("frequency", { length: 16 }).$type<DigestFrequency>().notNull().default("off"),
+  lastSentAt: timestamp("last_sent_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const ingestionRuns = pgTable("ingestion_runs", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  source: varchar("source", { length: 64 }).notNull(),
+  status: varchar("status", { length: 16 }).$type<IngestionRunStatus>().notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at"),
+  pagesFetched: integer("pages_fetched").notNull().default(0),
+  listingsFound: integer("listings_found").notNull().default(0),
+  created: integer("created").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  unchanged: integer("unchanged").notNull().default(0),
+  invalid: integer("invalid").notNull().default(0),
+  errors: jsonb("errors").$type<IngestionRunError[]>().notNull().default([]),
+}, (table) => [
+  index("ingestion_runs_started_idx").on(table.startedAt),
+]);
+
+export const importBatches = pgTable("import_batches", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  fileName: text("file_name").notNull(),
+  // Not a foreign key: the record of an import outlives the account that ran it
+  importedBy: varchar("imported_by", { length: 64 }).notNull(),
+  importedByName: text("imported_by_name").notNull(),
+  status: varchar("status", { length: 16 }).$type<ImportBatchStatus>().notNull().default("imported"),
+  rowCount: integer("row_count").notNull(),
+  created: integer("created").notNull(),
+  updated: integer("updated").notNull(),
+  unchanged: integer("unchanged").notNull(),
+  invalid: integer("invalid").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  rolledBackAt: timestamp("rolled_back_at"),
+}, (table) => [
+  index("import_batches_created_idx").on(table.createdAt),
+]);
+
+export const importBatchItems = pgTable("import_batch_items", {
+  batchId: varchar("batch_id", { length: 64 }).notNull().references(() => importBatches.id, { onDelete: "cascade" }),
+  // Not a foreign key: rolling back deletes the listings the batch created
+  businessId: varchar("business_id", { length: 64 }).notNull(),
+  // The listing as it was before the import; null when the import created it
+  previous: jsonb("previous").$type<BusinessListing>(),
+}, (table) => [
+  primaryKey({ columns: [table.batchId, table.businessId] }),
+]);
+
+export const duplicateGroups = pgTable("duplicate_groups", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  // Not foreign keys: a group whose listings are deleted is cleaned up by the next scan
+  canonicalId: varchar("canonical_id", { length: 64 }).notNull(),
+  members: jsonb("members").$type<DuplicateGroupMember[]>().notNull(),
+  status: varchar("status", { length: 16 }).$type<DuplicateGroupStatus>().notNull().default("pending"),
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: varchar("reviewed_by", { length: 64 }),
+});
+
+// Listings an admin split apart; each pair is stored once, lower ID first
+export const distinctListingPairs = pgTable("distinct_listing_pairs", {
+  businessId: varchar("business_id", { length: 64 }).notNull(),
+  otherBusinessId: varchar("other_business_id", { length: 64 }).notNull(),
+  createdBy: varchar("created_by", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.businessId, table.otherBusinessId] }),
+]);
+
+export const listingChanges = pgTable("listing_changes", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  businessId: varchar("business_id", { length: 64 }).notNull().references(() => businesses.id, { onDelete: "cascade" }),
+  field: varchar("field", { length: 32 }).$type<TrackedListingField>().notNull(),
+  previousValue: jsonb("previous_value").$type<ListingChangeValue>().notNull(),
+  newValue: jsonb("new_value").$type<ListingChangeValue>().notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("listing_changes_business_idx").on(table.businessId, table.changedAt),
+]);
+
 // Zod schemas for validation
 export const businessInsertSchema = z.object({
   name: z.string().min(1),
@@ -71,6 +682,37 @@ export const businessInsertSchema = z.object({
   sourceSite: z.string().min(1)
 });
 
+const scoringCurveSchema = z.enum(['linear', 'step', 'lenient', 'strict']);
+
+export const scoringWeightsProfileSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scope: z.enum(['user', 'team']).default('user'),
+  weights: z.object({
+    industry: z.number().min(0).max(100),
+    location: z.number().min(0).max(100),
+    budget: z.number().min(0).max(100),
+    size: z.number().min(0).max(100),
+    cashFlowMargin: z.number().min(0).max(100),
+    valuation: z.number().min(0).max(100),
+    risk: z.number().min(0).max(100),
+    involvement: z.number().min(0).max(100)
+  }).refine(weights => Object.values(weights).some(weight => weight > 0), "At least one factor needs a weight above 0"),
+  curves: z.object({
+    industry: scoringCurveSchema,
+    location: scoringCurveSchema,
+    budget: scoringCurveSchema,
+    size: scoringCurveSchema,
+    cashFlowMargin: scoringCurveSchema,
+    valuation: scoringCurveSchema,
+    risk: scoringCurveSchema,
+    involvement: scoringCurveSchema
+  }).partial().default({}),
+  bounds: z.object({
+    min: z.number().min(0).max(100),
+    max: z.number().min(0).max(100)
+  }).refine(bounds => bounds.min < bounds.max, "bounds.min must be below bounds.max")
+});
+
 export const userPreferencesSchema = z.object({
   budgetRange: z.object({
     min: z.number().positive(),
@@ -80,8 +722,233 @@ export const userPreferencesSchema = z.object({
   preferredLocations: z.array(z.string()),
   businessSize: z.string(),
   riskTolerance: z.string(),
-  involvementLevel: z.string()
+  involvementLevel: z.string(),
+  weightsProfile: scoringWeightsProfileSchema.optional()
+});
+
+export type PreferenceLevel = 'low' | 'medium' | 'high';
+export type BusinessSize = 'small' | 'medium' | 'large';
+
+// Onboarding stores low/medium/high; older data and the demo user use the descriptive names
+const riskToleranceAliases: Record<string, PreferenceLevel> = {
+  low: 'low', conservative: 'low',
+  medium: 'medium', moderate: 'medium',
+  high: 'high', aggressive: 'high'
+};
+
+const involvementAliases: Record<string, PreferenceLevel> = {
+  low: 'low', 'hands-off': 'low', passive: 'low',
+  medium: 'medium',
+  high: 'high', 'hands-on': 'high'
+};
+
+// Unknown values and "any" mean no preference
+export function normalizeRiskTolerance(value: unknown): PreferenceLevel | undefined {
+  return typeof value === 'string' ? riskToleranceAliases[value.toLowerCase()] : undefined;
+}
+
+export function normalizeInvolvement(value: unknown): PreferenceLevel | undefined {
+  return typeof value === 'string' ? involvementAliases[value.toLowerCase()] : undefined;
+}
+
+// Query-string helpers: blanks and "any" drop the filter, lists may be repeated params or comma-separated
+const isUnset = (value: unknown) =>
+  value === undefined || value === null || value === '' || (typeof value === 'string' && /^any( location)?$/i.test(value.trim()));
+
+const queryNumber = z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().min(0).optional());
+
+const queryText = z.preprocess(value => (isUnset(value) ? undefined : value), z.string().trim().max(200).optional());
+
+const queryList = z.preprocess(value => {
+  if (isUnset(value)) return undefined;
+  const items = (Array.isArray(value) ? value : String(value).split(','))
+    .map(item => String(item).trim())
+    .filter(item => item && !isUnset(item));
+  return items.length > 0 ? items : undefined;
+}, z.array(z.string().max(100)).max(50).optional());
+
+const queryLevel = (normalize: (value: unknown) => PreferenceLevel | undefined) =>
+  z.preprocess(value => (isUnset(value) ? undefined : normalize(value) ?? value), z.enum(['low', 'medium', 'high']).optional());
+
+const rangeIsOrdered = (min?: number, max?: number) => min === undefined || max === undefined || min <= max;
+
+// Older clients sent a single `industry`, and `q` for the text query
+const normalizeLegacySearchParams = (value: unknown) => {
+  if (!value || typeof value !== 'object') return value;
+  const { industry, q, ...rest } = value as Record<string, unknown>;
+  return {
+    ...rest,
+    ...(industry !== undefined && !('industries' in rest) ? { industries: industry } : {}),
+    ...(q !== undefined && !('query' in rest) ? { query: q } : {})
+  };
+};
+
+// Every filter the search UI offers; all optional, and omitted filters match everything
+const searchFilterFields = {
+  query: queryText,
+  location: queryText,
+  // A gazetteer city ("Austin, TX") or "lat,lng"; results carry their distance from it
+  near: queryText,
+  radiusMiles: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().positive().max(3000).optional()),
+  industries: queryList,
+  minPrice: queryNumber,
+  maxPrice: queryNumber,
+  minRevenue: queryNumber,
+  maxRevenue: queryNumber,
+  minEmployees: queryNumber,
+  maxEmployees: queryNumber,
+  yearEstablished: queryNumber, // established in or after
+  maxYearEstablished: queryNumber, // established in or before
+  businessSize: z.preprocess(value => (isUnset(value) ? undefined : value), z.enum(['small', 'medium', 'large']).optional()),
+  // Tolerance is an upper bound: "medium" matches low- and medium-risk listings
+  riskTolerance: queryLevel(normalizeRiskTolerance),
+  involvement: queryLevel(normalizeInvolvement),
+  // Payback years = asking price / annual cash flow
+  minPaybackYears: queryNumber,
+  maxPaybackYears: queryNumber
+};
+
+const orderedRanges = [
+  ['minPrice', 'maxPrice'],
+  ['minRevenue', 'maxRevenue'],
+  ['minEmployees', 'maxEmployees'],
+  ['minPaybackYears', 'maxPaybackYears'],
+  ['yearEstablished', 'maxYearEstablished']
+] as const;
+
+type SearchFilterValues = { [K in (typeof orderedRanges)[number][number] | 'radiusMiles']?: number } & { near?: string };
+
+const checkSearchFilters = (query: SearchFilterValues, ctx: z.RefinementCtx) => {
+  for (const [min, max] of orderedRanges) {
+    if (!rangeIsOrdered(query[min], query[max])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${min} must not exceed ${max}`, path: [min] });
+    }
+  }
+  if (query.radiusMiles !== undefined && !query.near) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'radiusMiles needs a near location', path: ['radiusMiles'] });
+  }
+};
+
+export const businessSearchQuerySchema = z.preprocess(
+  normalizeLegacySearchParams,
+  z.object(searchFilterFields).superRefine(checkSearchFilters)
+);
+
+export const businessSortFields = ['blended', 'relevance', 'score', 'askingPrice', 'annualRevenue', 'cashFlow', 'yearEstablished', 'paybackYears', 'newest', 'distance'] as const;
+export type BusinessSortField = typeof businessSortFields[number];
+
+export const SEARCH_PAGE_SIZE = 20;
+export const SEARCH_MAX_PAGE_SIZE = 100;
+
+// Canonical search request: the filters plus sorting and offset pagination
+export const businessSearchRequestSchema = z.preprocess(
+  normalizeLegacySearchParams,
+  z.object({
+    ...searchFilterFields,
+    // blended mixes text relevance with the compatibility score; it is plain score order without a query
+    sortBy: z.preprocess(value => (isUnset(value) ? undefined : value), z.enum(businessSortFields).default('blended')),
+    // Defaults to the natural direction of the field - best match, lowest price, newest listing first
+    sortOrder: z.preprocess(value => (isUnset(value) ? undefined : value), z.enum(['asc', 'desc']).optional()),
+    limit: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().int().min(1).max(SEARCH_MAX_PAGE_SIZE).default(SEARCH_PAGE_SIZE)),
+    offset: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().int().min(0).default(0)),
+    // Opaque token from a previous response's nextCursor; takes precedence over offset
+    cursor: queryText
+  }).superRefine(checkSearchFilters)
+);
+
+export const autocompleteQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().int().min(1).max(20).default(8))
+});
+
+export const scoringPreviewSchema = z.object({
+  weightsProfile: scoringWeightsProfileSchema,
+  // The search the user is looking at; its current order is compared with the preview order
+  filters: businessSearchQuerySchema.default({})
+});
+
+const savedSearchName = z.string().trim().min(1).max(100);
+
+const alertMinScore = z.number().int().min(0).max(100).nullable();
+
+export const savedSearchInputSchema = z.object({
+  name: savedSearchName,
+  // Same params as GET /api/businesses takes, minus sorting and paging
+  filters: businessSearchQuerySchema.default({}),
+  alertMinScore: alertMinScore.default(DEFAULT_ALERT_MIN_SCORE)
+});
+
+export const savedSearchUpdateSchema = z.object({
+  name: savedSearchName.optional(),
+  alertMinScore: alertMinScore.optional()
+}).refine(update => update.name !== undefined || update.alertMinScore !== undefined, 'Nothing to update - pass name or alertMinScore');
+
+export const notificationsQuerySchema = z.object({
+  unreadOnly: z.preprocess(value => (isUnset(value) ? undefined : value), z.enum(['true', 'false']).transform(value => value === 'true').default('false')),
+  limit: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().int().min(1).max(100).default(20))
+});
+
+export const searchHistoryQuerySchema = z.object({
+  limit: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().int().min(1).max(100).default(20)),
+  offset: z.preprocess(value => (isUnset(value) ? undefined : value), z.coerce.number().int().min(0).default(0))
+});
+
+export const importPreviewQuerySchema = z.object({
+  fileName: z.string().trim().min(1).max(255)
+});
+
+// Query of POST /api/admin/imports - the file itself is the request body. mapping is sent as mapping[askingPrice]=Price;
+// sourceSite fills in the source for rows when no column is mapped to it.
+export const importQuerySchema = importPreviewQuerySchema.extend({
+  dryRun: z.preprocess(value => (isUnset(value) ? undefined : value), z.enum(['true', 'false']).transform(value => value === 'true').default('false')),
+  sourceSite: z.string().trim().max(100).optional(),
+  mapping: z.record(z.enum(importFields), z.string().min(1)).default({})
+});
+
+export const duplicateGroupsQuerySchema = z.object({
+  status: z.enum(['pending', 'confirmed']).optional()
+});
+
+// Confirms a group, optionally making another of its listings the canonical one
+export const duplicateConfirmSchema = z.object({
+  canonicalId: z.string().min(1).optional()
+});
+
+// Takes listings out of a group, as not the same business as the ones left in it
+export const duplicateSplitSchema = z.object({
+  businessIds: z.array(z.string().min(1)).min(1)
+});
+
+export const notificationUpdateSchema = z.object({
+  read: z.boolean()
+});
+
+export const digestSettingsSchema = z.object({
+  frequency: z.enum(digestFrequencies)
+});
+
+export const signupSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  username: z.string().trim().min(3).max(64).regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8).max(128)
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1)
 });
 
 export type BusinessInsert = z.infer<typeof businessInsertSchema>;
-export type UserPreferencesInsert = z.infer<typeof userPreferencesSchema>;
\ No newline at end of file
+export type UserPreferencesInsert = z.infer<typeof userPreferencesSchema>;
+export type SignupInput = z.infer<typeof signupSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type ScoringPreviewInput = z.infer<typeof scoringPreviewSchema>;
+export type SavedSearchInput = z.infer<typeof savedSearchInputSchema>;
+export type SavedSearchUpdate = z.infer<typeof savedSearchUpdateSchema>;
+export type NotificationsQuery = z.infer<typeof notificationsQuerySchema>;
+export type SearchHistoryQuery = z.infer<typeof searchHistoryQuerySchema>;
+export type DigestSettingsInput = z.infer<typeof digestSettingsSchema>;
+export type ImportQuery = z.infer<typeof importQuerySchema>;
+export type BusinessSearchQuery = z.infer<typeof businessSearchQuerySchema>;
+export type BusinessSearchRequest = z.infer<typeof businessSearchRequestSchema>;
+
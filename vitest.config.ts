@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Server and shared-code tests; the client build config (vite.config.ts) roots at client/ and isn't used here
+export default defineConfig({
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Postgres suites (TEST_DATABASE_URL) share one database; keep files from racing on it
+    fileParallelism: false,
+  },
+});